@@ -0,0 +1,40 @@
+// Service worker for web push notifications. Pushes are sent by the
+// send-push edge function as JSON: { title, body, url, tag }.
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (e) {
+    payload = { title: 'Task Loop', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Task Loop', {
+      body: payload.body || undefined,
+      icon: '/favicon.ico',
+      // Pushes with the same tag (e.g. messages in one chat) replace each other
+      tag: payload.tag || undefined,
+      renotify: !!payload.tag,
+      data: { url: payload.url || '/home' },
+    })
+  );
+});
+
+// Focus an open Task Loop tab on the notification's page, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/home', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
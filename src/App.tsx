@@ -6,16 +6,19 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./context/AuthContext";
+import RealtimeSync from "./components/RealtimeSync";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import LandingPage from "./pages/LandingPage";
 import Leaderboard from "./pages/Leaderboard";
 import Index from "./pages/Index";
 import Profile from "./pages/Profile";
+import PublicProfile from "./pages/PublicProfile";
 import Task from "./pages/Task";
 import Chat from "./pages/Chat";
 import History from "./pages/History";
 import ForgotPassword from "./pages/ForgotPassword";
+import Admin from "./pages/Admin";
 
 // Create a client
 const queryClient = new QueryClient();
@@ -24,6 +27,7 @@ const App: React.FC = () => {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <RealtimeSync />
         <TooltipProvider>
           <Toaster />
           <Sonner />
@@ -36,9 +40,11 @@ const App: React.FC = () => {
               <Route path="/home" element={<Index />} />
               <Route path="/leaderboard" element={<Leaderboard />} />
               <Route path="/profile" element={<Profile />} />
+              <Route path="/u/:username" element={<PublicProfile />} />
               <Route path="/task" element={<Task />} />
               <Route path="/chat" element={<Chat />} />
               <Route path="/history" element={<History />} />
+              <Route path="/admin" element={<Admin />} />
               <Route path="*" element={<Navigate to="/" />} />
             </Routes>
           </BrowserRouter>
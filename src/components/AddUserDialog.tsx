@@ -6,9 +6,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Search } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { profilesRepo } from '@/lib/repositories';
 import MaskedUsername from './MaskedUsername';
+import { useBlockedUsers } from '@/hooks/use-blocks';
 
 interface AddUserDialogProps {
   open: boolean;
@@ -26,6 +26,7 @@ const AddUserDialog = ({
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [searchPerformed, setSearchPerformed] = useState(false);
   const { toast } = useToast();
+  const { blockedUsers } = useBlockedUsers();
 
   const handleSearch = async () => {
     if (!searchTerm.trim()) {
@@ -41,17 +42,13 @@ const AddUserDialog = ({
     setSearchPerformed(true);
     
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, username, avatar_url')
-        .ilike('username', `%${searchTerm}%`)
-        .limit(5);
-        
-      if (error) throw error;
+      // Leave out anyone on the user's block list
+      const data = (await profilesRepo.searchByUsername(`%${searchTerm}%`, 5))
+        .filter(profile => !blockedUsers.some(blocked => blocked.userId === profile.id));
       
-      setSearchResults(data || []);
+      setSearchResults(data);
       
-      if (data?.length === 0) {
+      if (data.length === 0) {
         toast({
           title: "No Results",
           description: "No users found with that username",
@@ -5,8 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { blocksRepo, chatsRepo, profilesRepo } from '@/lib/repositories';
 import { useAuth } from '@/context/AuthContext';
 import { UserPlus } from 'lucide-react';
 
@@ -28,13 +27,7 @@ const AddUserToChat: React.FC<AddUserToChatProps> = ({ onUserAdded }) => {
       setIsSearching(true);
       
       // Search for user with the provided username
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, username')
-        .ilike('username', username.trim())
-        .limit(1);
-        
-      if (profileError) throw profileError;
+      const profileData = await profilesRepo.searchByUsername(username.trim(), 1);
       
       if (!profileData || profileData.length === 0) {
         toast({
@@ -47,54 +40,31 @@ const AddUserToChat: React.FC<AddUserToChatProps> = ({ onUserAdded }) => {
       
       const targetUser = profileData[0];
       
-      // Check if a chat already exists with this user
-      const { data: existingChat, error: chatError } = await extendedSupabase
-        .from('chats')
-        .select('*')
-        .or(`and(user1_id.eq.${user.id},user2_id.eq.${targetUser.id}),and(user1_id.eq.${targetUser.id},user2_id.eq.${user.id})`)
-        .limit(1);
-        
-      if (chatError) throw chatError;
+      if (await blocksRepo.hasBlocked(user.id, targetUser.id)) {
+        toast({
+          title: "Can't Message User",
+          description: "You blocked this user. Unblock them to send messages.",
+          variant: "destructive"
+        });
+        return;
+      }
       
-      let chatId: string;
+      // Use the existing chat with this user, or create one
+      const { id: chatId, created } = await chatsRepo.findOrCreate(user.id, targetUser.id);
       
-      if (existingChat && existingChat.length > 0) {
-        // Use existing chat
-        chatId = existingChat[0].id;
-        
+      if (!created) {
         toast({
           title: "Chat exists",
           description: "You already have a chat with this user."
         });
       } else {
-        // Create a new chat
-        const { data: newChat, error: createError } = await extendedSupabase
-          .from('chats')
-          .insert({
-            user1_id: user.id,
-            user2_id: targetUser.id
-          })
-          .select()
-          .single();
-          
-        if (createError) throw createError;
-        
-        if (!newChat) {
-          throw new Error('Failed to create chat');
-        }
-        
-        chatId = newChat.id;
-        
         // Send an initial greeting message
-        await supabase
-          .from('messages')
-          .insert({
-            chat_id: chatId,
-            sender_id: user.id,
-            receiver_id: targetUser.id,
-            content: `Hi ${targetUser.username}, I'd like to chat with you.`,
-            read: false
-          });
+        await chatsRepo.sendMessage({
+          chatId,
+          senderId: user.id,
+          receiverId: targetUser.id,
+          content: `Hi ${targetUser.username}, I'd like to chat with you.`
+        });
           
         toast({
           title: "Chat created",
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+interface AdminActionDialogProps {
+  trigger: React.ReactNode;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  reasonLabel?: string;
+  reasonRequired?: boolean;
+  destructive?: boolean;
+  isBusy?: boolean;
+  onConfirm: (reason: string) => Promise<boolean>;
+}
+
+// Asks for the reason behind a moderation action; the reason ends up in the audit log
+const AdminActionDialog = ({
+  trigger,
+  title,
+  description,
+  confirmLabel,
+  reasonLabel = 'Reason',
+  reasonRequired = true,
+  destructive = false,
+  isBusy = false,
+  onConfirm
+}: AdminActionDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const handleConfirm = async () => {
+    if (await onConfirm(reason.trim())) {
+      setIsOpen(false);
+      setReason('');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-4">
+          <Label htmlFor="admin-action-reason">
+            {reasonLabel}{!reasonRequired && ' (optional)'}
+          </Label>
+          <Textarea
+            id="admin-action-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+          <Button
+            variant={destructive ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={(reasonRequired && !reason.trim()) || isBusy}
+          >
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdminActionDialog;
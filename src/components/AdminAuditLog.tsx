@@ -0,0 +1,66 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AuditLogEntryType } from '@/lib/types';
+import { useAuditLog } from '@/hooks/use-admin';
+
+const ACTION_LABELS: Record<string, string> = {
+  suspend_user: 'Suspended user',
+  unsuspend_user: 'Lifted suspension',
+  take_down_task: 'Took down task',
+  take_down_message: 'Took down message',
+  reset_ratings: 'Reset ratings',
+  action_report: 'Actioned report',
+  dismiss_report: 'Dismissed report',
+  run_maintenance: 'Ran maintenance',
+};
+
+// A short description of what the action touched, from the details the server recorded
+const describeTarget = (entry: AuditLogEntryType) => {
+  const { details } = entry;
+
+  if (typeof details.username === 'string') return details.username;
+  if (typeof details.title === 'string') return details.title;
+  if (typeof details.job === 'string') return `${details.job} (${details.affected ?? 0} rows)`;
+  if (typeof details.removed === 'number') return `${details.removed} ratings removed`;
+  return entry.targetType ? `${entry.targetType} ${entry.targetId?.slice(0, 8)}` : '—';
+};
+
+const AdminAuditLog = () => {
+  const { entries, isLoading } = useAuditLog();
+
+  if (isLoading) {
+    return <p className="text-muted-foreground py-10 text-center">Loading audit log...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground py-10 text-center">No admin actions yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Admin</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Target</TableHead>
+          <TableHead>Reason</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.id}>
+            <TableCell className="text-sm whitespace-nowrap">{format(entry.createdAt, 'MMM d, yyyy h:mm a')}</TableCell>
+            <TableCell className="text-sm">{entry.adminName}</TableCell>
+            <TableCell className="text-sm">{ACTION_LABELS[entry.action] || entry.action}</TableCell>
+            <TableCell className="text-sm">{describeTarget(entry)}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">{entry.reason || '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default AdminAuditLog;
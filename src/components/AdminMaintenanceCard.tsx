@@ -0,0 +1,57 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MaintenanceJob } from '@/lib/types';
+import { useAdminActions } from '@/hooks/use-admin';
+
+const JOBS: { job: MaintenanceJob; title: string; description: string }[] = [
+  {
+    job: 'expire_overdue_tasks',
+    title: 'Expire overdue tasks',
+    description: 'Expires tasks past their deadline that were never completed and refunds their rewards. Replaces the old delete_expired_tasks job.',
+  },
+  {
+    job: 'spawn_recurring_tasks',
+    title: 'Post recurring tasks',
+    description: 'Posts the next instance of repeating tasks that are done or past their deadline, unless the creator already has 3 active tasks.',
+  },
+  {
+    job: 'recompute_all_user_ratings',
+    title: 'Recompute ratings',
+    description: 'Rebuilds the rating averages and counts of every user from the ratings table. New ratings keep them current on their own; run this to repair drift.',
+  },
+  {
+    job: 'truncate_task_application_cache',
+    title: 'Clear stale applications',
+    description: 'Marks pending applications older than 14 days as expired and deletes those older than 30 days.',
+  },
+];
+
+// Runs the scheduled jobs on demand; each run is recorded in the audit log
+const AdminMaintenanceCard = () => {
+  const { runMaintenance, isRunningMaintenance } = useAdminActions();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Maintenance</CardTitle>
+        <CardDescription>These jobs also run on a schedule when pg_cron is enabled.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {JOBS.map(({ job, title, description }) => (
+          <div key={job} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div>
+              <p className="font-medium">{title}</p>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <Button variant="outline" onClick={() => runMaintenance(job)} disabled={isRunningMaintenance}>
+              Run Now
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminMaintenanceCard;
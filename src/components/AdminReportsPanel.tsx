@@ -0,0 +1,126 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import AdminActionDialog from '@/components/AdminActionDialog';
+import { ReportStatus, ReportTargetType, ReportType } from '@/lib/types';
+import { useAdminActions, useAdminReports } from '@/hooks/use-admin';
+
+interface AdminReportsPanelProps {
+  status: ReportStatus;
+}
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  task: 'Task',
+  message: 'Message',
+  profile: 'Profile',
+};
+
+// The moderation queue: what was reported, by whom, and the actions that fit it
+const AdminReportsPanel = ({ status }: AdminReportsPanelProps) => {
+  const { reports, isLoading } = useAdminReports(status);
+  const { takeDownTask, takeDownMessage, resolveReport, isBusy } = useAdminActions();
+
+  // Taking the content down closes the report as actioned with the same reason
+  const takeDown = async (report: ReportType, reason: string) => {
+    const removed = report.targetType === 'task'
+      ? await takeDownTask(report.targetId, reason)
+      : await takeDownMessage(report.targetId, reason);
+
+    return removed && resolveReport(report.id, 'actioned', reason);
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground py-10 text-center">Loading reports...</p>;
+  }
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-muted-foreground py-10 text-center">
+        {status === 'open' ? 'No open reports.' : 'No closed reports yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {reports.map(report => (
+        <Card key={report.id}>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-base">
+                  {TARGET_LABELS[report.targetType]}: {report.targetPreview || 'Deleted content'}
+                </CardTitle>
+                <CardDescription>
+                  {report.targetOwnerName && `By ${report.targetOwnerName} · `}
+                  Reported by {report.reporterName} on {format(report.createdAt, 'MMM d, yyyy h:mm a')}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {report.isTargetRemoved && (
+                  <Badge variant="secondary">{report.targetType === 'profile' ? 'Suspended' : 'Removed'}</Badge>
+                )}
+                {report.status !== 'open' && (
+                  <Badge variant="outline">{report.status === 'actioned' ? 'Actioned' : 'Dismissed'}</Badge>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p><span className="font-medium">{report.reason}</span></p>
+            {report.details && <p className="text-muted-foreground">{report.details}</p>}
+            {report.resolutionNote && (
+              <p className="text-muted-foreground">
+                Closed {report.resolvedAt && format(report.resolvedAt, 'MMM d, yyyy')}: {report.resolutionNote}
+              </p>
+            )}
+          </CardContent>
+          {report.status === 'open' && (
+            <CardFooter className="gap-2 justify-end">
+              <AdminActionDialog
+                trigger={<Button variant="outline" size="sm">Dismiss</Button>}
+                title="Dismiss this report?"
+                description="Nothing is changed; the report is closed."
+                confirmLabel="Dismiss"
+                reasonLabel="Note"
+                reasonRequired={false}
+                isBusy={isBusy}
+                onConfirm={(note) => resolveReport(report.id, 'dismissed', note)}
+              />
+              {report.targetType === 'profile' || report.isTargetRemoved ? (
+                <AdminActionDialog
+                  trigger={<Button variant="outline" size="sm">Mark Actioned</Button>}
+                  title="Close this report as actioned?"
+                  description={report.targetType === 'profile'
+                    ? 'Use this once you have suspended the user or reset their ratings from the Users tab.'
+                    : 'The content has already been taken down.'}
+                  confirmLabel="Mark Actioned"
+                  reasonLabel="Note"
+                  reasonRequired={false}
+                  isBusy={isBusy}
+                  onConfirm={(note) => resolveReport(report.id, 'actioned', note)}
+                />
+              ) : (
+                <AdminActionDialog
+                  trigger={<Button variant="destructive" size="sm">Take Down</Button>}
+                  title={`Take down this ${report.targetType}?`}
+                  description={report.targetType === 'task'
+                    ? 'The task is cancelled if it can be, hidden from everyone but its parties, and the report is closed.'
+                    : 'The message content and attachment are cleared, and the report is closed.'}
+                  confirmLabel="Take Down"
+                  destructive
+                  isBusy={isBusy}
+                  onConfirm={(reason) => takeDown(report, reason)}
+                />
+              )}
+            </CardFooter>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default AdminReportsPanel;
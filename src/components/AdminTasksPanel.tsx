@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AdminActionDialog from '@/components/AdminActionDialog';
+import { TaskState } from '@/lib/types';
+import { TASK_STATES, TASK_STATE_LABELS } from '@/lib/task-state';
+import { useAdminActions, useAdminTasks } from '@/hooks/use-admin';
+
+const ALL_STATES = 'all';
+
+const AdminTasksPanel = () => {
+  const [search, setSearch] = useState('');
+  const [state, setState] = useState<TaskState | undefined>();
+  const { tasks, isLoading } = useAdminTasks(search, state);
+  const { takeDownTask, isBusy } = useAdminActions();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Search by title or description"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Select
+          value={state ?? ALL_STATES}
+          onValueChange={(value) => setState(value === ALL_STATES ? undefined : value as TaskState)}
+        >
+          <SelectTrigger className="sm:w-[200px]">
+            <SelectValue placeholder="Any state" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATES}>Any state</SelectItem>
+            {TASK_STATES.map(value => (
+              <SelectItem key={value} value={value}>{TASK_STATE_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground py-10 text-center">Loading tasks...</p>
+      ) : tasks.length === 0 ? (
+        <p className="text-muted-foreground py-10 text-center">No tasks found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Task</TableHead>
+              <TableHead>Parties</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead>Reports</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tasks.map(task => (
+              <TableRow key={task.id}>
+                <TableCell>
+                  <p className="font-medium">{task.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    ₹{task.reward} · Posted {format(task.createdAt, 'MMM d, yyyy')}
+                  </p>
+                  {task.removalReason && (
+                    <p className="text-xs text-destructive">Removed: {task.removalReason}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {task.creatorName}{task.doerName && ` → ${task.doerName}`}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{TASK_STATE_LABELS[task.state]}</Badge>
+                </TableCell>
+                <TableCell>
+                  {task.openReports > 0 ? <Badge variant="destructive">{task.openReports} open</Badge> : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!task.removedAt && (
+                    <AdminActionDialog
+                      trigger={<Button variant="outline" size="sm" disabled={task.state === 'disputed'}>Take Down</Button>}
+                      title={`Take down "${task.title}"?`}
+                      description="Tasks that have not reached verification are cancelled and the reward refunded. The task is hidden from everyone but its creator and doer, and the creator sees the reason you give."
+                      confirmLabel="Take Down"
+                      destructive
+                      isBusy={isBusy}
+                      onConfirm={(reason) => takeDownTask(task.id, reason)}
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default AdminTasksPanel;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AdminActionDialog from '@/components/AdminActionDialog';
+import { useAdminActions, useAdminUsers } from '@/hooks/use-admin';
+
+const AdminUsersPanel = () => {
+  const [search, setSearch] = useState('');
+  const { users, isLoading } = useAdminUsers(search);
+  const { setSuspension, resetRatings, isBusy } = useAdminActions();
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-9"
+          placeholder="Search by username or name"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground py-10 text-center">Loading users...</p>
+      ) : users.length === 0 ? (
+        <p className="text-muted-foreground py-10 text-center">No users found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Ratings</TableHead>
+              <TableHead>Tasks</TableHead>
+              <TableHead>Reports</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map(user => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{user.username}</span>
+                    {user.role === 'admin' && <Badge variant="secondary">Admin</Badge>}
+                    {user.suspendedAt && <Badge variant="destructive">Suspended</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {user.fullName && `${user.fullName} · `}Joined {format(user.createdAt, 'MMM d, yyyy')}
+                  </p>
+                  {user.suspensionReason && (
+                    <p className="text-xs text-destructive">{user.suspensionReason}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  Doer {user.doerRating.toFixed(1)} · Creator {user.requestorRating.toFixed(1)}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {user.tasksCreated} created · {user.tasksDone} done
+                </TableCell>
+                <TableCell>
+                  {user.openReports > 0 ? <Badge variant="destructive">{user.openReports} open</Badge> : '—'}
+                </TableCell>
+                <TableCell className="text-right space-x-2 whitespace-nowrap">
+                  {user.role !== 'admin' && (user.suspendedAt ? (
+                    <AdminActionDialog
+                      trigger={<Button variant="outline" size="sm">Lift Suspension</Button>}
+                      title={`Lift ${user.username}'s suspension?`}
+                      description="They will be able to post, apply, message and rate again."
+                      confirmLabel="Lift Suspension"
+                      reasonLabel="Note"
+                      reasonRequired={false}
+                      isBusy={isBusy}
+                      onConfirm={(reason) => setSuspension(user, false, reason)}
+                    />
+                  ) : (
+                    <AdminActionDialog
+                      trigger={<Button variant="outline" size="sm">Suspend</Button>}
+                      title={`Suspend ${user.username}?`}
+                      description="They keep read access and can finish tasks already under way, but cannot post, apply, message or rate. They will see the reason you give."
+                      confirmLabel="Suspend"
+                      destructive
+                      isBusy={isBusy}
+                      onConfirm={(reason) => setSuspension(user, true, reason)}
+                    />
+                  ))}
+                  <AdminActionDialog
+                    trigger={<Button variant="outline" size="sm">Reset Ratings</Button>}
+                    title={`Reset ${user.username}'s ratings?`}
+                    description="Every rating they received is deleted and both averages go back to zero. This cannot be undone."
+                    confirmLabel="Reset Ratings"
+                    destructive
+                    isBusy={isBusy}
+                    onConfirm={(reason) => resetRatings(user.id, reason)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default AdminUsersPanel;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useBlockActions } from '@/hooks/use-blocks';
+
+interface BlockUserDialogProps {
+  trigger: React.ReactNode;
+  userId: string;
+  username: string;
+  onBlocked?: () => void;
+}
+
+// Confirms blocking a user, spelling out what the block does
+const BlockUserDialog = ({ trigger, userId, username, onBlocked }: BlockUserDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { blockUser, isBusy } = useBlockActions();
+
+  const handleBlock = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the block has gone through
+    e.preventDefault();
+
+    if (await blockUser(userId, username)) {
+      setIsOpen(false);
+      onBlocked?.();
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogTrigger asChild>{trigger}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Block {username}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You won't see each other's tasks or applications, and neither of you will be able to
+            start a chat or send messages. Tasks you are already working on together are not affected.
+            You can unblock them from your profile at any time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleBlock}
+            disabled={isBusy}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Block
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BlockUserDialog;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { useBlockActions, useBlockedUsers } from '@/hooks/use-blocks';
+
+const BlockedUsersCard = () => {
+  const { blockedUsers, isLoading } = useBlockedUsers();
+  const { unblockUser, isBusy } = useBlockActions();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Blocked Users</CardTitle>
+        <CardDescription>
+          You and the people you block don't see each other's tasks or applications and can't message each other.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : blockedUsers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't blocked anyone.</p>
+        ) : (
+          blockedUsers.map(blocked => (
+            <div key={blocked.userId} className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={blocked.avatarUrl || undefined} alt={blocked.username} />
+                  <AvatarFallback>{blocked.username.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{blocked.username}</p>
+                  <p className="text-xs text-muted-foreground">Blocked {format(blocked.blockedAt, 'MMM d, yyyy')}</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => unblockUser(blocked.userId, blocked.username)}
+                disabled={isBusy}
+              >
+                Unblock
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlockedUsersCard;
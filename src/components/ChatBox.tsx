@@ -2,7 +2,7 @@ import React, { useState, useRef, useEffect } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Paperclip, Send, File, X, Loader2 } from "lucide-react";
+import { Paperclip, Send, File, X, Loader2, Flag, Ban } from "lucide-react";
 import { format } from "date-fns";
 import { ChatType, MessageType, FileAttachment } from "@/lib/types";
 import FileAttachmentDisplay from "./FileAttachment";
@@ -13,8 +13,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { supabase } from "@/integrations/supabase/client";
+import { chatsRepo, profilesRepo } from "@/lib/repositories";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { useBlockActions, useBlockStatus } from "@/hooks/use-blocks";
+import ReportDialog from "./ReportDialog";
+import BlockUserDialog from "./BlockUserDialog";
 import {
   Dialog,
   DialogContent,
@@ -27,7 +31,6 @@ interface ChatBoxProps {
   messages: MessageType[];
   onSendMessage: (content: string, attachment?: FileAttachment) => void;
   isSending?: boolean;
-  refreshMessages?: () => void;
 }
 
 const ChatBox = ({
@@ -35,12 +38,10 @@ const ChatBox = ({
   messages,
   onSendMessage,
   isSending = false,
-  refreshMessages,
 }: ChatBoxProps) => {
   const [newMessage, setNewMessage] = useState("");
   const [filePreview, setFilePreview] = useState<FileAttachment | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [localMessages, setLocalMessages] = useState<MessageType[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
@@ -48,11 +49,10 @@ const ChatBox = ({
   const [openPreviewDialog, setOpenPreviewDialog] = useState(false);
   const [previewFile, setPreviewFile] = useState<FileAttachment | null>(null);
   const [userAvatars, setUserAvatars] = useState<{ [key: string]: string }>({}); // Added state for avatars
+  const { isBlockedByMe } = useBlockStatus(chat.participantId);
+  const { unblockUser, isBusy: isUnblocking } = useBlockActions();
 
-  // Update local messages when props messages change
   useEffect(() => {
-    setLocalMessages(messages);
-
     // Scroll to bottom when messages are loaded or chat changes
     setTimeout(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -61,53 +61,24 @@ const ChatBox = ({
 
   useEffect(() => {
     const fetchAvatars = async () => {
-      if (localMessages.length > 0) {
-        const userIds = [...new Set(localMessages.map(msg => msg.senderId))];
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('id, avatar_url')
-          .in('id', userIds);
-
-        if (data) {
-          const avatarMap: { [key: string]: string } = {};
-          data.forEach(profile => {
-            avatarMap[profile.id] = profile.avatar_url || '';
-          });
-          setUserAvatars(avatarMap);
-        }
-        if (error) {
-          console.error("Error fetching avatars:", error);
-        }
+      if (messages.length > 0) {
+        const profiles = await profilesRepo.getMany(messages.map(msg => msg.senderId));
+        const avatarMap: { [key: string]: string } = {};
+        profiles.forEach(profile => {
+          avatarMap[profile.id] = profile.avatarUrl || '';
+        });
+        setUserAvatars(avatarMap);
       }
     };
     fetchAvatars();
-  }, [localMessages]);
+  }, [messages]);
 
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (newMessage.trim() || filePreview) {
-      // Add message to local state immediately for better UX
-      if (user) {
-        const optimisticMessage: MessageType = {
-          id: `temp-${Date.now()}`,
-          senderId: user.id,
-          senderName: user.email?.split("@")[0] || "Me",
-          receiverId: chat.participantId,
-          content: newMessage,
-          timestamp: new Date(),
-          read: false,
-          attachment: filePreview || undefined,
-          isOptimistic: true,
-        };
-
-        setLocalMessages((prevMessages) => [
-          ...prevMessages,
-          optimisticMessage,
-        ]);
-      }
-
+      // The message shows up straight away while it is being sent (see useSendMessage)
       try {
         // Ensure the filePreview is properly structured before sending
         let attachmentToSend = undefined;
@@ -359,110 +330,21 @@ const ChatBox = ({
   // Mark messages as read
   useEffect(() => {
     const markMessagesAsRead = async () => {
-      if (user && localMessages.length > 0 && chat.id) {
-        const unreadMessages = localMessages.filter(
+      if (user && messages.length > 0 && chat.id) {
+        const unreadMessages = messages.filter(
           (msg) => !msg.read && msg.senderId !== user.id && !msg.isOptimistic,
         );
 
         if (unreadMessages.length > 0) {
           const messageIds = unreadMessages.map((msg) => msg.id);
 
-          await supabase
-            .from("messages")
-            .update({ read: true })
-            .in("id", messageIds);
+          await chatsRepo.markRead(messageIds);
         }
       }
     };
 
     markMessagesAsRead();
-  }, [localMessages, user, chat.id]);
-
-  // Set up real-time message subscription
-  useEffect(() => {
-    if (!chat.id) return;
-
-    const channel = supabase
-      .channel(`chat-messages-${chat.id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `chat_id=eq.${chat.id}`,
-        },
-        async (payload) => {
-          console.log("New message received:", payload);
-
-          // If this message was from another user, add it to our local state
-          if (payload.new && payload.new.sender_id !== user?.id) {
-            // Fetch sender info
-            const { data: senderData } = await supabase
-              .from("profiles")
-              .select("username")
-              .eq("id", payload.new.sender_id)
-              .single();
-
-            let attachment: FileAttachment | undefined = undefined;
-
-            if (payload.new.attachment) {
-              try {
-                const parsedAttachment =
-                  typeof payload.new.attachment === "string"
-                    ? JSON.parse(payload.new.attachment)
-                    : payload.new.attachment;
-
-                attachment = {
-                  id: parsedAttachment.id || `file-${Date.now()}`,
-                  name: parsedAttachment.name,
-                  type: parsedAttachment.type,
-                  url: parsedAttachment.url,
-                  size: parsedAttachment.size,
-                };
-              } catch (e) {
-                console.error("Error parsing attachment:", e);
-              }
-            }
-
-            const newMessage: MessageType = {
-              id: payload.new.id,
-              senderId: payload.new.sender_id,
-              senderName: senderData?.username || "User",
-              receiverId: payload.new.receiver_id,
-              content: payload.new.content,
-              timestamp: new Date(payload.new.timestamp),
-              read: false,
-              attachment: attachment,
-            };
-
-            // Add to local state
-            setLocalMessages((prevMessages) => {
-              // Only update if message is not already in the list
-              const messageExists = prevMessages.some(m => m.id === newMessage.id);
-              if (!messageExists) {
-                // Filter out optimistic messages that match this one
-                const filtered = prevMessages.filter(
-                  (m) =>
-                    !(
-                      m.isOptimistic &&
-                      m.content === newMessage.content &&
-                      m.senderId === newMessage.senderId
-                    ),
-                );
-                return [...filtered, newMessage];
-              }
-              return prevMessages;
-            });
-          }
-        },
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [chat.id, user?.id]);
+  }, [messages, user, chat.id]);
 
   const renderMessage = (message: MessageType, index: number) => {
     const isCurrentUser = message.senderId === user?.id;
@@ -490,7 +372,9 @@ const ChatBox = ({
           {!isCurrentUser && (
             <p className="text-xs font-medium mb-1">{message.senderName}</p>
           )}
-          {message.content}
+          {message.removedAt ? (
+            <span className="italic opacity-70">This message was removed by a moderator.</span>
+          ) : message.content}
 
           {/* Only show attachment section if there is an attachment with valid properties */}
           {message.attachment && message.attachment.url && (
@@ -533,8 +417,20 @@ const ChatBox = ({
               )}
             </div>
           )}
-          <div className="text-xs text-right mt-1 opacity-70">
-            {formattedTime}
+          <div className="text-xs flex items-center justify-end gap-2 mt-1">
+            {!isCurrentUser && message.id && !message.isOptimistic && !message.removedAt && (
+              <ReportDialog
+                trigger={
+                  <button type="button" className="opacity-50 hover:opacity-100" aria-label="Report message">
+                    <Flag className="h-3 w-3" />
+                  </button>
+                }
+                targetType="message"
+                targetId={message.id}
+                targetLabel={`this message from ${message.senderName}`}
+              />
+            )}
+            <span className="opacity-70">{formattedTime}</span>
           </div>
         </div>
       </div>
@@ -557,11 +453,47 @@ const ChatBox = ({
           )}
         </Avatar>
         <h3 className="font-medium">{chat.participantName}</h3>
+        <div className="ml-auto flex items-center gap-1">
+          <ReportDialog
+            trigger={
+              <Button variant="ghost" size="sm" className="text-muted-foreground">
+                <Flag className="h-4 w-4 mr-1" />
+                Report
+              </Button>
+            }
+            targetType="profile"
+            targetId={chat.participantId}
+            targetLabel={chat.participantName}
+          />
+          {isBlockedByMe ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground"
+              onClick={() => unblockUser(chat.participantId, chat.participantName)}
+              disabled={isUnblocking}
+            >
+              <Ban className="h-4 w-4 mr-1" />
+              Unblock
+            </Button>
+          ) : (
+            <BlockUserDialog
+              trigger={
+                <Button variant="ghost" size="sm" className="text-muted-foreground">
+                  <Ban className="h-4 w-4 mr-1" />
+                  Block
+                </Button>
+              }
+              userId={chat.participantId}
+              username={chat.participantName}
+            />
+          )}
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {localMessages.length > 0 ? (
-          localMessages.map((message, index) => renderMessage(message, index))
+        {messages.length > 0 ? (
+          messages.map((message, index) => renderMessage(message, index))
         ) : (
           <div className="h-full flex items-center justify-center">
             <p className="text-muted-foreground">
@@ -572,83 +504,89 @@ const ChatBox = ({
         <div ref={messagesEndRef} />
       </div>
 
-      <form onSubmit={handleSendMessage} className="p-4 border-t">
-        {filePreview && (
-          <div className="mb-2 p-2 bg-muted rounded flex items-center justify-between">
-            <div className="flex items-center">
-              <File className="h-4 w-4 mr-2 text-blue-500" />
-              <span className="text-sm truncate max-w-[250px]">
-                {filePreview.name}
-              </span>
+      {isBlockedByMe ? (
+        <div className="p-4 border-t text-sm text-center text-muted-foreground">
+          You blocked {chat.participantName}. Unblock them to send messages.
+        </div>
+      ) : (
+        <form onSubmit={handleSendMessage} className="p-4 border-t">
+          {filePreview && (
+            <div className="mb-2 p-2 bg-muted rounded flex items-center justify-between">
+              <div className="flex items-center">
+                <File className="h-4 w-4 mr-2 text-blue-500" />
+                <span className="text-sm truncate max-w-[250px]">
+                  {filePreview.name}
+                </span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={handleRemoveFile}
+                disabled={isUploading || isSending}
+              >
+                <X className="h-4 w-4" />
+              </Button>
             </div>
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              className="h-6 w-6 p-0"
-              onClick={handleRemoveFile}
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              className="hidden"
+              accept="image/*,.pdf,.doc,.docx,.txt,.zip"
+            />
+
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="outline"
+                    onClick={handleFileSelect}
+                    disabled={isUploading || isSending}
+                  >
+                    {isUploading ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Paperclip className="h-4 w-4" />
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Attach file (image, PDF, DOC, TXT, ZIP)</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
+            <Input
+              value={newMessage}
+              onChange={(e) => setNewMessage(e.target.value)}
+              placeholder="Type a message..."
+              className="flex-1"
               disabled={isUploading || isSending}
+            />
+
+            <Button
+              type="submit"
+              size="icon"
+              disabled={
+                (!newMessage.trim() && !filePreview) || isUploading || isSending
+              }
             >
-              <X className="h-4 w-4" />
+              {isSending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
             </Button>
           </div>
-        )}
-
-        <div className="flex items-center gap-2">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleFileChange}
-            className="hidden"
-            accept="image/*,.pdf,.doc,.docx,.txt,.zip"
-          />
-
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  type="button"
-                  size="icon"
-                  variant="outline"
-                  onClick={handleFileSelect}
-                  disabled={isUploading || isSending}
-                >
-                  {isUploading ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Paperclip className="h-4 w-4" />
-                  )}
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Attach file (image, PDF, DOC, TXT, ZIP)</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-
-          <Input
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
-            className="flex-1"
-            disabled={isUploading || isSending}
-          />
-
-          <Button
-            type="submit"
-            size="icon"
-            disabled={
-              (!newMessage.trim() && !filePreview) || isUploading || isSending
-            }
-          >
-            {isSending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
-        </div>
-      </form>
+        </form>
+      )}
 
       {/* File Preview Dialog */}
       <Dialog open={openPreviewDialog} onOpenChange={setOpenPreviewDialog}>
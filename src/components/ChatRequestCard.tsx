@@ -6,8 +6,12 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Check, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import UserReviewsHoverCard from './UserReviewsHoverCard';
 
 interface ChatRequestCardProps {
+  // When set, hovering the name previews the user's ratings and reviews
+  userId?: string;
   username: string;
   image?: string;
   requestorRating?: number;
@@ -18,6 +22,7 @@ interface ChatRequestCardProps {
 }
 
 const ChatRequestCard = ({ 
+  userId,
   username, 
   image, 
   requestorRating, 
@@ -38,7 +43,13 @@ const ChatRequestCard = ({
               </AvatarFallback>
             </Avatar>
             <div>
-              <p className="font-medium">{username}</p>
+              {userId ? (
+                <UserReviewsHoverCard userId={userId}>
+                  <Link to={`/u/${encodeURIComponent(username)}`} className="font-medium hover:underline">{username}</Link>
+                </UserReviewsHoverCard>
+              ) : (
+                <p className="font-medium">{username}</p>
+              )}
               <p className="text-xs text-muted-foreground">
                 {format(new Date(timestamp), 'MMM d, yyyy • HH:mm')}
               </p>
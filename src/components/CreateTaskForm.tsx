@@ -6,13 +6,20 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { TaskType } from '@/lib/types';
+import { Coordinates, TaskRecurrence, TaskTemplateType, TaskType } from '@/lib/types';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon } from 'lucide-react';
+import { BookmarkPlus, CalendarIcon, Trash2 } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { usePointsSummary } from '@/hooks/use-points';
+import LocationPicker from './LocationPicker';
+import TagInput from './TagInput';
+import RecurrenceFields from './RecurrenceFields';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskCategories } from '@/hooks/use-categories';
+import { useTaskTemplates } from '@/hooks/use-task-templates';
 
 interface CreateTaskFormProps {
   onSubmit: (task: TaskType) => void;
@@ -20,6 +27,9 @@ interface CreateTaskFormProps {
 }
 
 const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
+  const { summary } = usePointsSummary();
+  const { categories } = useTaskCategories();
+  const { templates, saveTemplate, deleteTemplate, isSaving: isSavingTemplate } = useTaskTemplates();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -30,6 +40,15 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
     timeOfDay: '23:59' // Default to end of day
   });
   
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [categoryId, setCategoryId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null);
+  const [recurrenceEndsAt, setRecurrenceEndsAt] = useState<Date | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  
   const [wordCounts, setWordCounts] = useState({
     title: 0,
     description: 0,
@@ -60,7 +79,19 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
     }
   };
 
-  // Task type is always set to 'normal' by default
+  const handleTaskTypeChange = (value: string) => {
+    setFormData(prev => ({ ...prev, taskType: value as 'normal' | 'joint' }));
+  };
+
+  // Fills in an empty location field with the pinned place's address
+  const handleCoordinatesChange = (next: Coordinates | null, label?: string) => {
+    setCoordinates(next);
+
+    if (label && !formData.location.trim()) {
+      setFormData(prev => ({ ...prev, location: label }));
+      setWordCounts(prev => ({ ...prev, location: countWords(label) }));
+    }
+  };
 
   const handleDateSelect = (date: Date | undefined) => {
     if (date) {
@@ -68,6 +99,59 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
     }
   };
 
+  // Fills the form from a saved template; the deadline is always picked fresh
+  const handleTemplateSelect = (id: string) => {
+    const template = templates.find(candidate => candidate.id === id);
+    if (!template) return;
+
+    setTemplateId(id);
+    setFormData(prev => ({
+      ...prev,
+      title: template.title,
+      description: template.description,
+      location: template.location,
+      reward: template.reward,
+      taskType: template.taskType,
+    }));
+    setWordCounts({
+      title: countWords(template.title),
+      description: countWords(template.description),
+      location: countWords(template.location),
+    });
+    setCoordinates(template.coordinates);
+    setCategoryId(template.categoryId ?? '');
+    setTags(template.tags);
+    setRecurrence(template.recurrence);
+    setRecurrenceEndsAt(null);
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (await deleteTemplate(templateId)) {
+      setTemplateId('');
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const template: Omit<TaskTemplateType, 'id'> = {
+      name: templateName,
+      title: formData.title,
+      description: formData.description,
+      location: formData.location,
+      coordinates,
+      reward: Number(formData.reward),
+      taskType: formData.taskType,
+      categoryId: categoryId || null,
+      tags,
+      recurrence,
+    };
+
+    if (await saveTemplate(template)) {
+      setIsSaveTemplateOpen(false);
+    }
+  };
+
+  const exceedsBalance = !!summary && Number(formData.reward) > summary.balance;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -80,8 +164,13 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
     const newTask: TaskType = {
       id: `task-${Date.now()}`,
       ...formData,
+      coordinates,
+      categoryId,
+      tags,
+      recurrence,
+      recurrenceEndsAt,
       deadline: deadlineDate,
-      status: 'active',
+      state: 'open',
       createdAt: new Date(),
       creatorId: 'user1', // Would come from auth context in a real app
       creatorName: 'John Doe', // Would come from auth context in a real app
@@ -102,6 +191,29 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
       
       <ScrollArea className="h-[60vh] pr-4">
         <div className="grid gap-4 py-4">
+          {templates.length > 0 && (
+            <div className="grid gap-2">
+              <Label htmlFor="template">Start From a Template</Label>
+              <div className="flex items-center gap-2">
+                <Select value={templateId} onValueChange={handleTemplateSelect}>
+                  <SelectTrigger id="template">
+                    <SelectValue placeholder="Choose a saved task" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {templateId && (
+                  <Button type="button" variant="ghost" size="icon" onClick={handleDeleteTemplate} aria-label="Delete template">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+          
           <div className="grid gap-2">
             <div className="flex justify-between">
               <Label htmlFor="title">Task Title</Label>
@@ -145,6 +257,31 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
               placeholder="Where should this task be done (max 45 words)"
               required
             />
+            <LocationPicker
+              query={formData.location}
+              coordinates={coordinates}
+              onChange={handleCoordinatesChange}
+            />
+          </div>
+          
+          <div className="grid gap-2">
+            <Label htmlFor="category">Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger id="category">
+                <SelectValue placeholder="What kind of work is this?" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="grid gap-2">
+            <Label htmlFor="tags">Tags</Label>
+            <TagInput id="tags" value={tags} onChange={setTags} placeholder="e.g. plumbing, urgent (press Enter)" />
+            <p className="text-xs text-muted-foreground">Up to 10 tags. Users whose skills match them will see the task recommended.</p>
           </div>
           
           <div className="grid gap-2">
@@ -159,7 +296,14 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
               onChange={handleChange}
               required
             />
-            <p className="text-xs text-muted-foreground">Maximum reward: ₹5000</p>
+            <p className="text-xs text-muted-foreground">
+              Maximum reward: ₹5000{summary && ` · ₹${summary.balance.toLocaleString()} available`}
+            </p>
+            {exceedsBalance && (
+              <p className="text-xs text-destructive">
+                The reward is held from your points until the task is done, and you don't have enough.
+              </p>
+            )}
           </div>
           
           <div className="grid gap-2">
@@ -204,15 +348,77 @@ const CreateTaskForm = ({ onSubmit, onCancel }: CreateTaskFormProps) => {
             <p className="text-xs text-muted-foreground">Specify the exact time by which the task must be completed</p>
           </div>
           
-          {/* Task type selection removed as requested */}
+          <RecurrenceFields
+            recurrence={recurrence}
+            endsAt={recurrenceEndsAt}
+            minEndDate={formData.deadline}
+            onChange={(nextRecurrence, nextEndsAt) => {
+              setRecurrence(nextRecurrence);
+              setRecurrenceEndsAt(nextEndsAt);
+            }}
+          />
+          
+          <div className="grid gap-2">
+            <Label>Task Type</Label>
+            <RadioGroup
+              value={formData.taskType}
+              onValueChange={handleTaskTypeChange}
+              className="flex gap-6"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="normal" id="task-type-normal" />
+                <Label htmlFor="task-type-normal" className="font-normal">Normal</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="joint" id="task-type-joint" />
+                <Label htmlFor="task-type-joint" className="font-normal">Joint</Label>
+              </div>
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              Joint tasks let other users add their own needs and share of the reward before a doer is assigned
+            </p>
+          </div>
         </div>
       </ScrollArea>
       
       <DialogFooter className="mt-6">
+        <Popover
+          open={isSaveTemplateOpen}
+          onOpenChange={(open) => {
+            setIsSaveTemplateOpen(open);
+            if (open) setTemplateName(formData.title.slice(0, 60));
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button type="button" variant="ghost" className="sm:mr-auto" disabled={!formData.title.trim()}>
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+              Save as Template
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-2" align="start">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input
+              id="template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              maxLength={60}
+            />
+            <p className="text-xs text-muted-foreground">Saving under an existing name replaces that template.</p>
+            <Button
+              type="button"
+              size="sm"
+              className="w-full"
+              onClick={handleSaveTemplate}
+              disabled={!templateName.trim() || isSavingTemplate}
+            >
+              {isSavingTemplate ? 'Saving...' : 'Save Template'}
+            </Button>
+          </PopoverContent>
+        </Popover>
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
         </Button>
-        <Button type="submit">Create Task</Button>
+        <Button type="submit" disabled={exceedsBalance || !categoryId}>Create Task</Button>
       </DialogFooter>
     </form>
   );
@@ -0,0 +1,55 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useDisputeAttachments } from '@/hooks/use-disputes';
+
+interface DisputeAttachmentPickerProps {
+  partnerId: string;
+  selectedIds: string[];
+  onChange: (messageIds: string[]) => void;
+  // Messages already attached to the dispute are not offered again
+  excludeIds?: string[];
+}
+
+// Lets a party pick files from their chat with the other party as dispute evidence
+const DisputeAttachmentPicker = ({ partnerId, selectedIds, onChange, excludeIds = [] }: DisputeAttachmentPickerProps) => {
+  const { attachments, isLoading } = useDisputeAttachments(partnerId);
+  const available = attachments.filter(message => !excludeIds.includes(message.id));
+
+  const toggle = (messageId: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, messageId] : selectedIds.filter(id => id !== messageId));
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading chat attachments...</p>;
+  }
+
+  if (available.length === 0) {
+    return <p className="text-sm text-muted-foreground">No files from your chat to attach.</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-40 overflow-y-auto">
+      {available.map(message => (
+        <div key={message.id} className="flex items-center gap-2">
+          <Checkbox
+            id={`evidence-${message.id}`}
+            checked={selectedIds.includes(message.id)}
+            onCheckedChange={(checked) => toggle(message.id, checked === true)}
+          />
+          <Label htmlFor={`evidence-${message.id}`} className="flex items-center gap-1 text-sm font-normal min-w-0">
+            <Paperclip className="h-3 w-3 shrink-0" />
+            <span className="truncate">{message.attachment?.name}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              · {message.senderName}, {format(message.timestamp, 'MMM d')}
+            </span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DisputeAttachmentPicker;
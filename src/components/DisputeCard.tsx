@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import DisputeAttachmentPicker from '@/components/DisputeAttachmentPicker';
+import DisputeEvidenceList from '@/components/DisputeEvidenceList';
+import { useDisputeActions, useTaskDispute } from '@/hooks/use-disputes';
+
+interface DisputeCardProps {
+  taskId: string;
+  partnerId: string;
+}
+
+// Shown to both parties of a disputed task while an admin reviews it
+const DisputeCard = ({ taskId, partnerId }: DisputeCardProps) => {
+  const { dispute, isLoading } = useTaskDispute(taskId);
+  const { addEvidence, isAddingEvidence } = useDisputeActions();
+  const [statement, setStatement] = useState('');
+  const [messageIds, setMessageIds] = useState<string[]>([]);
+
+  const handleSubmit = async () => {
+    if (dispute && await addEvidence(dispute, statement.trim(), messageIds)) {
+      setStatement('');
+      setMessageIds([]);
+    }
+  };
+
+  return (
+    <Card className="w-full mb-4 border-destructive/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-destructive" />
+          Under Dispute
+        </CardTitle>
+        <CardDescription>
+          The task and its reward are on hold. An admin will review the evidence and pay the doer, refund the creator or split the reward.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading dispute...</p>
+        ) : dispute && (
+          <>
+            <DisputeEvidenceList dispute={dispute} />
+
+            {dispute.status === 'open' && (
+              <div className="space-y-2">
+                <Label htmlFor={`dispute-statement-${taskId}`}>Add a statement</Label>
+                <Textarea
+                  id={`dispute-statement-${taskId}`}
+                  placeholder="Anything the reviewer should know"
+                  value={statement}
+                  onChange={(e) => setStatement(e.target.value)}
+                  rows={3}
+                />
+                <DisputeAttachmentPicker
+                  partnerId={partnerId}
+                  selectedIds={messageIds}
+                  onChange={setMessageIds}
+                  excludeIds={dispute.evidence.map(evidence => evidence.messageId).filter(Boolean)}
+                />
+                <Button
+                  className="w-full"
+                  onClick={handleSubmit}
+                  disabled={(!statement.trim() && messageIds.length === 0) || isAddingEvidence}
+                >
+                  Add Evidence
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DisputeCard;
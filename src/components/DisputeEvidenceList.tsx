@@ -0,0 +1,46 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+import { DisputeType } from '@/lib/types';
+
+interface DisputeEvidenceListProps {
+  dispute: DisputeType;
+}
+
+// The reason a dispute was raised with, followed by every statement and file in order
+const DisputeEvidenceList = ({ dispute }: DisputeEvidenceListProps) => {
+  const raisedByName = dispute.raisedBy === dispute.creatorId ? dispute.creatorName : dispute.doerName || 'Task doer';
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-md border p-3">
+        <p className="text-xs text-muted-foreground">
+          Raised by {raisedByName} · {format(dispute.createdAt, 'MMM d, yyyy h:mm a')}
+        </p>
+        <p className="text-sm mt-1">{dispute.reason}</p>
+      </div>
+
+      {dispute.evidence.map(evidence => (
+        <div key={evidence.id} className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">
+            {evidence.authorName} · {format(evidence.createdAt, 'MMM d, yyyy h:mm a')}
+          </p>
+          {evidence.statement && <p className="text-sm mt-1">{evidence.statement}</p>}
+          {evidence.attachment && (
+            <a
+              href={evidence.attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary underline flex items-center gap-1 mt-1"
+            >
+              <Paperclip className="h-3 w-3" />
+              {evidence.attachment.name}
+            </a>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DisputeEvidenceList;
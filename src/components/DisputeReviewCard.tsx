@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import DisputeEvidenceList from '@/components/DisputeEvidenceList';
+import { DisputeOutcome, DisputeType } from '@/lib/types';
+import { DISPUTE_OUTCOME_LABELS, TASK_STATE_LABELS } from '@/lib/task-state';
+
+interface DisputeReviewCardProps {
+  dispute: DisputeType;
+  isResolving?: boolean;
+  onResolve?: (dispute: DisputeType, outcome: DisputeOutcome, doerShare?: number, note?: string) => Promise<boolean>;
+}
+
+const OUTCOMES: DisputeOutcome[] = ['completed', 'refunded', 'split'];
+
+// One dispute in the admin review queue, with the form to settle it
+const DisputeReviewCard = ({ dispute, isResolving = false, onResolve }: DisputeReviewCardProps) => {
+  const [outcome, setOutcome] = useState<DisputeOutcome>('completed');
+  const [doerShare, setDoerShare] = useState(Math.floor(dispute.taskReward / 2));
+  const [note, setNote] = useState('');
+
+  const isValidSplit = doerShare > 0 && doerShare < dispute.taskReward;
+
+  const handleResolve = () => {
+    onResolve?.(dispute, outcome, outcome === 'split' ? doerShare : undefined, note.trim() || undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{dispute.taskTitle}</CardTitle>
+            <CardDescription>
+              {dispute.creatorName} (creator) and {dispute.doerName || 'unknown doer'} (doer) · ₹{dispute.taskReward} held ·
+              disputed while {TASK_STATE_LABELS[dispute.previousState].toLowerCase()}
+            </CardDescription>
+          </div>
+          {dispute.outcome ? (
+            <Badge variant="secondary">{DISPUTE_OUTCOME_LABELS[dispute.outcome]}</Badge>
+          ) : (
+            <Badge variant="destructive">Open</Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <DisputeEvidenceList dispute={dispute} />
+
+        {dispute.status === 'resolved' && (
+          <p className="text-sm text-muted-foreground">
+            Resolved {dispute.resolvedAt && format(dispute.resolvedAt, 'MMM d, yyyy h:mm a')}
+            {dispute.outcome === 'split' && ` · ₹${dispute.doerShare} to the doer`}
+            {dispute.resolutionNote && ` · ${dispute.resolutionNote}`}
+          </p>
+        )}
+
+        {dispute.status === 'open' && onResolve && (
+          <div className="space-y-4 border-t pt-4">
+            <RadioGroup value={outcome} onValueChange={(value) => setOutcome(value as DisputeOutcome)}>
+              {OUTCOMES.map(value => (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={value} id={`${dispute.id}-${value}`} />
+                  <Label htmlFor={`${dispute.id}-${value}`}>{DISPUTE_OUTCOME_LABELS[value]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {outcome === 'split' && (
+              <div className="space-y-2">
+                <Label htmlFor={`${dispute.id}-share`}>Points for the doer</Label>
+                <Input
+                  id={`${dispute.id}-share`}
+                  type="number"
+                  min="1"
+                  max={dispute.taskReward - 1}
+                  value={doerShare}
+                  onChange={(e) => setDoerShare(Number(e.target.value))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  The creator gets the remaining ₹{Math.max(dispute.taskReward - doerShare, 0)} back.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor={`${dispute.id}-note`}>Note to both parties</Label>
+              <Textarea
+                id={`${dispute.id}-note`}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional explanation of the decision"
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      {dispute.status === 'open' && onResolve && (
+        <CardFooter>
+          <Button
+            className="w-full"
+            onClick={handleResolve}
+            disabled={isResolving || (outcome === 'split' && !isValidSplit)}
+          >
+            Resolve Dispute
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default DisputeReviewCard;
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { TaskType } from '@/lib/types';
+import { Coordinates, TaskRecurrence, TaskType } from '@/lib/types';
 import { DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -11,6 +11,12 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { format } from 'date-fns';
 import { CalendarIcon, Save } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import LocationPicker from './LocationPicker';
+import TagInput from './TagInput';
+import RecurrenceFields from './RecurrenceFields';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTaskCategories } from '@/hooks/use-categories';
+import { REWARD_EDITABLE_TASK_STATES } from '@/lib/task-state';
 
 interface EditTaskFormProps {
   task: TaskType;
@@ -22,9 +28,17 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description);
   const [location, setLocation] = useState(task.location);
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(task.coordinates ?? null);
+  const [categoryId, setCategoryId] = useState(task.categoryId ?? '');
+  const [tags, setTags] = useState<string[]>(task.tags ?? []);
+  const { categories } = useTaskCategories();
   const [reward, setReward] = useState(task.reward);
+  // The doer agreed to the reward, so it is fixed once one is assigned
+  const isRewardLocked = !REWARD_EDITABLE_TASK_STATES.includes(task.state);
   const [deadline, setDeadline] = useState<Date>(new Date(task.deadline));
   const [dateOpen, setDateOpen] = useState(false);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(task.recurrence ?? null);
+  const [recurrenceEndsAt, setRecurrenceEndsAt] = useState<Date | null>(task.recurrenceEndsAt ?? null);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const validateForm = () => {
@@ -64,6 +78,15 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
     return Object.keys(newErrors).length === 0;
   };
 
+  // Fills in an empty location field with the pinned place's address
+  const handleCoordinatesChange = (next: Coordinates | null, label?: string) => {
+    setCoordinates(next);
+
+    if (label && !location.trim()) {
+      setLocation(label.slice(0, 45));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -73,8 +96,13 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
         title,
         description,
         location,
+        coordinates,
+        categoryId: categoryId || null,
+        tags,
         reward,
-        deadline
+        deadline,
+        recurrence,
+        recurrenceEndsAt
       };
       
       onSubmit(updatedTask);
@@ -121,6 +149,30 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
         />
         {errors.location && <p className="text-sm text-red-500">{errors.location}</p>}
         <p className="text-xs text-muted-foreground">{location.length}/45 characters</p>
+        <LocationPicker
+          query={location}
+          coordinates={coordinates}
+          onChange={handleCoordinatesChange}
+        />
+      </div>
+      
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <Select value={categoryId} onValueChange={setCategoryId}>
+          <SelectTrigger id="category">
+            <SelectValue placeholder="What kind of work is this?" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="space-y-2">
+        <Label htmlFor="tags">Tags</Label>
+        <TagInput id="tags" value={tags} onChange={setTags} />
       </div>
       
       <div className="space-y-2">
@@ -132,7 +184,11 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
           max="5000"
           value={reward}
           onChange={(e) => setReward(Number(e.target.value))}
+          disabled={isRewardLocked}
         />
+        {isRewardLocked && (
+          <p className="text-xs text-muted-foreground">The reward can't change once a doer is assigned.</p>
+        )}
         {errors.reward && <p className="text-sm text-red-500">{errors.reward}</p>}
       </div>
       
@@ -207,6 +263,16 @@ const EditTaskForm: React.FC<EditTaskFormProps> = ({ task, onSubmit, onCancel })
         {errors.deadline && <p className="text-sm text-red-500">{errors.deadline}</p>}
       </div>
       
+      <RecurrenceFields
+        recurrence={recurrence}
+        endsAt={recurrenceEndsAt}
+        minEndDate={deadline}
+        onChange={(nextRecurrence, nextEndsAt) => {
+          setRecurrence(nextRecurrence);
+          setRecurrenceEndsAt(nextEndsAt);
+        }}
+      />
+      
       <DialogFooter>
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Check, X, CalendarClock, MapPin, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { TaskType, JointTaskMemberType } from '@/lib/types';
+import { useAuth } from '@/context/AuthContext';
+import VerificationCodeCard from './VerificationCodeCard';
+import RatingDialog from './RatingDialog';
+
+interface JointTaskMembersCardProps {
+  task: TaskType;
+  onApproveRequest: (memberId: string) => void;
+  onRejectRequest: (memberId: string) => void;
+  onVerifyCode: (memberId: string, code: string) => Promise<boolean>;
+  onRated: (memberId: string) => Promise<boolean>;
+}
+
+const JointTaskMembersCard = ({
+  task,
+  onApproveRequest,
+  onRejectRequest,
+  onVerifyCode,
+  onRated
+}: JointTaskMembersCardProps) => {
+  const { user } = useAuth();
+  const [memberToRate, setMemberToRate] = useState<JointTaskMemberType | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const members = task.jointMembers || [];
+  const approvedMembers = members.filter(member => member.status === 'approved');
+  const pendingMembers = members.filter(member => member.status === 'pending');
+  const isCreator = task.creatorId === user?.id;
+  const isDoer = task.doerId === user?.id;
+
+  // The doer is paid the creator's reward plus every approved member's share
+  const totalReward = task.reward + approvedMembers.reduce((sum, member) => sum + member.reward, 0);
+
+  const handleDecision = async (memberId: string, approve: boolean) => {
+    setProcessingId(memberId);
+    try {
+      if (approve) {
+        await onApproveRequest(memberId);
+      } else {
+        await onRejectRequest(memberId);
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: JointTaskMemberType['status']) => {
+    switch (status) {
+      case 'approved':
+        return <Badge variant="default">Approved</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">Rejected</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  // Only the member and the doer exchange codes for a membership
+  const renderVerification = (member: JointTaskMemberType) => {
+    if (!task.doerId || member.status !== 'approved') return null;
+
+    const isMember = member.userId === user?.id;
+    if (!isMember && !isDoer) return null;
+
+    return (
+      <VerificationCodeCard
+        key={`verify-${member.id}`}
+        taskId={member.id}
+        taskTitle={`${task.title} — ${isMember ? 'your part' : member.username}`}
+        code={member.verificationCode || ''}
+        partnerId={isMember ? task.doerId : member.userId}
+        partnerName={isMember ? task.doerName || 'Task Doer' : member.username}
+        isDoer={isDoer}
+        isVerified={(isMember ? member.isMemberVerified : member.isDoerVerified) || false}
+        isPartnerVerified={(isMember ? member.isDoerVerified : member.isMemberVerified) || false}
+        isRated={(isMember ? member.isMemberRated : member.isDoerRated) || false}
+        isPartnerRated={(isMember ? member.isDoerRated : member.isMemberRated) || false}
+        attemptsRemaining={member.verificationAttemptsRemaining}
+        lockedUntil={member.verificationLockedUntil}
+        onVerify={onVerifyCode}
+        onRequestRating={() => setMemberToRate(member)}
+      />
+    );
+  };
+
+  return (
+    <>
+      <Card className="w-full">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span className="flex items-center">
+              <Users className="h-5 w-5 mr-2 text-primary" />
+              {task.title}
+            </span>
+            <span className="text-lg font-bold">₹{totalReward}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{task.description}</p>
+
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center text-xs text-muted-foreground">
+              <MapPin className="h-3 w-3 mr-1" />
+              <span>{task.location}</span>
+            </div>
+            <div className="flex items-center text-xs text-muted-foreground">
+              <CalendarClock className="h-3 w-3 mr-1" />
+              <span>Due: {format(new Date(task.deadline), 'MMM d, yyyy')} at {format(new Date(task.deadline), 'h:mm a')}</span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Doer: {task.doerName || 'Not assigned yet'}
+            </div>
+          </div>
+
+          <div className="border rounded-md">
+            <div className="px-3 py-2 border-b text-sm font-medium">Reward split</div>
+            <div className="flex justify-between px-3 py-2 text-sm">
+              <span>{task.creatorName} (creator)</span>
+              <span>₹{task.reward}</span>
+            </div>
+            {approvedMembers.map(member => (
+              <div key={member.id} className="flex justify-between px-3 py-2 text-sm">
+                <span>{member.username}</span>
+                <span>₹{member.reward}</span>
+              </div>
+            ))}
+            <div className="flex justify-between px-3 py-2 text-sm font-semibold border-t">
+              <span>Total for doer</span>
+              <span>₹{totalReward}</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Members ({approvedMembers.length})</p>
+            {members.length === 0 && (
+              <p className="text-sm text-muted-foreground">No one has asked to join this task yet.</p>
+            )}
+            {[...approvedMembers, ...pendingMembers].map(member => (
+              <div key={member.id} className="border-l-4 border-muted pl-3 py-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <Avatar className="h-5 w-5 mr-1.5">
+                      <AvatarFallback>{member.username.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium">{member.username}</span>
+                    <span className="ml-2">{getStatusBadge(member.status)}</span>
+                  </div>
+                  <span className="text-sm font-semibold">₹{member.reward}</span>
+                </div>
+                <p className="text-sm italic mt-1">{member.needs}</p>
+
+                {isCreator && member.status === 'pending' && !task.doerId && (
+                  <div className="flex justify-end space-x-2 mt-2">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => handleDecision(member.id, true)}
+                      disabled={processingId === member.id}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleDecision(member.id, false)}
+                      disabled={processingId === member.id}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {approvedMembers.map(member => renderVerification(member))}
+        </CardContent>
+      </Card>
+
+      <RatingDialog
+        isOpen={!!memberToRate}
+        onClose={() => setMemberToRate(null)}
+        taskTitle={task.title}
+        partnerName={
+          memberToRate?.userId === user?.id
+            ? task.doerName || 'Task Doer'
+            : memberToRate?.username || 'Task Member'
+        }
+        onSubmit={async () => (memberToRate ? onRated(memberToRate.id) : false)}
+        isDoer={isDoer}
+        taskId={task.id}
+        ratedUserId={memberToRate?.userId === user?.id ? task.doerId : memberToRate?.userId}
+        user={user}
+      />
+    </>
+  );
+};
+
+export default JointTaskMembersCard;
@@ -8,22 +8,32 @@ interface LayoutProps {
   children: ReactNode;
   onSearch?: (term: string) => void;
   requireAuth?: boolean;
+  // Only admins may see the page; everyone else is sent home. The data itself is protected by RLS.
+  requireAdmin?: boolean;
 }
 
 const Layout = ({ 
   children, 
   onSearch,
-  requireAuth = false
+  requireAuth = false,
+  requireAdmin = false
 }: LayoutProps) => {
-  const { user, loading } = useAuth();
+  const { user, profile, loading } = useAuth();
+  const isAdmin = profile?.role === 'admin';
   const navigate = useNavigate();
 
   // Check if authentication is required but user is not authenticated
   React.useEffect(() => {
-    if (requireAuth && !loading && !user) {
+    if ((requireAuth || requireAdmin) && !loading && !user) {
       navigate('/login');
     }
-  }, [requireAuth, user, loading, navigate]);
+  }, [requireAuth, requireAdmin, user, loading, navigate]);
+
+  React.useEffect(() => {
+    if (requireAdmin && profile && !isAdmin) {
+      navigate('/home');
+    }
+  }, [requireAdmin, profile, isAdmin, navigate]);
 
   if (loading) {
     return <div className="flex items-center justify-center h-screen">Loading...</div>;
@@ -31,13 +41,23 @@ const Layout = ({
 
   // If authentication is required but user is not authenticated, don't render anything
   // The useEffect above will redirect to login
-  if (requireAuth && !user) {
+  if ((requireAuth || requireAdmin) && !user) {
+    return null;
+  }
+
+  // Wait for the profile to know the user's role
+  if (requireAdmin && !isAdmin) {
     return null;
   }
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Navbar onSearch={onSearch} />
+      {profile?.suspended_at && (
+        <div className="bg-destructive text-destructive-foreground text-sm text-center px-4 py-2">
+          Your account is suspended{profile.suspension_reason && `: ${profile.suspension_reason}`}. You can finish tasks already under way, but cannot post, apply, message or rate.
+        </div>
+      )}
       <main className="flex-1">
         {children}
       </main>
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Crosshair, Loader2, MapPin, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Coordinates } from '@/lib/types';
+import { GeocodeResult, getGeocoder } from '@/lib/geocoding';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useToast } from '@/hooks/use-toast';
+
+interface LocationPickerProps {
+  // The address typed into the task's location field
+  query: string;
+  coordinates: Coordinates | null;
+  // label is the geocoder's address for the point, when it has one
+  onChange: (coordinates: Coordinates | null, label?: string) => void;
+}
+
+// Pins a task's location to coordinates, either by geocoding the typed address
+// or from the user's current position. Pinned tasks show on the map and in
+// "within N km" searches; the typed address is still what people read.
+const LocationPicker = ({ query, coordinates, onChange }: LocationPickerProps) => {
+  const [results, setResults] = useState<GeocodeResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const { locate, isLocating, isSupported } = useGeolocation();
+  const { toast } = useToast();
+
+  const handleFind = async () => {
+    setIsSearching(true);
+
+    try {
+      setResults(await getGeocoder().search(query.trim()));
+    } catch (error) {
+      console.error('Error geocoding location:', error);
+      toast({
+        title: "Error",
+        description: "Failed to look up the location. Please try again later.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    const position = await locate();
+
+    if (!position) {
+      toast({
+        title: "Location Unavailable",
+        description: "Your location could not be found. Allow location access or search for the address instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The address is a nicety; the pin works without it
+    const place = await getGeocoder().reverse(position).catch(() => null);
+    setResults(null);
+    onChange(position, place?.label);
+  };
+
+  const handleSelect = (result: GeocodeResult) => {
+    setResults(null);
+    onChange({ latitude: result.latitude, longitude: result.longitude }, result.label);
+  };
+
+  if (coordinates) {
+    return (
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center">
+          <MapPin className="h-3 w-3 mr-1 text-primary" />
+          Pinned at {coordinates.latitude.toFixed(4)}, {coordinates.longitude.toFixed(4)}
+        </span>
+        <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={() => onChange(null)}>
+          <X className="h-3 w-3 mr-1" />
+          Remove pin
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleFind}
+          disabled={!query.trim() || isSearching}
+        >
+          {isSearching ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Search className="h-3 w-3 mr-1" />}
+          Find on map
+        </Button>
+        {isSupported && (
+          <Button type="button" variant="outline" size="sm" onClick={handleUseMyLocation} disabled={isLocating}>
+            {isLocating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Crosshair className="h-3 w-3 mr-1" />}
+            Use my location
+          </Button>
+        )}
+      </div>
+
+      {results && (
+        results.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No matching places found. Try a nearby landmark or area.</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {results.map(result => (
+              <button
+                key={`${result.latitude},${result.longitude}`}
+                type="button"
+                className="w-full text-left text-sm px-3 py-2 hover:bg-accent flex items-start"
+                onClick={() => handleSelect(result)}
+              >
+                <MapPin className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-muted-foreground" />
+                {result.label}
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Pin the location so the task shows on the map and in nearby searches.
+      </p>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -1,16 +1,20 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 
 interface MaskedUsernameProps {
   username: string;
   className?: string;
   showChars?: number; // Added this property
+  // Links the name to the user's public profile at /u/:username
+  linkToProfile?: boolean;
 }
 
 const MaskedUsername: React.FC<MaskedUsernameProps> = ({ 
   username, 
   className = '',
-  showChars = 3 // Default to 3 characters
+  showChars = 3, // Default to 3 characters
+  linkToProfile = false
 }) => {
   // For privacy, we'll show the first N characters and the last 2 characters of username
   // If username is less than N+2 characters, just show it as is
@@ -24,6 +28,14 @@ const MaskedUsername: React.FC<MaskedUsernameProps> = ({
     return `${firstChars}...${lastTwo}`;
   };
   
+  if (linkToProfile && username) {
+    return (
+      <Link to={`/u/${encodeURIComponent(username)}`} className={`hover:underline ${className}`}>
+        {maskUsername(username)}
+      </Link>
+    );
+  }
+
   return <span className={className}>{maskUsername(username)}</span>;
 };
 
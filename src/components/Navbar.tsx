@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Search, Trophy, Home, User, Menu, MessageSquare, Calendar, FileText, LogOut } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Search, Trophy, Home, User, Menu, MessageSquare, Calendar, FileText, LogOut, ShieldCheck } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -24,7 +24,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { supabase } from '@/integrations/supabase/client'; // Added Supabase client
+import { useHasUnreadMessages } from '@/hooks/use-chats';
+import { useNotifications } from '@/hooks/use-notifications';
+import NotificationBell from '@/components/NotificationBell';
 
 
 interface NavbarProps {
@@ -36,10 +38,15 @@ const Navbar = ({ onSearch }: NavbarProps) => {
   const navigate = useNavigate();
   const { user, profile, signOut } = useAuth();
   const isHomePage = location.pathname === '/home';
+  const isAdmin = profile?.role === 'admin';
   const isLandingPage = location.pathname === '/';
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchParams] = useSearchParams();
+  // The home feed keeps its search in the URL, so start from it when the page is shared or reloaded
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('q') || '');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [hasUnreadMessages, setHasUnreadMessages] = useState(false); // Added state for unread messages
+  const { data: hasUnreadMessages = false } = useHasUnreadMessages();
+
+  useNotifications();
 
   const isAuthenticated = !!user;
 
@@ -131,44 +138,19 @@ const Navbar = ({ onSearch }: NavbarProps) => {
             Leaderboard
           </Link>
         </NavigationMenuItem>
+
+        {isAdmin && (
+          <NavigationMenuItem>
+            <Link to="/admin" className={navigationMenuTriggerStyle()}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Admin
+            </Link>
+          </NavigationMenuItem>
+        )}
       </>
     );
   };
 
-  useEffect(() => {
-    if (!user) return;
-
-    const checkUnreadMessages = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('id', { count: 'exact' })
-        .eq('receiver_id', user.id)
-        .eq('read', false);
-
-      if (!error && data) {
-        setHasUnreadMessages(data.count > 0);
-      }
-    };
-
-    checkUnreadMessages();
-
-    // Subscribe to new messages (this part requires a Supabase setup with a channel)
-    const channel = supabase
-      .channel('new_messages')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'messages',
-        filter: `receiver_id=eq.${user.id}`,
-      }, () => {
-        setHasUnreadMessages(true);
-      })
-      .subscribe();
-
-    return () => supabase.removeChannel(channel);
-  }, [user]);
-
-
   return (
     <nav className="border-b bg-background sticky top-0 z-50">
       <div className="container mx-auto px-4 py-3 flex items-center">
@@ -197,6 +179,12 @@ const Navbar = ({ onSearch }: NavbarProps) => {
             </NavigationMenuList>
           </NavigationMenu>
 
+          {isAuthenticated && (
+            <div className="ml-2">
+              <NotificationBell />
+            </div>
+          )}
+
           <div className="ml-4">
             {!isAuthenticated ? (
               <Button onClick={handleLoginClick} variant="outline">
@@ -236,6 +224,8 @@ const Navbar = ({ onSearch }: NavbarProps) => {
 
         {/* Mobile Menu */}
         <div className="md:hidden ml-auto flex items-center gap-2">
+          {isAuthenticated && <NotificationBell />}
+
           {isAuthenticated && !isProfilePage ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -339,6 +329,17 @@ const Navbar = ({ onSearch }: NavbarProps) => {
                       Leaderboard
                     </Link>
 
+                    {isAdmin && (
+                      <Link
+                        to="/admin"
+                        className="flex items-center gap-2 px-2 py-2 hover:bg-muted rounded-md"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        <ShieldCheck className="h-5 w-5" />
+                        Admin
+                      </Link>
+                    )}
+
                     {!isProfilePage && (
                       <Link
                         to="/profile"
@@ -0,0 +1,92 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { NotificationType } from '@/lib/types';
+import { useNotificationCenter } from '@/hooks/use-notifications';
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotificationCenter();
+
+  const handleNotificationClick = (notification: NotificationType) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+
+    if (notification.link) {
+      // Chat notifications open the chat they are about
+      navigate(notification.link, {
+        state: notification.chatId ? { activeChatId: notification.chatId } : undefined
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllAsRead}>
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">Loading notifications...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">You have no notifications yet</p>
+          ) : (
+            notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start gap-2 cursor-pointer"
+                onClick={() => handleNotificationClick(notification)}
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read ? 'bg-transparent' : 'bg-primary'}`}
+                />
+                <div className="flex flex-col min-w-0">
+                  <span className={`text-sm ${notification.read ? 'text-muted-foreground' : 'font-medium'}`}>
+                    {notification.title}
+                  </span>
+                  {notification.body && (
+                    <span className="text-xs text-muted-foreground line-clamp-2">{notification.body}</span>
+                  )}
+                  <span className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                  </span>
+                </div>
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
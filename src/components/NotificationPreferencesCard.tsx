@@ -0,0 +1,66 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { NotificationPreferences } from '@/lib/types';
+import { useNotificationPreferences } from '@/hooks/use-notifications';
+
+const OPTIONS: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  {
+    key: 'emailApplicationUpdates',
+    label: 'Applications',
+    description: 'New applications and join requests for your tasks, and decisions on yours.',
+  },
+  {
+    key: 'emailTaskUpdates',
+    label: 'Task updates',
+    description: 'Assignments, verification prompts, ratings due, deadlines, cancellations and expiries.',
+  },
+  {
+    key: 'emailChatRequests',
+    label: 'Chat requests',
+    description: 'When someone starts a new chat with you.',
+  },
+  {
+    key: 'emailDailyDigest',
+    label: 'Daily digest',
+    description: 'One email a day listing notifications you have not read yet.',
+  },
+];
+
+const NotificationPreferencesCard = () => {
+  const { preferences, isLoading, updatePreferences, isSaving } = useNotificationPreferences();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>
+          Choose which notifications are also sent to your email address. You always see them in the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !preferences ? (
+          <p className="text-sm text-muted-foreground">Loading preferences...</p>
+        ) : (
+          OPTIONS.map(option => (
+            <div key={option.key} className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={`email-${option.key}`}>{option.label}</Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+              <Switch
+                id={`email-${option.key}`}
+                checked={preferences[option.key]}
+                disabled={isSaving}
+                onCheckedChange={(checked) => updatePreferences({ ...preferences, [option.key]: checked })}
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ArrowDownLeft, ArrowUpRight, Lock, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { PointsTransactionType } from '@/lib/types';
+import { usePointsSummary, usePointsTransactions } from '@/hooks/use-points';
+
+const formatPoints = (points: number) => `₹${points.toLocaleString()}`;
+
+const PointsCard = () => {
+  const { summary, isLoading: isSummaryLoading } = usePointsSummary();
+  const { transactions, isLoading: isHistoryLoading } = usePointsTransactions();
+
+  const stats = [
+    { label: 'Available', value: summary?.balance, icon: Wallet },
+    { label: 'In escrow', value: summary?.inEscrow, icon: Lock },
+    { label: 'Earned', value: summary?.earned, icon: ArrowDownLeft },
+    { label: 'Paid out', value: summary?.paid, icon: ArrowUpRight },
+  ];
+
+  const renderTransaction = (transaction: PointsTransactionType) => (
+    <div key={transaction.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{transaction.description}</p>
+        <p className="text-xs text-muted-foreground">{format(transaction.createdAt, 'MMM d, yyyy h:mm a')}</p>
+      </div>
+      <span className={cn(
+        "text-sm font-semibold shrink-0",
+        transaction.amount > 0 ? "text-green-600" : "text-muted-foreground"
+      )}>
+        {transaction.amount > 0 ? '+' : '-'}{formatPoints(Math.abs(transaction.amount))}
+      </span>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Points</CardTitle>
+        <CardDescription>
+          Posting a task holds its reward in escrow. The doer receives it once both sides verify, and cancelled or expired tasks are refunded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(({ label, value, icon: Icon }) => (
+            <div key={label} className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Icon className="h-3 w-3" />
+                {label}
+              </p>
+              <p className="text-lg font-bold">
+                {isSummaryLoading ? '...' : formatPoints(value ?? 0)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">History</h4>
+          {isHistoryLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : transactions.length > 0 ? (
+            transactions.map(renderTransaction)
+          ) : (
+            <p className="text-sm text-muted-foreground">No points activity yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PointsCard;
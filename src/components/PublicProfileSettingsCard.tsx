@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/context/AuthContext';
+import { queryKeys } from '@/lib/query-keys';
+
+type VisibilityColumn = 'show_reputation' | 'show_reviews' | 'show_open_tasks';
+
+const OPTIONS: { key: VisibilityColumn; label: string; description: string }[] = [
+  {
+    key: 'show_reputation',
+    label: 'Reputation',
+    description: 'Your doer and requestor reputation and how many tasks you have completed. Hiding it also leaves you off the leaderboard.',
+  },
+  {
+    key: 'show_reviews',
+    label: 'Reviews',
+    description: 'Recent written reviews about you, and your replies.',
+  },
+  {
+    key: 'show_open_tasks',
+    label: 'Open tasks',
+    description: 'Tasks you have posted that are still taking applications.',
+  },
+];
+
+// Which sections other users see on the signed-in user's public profile
+const PublicProfileSettingsCard = () => {
+  const { profile, updateProfile } = useAuth();
+  const queryClient = useQueryClient();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (key: VisibilityColumn, checked: boolean) => {
+    setIsSaving(true);
+    const { error } = await updateProfile({ [key]: checked });
+    setIsSaving(false);
+
+    if (!error) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.leaderboard.all });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Public Profile</CardTitle>
+        <CardDescription>
+          Your avatar, username and join date are always shown on your public profile. Choose what else other users can see there.
+          {profile?.username && (
+            <>
+              {' '}
+              <Link to={`/u/${encodeURIComponent(profile.username)}`} className="underline">
+                See your public profile
+              </Link>
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!profile ? (
+          <p className="text-sm text-muted-foreground">Loading settings...</p>
+        ) : (
+          OPTIONS.map(option => (
+            <div key={option.key} className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={`public-${option.key}`}>{option.label}</Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+              <Switch
+                id={`public-${option.key}`}
+                checked={profile[option.key] ?? true}
+                disabled={isSaving}
+                onCheckedChange={(checked) => handleChange(option.key, checked)}
+              />
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PublicProfileSettingsCard;
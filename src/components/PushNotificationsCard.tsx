@@ -0,0 +1,83 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { BellRing, Loader2, Monitor, Smartphone, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PushDeviceType } from '@/lib/types';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
+
+// A short, readable name for a device from its user agent
+const describeDevice = (userAgent?: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = ['Edg', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(name));
+  const system = ['Android', 'iPhone', 'iPad', 'Windows', 'Mac OS', 'Linux'].find(name => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser;
+
+  return [browserName, system && `on ${system === 'Mac OS' ? 'macOS' : system}`].filter(Boolean).join(' ') || 'Unknown device';
+};
+
+const isMobile = (userAgent?: string | null) => !!userAgent && /Android|iPhone|iPad/.test(userAgent);
+
+const PushNotificationsCard = () => {
+  const { isAvailable, devices, isLoading, deviceEndpoint, isEnabledOnDevice, enable, isEnabling, remove } = usePushNotifications();
+
+  const renderDevice = (device: PushDeviceType) => {
+    const Icon = isMobile(device.userAgent) ? Smartphone : Monitor;
+
+    return (
+      <div key={device.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium flex items-center gap-2">
+              {describeDevice(device.userAgent)}
+              {device.endpoint === deviceEndpoint && <Badge variant="secondary">This device</Badge>}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Added {format(device.createdAt, 'MMM d, yyyy')}
+              {device.lastUsedAt && ` · last push ${format(device.lastUsedAt, 'MMM d, yyyy')}`}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => remove(device)} aria-label="Remove device">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Push Notifications</CardTitle>
+        <CardDescription>
+          Get browser notifications for new messages, application decisions and verification requests, even when Task Loop is closed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isAvailable ? (
+          <p className="text-sm text-muted-foreground">Push notifications are not available in this browser.</p>
+        ) : !isEnabledOnDevice && (
+          <Button onClick={enable} disabled={isEnabling}>
+            {isEnabling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BellRing className="mr-2 h-4 w-4" />}
+            Enable on this device
+          </Button>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading devices...</p>
+        ) : devices.length > 0 ? (
+          <div className="space-y-2">
+            {devices.map(renderDevice)}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Push is not enabled on any of your devices.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PushNotificationsCard;
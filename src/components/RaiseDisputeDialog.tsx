@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import DisputeAttachmentPicker from '@/components/DisputeAttachmentPicker';
+import { useDisputeActions } from '@/hooks/use-disputes';
+
+interface RaiseDisputeDialogProps {
+  taskId: string;
+  taskTitle: string;
+  partnerId: string;
+  partnerName: string;
+}
+
+const RaiseDisputeDialog = ({ taskId, taskTitle, partnerId, partnerName }: RaiseDisputeDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [messageIds, setMessageIds] = useState<string[]>([]);
+  const { raiseDispute, isRaising } = useDisputeActions();
+
+  const handleSubmit = async () => {
+    if (await raiseDispute(taskId, reason.trim(), messageIds)) {
+      setIsOpen(false);
+      setReason('');
+      setMessageIds([]);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" className="w-full text-destructive hover:text-destructive">
+          <ShieldAlert className="h-4 w-4 mr-2" />
+          Raise Dispute
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Raise a Dispute</DialogTitle>
+          <DialogDescription>
+            "{taskTitle}" and its reward will be put on hold until an admin reviews what happened. {partnerName} will be notified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-reason">What went wrong?</Label>
+            <Textarea
+              id="dispute-reason"
+              placeholder="e.g. The creator will not share their verification code, or the work was left unfinished"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Attach files from your chat</Label>
+            <DisputeAttachmentPicker partnerId={partnerId} selectedIds={messageIds} onChange={setMessageIds} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>Keep Working</Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason.trim() || isRaising}
+          >
+            Raise Dispute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RaiseDisputeDialog;
@@ -2,9 +2,13 @@
 import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Star } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { ratingsRepo } from '@/lib/repositories';
+import { CREATOR_SUB_SCORES, DOER_SUB_SCORES, MAX_REVIEW_LENGTH, REVIEW_SUB_SCORE_LABELS } from '@/lib/reviews';
+import { ReviewSubScore } from '@/lib/types';
 import { User } from '@/types/supabase';
 
 interface RatingDialogProps {
@@ -34,6 +38,8 @@ const RatingDialog: React.FC<RatingDialogProps> = ({
 }) => {
   const [rating, setRating] = useState(0);
   const [hoveredRating, setHoveredRating] = useState(0);
+  const [subScores, setSubScores] = useState<Partial<Record<ReviewSubScore, number>>>({});
+  const [review, setReview] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
@@ -45,6 +51,8 @@ const RatingDialog: React.FC<RatingDialogProps> = ({
   useEffect(() => {
     if (isOpen) {
       setRating(0);
+      setSubScores({});
+      setReview('');
       setIsSubmitting(false);
     }
   }, [isOpen]);
@@ -80,40 +88,23 @@ const RatingDialog: React.FC<RatingDialogProps> = ({
     try {
       console.log(`Submitting rating ${rating} for user ${ratedUserId} on task ${taskId}`);
       
-      // 1. Insert rating into the ratings table
-      const { error: ratingError } = await supabase
-        .from('ratings')
-        .insert({
-          task_id: taskId,
-          rater_id: user.id,
-          rated_id: ratedUserId,
-          rating: rating,
-          is_for_creator: isDoer // If isDoer is true, we're rating the creator
-        });
-
-      if (ratingError) {
-        // Check if it's a unique constraint error (already rated)
-        if (ratingError.code === '23505') {
-          console.log("Rating already exists, continuing with process");
-        } else {
-          console.error('Error recording rating:', ratingError);
-          throw ratingError;
-        }
-      }
-
-      // 2. Update the user_ratings table using the stored procedure
-      const { error: updateRatingError } = await supabase.rpc('update_user_rating', {
-        p_user_id: ratedUserId,
-        p_is_doer: !isDoer, // If isDoer is true, we're rating the creator's requestor_rating
-        p_new_rating: rating
+      // 1. Insert rating into the ratings table (a repeated submit is not stored twice).
+      // The rated user's averages are recomputed from their ratings by the database.
+      const created = await ratingsRepo.create({
+        taskId,
+        raterId: user.id,
+        ratedId: ratedUserId,
+        rating,
+        isForCreator: isDoer, // If isDoer is true, we're rating the creator
+        review,
+        subScores
       });
 
-      if (updateRatingError) {
-        console.error('Error updating user rating:', updateRatingError);
-        throw updateRatingError;
+      if (!created) {
+        console.log("Rating already exists, continuing with process");
       }
 
-      // 3. Update the task status
+      // 2. Update the task status
       console.log(`Calling onSubmit to update task status with rating: ${rating}`);
       // Close dialog immediately to prevent showing it again
       onClose();
@@ -146,6 +137,9 @@ const RatingDialog: React.FC<RatingDialogProps> = ({
   const starColor = isDoer ? "text-yellow-500 fill-current" : "text-green-500 fill-current";
   const emptyStarColor = "text-gray-300";
 
+  // The doer rates the creator on clarity and fairness; the creator rates the doer's work
+  const subScoreKeys = isDoer ? CREATOR_SUB_SCORES : DOER_SUB_SCORES;
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
       if (!enforcedOpen && !open) {
@@ -187,6 +181,44 @@ const RatingDialog: React.FC<RatingDialogProps> = ({
           <p className="text-center text-sm text-muted-foreground">
             {rating === 0 ? 'Click to rate' : `You've selected ${rating} star${rating > 1 ? 's' : ''}`}
           </p>
+
+          <div className="mt-6 space-y-2">
+            <p className="text-sm font-medium">Details (optional)</p>
+            {subScoreKeys.map((key) => (
+              <div key={key} className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">{REVIEW_SUB_SCORE_LABELS[key]}</span>
+                <div className="flex">
+                  {[1, 2, 3, 4, 5].map((index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      className="p-0.5 focus:outline-none"
+                      onClick={() => setSubScores(prev => ({ ...prev, [key]: index }))}
+                      disabled={isSubmitting}
+                      aria-label={`${REVIEW_SUB_SCORE_LABELS[key]} ${index} star${index > 1 ? 's' : ''}`}
+                    >
+                      <Star
+                        className={`h-5 w-5 ${index <= (subScores[key] ?? 0) ? starColor : emptyStarColor}`}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <Label htmlFor="rating-review">Written review (optional)</Label>
+            <Textarea
+              id="rating-review"
+              value={review}
+              onChange={(e) => setReview(e.target.value)}
+              placeholder={`How was working with ${partnerName}? Reviews are shown on their profile.`}
+              maxLength={MAX_REVIEW_LENGTH}
+              rows={3}
+              disabled={isSubmitting}
+            />
+          </div>
         </div>
 
         <DialogFooter>
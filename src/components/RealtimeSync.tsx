@@ -0,0 +1,167 @@
+import { useEffect } from 'react';
+import { QueryKey, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { JointTasks, MyTasks } from '@/hooks/use-task-fetch';
+import { MessageRow, chatsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+import { appendMessage, removeTaskFromFeeds } from '@/lib/query-cache';
+
+// Keeps the React Query cache in step with the database. Realtime events for
+// tasks, applications, joint task members, messages, points, disputes, ratings
+// and moderation invalidate (or patch) the queries they affect, so pages never
+// have to refetch by hand.
+const RealtimeSync = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const invalidate = (...keys: QueryKey[]) =>
+      keys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+
+    // Task ids the user's cached task lists currently show
+    const knownTaskIds = () => {
+      const myTasks = queryClient.getQueryData<MyTasks>(queryKeys.tasks.mine(user.id));
+      const jointTasks = queryClient.getQueryData<JointTasks>(queryKeys.tasks.joint(user.id));
+      return new Set([
+        ...(myTasks?.created || []),
+        ...(myTasks?.applied || []),
+        ...(jointTasks?.tasks || []),
+      ].map(task => task.id));
+    };
+
+    const channel = supabase
+      .channel(`cache-sync:${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'tasks'
+      }, (payload) => {
+        const task = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { id: string; creator_id?: string; doer_id?: string | null; state?: string };
+
+        // Tasks that are no longer open drop out of the feed
+        if (payload.eventType === 'DELETE' || task.state !== 'open') {
+          removeTaskFromFeeds(queryClient, task.id);
+        }
+
+        invalidate(queryKeys.tasks.detail(task.id));
+
+        if (task.creator_id === user.id || task.doer_id === user.id || knownTaskIds().has(task.id)) {
+          invalidate(
+            queryKeys.tasks.mine(user.id),
+            queryKeys.tasks.joint(user.id),
+            queryKeys.tasks.history(user.id),
+            queryKeys.tasks.stats(user.id)
+          );
+        }
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'task_applications'
+      }, (payload) => {
+        const application = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { task_id: string; applicant_id: string };
+
+        if (application.applicant_id === user.id) {
+          removeTaskFromFeeds(queryClient, application.task_id);
+          invalidate(queryKeys.tasks.mine(user.id));
+        } else if (knownTaskIds().has(application.task_id)) {
+          invalidate(queryKeys.applications.received(user.id), queryKeys.tasks.mine(user.id));
+        }
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'joint_task_members'
+      }, (payload) => {
+        const member = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { task_id: string; user_id: string };
+
+        if (member.user_id === user.id || knownTaskIds().has(member.task_id)) {
+          invalidate(queryKeys.tasks.joint(user.id));
+        }
+      })
+      // Row level security only lets through entries on the user's own account
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'ledger_entries'
+      }, () => invalidate(queryKeys.points.all))
+      // Disputes are only visible to the two parties and admins
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'task_disputes'
+      }, () => invalidate(queryKeys.disputes.all))
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'task_dispute_evidence'
+      }, () => invalidate(queryKeys.disputes.all))
+      // Only the blocker can see a block, so this keeps their other tabs in step
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'user_blocks'
+      }, () => invalidate(queryKeys.blocks.all, queryKeys.tasks.all, queryKeys.applications.all, queryKeys.chats.all))
+      // Averages are recomputed by the database whenever a rating changes
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'user_ratings'
+      }, (payload) => {
+        const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { user_id: string };
+        invalidate(queryKeys.ratings.user(row.user_id), queryKeys.ratings.reputation(row.user_id), queryKeys.leaderboard.all);
+      })
+      // Reports and the audit log only reach admins (and reporters, for their own reports)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'reports'
+      }, () => invalidate(queryKeys.admin.all))
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'admin_audit_log'
+      }, () => invalidate(queryKeys.admin.all))
+      .subscribe();
+
+    // Messages are filtered on the server to the ones the user sent or received
+    const onMessage = async (payload: { eventType: string; new: Partial<MessageRow> }) => {
+      if (payload.eventType === 'INSERT') {
+        appendMessage(queryClient, payload.new.chat_id, await chatsRepo.toRealtimeMessage(payload.new as MessageRow));
+      } else if (payload.eventType === 'UPDATE' && payload.new.removed_at && payload.new.chat_id) {
+        // A moderator took the message down
+        invalidate(queryKeys.chats.messages(payload.new.chat_id));
+      }
+
+      invalidate(queryKeys.chats.list(user.id), queryKeys.chats.unread(user.id));
+    };
+
+    const messageChannel = supabase
+      .channel(`cache-sync:messages:${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'messages',
+        filter: `receiver_id=eq.${user.id}`
+      }, onMessage)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'messages',
+        filter: `sender_id=eq.${user.id}`
+      }, onMessage)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      supabase.removeChannel(messageChannel);
+    };
+  }, [user, queryClient]);
+
+  return null;
+};
+
+export default RealtimeSync;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles } from 'lucide-react';
+import TaskCard from './TaskCard';
+import { useAuth } from '@/context/AuthContext';
+import { useRecommendedTasks } from '@/hooks/use-task-feed';
+import { formatDistance } from '@/lib/geocoding';
+import { Coordinates } from '@/lib/types';
+
+interface RecommendedTasksProps {
+  // Distance only counts towards the ranking when the user's position is already known
+  position: Coordinates | null;
+  onApply: (taskId: string, message: string) => void;
+  onJoinJointTask: (taskId: string, needs: string, reward: number) => Promise<boolean>;
+}
+
+// "Recommended for you" row at the top of the home feed
+const RecommendedTasks = ({ position, onApply, onJoinJointTask }: RecommendedTasksProps) => {
+  const { profile } = useAuth();
+  const { tasks, isLoading, error } = useRecommendedTasks(position);
+  const hasSkills = (profile?.skills?.length ?? 0) > 0;
+
+  // Recommendations are a bonus on top of the feed, so failures stay quiet
+  if (isLoading || error) return null;
+
+  if (tasks.length === 0) {
+    if (hasSkills) return null;
+
+    return (
+      <div className="mb-8 rounded-md border border-dashed p-4 text-sm text-muted-foreground flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-primary shrink-0" />
+        <span>
+          <Link to="/profile" className="text-primary underline-offset-4 hover:underline">Add your skills</Link>
+          {' '}to get tasks recommended for you.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Sparkles className="h-5 w-5 text-primary" />
+        Recommended for you
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {tasks.map(task => {
+          const reasons = [
+            task.matchedSkills.length > 0 ? task.matchedSkills.join(', ') : null,
+            task.distanceKm != null ? formatDistance(task.distanceKm) : null,
+          ].filter(Boolean);
+
+          return (
+            <div key={task.id} className="space-y-1">
+              <TaskCard task={task} onApply={onApply} onJoinJointTask={onJoinJointTask} />
+              {reasons.length > 0 && (
+                <p className="text-xs text-muted-foreground px-1">Matches: {reasons.join(' · ')}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default RecommendedTasks;
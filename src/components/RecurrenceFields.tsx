@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { format, startOfDay } from 'date-fns';
+import { CalendarIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TASK_RECURRENCE_LABELS } from '@/lib/task-state';
+import { TaskRecurrence } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface RecurrenceFieldsProps {
+  recurrence: TaskRecurrence | null;
+  endsAt: Date | null;
+  onChange: (recurrence: TaskRecurrence | null, endsAt: Date | null) => void;
+  // The series cannot end before this instance's deadline
+  minEndDate: Date;
+}
+
+// The select has no empty value, so "does not repeat" gets its own
+const NO_RECURRENCE = 'none';
+
+// Repeat rule for a task: how often it is posted again and until when
+const RecurrenceFields = ({ recurrence, endsAt, onChange, minEndDate }: RecurrenceFieldsProps) => {
+  const [dateOpen, setDateOpen] = useState(false);
+
+  const handleRecurrenceChange = (value: string) => {
+    const next = value === NO_RECURRENCE ? null : value as TaskRecurrence;
+    onChange(next, next ? endsAt : null);
+  };
+
+  // The series runs to the end of the chosen day
+  const handleEndDateSelect = (date: Date | undefined) => {
+    if (date) {
+      const endOfDay = new Date(date);
+      endOfDay.setHours(23, 59, 59, 999);
+      onChange(recurrence, endOfDay);
+      setDateOpen(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="recurrence">Repeat</Label>
+      <Select value={recurrence ?? NO_RECURRENCE} onValueChange={handleRecurrenceChange}>
+        <SelectTrigger id="recurrence">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_RECURRENCE}>Does not repeat</SelectItem>
+          {Object.entries(TASK_RECURRENCE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {recurrence && (
+        <>
+          <div className="flex items-center gap-2">
+            <Popover open={dateOpen} onOpenChange={setDateOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className={cn("flex-1 justify-start text-left font-normal", !endsAt && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {endsAt ? `Ends ${format(endsAt, "PPP")}` : <span>No end date</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={endsAt ?? undefined}
+                  onSelect={handleEndDateSelect}
+                  disabled={(date) => date < startOfDay(minEndDate)}
+                  defaultMonth={endsAt ?? minEndDate}
+                  initialFocus
+                  className={cn("p-3 pointer-events-auto")}
+                />
+              </PopoverContent>
+            </Popover>
+            {endsAt && (
+              <Button type="button" variant="ghost" size="icon" onClick={() => onChange(recurrence, null)} aria-label="Remove end date">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The next one is posted automatically when this one is done or its deadline passes,
+            as long as you have fewer than 3 active tasks and enough points for the reward.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ReportTargetType } from '@/lib/types';
+import { useReportActions } from '@/hooks/use-reports';
+
+interface ReportDialogProps {
+  trigger: React.ReactNode;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetLabel: string;
+}
+
+const REASONS = [
+  'Spam',
+  'Harassment or abuse',
+  'Scam or fraud',
+  'Inappropriate content',
+  'Other',
+];
+
+const TARGET_NOUNS: Record<ReportTargetType, string> = {
+  task: 'task',
+  message: 'message',
+  profile: 'user',
+};
+
+// Sends a task, message or profile to the moderation queue in the admin console
+const ReportDialog = ({ trigger, targetType, targetId, targetLabel }: ReportDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const { submitReport, isSubmitting } = useReportActions();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setReason('');
+      setDetails('');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (await submitReport(targetType, targetId, reason, details.trim() || undefined)) {
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Report {TARGET_NOUNS[targetType]}</DialogTitle>
+          <DialogDescription>
+            Tell the moderators what is wrong with <span className="font-semibold">{targetLabel}</span>.
+            The person you report is not told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-reason">Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id="report-reason">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REASONS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything that helps a moderator understand the problem"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!reason || isSubmitting}>
+            {isSubmitting ? "Sending..." : "Send Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
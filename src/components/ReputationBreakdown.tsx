@@ -0,0 +1,90 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useUserReputation } from '@/hooks/use-user-ratings';
+import { ReputationType } from '@/lib/types';
+
+interface ReputationBreakdownProps {
+  userId: string;
+}
+
+const Step = ({ label, value, detail }: { label: string; value: string; detail: string }) => (
+  <div className="flex items-start justify-between gap-4 py-2 border-b last:border-b-0">
+    <div>
+      <p className="text-sm font-medium">{label}</p>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </div>
+    <span className="text-sm font-semibold shrink-0">{value}</span>
+  </div>
+);
+
+const RoleBreakdown = ({ title, reputation }: { title: string; reputation: ReputationType | null }) => {
+  if (!reputation) {
+    return (
+      <div>
+        <h4 className="font-medium mb-1">{title}</h4>
+        <p className="text-sm text-muted-foreground">No ratings or finished tasks in this role yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <h4 className="font-medium">{title}</h4>
+        <span className="text-2xl font-bold">{reputation.score.toFixed(2)}</span>
+      </div>
+
+      <Step
+        label="Your ratings"
+        value={reputation.averageRating !== null ? `${reputation.averageRating.toFixed(2)} ★` : 'None yet'}
+        detail={`The plain average of ${reputation.ratingCount} rating${reputation.ratingCount === 1 ? '' : 's'}.`}
+      />
+      <Step
+        label="Weighted by age"
+        value={reputation.weightedCount.toFixed(1)}
+        detail={`A rating counts half as much after ${reputation.halfLifeDays} days, so recent work matters most. This is how many fresh ratings yours add up to.`}
+      />
+      <Step
+        label="Adjusted for confidence"
+        value={`${reputation.bayesianRating.toFixed(2)} ★`}
+        detail={`Your ratings are pooled with ${reputation.priorWeight} ratings at the site average of ${reputation.priorRating.toFixed(2)} ★, so a few ratings can only move the score a little.`}
+      />
+      <Step
+        label="Completion rate"
+        value={`${Math.round(reputation.completionRate * 100)}%`}
+        detail={`${reputation.completedCount} completed and ${reputation.cancelledCount} cancelled${reputation.role === 'doer' ? ' or expired' : ''} after a doer was assigned, counting one extra completion so a single early cancellation isn't fatal.`}
+      />
+      <p className="text-xs text-muted-foreground mt-2">
+        Reputation = adjusted rating × completion rate
+      </p>
+    </div>
+  );
+};
+
+// How a user's reputation scores, used to rank the leaderboard, are computed
+const ReputationBreakdown = ({ userId }: ReputationBreakdownProps) => {
+  const { doer, creator, isLoading } = useUserReputation(userId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>How your score is computed</CardTitle>
+        <CardDescription>
+          The leaderboard ranks doers and creators by reputation rather than by their plain average rating.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reputation...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <RoleBreakdown title="As a doer" reputation={doer} />
+            <RoleBreakdown title="As a creator" reputation={creator} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReputationBreakdown;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Star } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useReviewReply, useUserReviews } from '@/hooks/use-reviews';
+import { MAX_REVIEW_LENGTH, REVIEW_SUB_SCORE_LABELS } from '@/lib/reviews';
+import { ReviewSubScore, ReviewType } from '@/lib/types';
+
+interface ReviewListProps {
+  userId: string;
+  // Set on the reviewed user's own profile, where each review can be answered once
+  canReply?: boolean;
+  limit?: number;
+  emptyMessage?: string;
+}
+
+const ReviewStars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center" aria-label={`${rating} out of 5 stars`}>
+    {[1, 2, 3, 4, 5].map(index => (
+      <Star
+        key={index}
+        className={`h-3.5 w-3.5 ${index <= Math.round(rating) ? 'text-yellow-500 fill-current' : 'text-gray-300'}`}
+      />
+    ))}
+  </div>
+);
+
+const ReplyForm = ({ reviewId }: { reviewId: string }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const { replyToReview, isReplying } = useReviewReply();
+
+  if (!isOpen) {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setIsOpen(true)}>
+        Reply
+      </Button>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (await replyToReview(reviewId, text)) {
+      setIsOpen(false);
+      setText('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Write a public reply. You can only reply once."
+        maxLength={MAX_REVIEW_LENGTH}
+        rows={3}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(false)} disabled={isReplying}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={!text.trim() || isReplying}>
+          {isReplying ? 'Posting...' : 'Post Reply'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ReviewItem = ({ review, canReply = false }: { review: ReviewType; canReply?: boolean }) => (
+  <div className="rounded-md border p-3 space-y-2">
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2 min-w-0">
+        <Avatar className="h-6 w-6">
+          <AvatarImage src={review.raterAvatarUrl || undefined} alt={review.raterName} />
+          <AvatarFallback>{review.raterName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium truncate">{review.raterName}</span>
+        <ReviewStars rating={review.rating} />
+      </div>
+      <span className="text-xs text-muted-foreground shrink-0">{format(review.createdAt, 'MMM d, yyyy')}</span>
+    </div>
+
+    <div className="flex flex-wrap gap-1">
+      <Badge variant="outline" className="font-normal">{review.isForCreator ? 'As creator' : 'As doer'}</Badge>
+      {(Object.entries(review.subScores) as [ReviewSubScore, number][]).map(([key, score]) => (
+        <Badge key={key} variant="secondary" className="font-normal">
+          {REVIEW_SUB_SCORE_LABELS[key]} {score}/5
+        </Badge>
+      ))}
+    </div>
+
+    <p className="text-sm whitespace-pre-line">{review.review}</p>
+
+    {review.reply ? (
+      <div className="border-l-2 border-primary/40 pl-3 ml-1">
+        <p className="text-xs text-muted-foreground mb-1">
+          Reply{review.repliedAt && ` · ${format(review.repliedAt, 'MMM d, yyyy')}`}
+        </p>
+        <p className="text-sm whitespace-pre-line">{review.reply}</p>
+      </div>
+    ) : canReply && (
+      <ReplyForm reviewId={review.id} />
+    )}
+  </div>
+);
+
+// Written reviews of a user, newest first
+const ReviewList = ({ userId, canReply = false, limit = 20, emptyMessage = 'No written reviews yet.' }: ReviewListProps) => {
+  const { reviews, isLoading } = useUserReviews(userId, limit);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading reviews...</p>;
+  }
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {reviews.map(review => (
+        <ReviewItem key={review.id} review={review} canReply={canReply} />
+      ))}
+    </div>
+  );
+};
+
+export default ReviewList;
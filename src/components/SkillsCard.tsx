@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useTaskCategories } from '@/hooks/use-categories';
+import { useAuth } from '@/context/AuthContext';
+import { queryKeys } from '@/lib/query-keys';
+import TagInput from './TagInput';
+
+const MAX_SKILLS = 20;
+
+// The user's skills, matched against task tags and categories for "Recommended for you"
+const SkillsCard = () => {
+  const { profile, updateProfile } = useAuth();
+  const { categories } = useTaskCategories();
+  const queryClient = useQueryClient();
+  const savedSkills: string[] = profile?.skills ?? [];
+  const [skills, setSkills] = useState<string[]>(savedSkills);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savedKey = savedSkills.join(',');
+  useEffect(() => {
+    setSkills(savedKey ? savedKey.split(',') : []);
+  }, [savedKey]);
+
+  const isDirty = skills.join(',') !== savedKey;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await updateProfile({ skills });
+    setIsSaving(false);
+
+    if (!error) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.recommendations() });
+    }
+  };
+
+  // Category names count as skills too, so they make handy one-click suggestions
+  const suggestions = categories
+    .map(category => category.name.toLowerCase())
+    .filter(name => name !== 'other' && !skills.includes(name));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Skills</CardTitle>
+        <CardDescription>
+          Open tasks tagged with your skills, or in a category you name, are recommended to you on the home page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TagInput
+          value={skills}
+          onChange={setSkills}
+          placeholder="e.g. plumbing, spanish, driving (press Enter)"
+          max={MAX_SKILLS}
+        />
+
+        {suggestions.length > 0 && skills.length < MAX_SKILLS && (
+          <div className="flex flex-wrap gap-1">
+            {suggestions.map(suggestion => (
+              <Button
+                key={suggestion}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSkills([...skills, suggestion])}
+              >
+                + {suggestion}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Skills'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SkillsCard;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  max?: number;
+}
+
+// Free-form tags entered one at a time; Enter or a comma adds the typed tag.
+// Tags are lowercased here the same way the database normalizes them.
+const TagInput = ({ id, value, onChange, placeholder = 'Add a tag and press Enter', max = 10 }: TagInputProps) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (raw: string) => {
+    const tag = raw.trim().toLowerCase().slice(0, 30);
+    setDraft('');
+
+    if (!tag || value.includes(tag) || value.length >= max) return;
+    onChange([...value, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(other => other !== tag))}
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTag(draft)}
+        placeholder={value.length >= max ? `Up to ${max}` : placeholder}
+        disabled={value.length >= max}
+      />
+    </div>
+  );
+};
+
+export default TagInput;
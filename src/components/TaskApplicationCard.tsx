@@ -1,15 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Check, X, MessageCircle, AlertTriangle, CalendarClock, MapPin, Star } from 'lucide-react';
+import { Check, X, MessageCircle, AlertTriangle, CalendarClock, MapPin, Star, Ban } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { ApplicationType } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
-import { supabase } from '@/integrations/supabase/client';
+import { chatsRepo, tasksRepo } from '@/lib/repositories';
 import { useAuth } from '@/context/AuthContext';
 import MaskedUsername from './MaskedUsername';
+import BlockUserDialog from './BlockUserDialog';
+import UserReviewsHoverCard from './UserReviewsHoverCard';
 import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { useUserRatings } from '@/hooks/use-user-ratings';
@@ -51,21 +52,13 @@ const TaskApplicationCard = ({ application, onApprove, onReject, onApplicationsU
     const fetchDetails = async () => {
       try {
         // Fetch task details
-        const { data: taskData, error: taskError } = await supabase
-          .from('tasks')
-          .select('location, deadline, reward, description')
-          .eq('id', application.taskId)
-          .single();
-
-        if (taskError) throw taskError;
-        if (taskData) {
-          setTaskDetails({
-            location: taskData.location,
-            deadline: taskData.deadline ? new Date(taskData.deadline) : undefined,
-            reward: taskData.reward,
-            description: taskData.description
-          });
-        }
+        const taskData = await tasksRepo.getById(application.taskId);
+        setTaskDetails({
+          location: taskData.location,
+          deadline: taskData.deadline,
+          reward: taskData.reward,
+          description: taskData.description
+        });
 
         // Applicant rating is now fetched using useUserRatings hook
       } catch (error) {
@@ -89,33 +82,7 @@ const TaskApplicationCard = ({ application, onApprove, onReject, onApplicationsU
     setIsProcessing(true);
 
     try {
-      // Check if a chat already exists
-      const { data: existingChats, error: chatCheckError } = await extendedSupabase
-        .from('chats')
-        .select('*')
-        .or(`and(user1_id.eq.${user.id},user2_id.eq.${application.userId}),and(user1_id.eq.${application.userId},user2_id.eq.${user.id})`)
-        .limit(1);
-
-      if (chatCheckError) throw chatCheckError;
-
-      let chatId;
-
-      if (existingChats && existingChats.length > 0) {
-        chatId = existingChats[0].id;
-      } else {
-        // Create a new chat
-        const { data: newChat, error: createChatError } = await extendedSupabase
-          .from('chats')
-          .insert({
-            user1_id: user.id,
-            user2_id: application.userId
-          })
-          .select()
-          .single();
-
-        if (createChatError) throw createChatError;
-        chatId = newChat.id;
-      }
+      const { id: chatId } = await chatsRepo.findOrCreate(user.id, application.userId);
 
       navigate('/chat', { 
         state: { 
@@ -210,9 +177,11 @@ const TaskApplicationCard = ({ application, onApprove, onReject, onApplicationsU
             <Avatar className="h-5 w-5 mr-1.5">
               <AvatarFallback>{application.username.charAt(0)}</AvatarFallback>
             </Avatar>
-            <div className="text-sm font-medium">
-              {application.username}
-            </div>
+            <UserReviewsHoverCard userId={application.userId}>
+              <Link to={`/u/${encodeURIComponent(application.username)}`} className="text-sm font-medium hover:underline">
+                {application.username}
+              </Link>
+            </UserReviewsHoverCard>
           </div>
 
           {applicantRatings && (
@@ -228,6 +197,18 @@ const TaskApplicationCard = ({ application, onApprove, onReject, onApplicationsU
       </CardContent>
 
       <CardFooter className="px-4 py-3 flex justify-end space-x-2 border-t">
+        <BlockUserDialog
+          trigger={
+            <Button variant="ghost" size="sm" className="text-muted-foreground mr-auto" disabled={isProcessing}>
+              <Ban className="h-4 w-4 mr-1" />
+              Block
+            </Button>
+          }
+          userId={application.userId}
+          username={application.username}
+          onBlocked={onApplicationsUpdated}
+        />
+
         <Button 
           variant="outline" 
           size="sm" 
@@ -1,23 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Star, Edit, Trash, MapPin, CalendarClock, MessageCircle, Plus, Send, UserPlus, UserCheck } from 'lucide-react';
+import { Star, Edit, Trash, MapPin, CalendarClock, MessageCircle, Plus, Send, UserPlus, UserCheck, Flag, Ban, Repeat } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
 import EditTaskForm from './EditTaskForm';
 import { format } from 'date-fns';
 import { TaskType } from '@/lib/types';
+import { formatDistance } from '@/lib/geocoding';
+import { DISPUTE_OUTCOME_LABELS, TASK_RECURRENCE_LABELS, TASK_STATE_LABELS, isCancellableTask } from '@/lib/task-state';
 import { Badge } from './ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Label } from './ui/label';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { applicationsRepo, blocksRepo, chatsRepo, profilesRepo } from '@/lib/repositories';
 import { useAuth } from '@/context/AuthContext';
 import MaskedUsername from './MaskedUsername';
+import ReportDialog from './ReportDialog';
+import BlockUserDialog from './BlockUserDialog';
 import { useUserRatings } from '@/hooks/use-user-ratings'; // Added import
+import { useTaskCategories } from '@/hooks/use-categories';
 
 
 interface TaskCardProps {
@@ -26,9 +30,9 @@ interface TaskCardProps {
   isCompleted?: boolean;
   completed?: boolean;
   applicationStatus?: string;
-  onCancel?: (taskId: string) => void;
+  onCancel?: (taskId: string, reason: string) => void;
   onEdit?: (task: TaskType) => void;
-  onJoinJointTask?: (taskId: string, needs: string, reward: number) => void;
+  onJoinJointTask?: (taskId: string, needs: string, reward: number) => Promise<boolean>;
   onApproveJointRequestor?: (taskId: string, userId: string) => void;
   onRejectJointRequestor?: (taskId: string, userId: string) => void;
   onApproveDoer?: (taskId: string, userId: string) => void;
@@ -55,6 +59,8 @@ const TaskCard = ({
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [isApplyDialogOpen, setIsApplyDialogOpen] = useState(false);
   const [isJoinJointDialogOpen, setIsJoinJointDialogOpen] = useState(false);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState('');
   const [applicationMessage, setApplicationMessage] = useState('');
   const [jointTaskNeeds, setJointTaskNeeds] = useState('');
   const [jointTaskReward, setJointTaskReward] = useState(100);
@@ -64,14 +70,24 @@ const TaskCard = ({
   const { user } = useAuth();
   const { ratings: creatorRatings } = useUserRatings(task.creatorId); // Added useUserRatings hook
   const { ratings: doerRatings } = useUserRatings(task.doerId);     // Added useUserRatings hook
+  const { categoryName } = useTaskCategories();
   const [creatorName, setCreatorName] = useState<string | null>(null);
   const [doerName, setDoerName] = useState<string | null>(null);
   const [chatExists, setChatExists] = useState(false);
 
 
+  const canCancel = !!onCancel && isCancellableTask(task);
+
   const handleCancel = () => {
-    if (onCancel) {
-      onCancel(task.id);
+    setIsDetailsDialogOpen(false);
+    setIsCancelDialogOpen(true);
+  };
+
+  const handleConfirmCancel = () => {
+    if (onCancel && cancellationReason.trim()) {
+      onCancel(task.id, cancellationReason.trim());
+      setIsCancelDialogOpen(false);
+      setCancellationReason('');
     }
   };
 
@@ -113,16 +129,7 @@ const TaskCard = ({
       if (onApply) {
         await onApply(task.id, applicationMessage);
       } else {
-        const { data: existingApplications, error: checkError } = await extendedSupabase
-          .from('task_applications')
-          .select('*')
-          .eq('task_id', task.id)
-          .eq('applicant_id', user.id)
-          .limit(1);
-
-        if (checkError) throw checkError;
-
-        if (existingApplications && existingApplications.length > 0) {
+        if (await applicationsRepo.hasApplied(task.id, user.id)) {
           toast({
             title: "Already Applied",
             description: "You have already applied for this task",
@@ -133,15 +140,7 @@ const TaskCard = ({
           return;
         }
 
-        const { error } = await extendedSupabase
-          .from('task_applications')
-          .insert({
-            task_id: task.id,
-            applicant_id: user.id,
-            message: applicationMessage
-          });
-
-        if (error) throw error;
+        await applicationsRepo.apply(task.id, user.id, applicationMessage);
 
         toast({
           title: "Application Submitted",
@@ -163,12 +162,18 @@ const TaskCard = ({
     }
   };
 
-  const handleJoinJointTask = () => {
+  const handleJoinJointTask = async () => {
     if (onJoinJointTask && jointTaskNeeds.trim() && jointTaskReward > 0) {
-      onJoinJointTask(task.id, jointTaskNeeds, jointTaskReward);
+      setIsSubmitting(true);
+      const success = await onJoinJointTask(task.id, jointTaskNeeds, jointTaskReward);
+      setIsSubmitting(false);
+
+      if (!success) return;
+
       setJointTaskNeeds('');
       setJointTaskReward(100);
       setIsJoinJointDialogOpen(false);
+      setIsDetailsDialogOpen(false);
       toast({
         title: "Join Request Submitted",
         description: "Your request to join this joint task has been sent."
@@ -189,41 +194,23 @@ const TaskCard = ({
     setIsSubmitting(true);
 
     try {
-      const { data: existingChats, error: chatCheckError } = await extendedSupabase
-        .from('chats')
-        .select('*')
-        .or(`and(user1_id.eq.${user.id},user2_id.eq.${task.creatorId}),and(user1_id.eq.${task.creatorId},user2_id.eq.${user.id})`)
-        .limit(1);
-
-      if (chatCheckError) throw chatCheckError;
-
-      let chatId;
-
-      if (existingChats && existingChats.length > 0) {
-        chatId = existingChats[0].id;
-      } else {
-        const { data: newChat, error: createChatError } = await extendedSupabase
-          .from('chats')
-          .insert({
-            user1_id: user.id,
-            user2_id: task.creatorId
-          })
-          .select()
-          .single();
-
-        if (createChatError) throw createChatError;
-        chatId = newChat.id;
+      if (await blocksRepo.hasBlocked(user.id, task.creatorId)) {
+        toast({
+          title: "Can't Message User",
+          description: "You blocked this user. Unblock them to send messages.",
+          variant: "destructive"
+        });
+        return;
       }
 
-      await supabase
-        .from('messages')
-        .insert({
-          chat_id: chatId,
-          sender_id: user.id,
-          receiver_id: task.creatorId,
-          content: `Hi, I'm interested in your task: ${task.title}`,
-          read: false
-        });
+      const { id: chatId } = await chatsRepo.findOrCreate(user.id, task.creatorId);
+
+      await chatsRepo.sendMessage({
+        chatId,
+        senderId: user.id,
+        receiverId: task.creatorId,
+        content: `Hi, I'm interested in your task: ${task.title}`
+      });
 
       setIsDetailsDialogOpen(false);
 
@@ -255,9 +242,10 @@ const TaskCard = ({
 
   const isFullyCompleted = () => {
     return (
-      task.status === 'completed' || 
-      isCompleted || 
-      (task.isRequestorVerified && task.isDoerVerified && task.isRequestorRated && task.isDoerRated)
+      isCompleted ||
+      task.state === 'cancelled' ||
+      task.state === 'expired' ||
+      (task.state === 'completed' && task.isRequestorRated && task.isDoerRated)
     );
   };
 
@@ -266,30 +254,55 @@ const TaskCard = ({
       return {
         color: 'text-red-500',
         bgColor: 'bg-red-500',
-        text: 'Done',
+        text: task.state === 'cancelled' || task.state === 'expired' ? TASK_STATE_LABELS[task.state] : 'Done',
         variant: 'destructive' as const
       };
-    } else if (task.isRequestorVerified && task.isDoerVerified) {
-      return {
-        color: 'text-blue-500',
-        bgColor: 'bg-blue-500',
-        text: 'Verification Complete',
-        variant: 'default' as const
-      };
-    } else if (task.doerId) {
-      return {
-        color: 'text-green-500',
-        bgColor: 'bg-green-500',
-        text: 'Active',
-        variant: 'default' as const
-      };
-    } else {
-      return {
-        color: 'text-yellow-500',
-        bgColor: 'bg-yellow-500',
-        text: 'Live',
-        variant: 'secondary' as const
-      };
+    }
+
+    switch (task.state) {
+      case 'completed':
+        return {
+          color: 'text-blue-500',
+          bgColor: 'bg-blue-500',
+          text: 'Verification Complete',
+          variant: 'default' as const
+        };
+      case 'awaiting_verification':
+        return {
+          color: 'text-blue-500',
+          bgColor: 'bg-blue-500',
+          text: TASK_STATE_LABELS[task.state],
+          variant: 'default' as const
+        };
+      case 'disputed':
+        return {
+          color: 'text-orange-500',
+          bgColor: 'bg-orange-500',
+          text: TASK_STATE_LABELS[task.state],
+          variant: 'destructive' as const
+        };
+      case 'assigned':
+      case 'in_progress':
+        return {
+          color: 'text-green-500',
+          bgColor: 'bg-green-500',
+          text: TASK_STATE_LABELS[task.state],
+          variant: 'default' as const
+        };
+      case 'draft':
+        return {
+          color: 'text-muted-foreground',
+          bgColor: 'bg-muted-foreground',
+          text: TASK_STATE_LABELS[task.state],
+          variant: 'outline' as const
+        };
+      default:
+        return {
+          color: 'text-yellow-500',
+          bgColor: 'bg-yellow-500',
+          text: TASK_STATE_LABELS.open,
+          variant: 'secondary' as const
+        };
     }
   };
 
@@ -326,16 +339,11 @@ const TaskCard = ({
       if (!task.creatorId) return;
 
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('username')
-          .eq('id', task.creatorId)
-          .single();
-
-        if (error) throw error;
+        // Usually answered from the profile cache
+        const creator = await profilesRepo.getOne(task.creatorId);
 
-        if (data) {
-          setCreatorName(data.username);
+        if (creator) {
+          setCreatorName(creator.username);
         }
       } catch (error) {
         console.error('Error fetching creator info:', error);
@@ -370,6 +378,7 @@ const TaskCard = ({
           <div className="flex items-center text-xs text-muted-foreground mb-2">
             <MapPin className="h-3 w-3 mr-1" />
             <span>{task.location}</span>
+            {task.distanceKm != null && <span className="ml-1">· {formatDistance(task.distanceKm)}</span>}
           </div>
 
           <div className="flex flex-col gap-1 mb-4">
@@ -379,10 +388,35 @@ const TaskCard = ({
             </div>
           </div>
 
+          {(task.categoryId || task.tags?.length > 0) && (
+            <div className="flex flex-wrap items-center gap-1 mb-4">
+              {task.categoryId && <Badge variant="default">{categoryName(task.categoryId) || task.categoryId}</Badge>}
+              {task.tags?.map(tag => (
+                <Badge key={tag} variant="secondary" className="font-normal">#{tag}</Badge>
+              ))}
+            </div>
+          )}
+
           {task.taskType === 'joint' && (
             <Badge variant="outline" className="mb-4">Joint Task</Badge>
           )}
 
+          {task.recurrence && (
+            <Badge variant="outline" className="mb-4 ml-1 font-normal">
+              <Repeat className="h-3 w-3 mr-1" />
+              {TASK_RECURRENCE_LABELS[task.recurrence]}
+              {task.recurrenceEndsAt && ` until ${format(task.recurrenceEndsAt, 'MMM d')}`}
+            </Badge>
+          )}
+
+          {task.state === 'cancelled' && task.cancellationReason && (
+            <p className="text-xs text-destructive mb-4">Cancelled: {task.cancellationReason}</p>
+          )}
+
+          {task.disputeOutcome && (
+            <p className="text-xs text-muted-foreground mb-4">Dispute resolved: {DISPUTE_OUTCOME_LABELS[task.disputeOutcome]}</p>
+          )}
+
           <div className="mt-auto flex justify-between items-center">
             <div className="flex items-center">
               <Avatar className="h-5 w-5 mr-1.5">
@@ -431,17 +465,19 @@ const TaskCard = ({
               </DialogContent>
             </Dialog>
 
-            <Button 
-              variant="destructive" 
-              size="sm" 
-              onClick={(e) => {
-                e.stopPropagation();
-                handleCancel();
-              }}
-            >
-              <Trash className="h-4 w-4 mr-1" />
-              Cancel
-            </Button>
+            {canCancel && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleCancel();
+                }}
+              >
+                <Trash className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            )}
           </CardFooter>
         )}
       </Card>
@@ -462,9 +498,25 @@ const TaskCard = ({
           <div className="space-y-4 py-4">
             <p>{task.description}</p>
 
+            {task.state === 'cancelled' && task.cancellationReason && (
+              <p className="text-sm text-destructive">
+                <span className="font-medium">Cancellation reason:</span> {task.cancellationReason}
+              </p>
+            )}
+
+            {task.disputeOutcome && (
+              <p className="text-sm text-muted-foreground">
+                <span className="font-medium">Dispute resolved:</span> {DISPUTE_OUTCOME_LABELS[task.disputeOutcome]}
+                {task.disputeResolvedAt && ` on ${format(task.disputeResolvedAt, 'MMM d, yyyy')}`}
+              </p>
+            )}
+
             <div className="flex items-center text-sm">
               <MapPin className="h-4 w-4 mr-2" />
               <span>{task.location}</span>
+              {task.distanceKm != null && (
+                <span className="ml-1 text-muted-foreground">· {formatDistance(task.distanceKm)}</span>
+              )}
             </div>
 
             <div className="flex items-center text-sm">
@@ -488,6 +540,32 @@ const TaskCard = ({
                   </span>
                 )}
               </div>
+              {user && !isOwner && user.id !== task.creatorId && (
+                <div className="flex items-center">
+                  <ReportDialog
+                    trigger={
+                      <Button variant="ghost" size="sm" className="text-muted-foreground">
+                        <Flag className="h-4 w-4 mr-1" />
+                        Report
+                      </Button>
+                    }
+                    targetType="task"
+                    targetId={task.id}
+                    targetLabel={task.title}
+                  />
+                  <BlockUserDialog
+                    trigger={
+                      <Button variant="ghost" size="sm" className="text-muted-foreground">
+                        <Ban className="h-4 w-4 mr-1" />
+                        Block
+                      </Button>
+                    }
+                    userId={task.creatorId}
+                    username={task.creatorName}
+                    onBlocked={() => setIsDetailsDialogOpen(false)}
+                  />
+                </div>
+              )}
             </div>
             {task.doerId && (task.doerName || doerName) && (
               <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 mt-1">
@@ -519,15 +597,17 @@ const TaskCard = ({
                       <Edit className="h-4 w-4 mr-2" />
                       Edit
                     </Button>
-                    <Button
-                      variant="destructive"
-                      onClick={handleCancel}
-                      className="flex items-center"
-                      disabled={isSubmitting}
-                    >
-                      <Trash className="h-4 w-4 mr-2" />
-                      Cancel
-                    </Button>
+                    {canCancel && (
+                      <Button
+                        variant="destructive"
+                        onClick={handleCancel}
+                        className="flex items-center"
+                        disabled={isSubmitting}
+                      >
+                        <Trash className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
                   </>
                 ) : (
                   <>
@@ -541,7 +621,7 @@ const TaskCard = ({
                       Message
                     </Button>
 
-                    {!hasApplied && task.taskType === 'joint' ? (
+                    {!hasApplied && task.taskType === 'joint' && onJoinJointTask ? (
                       <div className="flex space-x-2">
                         <Button 
                           variant="outline" 
@@ -584,6 +664,43 @@ const TaskCard = ({
         </DialogContent>
       </Dialog>
 
+      <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Cancel Task</DialogTitle>
+            <DialogDescription>
+              {task.doerId
+                ? 'The assigned doer will be notified with your reason.'
+                : 'Everyone who applied will be notified with your reason.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="cancellation-reason">Reason</Label>
+              <Textarea 
+                id="cancellation-reason" 
+                placeholder="Why are you cancelling this task?"
+                value={cancellationReason}
+                onChange={(e) => setCancellationReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelDialogOpen(false)}>Keep Task</Button>
+            <Button 
+              variant="destructive"
+              onClick={handleConfirmCancel} 
+              disabled={!cancellationReason.trim()}
+            >
+              Cancel Task
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isApplyDialogOpen} onOpenChange={setIsApplyDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
@@ -624,7 +741,7 @@ const TaskCard = ({
           <DialogHeader>
             <DialogTitle>Join as Task Requestor</DialogTitle>
             <DialogDescription>
-              Describe what you need help with and how much you're willing to pay.
+              Describe what you need help with and how much you're willing to pay. Your share is held from your points once the creator approves you.
             </DialogDescription>
           </DialogHeader>
 
@@ -1,14 +1,17 @@
 
 import React from 'react';
 import { TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Clock, ClipboardCheck, User, MessageSquare } from 'lucide-react';
-import { TaskType, ApplicationType } from '@/lib/types';
+import { Clock, ClipboardCheck, User, MessageSquare, Users } from 'lucide-react';
+import { TaskType, ApplicationType, JointTaskMemberType } from '@/lib/types';
 import { useAuth } from '@/context/AuthContext';
+import { filterTasksByTab } from '@/lib/task-state';
 
 interface TaskFiltersProps {
   tasks: TaskType[];
   appliedTasks: TaskType[];
   applications: ApplicationType[];
+  jointTasks?: TaskType[];
+  jointTaskRequests?: JointTaskMemberType[];
   defaultTab?: string;
   onTabChange?: (value: string) => void;
 }
@@ -17,6 +20,8 @@ const TaskFilters: React.FC<TaskFiltersProps> = ({
   tasks, 
   appliedTasks, 
   applications,
+  jointTasks = [],
+  jointTaskRequests = [],
   defaultTab = 'active',
   onTabChange 
 }) => {
@@ -24,48 +29,28 @@ const TaskFilters: React.FC<TaskFiltersProps> = ({
 
   // Get active tasks created by the user that are not yet assigned to a doer
   const getActiveTasks = () => {
-    return tasks.filter(task => 
-      task.status === 'active' && 
-      task.creatorId === user?.id &&
-      !task.doerId
-    );
+    return filterTasksByTab(tasks, 'active', user?.id);
   };
 
   // Get approved tasks (either created by user and assigned to doer, or doer is the current user)
   const getApprovedTasks = () => {
-    const approvedCreatedTasks = tasks.filter(
-      task => task.status === 'active' && 
-      task.doerId && 
-      task.creatorId === user?.id
-    );
-    
-    const approvedDoingTasks = appliedTasks.filter(
-      task => task.status === 'active' && 
-      task.doerId === user?.id
-    );
-    
-    return [...approvedCreatedTasks, ...approvedDoingTasks];
+    return [
+      ...filterTasksByTab(tasks, 'approved', user?.id),
+      ...filterTasksByTab(appliedTasks, 'approved', user?.id)
+    ];
   };
 
-  // Get tasks the user has applied for that are still pending (not rejected, not assigned to any doer, not expired)
+  // Get tasks the user has applied for that are still open and pending
   const getAppliedTasks = () => {
-    const now = new Date();
-    return appliedTasks.filter(task => 
-      task.status === 'active' && 
-      task.applicationStatus === 'pending' &&
-      !task.doerId &&
-      task.deadline > now // Filter out expired tasks
-    );
+    return filterTasksByTab(appliedTasks, 'applied', user?.id);
   };
 
   // Get pending applications for tasks created by the user
   const getPendingApplications = () => {
-    // Only get IDs of active tasks created by the user that don't have a doer assigned yet
-    const activeTaskIds = tasks.filter(task => 
-      task.status === 'active' && 
-      task.creatorId === user?.id &&
-      !task.doerId
-    ).map(task => task.id);
+    // Only get IDs of open tasks created by the user, since assigned tasks take no more applications
+    const activeTaskIds = tasks
+      .filter(task => task.state === 'open' && task.creatorId === user?.id)
+      .map(task => task.id);
     
     // Only count applications that are still pending and belong to tasks without assigned doers
     return applications.filter(app => 
@@ -100,6 +85,15 @@ const TaskFilters: React.FC<TaskFiltersProps> = ({
           <span>Requests ({getPendingApplications().length})</span>
         </div>
       </TabsTrigger>
+      <TabsTrigger value="joint">
+        <div className="flex items-center gap-1">
+          <Users className="h-4 w-4" />
+          <span>Joint ({jointTasks.length})</span>
+          {jointTaskRequests.length > 0 && (
+            <span className="h-2 w-2 rounded-full bg-red-500" />
+          )}
+        </div>
+      </TabsTrigger>
     </TabsList>
   );
 };
@@ -1,9 +1,12 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { TaskType, ApplicationType } from '@/lib/types';
 import TaskCard from './TaskCard';
 import TaskApplicationCard from './TaskApplicationCard';
 import VerificationCodeCard from './VerificationCodeCard';
+import DisputeCard from './DisputeCard';
+import { Button } from '@/components/ui/button';
+import { PlayCircle } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 
 interface TaskGridProps {
@@ -13,14 +16,20 @@ interface TaskGridProps {
   showApplications?: boolean;
   showVerificationCodes?: boolean;
   applications?: ApplicationType[];
-  onCancel?: (taskId: string) => void;
+  onCancel?: (taskId: string, reason: string) => void;
+  onStartTask?: (taskId: string) => void;
   onEdit?: (task: TaskType) => void;
   onApply?: (taskId: string, message: string) => void;
+  onJoinJointTask?: (taskId: string, needs: string, reward: number) => Promise<boolean>;
   onApproveApplication?: (applicationId: string, taskId: string, applicantId: string) => void;
   onRejectApplication?: (applicationId: string) => void;
   onVerifyCode?: (taskId: string, code: string) => Promise<boolean>;
   onRequestRating?: () => void;
   fullWidth?: boolean;
+  // Infinite scroll: onLoadMore is called when the end of the list scrolls into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const TaskGrid: React.FC<TaskGridProps> = ({ 
@@ -31,15 +40,35 @@ const TaskGrid: React.FC<TaskGridProps> = ({
   showVerificationCodes = false,
   applications = [],
   onCancel,
+  onStartTask,
   onEdit,
   onApply,
+  onJoinJointTask,
   onApproveApplication,
   onRejectApplication,
   onVerifyCode,
   onRequestRating,
-  fullWidth = false
+  fullWidth = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
 }) => {
   const { user } = useAuth();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoadingMore, tasks.length]);
 
   if (loading) {
     return <p>Loading tasks...</p>;
@@ -73,12 +102,23 @@ const TaskGrid: React.FC<TaskGridProps> = ({
               task={task}
               onCancel={task.creatorId === user?.id ? onCancel : undefined}
             />
+
+            {onStartTask && task.doerId === user?.id && task.state === 'assigned' && (
+              <Button
+                variant="outline"
+                className="w-full flex items-center gap-2"
+                onClick={() => onStartTask(task.id)}
+              >
+                <PlayCircle size={16} />
+                Start Task
+              </Button>
+            )}
             
-            {task.requestorVerificationCode && task.doerVerificationCode && (
+            {task.doerId && task.verificationCode && (
               <VerificationCodeCard
                 taskId={task.id}
                 taskTitle={task.title}
-                code={task.creatorId === user?.id ? task.requestorVerificationCode : task.doerVerificationCode}
+                code={task.verificationCode}
                 partnerId={task.creatorId === user?.id ? task.doerId || '' : task.creatorId}
                 partnerName={task.creatorId === user?.id ? task.doerName || 'Task Doer' : task.creatorName}
                 isDoer={task.doerId === user?.id}
@@ -86,10 +126,19 @@ const TaskGrid: React.FC<TaskGridProps> = ({
                 isPartnerVerified={task.creatorId === user?.id ? task.isDoerVerified || false : task.isRequestorVerified || false}
                 isRated={task.creatorId === user?.id ? task.isRequestorRated || false : task.isDoerRated || false}
                 isPartnerRated={task.creatorId === user?.id ? task.isDoerRated || false : task.isRequestorRated || false}
+                attemptsRemaining={task.verificationAttemptsRemaining}
+                lockedUntil={task.verificationLockedUntil}
                 onVerify={onVerifyCode || (async () => false)}
                 onRequestRating={onRequestRating || (() => {})}
               />
             )}
+
+            {task.doerId && task.state === 'disputed' && (
+              <DisputeCard
+                taskId={task.id}
+                partnerId={task.creatorId === user?.id ? task.doerId : task.creatorId}
+              />
+            )}
           </div>
         ))}
       </div>
@@ -97,20 +146,29 @@ const TaskGrid: React.FC<TaskGridProps> = ({
   }
 
   return (
-    <div className={fullWidth ? "flex flex-col space-y-4" : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"}>
-      {tasks.map(task => (
-        <TaskCard
-          key={task.id}
-          task={task}
-          isOwner={task.isOwner || (user && task.creatorId === user.id)}
-          onCancel={onCancel}
-          onEdit={onEdit}
-          onApply={onApply}
-          applicationStatus={task.applicationStatus}
-          completed={task.status === 'completed'}
-        />
-      ))}
-    </div>
+    <>
+      <div className={fullWidth ? "flex flex-col space-y-4" : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"}>
+        {tasks.map(task => (
+          <TaskCard
+            key={task.id}
+            task={task}
+            isOwner={task.isOwner || (user && task.creatorId === user.id)}
+            onCancel={onCancel}
+            onEdit={onEdit}
+            onApply={onApply}
+            onJoinJointTask={onJoinJointTask}
+            applicationStatus={task.applicationStatus}
+            completed={task.state === 'completed'}
+          />
+        ))}
+      </div>
+
+      {onLoadMore && (
+        <div ref={loadMoreRef} className="flex justify-center py-6 text-sm text-muted-foreground">
+          {isLoadingMore ? 'Loading more tasks...' : !hasMore && "You've reached the end"}
+        </div>
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Coordinates, TaskType } from '@/lib/types';
+
+interface TaskMapProps {
+  tasks: TaskType[];
+  // The user's position, shown as a dot and used as the starting view when there are no pins
+  position?: Coordinates | null;
+  selectedTaskId?: string | null;
+  onSelectTask: (task: TaskType) => void;
+}
+
+type TaskPointProperties = { task: TaskType };
+
+// Centre of India, for a first view before there is anything to show
+const DEFAULT_CENTER: L.LatLngTuple = [22.5, 79];
+const DEFAULT_ZOOM = 5;
+
+// Markers are plain HTML so they pick up the app's Tailwind theme and need no image assets
+const clusterIcon = (count: number) => L.divIcon({
+  html: `<div class="flex h-full w-full items-center justify-center rounded-full bg-primary text-primary-foreground text-sm font-semibold shadow ring-4 ring-primary/30">${count}</div>`,
+  className: '',
+  iconSize: count < 10 ? [32, 32] : count < 100 ? [40, 40] : [48, 48],
+});
+
+const taskIcon = (task: TaskType, isSelected: boolean) => L.divIcon({
+  html: `<div class="whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold shadow border ${
+    isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background text-foreground'
+  }">₹${task.reward}</div>`,
+  className: '',
+  iconSize: [56, 22],
+  iconAnchor: [28, 11],
+});
+
+const positionIcon = L.divIcon({
+  html: '<div class="h-full w-full rounded-full bg-blue-500 border-2 border-white shadow"></div>',
+  className: '',
+  iconSize: [14, 14],
+});
+
+// Clusters the pins for the current view, re-clustering as the map moves
+const TaskClusters = ({ tasks, position, selectedTaskId, onSelectTask }: TaskMapProps) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+
+  useMapEvents({
+    moveend: () => setView({ bounds: map.getBounds(), zoom: map.getZoom() }),
+  });
+
+  const index = useMemo(() => {
+    const clusterIndex = new Supercluster<TaskPointProperties>({ radius: 60, maxZoom: 16 });
+    clusterIndex.load(tasks
+      .filter(task => task.coordinates)
+      .map(task => ({
+        type: 'Feature' as const,
+        properties: { task },
+        geometry: { type: 'Point' as const, coordinates: [task.coordinates.longitude, task.coordinates.latitude] },
+      })));
+    return clusterIndex;
+  }, [tasks]);
+
+  // Fit the view to the pins whenever a new set of results arrives
+  useEffect(() => {
+    const points = tasks.filter(task => task.coordinates).map(task => L.latLng(task.coordinates.latitude, task.coordinates.longitude));
+
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 14 });
+    } else if (position) {
+      map.setView([position.latitude, position.longitude], 12);
+    }
+  }, [map, tasks, position]);
+
+  const { bounds, zoom } = view;
+  const clusters = index.getClusters(
+    [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+    Math.round(zoom)
+  );
+
+  return (
+    <>
+      {position && (
+        <Marker position={[position.latitude, position.longitude]} icon={positionIcon} interactive={false} />
+      )}
+
+      {clusters.map(feature => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const clusterId = feature.properties.cluster_id;
+
+          return (
+            <Marker
+              key={`cluster-${clusterId}`}
+              position={[latitude, longitude]}
+              icon={clusterIcon(feature.properties.point_count)}
+              eventHandlers={{
+                click: () => map.flyTo([latitude, longitude], Math.min(index.getClusterExpansionZoom(clusterId), 18)),
+              }}
+            />
+          );
+        }
+
+        const { task } = feature.properties as TaskPointProperties;
+
+        return (
+          <Marker
+            key={task.id}
+            position={[latitude, longitude]}
+            icon={taskIcon(task, task.id === selectedTaskId)}
+            title={task.title}
+            zIndexOffset={task.id === selectedTaskId ? 1000 : 0}
+            eventHandlers={{ click: () => onSelectTask(task) }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+// Open tasks on an OpenStreetMap base map, with nearby pins grouped into clusters
+const TaskMap = (props: TaskMapProps) => {
+  return (
+    <MapContainer
+      center={DEFAULT_CENTER}
+      zoom={DEFAULT_ZOOM}
+      className="h-[60vh] w-full rounded-md border z-0"
+      scrollWheelZoom
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      <TaskClusters {...props} />
+    </MapContainer>
+  );
+};
+
+export default TaskMap;
@@ -0,0 +1,174 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
+import { useTaskCategories } from '@/hooks/use-categories';
+import { DEADLINE_WINDOWS, DeadlineWindow, RADIUS_OPTIONS_KM, TaskSearchFilters, hasActiveFacets } from '@/lib/task-search';
+
+interface TaskSearchFacetsProps {
+  filters: TaskSearchFilters;
+  onChange: (filters: TaskSearchFilters) => void;
+  // Shown under the distance facet, e.g. while the browser is finding the user
+  locationStatus?: string | null;
+}
+
+// Radix selects cannot hold an empty value, so "any" stands for an unset facet
+const ANY = 'any';
+
+const TaskSearchFacets = ({ filters, onChange, locationStatus }: TaskSearchFacetsProps) => {
+  const { categories } = useTaskCategories();
+
+  const update = (changes: Partial<TaskSearchFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const parseReward = (value: string) => {
+    if (value.trim() === '') return undefined;
+    const reward = Number(value);
+    return Number.isFinite(reward) && reward >= 0 ? reward : undefined;
+  };
+
+  const clearFacets = () => {
+    onChange({ query: filters.query });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 mb-6">
+      <div className="space-y-1">
+        <Label className="text-xs">Category</Label>
+        <Select
+          value={filters.categoryId || ANY}
+          onValueChange={(value) => update({ categoryId: value === ANY ? undefined : value })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All categories</SelectItem>
+            {categories.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="tag-filter" className="text-xs">Tag</Label>
+        <Input
+          id="tag-filter"
+          placeholder="e.g. plumbing"
+          className="w-32"
+          value={filters.tag ?? ''}
+          onChange={(e) => update({ tag: e.target.value.toLowerCase() || undefined })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="min-reward" className="text-xs">Reward (₹)</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="min-reward"
+            type="number"
+            min={0}
+            placeholder="Min"
+            className="w-24"
+            value={filters.minReward ?? ''}
+            onChange={(e) => update({ minReward: parseReward(e.target.value) })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max"
+            className="w-24"
+            value={filters.maxReward ?? ''}
+            onChange={(e) => update({ maxReward: parseReward(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Deadline</Label>
+        <Select
+          value={filters.deadline || ANY}
+          onValueChange={(value) => update({ deadline: value === ANY ? undefined : value as DeadlineWindow })}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any deadline</SelectItem>
+            {Object.entries(DEADLINE_WINDOWS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Task type</Label>
+        <Select
+          value={filters.taskType || ANY}
+          onValueChange={(value) => update({ taskType: value === ANY ? undefined : value as 'normal' | 'joint' })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All types</SelectItem>
+            <SelectItem value="normal">Normal</SelectItem>
+            <SelectItem value="joint">Joint</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Creator rating</Label>
+        <Select
+          value={filters.minCreatorRating !== undefined ? String(filters.minCreatorRating) : ANY}
+          onValueChange={(value) => update({ minCreatorRating: value === ANY ? undefined : Number(value) })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any rating</SelectItem>
+            {[4, 3, 2].map(rating => (
+              <SelectItem key={rating} value={String(rating)}>{rating}+ stars</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Distance</Label>
+        <Select
+          value={filters.radiusKm !== undefined ? String(filters.radiusKm) : ANY}
+          onValueChange={(value) => update({ radiusKm: value === ANY ? undefined : Number(value) })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any distance</SelectItem>
+            {RADIUS_OPTIONS_KM.map(radius => (
+              <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {locationStatus && <p className="text-xs text-muted-foreground w-40">{locationStatus}</p>}
+      </div>
+
+      {hasActiveFacets(filters) && (
+        <Button variant="ghost" size="sm" onClick={clearFacets} className="flex items-center">
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskSearchFacets;
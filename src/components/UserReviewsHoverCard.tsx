@@ -0,0 +1,101 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { useUserRatings } from '@/hooks/use-user-ratings';
+import { useUserReviews } from '@/hooks/use-reviews';
+import { CREATOR_SUB_SCORES, DOER_SUB_SCORES, REVIEW_SUB_SCORE_LABELS } from '@/lib/reviews';
+import type { UserRatings } from '@/lib/repositories';
+import { ReviewSubScore } from '@/lib/types';
+
+interface UserReviewsHoverCardProps {
+  userId: string;
+  children: React.ReactNode;
+}
+
+const PREVIEW_REVIEW_COUNT = 3;
+
+const SUB_SCORE_COLUMNS: Record<ReviewSubScore, keyof UserRatings> = {
+  punctuality: 'punctuality_rating',
+  communication: 'communication_rating',
+  quality: 'quality_rating',
+  clarity: 'clarity_rating',
+  fairness: 'fairness_rating',
+};
+
+const RoleSummary = ({ label, rating, count }: { label: string; rating: number; count: number }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="flex items-center font-medium">
+      {count > 0 ? (
+        <>
+          {rating.toFixed(1)}
+          <Star className="h-3.5 w-3.5 text-yellow-500 ml-1" fill="currentColor" />
+          <span className="text-xs text-muted-foreground font-normal ml-1">({count})</span>
+        </>
+      ) : 'No ratings yet'}
+    </span>
+  </div>
+);
+
+// The content only mounts while the card is open, so these queries run on hover rather than per list row
+const ReviewsPreview = ({ userId }: { userId: string }) => {
+  const { ratings, isLoading } = useUserRatings(userId);
+  const { reviews } = useUserReviews(userId, PREVIEW_REVIEW_COUNT);
+
+  if (isLoading || !ratings) {
+    return <p className="text-sm text-muted-foreground">Loading reviews...</p>;
+  }
+
+  const subScores = [...DOER_SUB_SCORES, ...CREATOR_SUB_SCORES]
+    .map(key => ({ key, value: ratings[SUB_SCORE_COLUMNS[key]] }))
+    .filter(score => score.value !== null);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <RoleSummary label="As doer" rating={ratings.doer_rating} count={ratings.rating_count_doer} />
+        <RoleSummary label="As creator" rating={ratings.creator_rating} count={ratings.rating_count_creator} />
+      </div>
+
+      {subScores.length > 0 && (
+        <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+          {subScores.map(({ key, value }) => (
+            <div key={key} className="flex justify-between">
+              <span className="text-muted-foreground">{REVIEW_SUB_SCORE_LABELS[key]}</span>
+              <span>{Number(value).toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reviews.length > 0 ? (
+        <div className="space-y-2 border-t pt-2">
+          {reviews.map(review => (
+            <div key={review.id} className="text-xs">
+              <p className="font-medium">
+                {review.raterName} · {review.rating}★
+              </p>
+              <p className="text-muted-foreground line-clamp-2">{review.review}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground border-t pt-2">No written reviews yet.</p>
+      )}
+    </div>
+  );
+};
+
+// Shows a user's ratings and latest reviews when hovering over their name
+const UserReviewsHoverCard = ({ userId, children }: UserReviewsHoverCardProps) => {
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>{children}</HoverCardTrigger>
+      <HoverCardContent className="w-72">
+        <ReviewsPreview userId={userId} />
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
+
+export default UserReviewsHoverCard;
@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -9,9 +10,11 @@ import {
   RadioTower,
   Users 
 } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { profilesRepo, tasksRepo } from '@/lib/repositories';
 import { useUserRatings } from '@/hooks/use-user-ratings';
 import { format } from 'date-fns';
+import ReputationBreakdown from './ReputationBreakdown';
+import { queryKeys } from '@/lib/query-keys';
 
 interface UserStatisticsProps {
   userId: string;
@@ -19,107 +22,27 @@ interface UserStatisticsProps {
 
 const UserStatistics: React.FC<UserStatisticsProps> = ({ userId }) => {
   const { ratings, isLoading } = useUserRatings(userId);
-  const [tasksClosed, setTasksClosed] = useState<number>(0);
-  const [tasksCompleted, setTasksCompleted] = useState<number>(0);
-  const [stats, setStats] = useState({
-    username: '',
-    tasksCreated: 0,
-    tasksInProgress: 0,
-    joinDate: new Date(),
-    responseRate: 85, 
-    completionRate: 92, 
+  const { data } = useQuery({
+    queryKey: queryKeys.tasks.stats(userId),
+    queryFn: async () => {
+      // Fetch user profile for username and join date
+      const profileData = await profilesRepo.getById(userId);
+      const taskStats = await tasksRepo.getUserStats(userId);
+      return { profileData, taskStats };
+    },
+    enabled: !!userId,
   });
 
-  useEffect(() => {
-    const fetchUserStats = async () => {
-      try {
-        // Fetch user profile for username, join date, and ratings
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('username, created_at')
-          .eq('id', userId)
-          .single();
-
-        if (profileError) throw profileError;
-
-        // Fetch tasks created by user
-        const { data: createdTasks, error: createdError } = await supabase
-          .from('tasks')
-          .select('id, status')
-          .eq('creator_id', userId);
-
-        if (createdError) throw createdError;
-
-        // Fetch tasks completed by user (where user is doer and status is completed)
-        const { data: completedTasks, error: completedError } = await supabase
-          .from('tasks')
-          .select('id')
-          .eq('doer_id', userId)
-          .eq('status', 'completed');
-
-        if (completedError) throw completedError;
-        
-        setTasksCompleted(completedTasks.length);
-
-        // Fetch tasks in progress for this user
-        const { data: inProgressTasks, error: inProgressError } = await supabase
-          .from('tasks')
-          .select('id')
-          .eq('doer_id', userId)
-          .eq('status', 'active');
-
-        if (inProgressError) throw inProgressError;
-
-        // Calculate statistics
-        const tasksCreated = createdTasks.length;
-        const tasksInProgress = inProgressTasks.length;
-        const completedCount = completedTasks.length;
-
-        setStats({
-          username: profileData.username || 'User',
-          tasksCreated,
-          tasksInProgress,
-          joinDate: new Date(profileData.created_at),
-          responseRate: 85, 
-          completionRate: tasksCreated > 0 ? Math.round((completedCount / tasksCreated) * 100) : 0,
-        });
-      } catch (error) {
-        console.error('Error fetching user statistics:', error);
-      } 
-    };
-
-    if (userId) {
-      fetchUserStats();
-    }
-  }, [userId, tasksCompleted]);
-
-  useEffect(() => {
-    const fetchUserStats = async () => {
-      try {
-          const { data: createdTasks, error: createdError } = await supabase
-            .from('tasks')
-            .select('*')
-            .eq('creatorId', userId)
-            .eq('status', 'completed');
-          if (createdError) throw createdError;
-          setTasksClosed(createdTasks?.length || 0);
-    
-          const { data: completedTasks, error: completedError } = await supabase
-            .from('tasks')
-            .select('*')
-            .eq('doerId', userId)
-            .eq('status', 'completed');
-          if (completedError) throw completedError;
-          setTasksCompleted(completedTasks?.length || 0);
-        } catch (error) {
-          console.error('Error fetching user statistics:', error);
-        }
-      };
-    
-      if (userId) {
-        fetchUserStats();
-      }
-    }, [userId]);
+  const tasksClosed = data?.taskStats.closed ?? 0;
+  const tasksCompleted = data?.taskStats.completed ?? 0;
+  const stats = {
+    username: data?.profileData.username || 'User',
+    tasksCreated: data?.taskStats.created ?? 0,
+    tasksInProgress: data?.taskStats.inProgress ?? 0,
+    joinDate: data ? new Date(data.profileData.created_at) : new Date(),
+    responseRate: 85, 
+    completionRate: data?.taskStats.created > 0 ? Math.round((data.taskStats.completed / data.taskStats.created) * 100) : 0,
+  };
 
   // Determine user level based on tasks completed
   const getUserLevel = (completedTasks: number) => {
@@ -269,6 +192,8 @@ const memberSince = stats.joinDate ? format(new Date(stats.joinDate), 'MMMM yyyy
           </Card>
         </div>
       </div>
+
+      <ReputationBreakdown userId={userId} />
     </div>
   );
 };
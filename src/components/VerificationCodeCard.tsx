@@ -7,7 +7,10 @@ import { Copy, MessageCircle, Check, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { chatsRepo } from '@/lib/repositories';
+import { MAX_VERIFICATION_ATTEMPTS } from '@/lib/task-state';
+import { format } from 'date-fns';
+import RaiseDisputeDialog from '@/components/RaiseDisputeDialog';
 
 interface VerificationCodeCardProps {
   taskId: string;
@@ -20,6 +23,8 @@ interface VerificationCodeCardProps {
   isPartnerVerified: boolean;
   isRated: boolean;
   isPartnerRated: boolean;
+  attemptsRemaining?: number;
+  lockedUntil?: Date | null;
   onVerify: (taskId: string, code: string) => Promise<boolean>;
   onRequestRating: () => void;
 }
@@ -35,6 +40,8 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
   isPartnerVerified,
   isRated,
   isPartnerRated,
+  attemptsRemaining,
+  lockedUntil,
   onVerify,
   onRequestRating
 }) => {
@@ -43,6 +50,8 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  const isLocked = !!lockedUntil && lockedUntil > new Date();
+
   const handleCodeCopy = () => {
     navigator.clipboard.writeText(code);
     toast({
@@ -61,44 +70,15 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
         throw new Error("User not authenticated");
       }
       
-      // Check for existing chat
-      const { data: existingChats, error: chatError } = await extendedSupabase
-        .from('chats')
-        .select('*')
-        .or(`and(user1_id.eq.${userId},user2_id.eq.${partnerId}),and(user1_id.eq.${partnerId},user2_id.eq.${userId})`)
-        .limit(1);
-        
-      if (chatError) throw chatError;
-      
-      let chatId;
-      
-      if (existingChats && existingChats.length > 0) {
-        chatId = existingChats[0].id;
-      } else {
-        // Create a new chat
-        const { data: newChat, error: createError } = await extendedSupabase
-          .from('chats')
-          .insert({
-            user1_id: userId,
-            user2_id: partnerId
-          })
-          .select()
-          .single();
-          
-        if (createError) throw createError;
-        chatId = newChat.id;
-      }
+      const { id: chatId } = await chatsRepo.findOrCreate(userId, partnerId);
       
       // Send the verification code via chat
-      await supabase
-        .from('messages')
-        .insert({
-          chat_id: chatId,
-          sender_id: userId,
-          receiver_id: partnerId,
-          content: `My verification code for task "${taskTitle}" is: ${code}`,
-          read: false
-        });
+      await chatsRepo.sendMessage({
+        chatId,
+        senderId: userId,
+        receiverId: partnerId,
+        content: `My verification code for task "${taskTitle}" is: ${code}`
+      });
       
       toast({
         title: "Code Shared",
@@ -238,17 +218,27 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
                 value={verificationCode}
                 onChange={(e) => setVerificationCode(e.target.value)}
                 className="rounded-r-none"
-                disabled={isVerified || isProcessing}
+                disabled={isVerified || isProcessing || isLocked}
               />
               <Button
                 variant="default"
                 className="rounded-l-none"
                 onClick={handleVerifyCode}
-                disabled={isVerified || isProcessing || !verificationCode.trim()}
+                disabled={isVerified || isProcessing || isLocked || !verificationCode.trim()}
               >
                 Verify
               </Button>
             </div>
+            {!isVerified && isLocked && (
+              <p className="text-xs text-destructive mt-1">
+                Too many wrong attempts. Verification is locked until {format(lockedUntil, 'h:mm a')}.
+              </p>
+            )}
+            {!isVerified && !isLocked && attemptsRemaining !== undefined && attemptsRemaining < MAX_VERIFICATION_ATTEMPTS && (
+              <p className="text-xs text-yellow-600 mt-1">
+                {attemptsRemaining} {attemptsRemaining === 1 ? 'attempt' : 'attempts'} remaining
+              </p>
+            )}
           </div>
 
           <div className="mt-4">
@@ -256,7 +246,7 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
           </div>
         </div>
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex-col gap-2">
         <Button
           variant="outline"
           className="w-full"
@@ -266,6 +256,15 @@ const VerificationCodeCard: React.FC<VerificationCodeCardProps> = ({
           <MessageCircle className="h-4 w-4 mr-2" />
           Share Code via Chat
         </Button>
+        {/* For when a code is withheld or the work is contested */}
+        {!(isVerified && isPartnerVerified) && (
+          <RaiseDisputeDialog
+            taskId={taskId}
+            taskTitle={taskTitle}
+            partnerId={partnerId}
+            partnerName={partnerName}
+          />
+        )}
       </CardFooter>
     </Card>
   );
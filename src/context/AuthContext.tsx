@@ -2,6 +2,7 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { profilesRepo } from '@/lib/repositories';
 import { useToast } from '@/hooks/use-toast';
 import { Database } from '@/integrations/supabase/types';
 
@@ -71,17 +72,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const fetchProfile = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-      
-      if (error) {
-        throw error;
-      }
-      
-      setProfile(data);
+      // Also keeps the shared profile cache in sync after the user edits their own profile
+      setProfile(await profilesRepo.getById(userId));
     } catch (error) {
       console.error('Error fetching profile:', error);
     }
@@ -124,15 +116,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       // Check if username is already taken
       if (userData?.username) {
-        const { data: existingUsers, error: usernameCheckError } = await supabase
-          .from('profiles')
-          .select('username')
-          .eq('username', userData.username)
-          .limit(1);
-          
-        if (usernameCheckError) throw usernameCheckError;
-        
-        if (existingUsers && existingUsers.length > 0) {
+        if (await profilesRepo.isUsernameTaken(userData.username)) {
           return { 
             error: { 
               message: "profiles_username_unique: Username is already taken" 
@@ -220,12 +204,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error('User not authenticated');
       }
       
-      const { error } = await supabase
-        .from('profiles')
-        .update(data)
-        .eq('id', user.id);
-        
-      if (error) throw error;
+      await profilesRepo.update(user.id, data);
       
       // Refresh profile data
       await fetchProfile(user.id);
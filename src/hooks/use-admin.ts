@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AdminTaskType, AdminUserType, AuditLogEntryType, MaintenanceJob, ReportStatus, ReportType, TaskState } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { adminRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_USERS: AdminUserType[] = [];
+const NO_TASKS: AdminTaskType[] = [];
+const NO_REPORTS: ReportType[] = [];
+const NO_AUDIT_LOG: AuditLogEntryType[] = [];
+
+const MAINTENANCE_JOB_LABELS: Record<MaintenanceJob, string> = {
+  expire_overdue_tasks: 'Expired overdue tasks',
+  spawn_recurring_tasks: 'Posted recurring tasks',
+  recompute_all_user_ratings: 'Recomputed user ratings',
+  truncate_task_application_cache: 'Cleared stale applications',
+};
+
+// Waits for the admin to stop typing before searching
+const useDebouncedValue = <T>(value: T, delay = 250) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+// Shows a toast when one of the console's lists fails to load
+const useLoadErrorToast = (error: Error | null, what: string) => {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!error) return;
+
+    console.error(`Error fetching ${what}:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to load ${what}. Please try again later.`,
+      variant: "destructive"
+    });
+  }, [error, what, toast]);
+};
+
+export const useAdminUsers = (search: string) => {
+  const query = useDebouncedValue(search.trim());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.admin.users(query),
+    queryFn: () => adminRepo.searchUsers(query),
+  });
+
+  useLoadErrorToast(error, 'users');
+
+  return { users: data ?? NO_USERS, isLoading };
+};
+
+export const useAdminTasks = (search: string, state?: TaskState) => {
+  const query = useDebouncedValue(search.trim());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.admin.tasks(query, state),
+    queryFn: () => adminRepo.searchTasks(query, state),
+  });
+
+  useLoadErrorToast(error, 'tasks');
+
+  return { tasks: data ?? NO_TASKS, isLoading };
+};
+
+export const useAdminReports = (status: ReportStatus) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.admin.reports(status),
+    queryFn: () => adminRepo.listReports(status),
+  });
+
+  useLoadErrorToast(error, 'reports');
+
+  return { reports: data ?? NO_REPORTS, isLoading };
+};
+
+export const useAuditLog = () => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.admin.auditLog(),
+    queryFn: () => adminRepo.listAuditLog(),
+  });
+
+  useLoadErrorToast(error, 'the audit log');
+
+  return { entries: data ?? NO_AUDIT_LOG, isLoading };
+};
+
+// Moderation actions. Each one is audited on the server; the console's lists
+// (and anything else the action changes) are refetched once it settles.
+export const useAdminActions = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidate = (...keys: QueryKey[]) =>
+    Promise.all([queryKeys.admin.all, ...keys].map(queryKey => queryClient.invalidateQueries({ queryKey })));
+
+  const onError = (action: string) => (error: Error) => {
+    console.error(`Error trying to ${action}:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to ${action}. Please try again later.`,
+      variant: "destructive"
+    });
+  };
+
+  const suspension = useMutation({
+    mutationFn: ({ user, suspended, reason }: { user: AdminUserType; suspended: boolean; reason?: string }) =>
+      adminRepo.setSuspension(user.id, suspended, reason),
+    onSuccess: (_data, { user, suspended }) => {
+      toast({
+        title: suspended ? "User Suspended" : "Suspension Lifted",
+        description: suspended
+          ? `${user.username} can no longer post, apply, message or rate.`
+          : `${user.username} can use Task Loop again.`
+      });
+    },
+    onError: onError('update the suspension'),
+    onSettled: () => invalidate(),
+  });
+
+  const taskTakedown = useMutation({
+    mutationFn: ({ taskId, reason }: { taskId: string; reason: string }) => adminRepo.takeDownTask(taskId, reason),
+    onSuccess: () => {
+      toast({
+        title: "Task Removed",
+        description: "The task is hidden and its creator has been notified."
+      });
+    },
+    onError: onError('take down the task'),
+    onSettled: () => invalidate(queryKeys.tasks.all, queryKeys.points.all),
+  });
+
+  const messageTakedown = useMutation({
+    mutationFn: ({ messageId, reason }: { messageId: string; reason: string }) => adminRepo.takeDownMessage(messageId, reason),
+    onSuccess: () => {
+      toast({
+        title: "Message Removed",
+        description: "The message content has been cleared."
+      });
+    },
+    onError: onError('take down the message'),
+    onSettled: () => invalidate(queryKeys.chats.all),
+  });
+
+  const ratingsReset = useMutation({
+    mutationFn: ({ userId, reason }: { userId: string; reason: string }) => adminRepo.resetRatings(userId, reason),
+    onSuccess: (removed) => {
+      toast({
+        title: "Ratings Reset",
+        description: `${removed} rating${removed === 1 ? '' : 's'} removed.`
+      });
+    },
+    onError: onError('reset the ratings'),
+    onSettled: () => invalidate(queryKeys.ratings.all, queryKeys.leaderboard.all),
+  });
+
+  const reportResolution = useMutation({
+    mutationFn: ({ reportId, status, note }: { reportId: string; status: 'actioned' | 'dismissed'; note?: string }) =>
+      adminRepo.resolveReport(reportId, status, note),
+    onError: onError('close the report'),
+    onSettled: () => invalidate(),
+  });
+
+  const maintenance = useMutation({
+    mutationFn: (job: MaintenanceJob) => adminRepo.runMaintenance(job),
+    onSuccess: (affected, job) => {
+      toast({
+        title: "Maintenance Complete",
+        description: `${MAINTENANCE_JOB_LABELS[job]}: ${affected} row${affected === 1 ? '' : 's'} updated.`
+      });
+    },
+    onError: onError('run the maintenance job'),
+    onSettled: () => invalidate(queryKeys.tasks.all, queryKeys.applications.all),
+  });
+
+  const succeeded = () => true;
+  const failed = () => false;
+
+  return {
+    setSuspension: (user: AdminUserType, suspended: boolean, reason?: string) =>
+      suspension.mutateAsync({ user, suspended, reason }).then(succeeded, failed),
+    takeDownTask: (taskId: string, reason: string) =>
+      taskTakedown.mutateAsync({ taskId, reason }).then(succeeded, failed),
+    takeDownMessage: (messageId: string, reason: string) =>
+      messageTakedown.mutateAsync({ messageId, reason }).then(succeeded, failed),
+    resetRatings: (userId: string, reason: string) =>
+      ratingsReset.mutateAsync({ userId, reason }).then(succeeded, failed),
+    resolveReport: (reportId: string, status: 'actioned' | 'dismissed', note?: string) =>
+      reportResolution.mutateAsync({ reportId, status, note }).then(succeeded, failed),
+    runMaintenance: (job: MaintenanceJob) =>
+      maintenance.mutateAsync(job).then(succeeded, failed),
+    isRunningMaintenance: maintenance.isPending,
+    isBusy: suspension.isPending || taskTakedown.isPending || messageTakedown.isPending
+      || ratingsReset.isPending || reportResolution.isPending || maintenance.isPending,
+  };
+};
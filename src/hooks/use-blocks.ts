@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BlockedUserType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { blocksRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_BLOCKED_USERS: BlockedUserType[] = [];
+
+// The signed-in user's block list
+export const useBlockedUsers = () => {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.blocks.list(user?.id),
+    queryFn: () => blocksRepo.listBlocked(user.id),
+    enabled: !!user,
+  });
+
+  return { blockedUsers: data ?? NO_BLOCKED_USERS, isLoading };
+};
+
+// Whether the signed-in user has blocked otherUserId. Only the blocker can see
+// a block; the blocked user just finds their requests refused.
+export const useBlockStatus = (otherUserId: string | undefined) => {
+  const { blockedUsers, isLoading } = useBlockedUsers();
+
+  return {
+    isBlockedByMe: blockedUsers.some(blocked => blocked.userId === otherUserId),
+    isLoading,
+  };
+};
+
+// Blocking and unblocking. A block hides tasks, applications and chats, so all
+// of those are refetched once it settles.
+export const useBlockActions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => Promise.all([
+    queryKeys.blocks.all,
+    queryKeys.tasks.all,
+    queryKeys.applications.all,
+    queryKeys.chats.all,
+    queryKeys.profiles.all,
+  ].map(queryKey => queryClient.invalidateQueries({ queryKey })));
+
+  const block = useMutation({
+    mutationFn: ({ userId }: { userId: string; username: string }) => blocksRepo.block(user.id, userId),
+    onSuccess: (_data, { username }) => {
+      toast({
+        title: "User Blocked",
+        description: `You and ${username} will no longer see each other's tasks or be able to message each other.`
+      });
+    },
+    onError: (error) => {
+      console.error('Error blocking user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to block the user. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  const unblock = useMutation({
+    mutationFn: ({ userId }: { userId: string; username: string }) => blocksRepo.unblock(user.id, userId),
+    onSuccess: (_data, { username }) => {
+      toast({
+        title: "User Unblocked",
+        description: `${username} has been removed from your block list.`
+      });
+    },
+    onError: (error) => {
+      console.error('Error unblocking user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unblock the user. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    blockUser: (userId: string, username: string) =>
+      block.mutateAsync({ userId, username }).then(() => true, () => false),
+    unblockUser: (userId: string, username: string) =>
+      unblock.mutateAsync({ userId, username }).then(() => true, () => false),
+    isBusy: block.isPending || unblock.isPending,
+  };
+};
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { TaskCategoryType } from '@/lib/types';
+import { categoriesRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_CATEGORIES: TaskCategoryType[] = [];
+
+// The category taxonomy only changes with a migration, so it is fetched once per session
+export const useTaskCategories = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.categories.all,
+    queryFn: () => categoriesRepo.list(),
+    staleTime: Infinity,
+  });
+
+  const categories = data ?? NO_CATEGORIES;
+
+  const categoryName = useCallback(
+    (categoryId?: string | null) => categories.find(category => category.id === categoryId)?.name,
+    [categories]
+  );
+
+  return { categories, categoryName, isLoading };
+};
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChatType, FileAttachment, MessageType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { chatsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+import { optimisticUpdate } from '@/lib/query-cache';
+
+// Chats and messages. New messages arrive through RealtimeSync, which appends
+// them to the open chat and refreshes the chat list and unread indicator.
+
+export const useChats = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.chats.list(user?.id),
+    queryFn: () => chatsRepo.listForUser(user.id),
+    enabled: !!user,
+  });
+};
+
+export const useChatMessages = (chatId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.chats.messages(chatId),
+    queryFn: () => chatsRepo.listMessages(chatId),
+    enabled: !!chatId,
+  });
+};
+
+export const useHasUnreadMessages = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.chats.unread(user?.id),
+    queryFn: () => chatsRepo.hasUnread(user.id),
+    enabled: !!user,
+  });
+};
+
+// Sends a message to the chat's participant, showing it straight away until the server confirms it
+export const useSendMessage = (chat: ChatType | null) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const messagesKey = queryKeys.chats.messages(chat?.id);
+
+  return useMutation({
+    mutationFn: ({ content, attachment }: { content: string; attachment?: FileAttachment }) =>
+      chatsRepo.sendMessage({
+        chatId: chat.id,
+        senderId: user.id,
+        receiverId: chat.participantId,
+        content,
+        attachment
+      }),
+    onMutate: async ({ content, attachment }) => {
+      const optimisticMessage: MessageType = {
+        id: `temp-${Date.now()}`,
+        senderId: user.id,
+        senderName: user.email?.split("@")[0] || "Me",
+        receiverId: chat.participantId,
+        content,
+        timestamp: new Date(),
+        read: false,
+        attachment,
+        isOptimistic: true,
+      };
+
+      return {
+        rollback: await optimisticUpdate<MessageType[]>(queryClient, messagesKey, messages => [...messages, optimisticMessage])
+      };
+    },
+    onError: (error, _variables, context) => {
+      context?.rollback();
+      console.error('Error sending message:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message. Please try again.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: messagesKey }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.chats.list(user?.id) }),
+    ]),
+  });
+};
@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DisputeOutcome, DisputeType, MessageType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { chatsRepo, disputesRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_DISPUTES: DisputeType[] = [];
+const NO_ATTACHMENTS: MessageType[] = [];
+
+// The dispute on a task, with its evidence. RealtimeSync refreshes it as evidence comes in.
+export const useTaskDispute = (taskId: string, enabled = true) => {
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.disputes.task(taskId),
+    queryFn: () => disputesRepo.getForTask(taskId),
+    enabled,
+  });
+
+  return { dispute: data ?? null, isLoading };
+};
+
+// Files exchanged in chat with the other party, which can be attached as evidence
+export const useDisputeAttachments = (partnerId: string, enabled = true) => {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.disputes.attachments(user?.id, partnerId),
+    queryFn: () => chatsRepo.listAttachmentsBetween(user.id, partnerId),
+    enabled: !!user && !!partnerId && enabled,
+  });
+
+  return { attachments: data ?? NO_ATTACHMENTS, isLoading };
+};
+
+// Raising a dispute and adding evidence to it, for the task's creator and doer
+export const useDisputeActions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const raise = useMutation({
+    mutationFn: ({ taskId, reason, messageIds }: { taskId: string; reason: string; messageIds: string[] }) =>
+      disputesRepo.raise(taskId, reason, messageIds),
+    onSuccess: () => {
+      toast({
+        title: "Dispute Raised",
+        description: "The task and its reward are on hold until an admin reviews the dispute."
+      });
+    },
+    onError: (error) => {
+      console.error('Error raising dispute:', error);
+      toast({
+        title: "Error",
+        description: "Failed to raise the dispute. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: (_data, _error, { taskId }) => Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.disputes.task(taskId) }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.mine(user?.id) }),
+    ]),
+  });
+
+  const addEvidence = useMutation({
+    mutationFn: ({ dispute, statement, messageIds }: { dispute: DisputeType; statement: string; messageIds: string[] }) =>
+      disputesRepo.addEvidence(dispute.id, statement, messageIds),
+    onSuccess: () => {
+      toast({
+        title: "Evidence Added",
+        description: "The admin reviewing the dispute can now see it."
+      });
+    },
+    onError: (error) => {
+      console.error('Error adding dispute evidence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add evidence. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: (_data, _error, { dispute }) => queryClient.invalidateQueries({ queryKey: queryKeys.disputes.task(dispute.taskId) }),
+  });
+
+  return {
+    raiseDispute: (taskId: string, reason: string, messageIds: string[]) =>
+      raise.mutateAsync({ taskId, reason, messageIds }).then(() => true, () => false),
+    isRaising: raise.isPending,
+    addEvidence: (dispute: DisputeType, statement: string, messageIds: string[]) =>
+      addEvidence.mutateAsync({ dispute, statement, messageIds }).then(() => true, () => false),
+    isAddingEvidence: addEvidence.isPending,
+  };
+};
+
+// The admin review queue and resolving disputes from it
+export const useDisputeReview = (status: 'open' | 'resolved') => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.disputes.review(status),
+    queryFn: () => disputesRepo.listForReview(status),
+  });
+
+  const resolve = useMutation({
+    mutationFn: ({ dispute, outcome, doerShare, note }: { dispute: DisputeType; outcome: DisputeOutcome; doerShare?: number; note?: string }) =>
+      disputesRepo.resolve(dispute.id, outcome, doerShare, note),
+    onSuccess: () => {
+      toast({
+        title: "Dispute Resolved",
+        description: "Both parties have been notified of the outcome."
+      });
+    },
+    onError: (error) => {
+      console.error('Error resolving dispute:', error);
+      toast({
+        title: "Error",
+        description: "Failed to resolve the dispute. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.disputes.all }),
+  });
+
+  return {
+    disputes: data ?? NO_DISPUTES,
+    isLoading,
+    resolveDispute: (dispute: DisputeType, outcome: DisputeOutcome, doerShare?: number, note?: string) =>
+      resolve.mutateAsync({ dispute, outcome, doerShare, note }).then(() => true, () => false),
+    isResolving: resolve.isPending,
+  };
+};
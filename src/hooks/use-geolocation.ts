@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+import { Coordinates } from '@/lib/types';
+
+// Positions are rounded to about 100 metres: close enough for a distance filter,
+// and a small jitter in the reading does not refetch the feed
+const round = (degrees: number) => Math.round(degrees * 1000) / 1000;
+
+// The user's position from the browser. Nothing is requested until locate() is
+// called, so the permission prompt only appears when the user asks for it.
+export const useGeolocation = () => {
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const isSupported = typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+  const locate = useCallback(() => new Promise<Coordinates | null>((resolve) => {
+    if (!isSupported) {
+      setError('Your browser does not share its location.');
+      resolve(null);
+      return;
+    }
+
+    setIsLocating(true);
+    setError(null);
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const next = { latitude: round(coords.latitude), longitude: round(coords.longitude) };
+        setPosition(next);
+        setIsLocating(false);
+        resolve(next);
+      },
+      (positionError) => {
+        console.error('Error getting location:', positionError);
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Location access was denied. Allow it in your browser to search nearby.'
+          : 'Your location could not be found. Please try again.');
+        setIsLocating(false);
+        resolve(null);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }), [isSupported]);
+
+  return { position, error, isLocating, isSupported, locate };
+};
@@ -0,0 +1,44 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { LeaderboardEntryType, LeaderboardFilters, LeaderboardRole } from '@/lib/types';
+import { useAuth } from '@/context/AuthContext';
+import { leaderboardRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+const NO_ENTRIES: LeaderboardEntryType[] = [];
+
+// One page of a leaderboard. The previous page stays on screen while the next one loads.
+export const useLeaderboard = (role: LeaderboardRole, filters: LeaderboardFilters, page: number) => {
+  const offset = page * LEADERBOARD_PAGE_SIZE;
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: queryKeys.leaderboard.page(role, filters, offset),
+    queryFn: () => leaderboardRepo.getPage(role, filters, offset, LEADERBOARD_PAGE_SIZE),
+    placeholderData: keepPreviousData,
+  });
+
+  const totalCount = data?.totalCount ?? 0;
+
+  return {
+    entries: data?.entries ?? NO_ENTRIES,
+    totalCount,
+    pageCount: Math.max(1, Math.ceil(totalCount / LEADERBOARD_PAGE_SIZE)),
+    isLoading,
+    isFetching,
+    error,
+  };
+};
+
+// The signed-in user's own rank on the same board; null when they are not on it
+export const useMyLeaderboardRank = (role: LeaderboardRole, filters: LeaderboardFilters) => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: queryKeys.leaderboard.rank(role, filters, user?.id),
+    queryFn: () => leaderboardRepo.getRank(role, filters, user.id),
+    enabled: !!user,
+  });
+
+  return data ?? null;
+};
@@ -0,0 +1,156 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { NotificationPreferences, NotificationType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { notificationsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+import { optimisticUpdate } from '@/lib/query-cache';
+
+const NO_NOTIFICATIONS: NotificationType[] = [];
+
+// Shows a toast whenever a notification is written for the current user
+// and keeps the notification center up to date
+export const useNotifications = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${user.id}`,
+      }, (payload) => {
+        if (payload.eventType === 'INSERT') {
+          toast({
+            title: payload.new.title,
+            description: payload.new.body || undefined
+          });
+        }
+
+        queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, toast, queryClient]);
+};
+
+// Recent notifications and the unread count, for the Navbar bell
+export const useNotificationCenter = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const listKey = queryKeys.notifications.list(user?.id);
+  const unreadKey = queryKeys.notifications.unread(user?.id);
+
+  const list = useQuery({
+    queryKey: listKey,
+    queryFn: () => notificationsRepo.listForUser(user.id),
+    enabled: !!user,
+  });
+
+  const unread = useQuery({
+    queryKey: unreadKey,
+    queryFn: () => notificationsRepo.countUnread(user.id),
+    enabled: !!user,
+  });
+
+  // Marks the given notifications (or all of them when no ids are passed) as read
+  const markRead = useMutation({
+    mutationFn: (notificationIds?: string[]) => notificationIds
+      ? notificationsRepo.markRead(notificationIds)
+      : notificationsRepo.markAllRead(),
+    onMutate: async (notificationIds) => {
+      const isMarked = (notification: NotificationType) => !notificationIds || notificationIds.includes(notification.id);
+      const newlyRead = (list.data || []).filter(notification => !notification.read && isMarked(notification)).length;
+
+      const rollbackList = await optimisticUpdate<NotificationType[]>(queryClient, listKey, notifications =>
+        notifications.map(notification => isMarked(notification) ? { ...notification, read: true } : notification)
+      );
+      const rollbackUnread = await optimisticUpdate<number>(queryClient, unreadKey, count =>
+        notificationIds ? Math.max(count - newlyRead, 0) : 0
+      );
+
+      return {
+        rollback: () => {
+          rollbackList();
+          rollbackUnread();
+        }
+      };
+    },
+    onError: (error, _notificationIds, context) => {
+      context?.rollback();
+      console.error('Error marking notifications as read:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update notifications. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+
+  return {
+    notifications: list.data ?? NO_NOTIFICATIONS,
+    unreadCount: unread.data ?? 0,
+    isLoading: list.isLoading,
+    markAsRead: (notificationId: string) => markRead.mutate([notificationId]),
+    markAllAsRead: () => markRead.mutate(undefined),
+  };
+};
+
+// Which notifications the user also gets by email
+export const useNotificationPreferences = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const preferencesKey = queryKeys.notifications.preferences(user?.id);
+
+  const preferences = useQuery({
+    queryKey: preferencesKey,
+    queryFn: () => notificationsRepo.getPreferences(user.id),
+    enabled: !!user,
+  });
+
+  const updatePreferences = useMutation({
+    mutationFn: (updated: NotificationPreferences) => notificationsRepo.updatePreferences(user.id, updated),
+    onMutate: async (updated) => ({
+      rollback: await optimisticUpdate<NotificationPreferences>(queryClient, preferencesKey, () => updated)
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Preferences Saved",
+        description: "Your email preferences have been updated."
+      });
+    },
+    onError: (error, _updated, context) => {
+      context?.rollback();
+      console.error('Error updating notification preferences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update email preferences. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: preferencesKey }),
+  });
+
+  return {
+    preferences: preferences.data,
+    isLoading: preferences.isLoading,
+    updatePreferences: updatePreferences.mutate,
+    isSaving: updatePreferences.isPending,
+  };
+};
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { PointsTransactionType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { pointsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_TRANSACTIONS: PointsTransactionType[] = [];
+
+// The signed-in user's points balance. RealtimeSync refreshes it whenever the
+// ledger posts to the user's account.
+export const usePointsSummary = () => {
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.points.summary(user?.id),
+    queryFn: pointsRepo.getSummary,
+    enabled: !!user,
+  });
+
+  return { summary: data ?? null, isLoading, error };
+};
+
+// The signed-in user's points history, newest first
+export const usePointsTransactions = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.points.transactions(user?.id),
+    queryFn: () => pointsRepo.listTransactions(),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!error) return;
+
+    console.error('Error fetching points history:', error);
+    toast({
+      title: "Error",
+      description: "Failed to load your points history. Please try again later.",
+      variant: "destructive"
+    });
+  }, [error, toast]);
+
+  return { transactions: data ?? NO_TRANSACTIONS, isLoading };
+};
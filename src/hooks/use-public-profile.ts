@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { TaskType } from '@/lib/types';
+import { profilesRepo, tasksRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_TASKS: TaskType[] = [];
+
+// Another user's public profile by username; `profile` is null when they cannot be found
+export const usePublicProfile = (username: string | undefined) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.profiles.public(username),
+    queryFn: () => profilesRepo.getPublic(username),
+    enabled: !!username,
+  });
+
+  return { profile: data ?? null, isLoading, error };
+};
+
+// Tasks the user has posted that are still open to applications
+export const useOpenTasksBy = (userId: string | undefined, enabled = true) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tasks.openBy(userId),
+    queryFn: () => tasksRepo.listCreatedBy(userId, ['open']),
+    enabled: !!userId && enabled,
+  });
+
+  return { tasks: data ?? NO_TASKS, isLoading, error };
+};
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PushDeviceType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { pushSubscriptionsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+import { getDeviceSubscription, isPushConfigured, isPushSupported, subscribeDevice, unsubscribeDevice } from '@/lib/web-push';
+
+const NO_DEVICES: PushDeviceType[] = [];
+
+// The user's push-enabled devices, and enabling or removing push per device
+export const usePushNotifications = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [deviceEndpoint, setDeviceEndpoint] = useState<string | null>(null);
+
+  const devicesKey = queryKeys.notifications.pushDevices(user?.id);
+  const isAvailable = isPushSupported() && isPushConfigured();
+
+  const devices = useQuery({
+    queryKey: devicesKey,
+    queryFn: () => pushSubscriptionsRepo.listForUser(user.id),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    getDeviceSubscription()
+      .then(subscription => setDeviceEndpoint(subscription?.endpoint ?? null))
+      .catch(error => console.error('Error reading push subscription:', error));
+  }, []);
+
+  const enable = useMutation({
+    mutationFn: async () => {
+      const subscription = await subscribeDevice();
+      await pushSubscriptionsRepo.save(subscription.toJSON(), navigator.userAgent);
+      return subscription.endpoint;
+    },
+    onSuccess: (endpoint) => {
+      setDeviceEndpoint(endpoint);
+      toast({
+        title: "Push Enabled",
+        description: "This device will now receive push notifications."
+      });
+    },
+    onError: (error) => {
+      console.error('Error enabling push notifications:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to enable push notifications. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: devicesKey }),
+  });
+
+  // Removing this device also unsubscribes the browser; other devices stop
+  // receiving pushes as soon as their subscription is deleted
+  const remove = useMutation({
+    mutationFn: async (device: PushDeviceType) => {
+      if (device.endpoint === deviceEndpoint) {
+        await unsubscribeDevice();
+      }
+      await pushSubscriptionsRepo.remove(device.id);
+    },
+    onSuccess: (_data, device) => {
+      if (device.endpoint === deviceEndpoint) {
+        setDeviceEndpoint(null);
+      }
+      toast({
+        title: "Device Removed",
+        description: "Push notifications are turned off for that device."
+      });
+    },
+    onError: (error) => {
+      console.error('Error removing push device:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the device. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: devicesKey }),
+  });
+
+  const deviceList = devices.data ?? NO_DEVICES;
+
+  return {
+    isAvailable,
+    devices: deviceList,
+    isLoading: devices.isLoading,
+    deviceEndpoint,
+    isEnabledOnDevice: !!deviceEndpoint && deviceList.some(device => device.endpoint === deviceEndpoint),
+    enable: () => enable.mutate(),
+    isEnabling: enable.isPending,
+    remove: remove.mutate,
+  };
+};
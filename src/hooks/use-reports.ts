@@ -0,0 +1,37 @@
+import { useMutation } from '@tanstack/react-query';
+import { ReportTargetType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { reportsRepo } from '@/lib/repositories';
+
+// Reporting a task, message or profile to the moderators
+export const useReportActions = () => {
+  const { toast } = useToast();
+
+  const submit = useMutation({
+    mutationFn: ({ targetType, targetId, reason, details }: { targetType: ReportTargetType; targetId: string; reason: string; details?: string }) =>
+      reportsRepo.submit(targetType, targetId, reason, details),
+    onSuccess: (submitted) => {
+      toast(submitted ? {
+        title: "Report Sent",
+        description: "Thanks for letting us know. A moderator will review it."
+      } : {
+        title: "Already Reported",
+        description: "You already have an open report on this. A moderator will review it."
+      });
+    },
+    onError: (error) => {
+      console.error('Error submitting report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send the report. Please try again later.",
+        variant: "destructive"
+      });
+    },
+  });
+
+  return {
+    submitReport: (targetType: ReportTargetType, targetId: string, reason: string, details?: string) =>
+      submit.mutateAsync({ targetType, targetId, reason, details }).then(() => true, () => false),
+    isSubmitting: submit.isPending,
+  };
+};
@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ReviewType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { ratingsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const UNIQUE_VIOLATION = '23505';
+
+const NO_REVIEWS: ReviewType[] = [];
+
+// Written reviews of a user, newest first
+export const useUserReviews = (userId: string | undefined, limit = 20) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.ratings.reviews(userId, limit),
+    queryFn: () => ratingsRepo.listReviews(userId, limit),
+    enabled: !!userId,
+  });
+
+  return { reviews: data ?? NO_REVIEWS, isLoading, error };
+};
+
+// Posting the reviewed user's reply to a review
+export const useReviewReply = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reply = useMutation({
+    mutationFn: ({ ratingId, text }: { ratingId: string; text: string }) => ratingsRepo.reply(ratingId, text),
+    onSuccess: () => {
+      toast({
+        title: "Reply Posted",
+        description: "Your reply is shown under the review."
+      });
+    },
+    onError: (error) => {
+      console.error('Error replying to review:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === UNIQUE_VIOLATION
+          ? "You have already replied to this review."
+          : "Failed to post your reply. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.ratings.all }),
+  });
+
+  return {
+    replyToReview: (ratingId: string, text: string) =>
+      reply.mutateAsync({ ratingId, text }).then(() => true, () => false),
+    isReplying: reply.isPending,
+  };
+};
@@ -1,161 +1,238 @@
-import { useState } from 'react';
-import { TaskType } from '@/lib/types';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { QueryKey, useMutation, useQueryClient } from '@tanstack/react-query';
+import { TaskType, ApplicationType } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/context/AuthContext';
+import { JointTasks, MyTasks, fetchMyTasks } from '@/hooks/use-task-fetch';
+import { isActiveTask, toTaskState } from '@/lib/task-state';
+import { applicationsRepo, pointsRepo, ratingsRepo, tasksRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+import { optimisticUpdate, patchTask, removeTaskFromFeeds } from '@/lib/query-cache';
 
-interface TaskActionsProps {
-  tasks: TaskType[];
-  setTasks: React.Dispatch<React.SetStateAction<TaskType[]>>;
-  appliedTasks: TaskType[];
-  setAppliedTasks: React.Dispatch<React.SetStateAction<TaskType[]>>;
-  applications: any[];
-  setApplications: React.Dispatch<React.SetStateAction<any[]>>;
-  generateVerificationCode: () => string;
-  fetchUserTasks: () => Promise<void>;
-}
-
-export const useTaskActions = ({
-  tasks,
-  setTasks,
-  appliedTasks,
-  setAppliedTasks,
-  applications,
-  setApplications,
-  generateVerificationCode,
-  fetchUserTasks,
-}: TaskActionsProps) => {
+const CHECK_VIOLATION = '23514';
+
+// The ledger refuses to hold a reward the creator cannot cover
+const isInsufficientPoints = (error: unknown) =>
+  (error as { code?: string } | null)?.code === CHECK_VIOLATION;
+
+// Task mutations. Each one updates the React Query cache straight away
+// (rolling back on failure) and invalidates the affected queries once it settles.
+export const useTaskActions = () => {
   const { toast } = useToast();
   const { user } = useAuth();
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const queryClient = useQueryClient();
 
-  const handleCreateTask = async (task: TaskType) => {
-    if (tasks.filter(t => t.status === 'active').length >= 3) {
-      toast({
-        title: "Limit Reached",
-        description: "You can only have 3 active tasks at a time.",
-        variant: "destructive"
-      });
-      return;
-    }
+  const myTasksKey = queryKeys.tasks.mine(user?.id);
+  const jointTasksKey = queryKeys.tasks.joint(user?.id);
+  const receivedApplicationsKey = queryKeys.applications.received(user?.id);
+  const pointsKey = queryKeys.points.all;
 
-    try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: task.title,
-          description: task.description,
-          location: task.location,
-          reward: task.reward,
-          deadline: task.deadline.toISOString(),
-          task_type: task.taskType,
-          creator_id: user?.id,
-          is_requestor_rated: false,
-          is_doer_rated: false
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      const newTask: TaskType = {
-        id: data.id,
-        title: data.title,
-        description: data.description || '',
-        location: data.location || '',
-        reward: data.reward,
-        deadline: new Date(data.deadline),
-        taskType: data.task_type === 'normal' ? 'normal' : 'joint',
-        status: 'active',
-        createdAt: new Date(data.created_at),
-        creatorId: data.creator_id,
-        creatorName: user?.email || 'Unknown user',
-        creatorRating: 0,
-        isRequestorRated: false,
-        isDoerRated: false
-      };
+  const updateMyTasks = (update: (data: MyTasks) => MyTasks) =>
+    optimisticUpdate<MyTasks>(queryClient, myTasksKey, update);
+
+  const updateJointTasks = (update: (data: JointTasks) => JointTasks) =>
+    optimisticUpdate<JointTasks>(queryClient, jointTasksKey, update);
+
+  const updateReceivedApplications = (update: (data: ApplicationType[]) => ApplicationType[]) =>
+    optimisticUpdate<ApplicationType[]>(queryClient, receivedApplicationsKey, update);
 
-      setTasks([newTask, ...tasks]);
+  const invalidate = (...queryKeysToInvalidate: QueryKey[]) =>
+    Promise.all(queryKeysToInvalidate.map(queryKey => queryClient.invalidateQueries({ queryKey })));
+
+  const findMyTask = (taskId: string) => {
+    const data = queryClient.getQueryData<MyTasks>(myTasksKey);
+    return [...(data?.created || []), ...(data?.applied || [])].find(task => task.id === taskId);
+  };
+
+  const createTask = useMutation({
+    mutationFn: (task: TaskType) => tasksRepo.create(task, user.id),
+    onSuccess: (newTask) => {
+      queryClient.setQueryData<MyTasks>(myTasksKey, data => data && {
+        ...data,
+        created: [newTask, ...data.created]
+      });
       toast({
         title: "Task Created",
         description: "Your task has been created successfully."
       });
-      return true;
-    } catch (error) {
+    },
+    onError: (error) => {
       console.error('Error creating task:', error);
       toast({
         title: "Error",
-        description: "Failed to create task. Please try again later.",
+        description: isInsufficientPoints(error)
+          ? "You don't have enough points to fund this reward."
+          : "Failed to create task. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => invalidate(pointsKey),
+  });
+
+  const handleCreateTask = async (task: TaskType) => {
+    if (!user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to create tasks.",
         variant: "destructive"
       });
       return false;
     }
-  };
 
-  const handleCancelTask = async (taskId: string) => {
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status: 'completed' })
-        .eq('id', taskId);
+    const { created } = await queryClient.ensureQueryData({
+      queryKey: myTasksKey,
+      queryFn: () => fetchMyTasks(user.id),
+    });
+
+    if (created.filter(isActiveTask).length >= 3) {
+      toast({
+        title: "Limit Reached",
+        description: "You can only have 3 active tasks at a time.",
+        variant: "destructive"
+      });
+      return false;
+    }
 
-      if (error) throw error;
+    // The reward is taken from the creator's points and held until the task is done
+    const { balance } = await queryClient.ensureQueryData({
+      queryKey: queryKeys.points.summary(user.id),
+      queryFn: pointsRepo.getSummary,
+    });
 
-      setTasks(tasks.map(task => 
-        task.id === taskId 
-          ? { ...task, status: 'completed' } 
-          : task
-      ));
+    if ((task.reward || 0) > balance) {
+      toast({
+        title: "Not Enough Points",
+        description: `This reward needs ${task.reward} points but you have ${balance}.`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    return createTask.mutateAsync(task).then(() => true, () => false);
+  };
 
+  const cancelTask = useMutation({
+    mutationFn: ({ taskId, reason }: { taskId: string; reason: string }) => tasksRepo.cancel(taskId, reason),
+    onMutate: async ({ taskId, reason }) => ({
+      rollback: await updateMyTasks(data => ({
+        ...data,
+        created: patchTask(data.created, taskId, { state: 'cancelled', cancellationReason: reason, cancelledAt: new Date() })
+      }))
+    }),
+    onSuccess: () => {
       toast({
         title: "Task Cancelled",
-        description: "Your task has been cancelled."
+        description: "Your task has been cancelled and participants have been notified."
       });
-    } catch (error) {
+    },
+    onError: (error, _variables, context) => {
+      context?.rollback();
       console.error('Error cancelling task:', error);
       toast({
         title: "Error",
         description: "Failed to cancel task. Please try again later.",
         variant: "destructive"
       });
-    }
-  };
+    },
+    onSettled: () => invalidate(myTasksKey, jointTasksKey, receivedApplicationsKey, queryKeys.tasks.history(user?.id), pointsKey),
+  });
+
+  const handleCancelTask = (taskId: string, reason: string) =>
+    cancelTask.mutateAsync({ taskId, reason }).catch(() => undefined);
+
+  const startTask = useMutation({
+    mutationFn: (taskId: string) => tasksRepo.transition(taskId, 'in_progress'),
+    onMutate: async (taskId) => ({
+      rollback: await updateMyTasks(data => ({
+        ...data,
+        applied: patchTask(data.applied, taskId, { state: 'in_progress' })
+      }))
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Task Started",
+        description: "The task creator can now see that you are working on it."
+      });
+    },
+    onError: (error, _taskId, context) => {
+      context?.rollback();
+      console.error('Error starting task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start task. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => invalidate(myTasksKey),
+  });
+
+  const handleStartTask = (taskId: string) =>
+    startTask.mutateAsync(taskId).catch(() => undefined);
+
+  const editTask = useMutation({
+    mutationFn: (updatedTask: TaskType) => tasksRepo.update(updatedTask),
+    onMutate: async (updatedTask) => ({
+      rollback: await updateMyTasks(data => ({
+        ...data,
+        created: patchTask(data.created, updatedTask.id, updatedTask)
+      }))
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Task Updated",
+        description: "Your task has been updated successfully."
+      });
+    },
+    onError: (error, _updatedTask, context) => {
+      context?.rollback();
+      console.error('Error updating task:', error);
+      toast({
+        title: "Error",
+        description: isInsufficientPoints(error)
+          ? "You don't have enough points to raise the reward that much."
+          : "Failed to update task. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: (_data, _error, updatedTask) => invalidate(myTasksKey, queryKeys.tasks.detail(updatedTask.id), pointsKey),
+  });
 
-  const handleEditTask = async (updatedTask: TaskType) => {
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          title: updatedTask.title,
-          description: updatedTask.description,
-          location: updatedTask.location,
-          reward: updatedTask.reward,
-          deadline: updatedTask.deadline.toISOString(),
-        })
-        .eq('id', updatedTask.id);
+  const handleEditTask = (updatedTask: TaskType) =>
+    editTask.mutateAsync(updatedTask).catch(() => undefined);
 
-      if (error) throw error;
+  const applyForTask = useMutation({
+    mutationFn: async ({ taskId, message }: { taskId: string; message: string }) => {
+      if (await applicationsRepo.hasApplied(taskId, user.id)) return false;
 
-      setTasks(tasks.map(task => 
-        task.id === updatedTask.id 
-          ? updatedTask 
-          : task
-      ));
+      await applicationsRepo.apply(taskId, user.id, message);
+      return true;
+    },
+    onSuccess: (applied, { taskId }) => {
+      if (!applied) {
+        toast({
+          title: "Already Applied",
+          description: "You have already applied for this task",
+          variant: "destructive"
+        });
+        return;
+      }
 
+      // The feed only lists tasks the user can still apply for
+      removeTaskFromFeeds(queryClient, taskId);
       toast({
-        title: "Task Updated",
-        description: "Your task has been updated successfully."
+        title: "Application Submitted",
+        description: "Your application has been sent to the task creator."
       });
-    } catch (error) {
-      console.error('Error updating task:', error);
+    },
+    onError: (error) => {
+      console.error("Error submitting application:", error);
       toast({
         title: "Error",
-        description: "Failed to update task. Please try again later.",
+        description: "Failed to submit application. Please try again.",
         variant: "destructive"
       });
-    }
-  };
+    },
+    onSettled: () => invalidate(myTasksKey),
+  });
 
   const handleApplyForTask = async (taskId: string, message: string) => {
     if (!user) {
@@ -167,584 +244,380 @@ export const useTaskActions = ({
       return;
     }
 
-    setIsSubmitting(true);
-    try {
-      const { data: existingApplications, error: checkError } = await extendedSupabase
-        .from('task_applications')
-        .select('*')
-        .eq('task_id', taskId)
-        .eq('applicant_id', user.id)
-        .limit(1);
-
-      if (checkError) throw checkError;
+    await applyForTask.mutateAsync({ taskId, message }).catch(() => undefined);
+  };
 
-      if (existingApplications && existingApplications.length > 0) {
+  const joinJointTask = useMutation({
+    mutationFn: ({ taskId, needs, reward }: { taskId: string; needs: string; reward: number }) =>
+      applicationsRepo.requestToJoin(taskId, user.id, needs, reward),
+    onSuccess: (requested, { taskId }) => {
+      if (!requested) {
         toast({
-          title: "Already Applied",
-          description: "You have already applied for this task",
+          title: "Already Requested",
+          description: "You have already asked to join this task",
           variant: "destructive"
         });
-        setIsSubmitting(false);
         return;
       }
 
-      const { error } = await extendedSupabase
-        .from('task_applications')
-        .insert({
-          task_id: taskId,
-          applicant_id: user.id,
-          message: message
-        });
-
-      if (error) throw error;
-
+      // Hide the task from the feed once the user has asked to join
+      removeTaskFromFeeds(queryClient, taskId);
+    },
+    onError: (error) => {
+      console.error("Error requesting to join joint task:", error);
       toast({
-        title: "Application Submitted",
-        description: "Your application has been sent to the task creator."
+        title: "Error",
+        description: "Failed to send join request. Please try again.",
+        variant: "destructive"
       });
+    },
+    onSettled: () => invalidate(jointTasksKey),
+  });
 
-      // Refresh task data after application
-      await fetchUserTasks();
-      setIsSubmitting(false);
-    } catch (error) {
-      console.error("Error submitting application:", error);
+  const handleJoinJointTask = async (taskId: string, needs: string, reward: number) => {
+    if (!user) {
       toast({
-        title: "Error",
-        description: "Failed to submit application. Please try again.",
+        title: "Authentication Required",
+        description: "Please log in to join tasks.",
         variant: "destructive"
       });
-      setIsSubmitting(false);
+      return false;
     }
-  };
 
-  const handleJoinJointTask = (taskId: string, needs: string, reward: number) => {
-    toast({
-      title: "Feature not implemented",
-      description: "Joint task requests will be available soon.",
-    });
+    return joinJointTask.mutateAsync({ taskId, needs, reward }).catch(() => false);
   };
 
-  const handleApproveApplication = async (applicationId: string, taskId: string, applicantId: string) => {
-    try {
-      // Generate verification codes
-      const requestorCode = generateVerificationCode();
-      const doerCode = generateVerificationCode();
-
-      // Update the task with the doer and verification codes
-      const { error: taskUpdateError } = await supabase
-        .from('tasks')
-        .update({
-          doer_id: applicantId,
-          requestor_verification_code: requestorCode,
-          doer_verification_code: doerCode,
-          is_requestor_verified: false,
-          is_doer_verified: false,
-          is_requestor_rated: false,
-          is_doer_rated: false
-        })
-        .eq('id', taskId);
-
-      if (taskUpdateError) throw taskUpdateError;
+  // Removes a join request from the list straight away; the request is handled on the server
+  const withoutJoinRequest = (memberId: string) => updateJointTasks(data => ({
+    ...data,
+    requests: data.requests.filter(request => request.id !== memberId)
+  }));
 
-      // Update the application status
-      const { error: applicationUpdateError } = await extendedSupabase
-        .from('task_applications')
-        .update({
-          status: 'approved'
-        })
-        .eq('id', applicationId);
+  const approveJointRequest = useMutation({
+    mutationFn: async (memberId: string) => {
+      if (!await applicationsRepo.approveJoinRequest(memberId)) {
+        throw new Error('Join request not found or already handled');
+      }
+    },
+    onMutate: async (memberId) => ({ rollback: await withoutJoinRequest(memberId) }),
+    onSuccess: () => {
+      toast({
+        title: "Request Approved",
+        description: "The user has joined your task."
+      });
+    },
+    onError: (error, _memberId, context) => {
+      context?.rollback();
+      console.error("Error approving joint task request:", error);
+      toast({
+        title: "Error",
+        description: isInsufficientPoints(error)
+          ? "This member doesn't have enough points for their share."
+          : "Failed to approve join request. Please try again.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => invalidate(jointTasksKey),
+  });
 
-      if (applicationUpdateError) throw applicationUpdateError;
+  const handleApproveJointRequest = (memberId: string) =>
+    approveJointRequest.mutateAsync(memberId).catch(() => undefined);
 
-      // Reject all other applications for this task
-      const { error: rejectOthersError } = await extendedSupabase
-        .from('task_applications')
-        .update({
-          status: 'rejected'
-        })
-        .eq('task_id', taskId)
-        .neq('id', applicationId);
+  const rejectJointRequest = useMutation({
+    mutationFn: async (memberId: string) => {
+      if (!await applicationsRepo.rejectJoinRequest(memberId)) {
+        throw new Error('Join request not found or already handled');
+      }
+    },
+    onMutate: async (memberId) => ({ rollback: await withoutJoinRequest(memberId) }),
+    onSuccess: () => {
+      toast({
+        title: "Request Rejected",
+        description: "The join request has been rejected."
+      });
+    },
+    onError: (error, _memberId, context) => {
+      context?.rollback();
+      console.error("Error rejecting joint task request:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reject join request. Please try again.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => invalidate(jointTasksKey),
+  });
+
+  const handleRejectJointRequest = (memberId: string) =>
+    rejectJointRequest.mutateAsync(memberId).catch(() => undefined);
+
+  const verifyJointCode = useMutation({
+    mutationFn: ({ memberId, code }: { memberId: string; code: string }) =>
+      applicationsRepo.verifyJointMemberCode(memberId, code),
+    // Refetch either way, since a wrong code uses up an attempt and a verified
+    // membership pays the member's share to the doer
+    onSuccess: () => invalidate(jointTasksKey, pointsKey),
+    onError: (error) => {
+      console.error("Error verifying joint task code:", error);
+      toast({
+        title: "Error",
+        description: "Failed to verify code. Please try again.",
+        variant: "destructive"
+      });
+    },
+  });
 
-      if (rejectOthersError) throw rejectOthersError;
+  const handleVerifyJointCode = (memberId: string, code: string) =>
+    verifyJointCode.mutateAsync({ memberId, code }).then(result => result.verified, () => false);
 
-      // Remove ALL applications for this task from the applications state
-      setApplications(prevApplications => 
-        prevApplications.filter(app => app.taskId !== taskId)
-      );
-      
-      // Remove this task from applied tasks if the current user applied for it
-      setAppliedTasks(prevAppliedTasks => 
-        prevAppliedTasks.filter(task => task.id !== taskId)
+  // Called by the rating dialog once the rating row has been stored
+  const submitJointRating = useMutation({
+    mutationFn: (memberId: string) => applicationsRepo.markJointMemberRated(memberId),
+    onError: (error) => {
+      console.error("Error marking joint task member as rated:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update rating status. Please try again.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => invalidate(jointTasksKey),
+  });
+
+  const handleSubmitJointRating = (memberId: string) =>
+    submitJointRating.mutateAsync(memberId).then(() => true, () => false);
+
+  const approveApplication = useMutation({
+    // Assigns the doer, issues verification codes and rejects the other
+    // applications in one transaction on the server
+    mutationFn: async ({ applicationId }: { applicationId: string; taskId: string; applicantId: string }) => {
+      if (!await applicationsRepo.approve(applicationId)) {
+        throw new Error('Application could not be approved');
+      }
+    },
+    onMutate: async ({ taskId, applicantId }) => {
+      // Every application for the task is settled by the approval
+      const rollbackApplications = await updateReceivedApplications(data =>
+        data.filter(app => app.taskId !== taskId)
       );
 
-      // Update the tasks state
-      setTasks(tasks.map(task => {
-        if (task.id === taskId) {
-          return {
-            ...task,
-            doerId: applicantId,
-            requestorVerificationCode: requestorCode,
-            doerVerificationCode: doerCode,
-            isRequestorVerified: false,
-            isDoerVerified: false,
-            isRequestorRated: false,
-            isDoerRated: false
-          };
-        }
-        return task;
+      // The verification codes arrive with the refetch once the mutation settles
+      const rollbackTasks = await updateMyTasks(data => ({
+        ...data,
+        created: patchTask(data.created, taskId, {
+          state: 'assigned',
+          doerId: applicantId,
+          isRequestorVerified: false,
+          isDoerVerified: false,
+          isRequestorRated: false,
+          isDoerRated: false
+        })
       }));
 
+      return {
+        rollback: () => {
+          rollbackApplications();
+          rollbackTasks();
+        }
+      };
+    },
+    onSuccess: () => {
       toast({
         title: "Application Approved",
         description: "The applicant has been assigned to this task."
       });
-      
-      // Force refresh data to ensure consistency
-      await fetchUserTasks();
-    } catch (error) {
+    },
+    onError: (error, _variables, context) => {
+      context?.rollback();
       console.error("Error approving application:", error);
       toast({
         title: "Error",
-        description: "Failed to approve application. Please try again.",
+        description: `Failed to approve application: ${error.message}`,
         variant: "destructive"
       });
-    }
-  };
+    },
+    onSettled: () => invalidate(myTasksKey, receivedApplicationsKey),
+  });
 
-  const handleRejectApplication = async (applicationId: string) => {
-    try {
-      // Find the application to get its taskId before removing it
-      const application = applications.find(app => app.id === applicationId);
-      if (!application) {
-        throw new Error('Application not found');
-      }
-      
-      // Store the taskId for later use
-      const taskId = application.taskId;
-      
-      // Call the database function to reject the application
-      const { data, error } = await supabase
-        .rpc('reject_task_application', { 
-          application_id: applicationId 
-        });
+  const handleApproveApplication = (applicationId: string, taskId: string, applicantId: string) =>
+    approveApplication.mutateAsync({ applicationId, taskId, applicantId }).catch(() => undefined);
 
-      if (error) {
-        console.error('Error rejecting application:', error);
-        throw new Error(error.message); // Re-throw for consistent error handling
-      }
-
-      if (!data) {
+  const rejectApplication = useMutation({
+    mutationFn: async (application: ApplicationType) => {
+      if (!await applicationsRepo.reject(application.id)) {
         throw new Error('Application not found or already rejected');
       }
-
-      // Force a revalidation by deleting the correct channels
-      // This ensures the UI updates with realtime
-      const channel = supabase.channel('schema-db-changes');
-      supabase.removeChannel(channel);
-
-      // Completely remove this application from the applications state
-      setApplications(prevApplications => 
-        prevApplications.filter(app => app.id !== applicationId)
-      );
-
-      // Update applied tasks state to reflect the rejection
-      setAppliedTasks(prevAppliedTasks => 
-        prevAppliedTasks.filter(task => 
-          !(task.id === application.taskId)
-        )
-      );
-
-      // Show toast with applicant's username
+    },
+    onMutate: async (application) => ({
+      rollback: await updateReceivedApplications(data => data.filter(app => app.id !== application.id))
+    }),
+    onSuccess: (_data, application) => {
       toast({
         title: "Application Rejected",
         description: `You've rejected ${application.applicantName || 'the user'}'s application.`
       });
-
-      // Force refresh data from database to ensure consistency
-      await fetchUserTasks();
-      
-      return true;
-    } catch (error) {
+    },
+    onError: (error, _application, context) => {
+      context?.rollback();
       console.error("Error rejecting application:", error);
       toast({
         title: "Error",
         description: `Failed to reject application: ${error.message}`,
         variant: "destructive"
       });
-    }
-  };
-
-  const handleVerifyCode = async (taskId: string, code: string) => {
-    try {
-      // First, find the task
-      const task = [...tasks, ...appliedTasks].find(t => t.id === taskId);
-
-      if (!task) {
-        throw new Error("Task not found");
-      }
+    },
+    onSettled: () => invalidate(receivedApplicationsKey),
+  });
 
-      const isDoer = task.doerId === user?.id;
-      const expectedCode = isDoer ? task.requestorVerificationCode : task.doerVerificationCode;
-
-      // Check if the code matches
-      if (code !== expectedCode) {
-        return false;
-      }
-
-      // Update the verification status
-      const updateData = isDoer 
-        ? { is_doer_verified: true }
-        : { is_requestor_verified: true };
-
-      const { error } = await supabase
-        .from('tasks')
-        .update(updateData)
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      // Check if both parties are verified
-      const { data: updatedTask, error: fetchError } = await supabase
-        .from('tasks')
-        .select('is_requestor_verified, is_doer_verified')
-        .eq('id', taskId)
-        .single();
-
-      if (fetchError || !updatedTask) {
-        throw new Error("Could not retrieve updated task verification status");
-      }
-
-      // Update the tasks state
-      if (isDoer) {
-        // Update in applied tasks
-        setAppliedTasks(appliedTasks.map(t => 
-          t.id === taskId 
-            ? { 
-                ...t, 
-                isDoerVerified: true, 
-                isRequestorVerified: updatedTask.is_requestor_verified 
-              } 
-            : t
-        ));
-      } else {
-        // Update in created tasks
-        setTasks(tasks.map(t => 
-          t.id === taskId 
-            ? { 
-                ...t, 
-                isRequestorVerified: true, 
-                isDoerVerified: updatedTask.is_doer_verified 
-              } 
-            : t
-        ));
-      }
+  const handleRejectApplication = async (applicationId: string) => {
+    const application = queryClient
+      .getQueryData<ApplicationType[]>(receivedApplicationsKey)
+      ?.find(app => app.id === applicationId);
 
-      return true;
-    } catch (error) {
-      console.error("Error verifying code:", error);
+    if (!application) {
       toast({
         title: "Error",
-        description: "Failed to verify code. Please try again.",
+        description: "Failed to reject application: Application not found",
         variant: "destructive"
       });
       return false;
     }
-  };
 
-  const handleSubmitRating = async (taskId: string, rating: number) => {
-    if (!user) return false;
-    
-    console.log(`handleSubmitRating called with taskId=${taskId} and rating=${rating}`);
-
-    try {
-      // Find the task
-      const taskFromCreated = tasks.find(t => t.id === taskId);
-      const taskFromApplied = appliedTasks.find(t => t.id === taskId);
-      const currentTask = taskFromCreated || taskFromApplied;
-
-      if (!currentTask) {
-        console.error("Task not found with ID:", taskId);
-        throw new Error("Task not found");
-      }
-
-      const isDoer = currentTask.doerId === user.id;
-      const ratedUserId = isDoer ? currentTask.creatorId : (currentTask.doerId || '');
-      const isForCreator = isDoer; // if user is doer, they are rating the creator
-      
-      console.log("Rating details:", {
-        isDoer,
-        ratedUserId,
-        currentTaskId: currentTask.id,
-        isForCreator
-      });
-
-      // First check if rating already exists to avoid duplicate entries
-      const { data: existingRatings, error: checkError } = await supabase
-        .from('ratings')
-        .select('*')
-        .eq('task_id', currentTask.id)
-        .eq('rater_id', user.id)
-        .eq('is_for_creator', isForCreator);
-
-      if (checkError) {
-        console.error("Error checking existing ratings:", checkError);
-        throw checkError;
-      }
+    return rejectApplication.mutateAsync(application).then(() => true, () => false);
+  };
 
-      // If no existing rating is found, insert a new one
-      if (!existingRatings || existingRatings.length === 0) {
-        console.log("No existing rating found, inserting new rating");
-        
-        const { error: ratingInsertError } = await supabase
-          .from('ratings')
-          .insert({
-            task_id: currentTask.id,
-            rater_id: user.id,
-            rated_id: ratedUserId,
-            rating: rating,
-            is_for_creator: isForCreator
-          });
-
-        if (ratingInsertError) {
-          console.error("Error inserting rating:", ratingInsertError);
-          throw ratingInsertError;
-        }
-      }
+  const verifyCode = useMutation({
+    // The code is checked on the server, which also counts wrong attempts
+    mutationFn: async ({ taskId, code }: { taskId: string; code: string }) => {
+      const result = await tasksRepo.verifyCode(taskId, code);
 
-      // Mark the appropriate user as having rated the task
-      if (isDoer) {
-        console.log("Marking doer as having rated the task");
-        const { error: updateError } = await supabase
-          .from('tasks')
-          .update({
-            is_doer_rated: true
-          })
-          .eq('id', currentTask.id);
-          
-        if (updateError) {
-          console.error("Error updating doer rating status:", updateError);
-          throw updateError;
-        }
+      // Check if both parties are verified
+      const progress = result.verified ? await tasksRepo.getProgress(taskId) : null;
+      return { result, progress };
+    },
+    onSuccess: ({ result, progress }, { taskId }) => {
+      const task = findMyTask(taskId);
+      const isDoer = task?.doerId === user?.id;
+
+      const changes: Partial<TaskType> = {
+        verificationAttemptsRemaining: result.attempts_remaining,
+        verificationLockedUntil: result.locked_until ? new Date(result.locked_until) : null,
+        ...(progress && {
+          state: toTaskState(progress.state),
+          isRequestorVerified: progress.is_requestor_verified,
+          isDoerVerified: progress.is_doer_verified
+        })
+      };
 
-        // Update local state
-        setAppliedTasks(appliedTasks.map(task => 
-          task.id === currentTask.id 
-            ? { ...task, isDoerRated: true } 
-            : task
-        ));
-      } else {
-        console.log("Marking requestor as having rated the task");
-        const { error: updateError } = await supabase
-          .from('tasks')
-          .update({
-            is_requestor_rated: true
-          })
-          .eq('id', currentTask.id);
-          
-        if (updateError) {
-          console.error("Error updating requestor rating status:", updateError);
-          throw updateError;
-        }
+      queryClient.setQueryData<MyTasks>(myTasksKey, data => data && (isDoer
+        ? { ...data, applied: patchTask(data.applied, taskId, changes) }
+        : { ...data, created: patchTask(data.created, taskId, changes) }
+      ));
 
-        // Update local state
-        setTasks(tasks.map(task => 
-          task.id === currentTask.id 
-            ? { ...task, isRequestorRated: true } 
-            : task
-        ));
+      // Verifying both sides releases the reward to the doer
+      if (progress?.state === 'completed') {
+        invalidate(pointsKey, queryKeys.leaderboard.all);
       }
-
-      // Update the user_ratings table using the stored procedure
-      const { error: updateUserRatingError } = await supabase.rpc('update_user_rating', {
-        p_user_id: ratedUserId,
-        p_is_doer: !isDoer, // If isDoer is true, we're rating the creator's requestor_rating
-        p_new_rating: rating
+    },
+    onError: (error) => {
+      console.error("Error verifying code:", error);
+      toast({
+        title: "Error",
+        description: "Failed to verify code. Please try again.",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleVerifyCode = (taskId: string, code: string) =>
+    verifyCode.mutateAsync({ taskId, code }).then(({ result }) => result.verified, () => false);
+
+  const submitRating = useMutation({
+    mutationFn: async ({ task, rating }: { task: TaskType; rating: number }) => {
+      const isDoer = task.doerId === user.id;
+      const ratedUserId = isDoer ? task.creatorId : (task.doerId || '');
+
+      // If the user is the doer, they are rating the creator. A rating that
+      // already exists (e.g. from a retried submit) is not stored twice, and
+      // the rated user's averages are recomputed from their ratings on the server.
+      await ratingsRepo.create({
+        taskId: task.id,
+        raterId: user.id,
+        ratedId: ratedUserId,
+        rating,
+        isForCreator: isDoer
       });
 
-      if (updateUserRatingError) {
-        console.error('Error updating user rating:', updateUserRatingError);
-        throw updateUserRatingError;
-      }
-
-      // If both parties have rated, mark task as fully completed
-      const { data: taskData, error: taskDataError } = await supabase
-        .from('tasks')
-        .select('is_requestor_rated, is_doer_rated')
-        .eq('id', currentTask.id)
-        .single();
-        
-      if (taskDataError) {
-        console.error("Error fetching updated task data:", taskDataError);
-        throw taskDataError;
-      }
-
-      console.log("Task ratings status:", taskData);
-
-      if (taskData && taskData.is_requestor_rated && taskData.is_doer_rated) {
-        console.log("Both parties have rated, marking task as completed");
-        
-        const { error: completeError } = await supabase
-          .from('tasks')
-          .update({ status: 'completed' })
-          .eq('id', currentTask.id);
-          
-        if (completeError) {
-          console.error("Error marking task as completed:", completeError);
-          throw completeError;
-        }
-
-        // Remove the task from both lists instead of just updating it
-        // This will hide it from view immediately
-        setTasks(prevTasks => prevTasks.filter(task => task.id !== currentTask.id));
-        setAppliedTasks(prevTasks => prevTasks.filter(task => task.id !== currentTask.id));
-        
+      // Mark the appropriate user as having rated the task
+      await tasksRepo.markRated(task.id, isDoer);
+
+      // The task already moved to completed when both codes were verified;
+      // here we only need to know whether both ratings are in
+      const progress = await tasksRepo.getProgress(task.id);
+      return { ratedUserId, progress };
+    },
+    onMutate: async ({ task }) => ({
+      // Once rated, the task leaves the user's lists
+      rollback: await updateMyTasks(data => ({
+        created: data.created.filter(t => t.id !== task.id),
+        applied: data.applied.filter(t => t.id !== task.id)
+      }))
+    }),
+    onSuccess: ({ ratedUserId, progress }) => {
+      if (progress.is_requestor_rated && progress.is_doer_rated) {
         toast({
           title: "Task Completed",
           description: "Both parties have rated the task. The task is now completed."
         });
-      } else {
-        // If not both rated yet, still remove from current user's view
-        if (isDoer) {
-          // Remove from applied tasks
-          setAppliedTasks(prevTasks => prevTasks.filter(task => task.id !== currentTask.id));
-        } else {
-          // Remove from created tasks
-          setTasks(prevTasks => prevTasks.filter(task => task.id !== currentTask.id));
-        }
       }
 
-      return true;
-    } catch (error) {
+      invalidate(queryKeys.ratings.user(ratedUserId), queryKeys.leaderboard.all, queryKeys.tasks.history(user?.id));
+    },
+    onError: (error, _variables, context) => {
+      context?.rollback();
       console.error("Error submitting rating:", error);
       toast({
         title: "Error",
         description: "Failed to submit rating. Please try again.",
         variant: "destructive"
       });
-      return false;
-    }
-  };
-
-  // Rate a task - simplified to only update task status
-  const handleRateTask = async (taskId: string, rating: number) => {
-    try {
-      console.log(`Starting handleRateTask with taskId ${taskId} and rating ${rating}`);
-      
-      const { data: task, error: taskError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('id', taskId)
-        .single();
-
-      if (taskError) {
-        console.error("Error fetching task:", taskError);
-        throw taskError;
-      }
+    },
+    onSettled: () => invalidate(myTasksKey),
+  });
 
-      const currentTask = task;
-      let isDoer = currentTask.doerId === user.id;
-      let ratedUserId = isDoer ? currentTask.creatorId : currentTask.doerId;
-
-      console.log(`User ${user.id} is rating user ${ratedUserId} with ${rating} stars as ${isDoer ? 'doer' : 'creator'}`);
-      
-      // Update task status first
-      if (isDoer) {
-        console.log("Marking doer as having rated the task");
-        const { error: updateError } = await supabase
-          .from('tasks')
-          .update({
-            is_doer_rated: true
-          })
-          .eq('id', currentTask.id);
-          
-        if (updateError) {
-          console.error("Error updating doer rating status:", updateError);
-          throw updateError;
-        }
-        
-        // Update local state
-        setAppliedTasks(appliedTasks.map(task => 
-          task.id === currentTask.id 
-            ? { ...task, isDoerRated: true } 
-            : task
-        ));
-      } else {
-        console.log("Marking requestor as having rated the task");
-        const { error: updateError } = await supabase
-          .from('tasks')
-          .update({
-            is_requestor_rated: true
-          })
-          .eq('id', currentTask.id);
-          
-        if (updateError) {
-          console.error("Error updating requestor rating status:", updateError);
-          throw updateError;
-        }
-
-        // Update local state
-        setTasks(tasks.map(task => 
-          task.id === currentTask.id 
-            ? { ...task, isRequestorRated: true } 
-            : task
-        ));
-      }
-      
-      console.log("Task rating status updated successfully");
-      toast({
-        title: "Rating Submitted",
-        description: "Your rating has been submitted successfully.",
-      });
-      
-      return true;
+  const handleSubmitRating = async (taskId: string, rating: number) => {
+    if (!user) return false;
 
-      if (ratingInsertError) {
-        console.error("Error inserting rating:", ratingInsertError);
-        // Continue even if this fails, as we're moving rating calculation to RatingDialog
-      }
+    const task = findMyTask(taskId);
 
-      // Update task status based on who's rating
-      if (isDoer) {
-        // Update the task to mark that the doer has rated
-        await supabase
-          .from('tasks')
-          .update({
-            is_doer_rated: true
-          })
-          .eq('id', currentTask.id);
-      } else {
-        // Update the task to mark that the creator has rated
-        await supabase
-          .from('tasks')
-          .update({
-            is_requestor_rated: true
-          })
-          .eq('id', currentTask.id);
-      }
-
-      return true;
-    } catch (error) {
-      console.error("Error during rating:", error);
+    if (!task) {
+      console.error("Task not found with ID:", taskId);
       toast({
-        variant: "destructive",
-        title: "Rating status update failed",
-        description: "There was an error updating the task rating status."
+        title: "Error",
+        description: "Failed to submit rating. Please try again.",
+        variant: "destructive"
       });
       return false;
     }
+
+    return submitRating.mutateAsync({ task, rating }).then(() => true, () => false);
   };
 
   return {
-    isSubmitting,
+    isSubmitting: applyForTask.isPending,
     handleCreateTask,
     handleCancelTask,
+    handleStartTask,
     handleEditTask,
     handleApplyForTask,
     handleJoinJointTask,
+    handleApproveJointRequest,
+    handleRejectJointRequest,
+    handleVerifyJointCode,
+    handleSubmitJointRating,
     handleApproveApplication,
     handleRejectApplication,
     handleVerifyCode,
     handleSubmitRating,
-    handleRateTask,
   };
-};
\ No newline at end of file
+};
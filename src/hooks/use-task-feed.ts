@@ -0,0 +1,121 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Coordinates, RecommendedTaskType, TaskType } from '@/lib/types';
+import { TaskFeedCursor, TaskSearchFilters } from '@/lib/task-search';
+import { queryKeys } from '@/lib/query-keys';
+import { tasksRepo } from '@/lib/repositories';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+
+export const TASK_FEED_PAGE_SIZE = 20;
+
+// The map shows at most this many pins; the server caps a search at 100 rows
+export const TASK_MAP_LIMIT = 100;
+
+const RECOMMENDATION_LIMIT = 6;
+
+const NO_TASKS: TaskType[] = [];
+
+// Waits for the user to stop typing before searching
+const useDebouncedFilters = (filters: TaskSearchFilters) => {
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), 250);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  return debouncedFilters;
+};
+
+// Paginated home feed. New tasks posted while the feed is open are counted
+// instead of being inserted, so the list does not jump under the user.
+// Pass enabled = false to hold the search back, e.g. while waiting for the user's position.
+export const useTaskFeed = (filters: TaskSearchFilters, enabled = true) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const debouncedFilters = useDebouncedFilters(filters);
+  const [newTaskCount, setNewTaskCount] = useState(0);
+
+  const queryKey = useMemo(() => queryKeys.tasks.feed(user?.id, debouncedFilters), [user?.id, debouncedFilters]);
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => tasksRepo.searchPage(debouncedFilters, pageParam, TASK_FEED_PAGE_SIZE),
+    initialPageParam: null as TaskFeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  useEffect(() => {
+    setNewTaskCount(0);
+  }, [debouncedFilters]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('public:tasks:feed')
+      .on('postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'tasks'
+        },
+        (payload) => {
+          if (payload.new.state === 'open' && payload.new.creator_id !== user?.id) {
+            setNewTaskCount(count => count + 1);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Reload the feed from the first page to bring in the new tasks
+  const showNewTasks = useCallback(() => {
+    setNewTaskCount(0);
+    queryClient.resetQueries({ queryKey });
+  }, [queryClient, queryKey]);
+
+  return {
+    tasks: query.data?.pages.flatMap(page => page.tasks) || [],
+    isLoading: query.isLoading,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+    newTaskCount,
+    showNewTasks,
+  };
+};
+
+// Feed results with coordinates, for the map view
+export const useTaskMap = (filters: TaskSearchFilters, enabled = true) => {
+  const { user } = useAuth();
+  const debouncedFilters = useDebouncedFilters(filters);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tasks.map(user?.id, debouncedFilters),
+    queryFn: () => tasksRepo.searchLocated(debouncedFilters, TASK_MAP_LIMIT),
+    enabled,
+  });
+
+  return { tasks: data ?? NO_TASKS, isLoading, error };
+};
+
+const NO_RECOMMENDATIONS: RecommendedTaskType[] = [];
+
+// Open tasks matching the user's skills and rating history; distance counts when a position is given
+export const useRecommendedTasks = (near: Coordinates | null) => {
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tasks.recommended(user?.id, near),
+    queryFn: () => tasksRepo.listRecommended(near, RECOMMENDATION_LIMIT),
+    enabled: !!user,
+  });
+
+  return { tasks: data ?? NO_RECOMMENDATIONS, isLoading, error };
+};
@@ -1,255 +1,213 @@
-
-import { useState, useEffect } from 'react';
-import { TaskType, ApplicationType } from '@/lib/types';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { TaskType, ApplicationType, JointTaskMemberType } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/context/AuthContext';
-import { deleteExpiredTasks } from '@/lib/utils';
+import { ACTIVE_TASK_STATES, ASSIGNED_TASK_STATES, MAX_VERIFICATION_ATTEMPTS } from '@/lib/task-state';
+import { applicationsRepo, profilesRepo, tasksRepo, toJointTaskMember } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+// Tasks the user created, and tasks the user applied for (with the application status)
+export type MyTasks = {
+  created: TaskType[];
+  applied: TaskType[];
+};
 
-export const useTaskFetch = () => {
-  const [tasks, setTasks] = useState<TaskType[]>([]);
-  const [appliedTasks, setAppliedTasks] = useState<TaskType[]>([]);
-  const [applications, setApplications] = useState<ApplicationType[]>([]);
-  const [jointTaskRequests, setJointTaskRequests] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const { toast } = useToast();
-  const { user } = useAuth();
+// Joint tasks the user belongs to, and pending join requests for the ones the user created
+export type JointTasks = {
+  tasks: TaskType[];
+  requests: JointTaskMemberType[];
+};
+
+const NO_TASKS: TaskType[] = [];
+const NO_APPLICATIONS: ApplicationType[] = [];
+const NO_JOIN_REQUESTS: JointTaskMemberType[] = [];
+
+// Remaining attempts and any active lock, from the user's attempts row for a task or membership
+const toAttemptInfo = (attempts?: { failed_attempts: number; locked_until: string | null }) => {
+  const lockedUntil = attempts?.locked_until ? new Date(attempts.locked_until) : null;
+  const isLocked = lockedUntil !== null && lockedUntil > new Date();
 
-  const generateVerificationCode = () => {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  return {
+    verificationAttemptsRemaining: isLocked
+      ? 0
+      : MAX_VERIFICATION_ATTEMPTS - (lockedUntil ? 0 : attempts?.failed_attempts || 0),
+    verificationLockedUntil: isLocked ? lockedUntil : null,
   };
+};
+
+// Attach the user's own verification code and remaining attempts to tasks awaiting verification.
+// Codes are derived on the server, so the other party's code is never fetched.
+const attachVerificationInfo = async (userId: string, taskList: TaskType[]) => {
+  const verifyingTasks = taskList.filter(task => task.doerId && ASSIGNED_TASK_STATES.includes(task.state));
+  if (verifyingTasks.length === 0) return taskList;
+
+  const attemptsData = await tasksRepo.listVerificationAttempts(userId, verifyingTasks.map(task => task.id));
 
-  const fetchUserTasks = async () => {
+  const codes = new Map<string, string | null>();
+  await Promise.all(verifyingTasks.map(async (task) => {
     try {
-      setIsLoading(true);
-      if (!user) return;
-      
-      // Cleanup expired tasks before fetching
-      await deleteExpiredTasks();
-
-      // Fetch tasks created by the user
-      const { data: createdTasksData, error: createdTasksError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('creator_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (createdTasksError) {
-        console.error('Error fetching created tasks:', createdTasksError);
-        throw createdTasksError;
-      }
+      codes.set(task.id, await tasksRepo.getVerificationCode(task.id));
+    } catch (error) {
+      console.error('Error fetching verification code:', error);
+      codes.set(task.id, null);
+    }
+  }));
 
-      // Fetch applications made by the user
-      const { data: applications, error: applicationsError } = await extendedSupabase
-        .from('task_applications')
-        .select('task_id, status')
-        .eq('applicant_id', user.id);
-        
-      if (applicationsError) {
-        console.error('Error fetching applications:', applicationsError);
-        throw applicationsError;
-      }
-      
-      const appliedTaskIds = applications?.map(app => app.task_id) || [];
-      
-      // Fetch the tasks for which the user has applied
-      let appliedTasksData = [];
-      if (appliedTaskIds.length > 0) {
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .in('id', appliedTaskIds)
-          .order('created_at', { ascending: false });
-          
-        if (error) {
-          console.error('Error fetching applied tasks:', error);
-          throw error;
-        }
-        appliedTasksData = data || [];
-      }
+  return taskList.map(task => {
+    if (!codes.has(task.id)) return task;
 
-      // Fetch applications for tasks created by the user (only pending ones)
-      const { data: taskApplications, error: taskApplicationsError } = await extendedSupabase
-        .from('task_applications')
-        .select('*')
-        .in('task_id', createdTasksData?.map(task => task.id) || [])
-        .eq('status', 'pending');
-        
-      if (taskApplicationsError) {
-        console.error('Error fetching task applications:', taskApplicationsError);
-        throw taskApplicationsError;
-      }
-      
-      // Process applications with user data
-      const enhancedApplicationsPromises = (taskApplications || []).map(async (app) => {
-        const { data: profileData } = await supabase
-          .from('profiles')
-          .select('username')
-          .eq('id', app.applicant_id)
-          .single();
-            
-        const { data: taskData } = await supabase
-          .from('tasks')
-          .select('title')
-          .eq('id', app.task_id)
-          .single();
-            
-        return {
-          id: app.id,
-          taskId: app.task_id,
-          userId: app.applicant_id,
-          username: profileData?.username || 'Unknown user',
-          message: app.message,
-          rating: 0,
-          createdAt: new Date(app.created_at),
-          status: app.status,
-          applicantName: profileData?.username || 'Unknown user',
-          taskTitle: taskData?.title || 'Unknown task'
-        } as ApplicationType;
-      });
-      
-      const enhancedApplications = await Promise.all(enhancedApplicationsPromises);
-      setApplications(enhancedApplications);
-
-      // Process tasks created by the user
-      const processedCreatedTasks = await Promise.all(
-        (createdTasksData || []).map(async (task) => {
-          const { data: profileData } = await supabase
-            .from('profiles')
-            .select('username')
-            .eq('id', task.creator_id)
-            .single();
-            
-          let doerName;
-          if (task.doer_id) {
-            const { data: doerData } = await supabase
-              .from('profiles')
-              .select('username')
-              .eq('id', task.doer_id)
-              .single();
-            doerName = doerData?.username || 'Unknown doer';
-          }
-          
-          // Safely access properties that might not exist in all task records
-          const isRequestorRated = task.is_requestor_rated !== undefined ? task.is_requestor_rated : false;
-          const isDoerRated = task.is_doer_rated !== undefined ? task.is_doer_rated : false;
-
-          return {
-            id: task.id,
-            title: task.title,
-            description: task.description || '',
-            location: task.location || '',
-            reward: task.reward || 0,
-            deadline: task.deadline ? new Date(task.deadline) : new Date(),
-            taskType: (task.task_type === 'joint' ? 'joint' : 'normal') as 'normal' | 'joint',
-            status: (task.status === 'active' || task.status === 'completed' ? task.status : 'active') as 'active' | 'completed',
-            createdAt: new Date(task.created_at),
-            creatorId: task.creator_id,
-            creatorName: profileData?.username || 'Unknown user',
-            creatorRating: task.creator_rating || 0,
-            doerId: task.doer_id,
-            doerName: doerName,
-            requestorVerificationCode: task.requestor_verification_code,
-            doerVerificationCode: task.doer_verification_code,
-            isRequestorVerified: task.is_requestor_verified || false,
-            isDoerVerified: task.is_doer_verified || false,
-            isRequestorRated: isRequestorRated,
-            isDoerRated: isDoerRated,
-          };
-        })
-      );
-
-      // Process tasks the user has applied for
-      const processedAppliedTasks = await Promise.all(
-        (appliedTasksData || []).map(async (task) => {
-          const { data: profileData } = await supabase
-            .from('profiles')
-            .select('username')
-            .eq('id', task.creator_id)
-            .single();
-
-          const application = applications?.find(app => app.task_id === task.id);
-          const applicationStatus = application ? application.status : 'pending';
-
-          // Safely access properties that might not exist in all task records
-          const isRequestorRated = task.is_requestor_rated !== undefined ? task.is_requestor_rated : false;
-          const isDoerRated = task.is_doer_rated !== undefined ? task.is_doer_rated : false;
-
-          return {
-            id: task.id,
-            title: task.title,
-            description: task.description || '',
-            location: task.location || '',
-            reward: task.reward || 0,
-            deadline: task.deadline ? new Date(task.deadline) : new Date(),
-            taskType: (task.task_type === 'joint' ? 'joint' : 'normal') as 'normal' | 'joint',
-            status: (task.status === 'active' || task.status === 'completed' ? task.status : 'active') as 'active' | 'completed',
-            createdAt: new Date(task.created_at),
-            creatorId: task.creator_id,
-            creatorName: profileData?.username || 'Unknown user',
-            creatorRating: task.creator_rating || 0,
-            doerId: task.doer_id,
-            applicationStatus: applicationStatus,
-            requestorVerificationCode: task.requestor_verification_code,
-            doerVerificationCode: task.doer_verification_code,
-            isRequestorVerified: task.is_requestor_verified || false,
-            isDoerVerified: task.is_doer_verified || false,
-            isRequestorRated: isRequestorRated,
-            isDoerRated: isDoerRated,
-          };
-        })
-      );
-
-      setTasks(processedCreatedTasks);
-      setAppliedTasks(processedAppliedTasks);
-      
+    return {
+      ...task,
+      verificationCode: codes.get(task.id),
+      ...toAttemptInfo(attemptsData.find(attempt => attempt.task_id === task.id)),
+    };
+  });
+};
+
+// The same for joint memberships the user verifies, as the member or as the task doer
+const attachJointVerificationInfo = async (userId: string, tasks: TaskType[]) => {
+  const verifyingMembers = tasks.flatMap(task =>
+    task.doerId
+      ? (task.jointMembers || []).filter(member =>
+        member.status === 'approved' && (member.userId === userId || task.doerId === userId))
+      : []
+  );
+  if (verifyingMembers.length === 0) return tasks;
+
+  const attemptsData = await applicationsRepo.listJointMemberAttempts(userId, verifyingMembers.map(member => member.id));
+
+  const codes = new Map<string, string | null>();
+  await Promise.all(verifyingMembers.map(async (member) => {
+    try {
+      codes.set(member.id, await applicationsRepo.getJointMemberCode(member.id));
     } catch (error) {
-      console.error('Error fetching tasks:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch tasks. Please try again later.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
+      console.error('Error fetching verification code:', error);
+      codes.set(member.id, null);
     }
-  };
+  }));
+
+  return tasks.map(task => ({
+    ...task,
+    jointMembers: task.jointMembers?.map(member => codes.has(member.id)
+      ? {
+        ...member,
+        verificationCode: codes.get(member.id),
+        ...toAttemptInfo(attemptsData.find(attempt => attempt.member_id === member.id)),
+      }
+      : member
+    ),
+  }));
+};
 
-  useEffect(() => {
-    fetchUserTasks();
-    
-    const channel = supabase
-      .channel('public:task_applications')
-      .on('postgres_changes', 
-        { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'task_applications' 
-        }, 
-        async (payload) => {
-          if (user && payload.new) {
-            await fetchUserTasks();
-          }
-        }
-      )
-      .subscribe();
-      
-    return () => {
-      supabase.removeChannel(channel);
+export const fetchMyTasks = async (userId: string): Promise<MyTasks> => {
+  const createdTasks = await tasksRepo.listCreatedBy(userId);
+  const userApplications = await applicationsRepo.listByApplicant(userId);
+  const appliedTasksData = await tasksRepo.listByIds(userApplications.map(app => app.task_id));
+
+  const processedAppliedTasks = appliedTasksData.map(task => {
+    const application = userApplications.find(app => app.task_id === task.id);
+    return {
+      ...task,
+      applicationStatus: application ? application.status : 'pending',
     };
-  }, [user]);
+  });
+
+  return {
+    created: await attachVerificationInfo(userId, createdTasks),
+    applied: await attachVerificationInfo(userId, processedAppliedTasks),
+  };
+};
+
+// Joint tasks the user belongs to as creator, member or doer, along with their members
+const fetchJointTasks = async (userId: string): Promise<JointTasks> => {
+  const memberTaskIds = await applicationsRepo.listJointMemberships(userId);
+  const jointTasksData = await tasksRepo.listJoint(userId, memberTaskIds, ACTIVE_TASK_STATES);
+
+  if (jointTasksData.length === 0) {
+    return { tasks: [], requests: [] };
+  }
+
+  const membersData = await applicationsRepo.listJointMembers(jointTasksData.map(task => task.id));
+
+  // Member usernames come from the profile cache (one query for any that are missing)
+  const profiles = await profilesRepo.getMany(membersData.map(member => member.user_id));
+
+  const tasks = await attachJointVerificationInfo(userId, jointTasksData.map(task => ({
+    ...task,
+    jointMembers: membersData
+      .filter(member => member.task_id === task.id)
+      .map(member => toJointTaskMember(member, profiles.get(member.user_id)?.username, task.title)),
+  })));
 
   return {
     tasks,
-    setTasks,
-    appliedTasks,
-    setAppliedTasks,
-    applications,
-    setApplications,
-    jointTaskRequests,
-    isLoading,
-    generateVerificationCode,
-    fetchUserTasks,
+    // Pending join requests for joint tasks created by the user
+    requests: tasks
+      .filter(task => task.creatorId === userId)
+      .flatMap(task => task.jointMembers || [])
+      .filter(member => member.status === 'pending'),
+  };
+};
+
+export const useMyTasks = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.mine(user?.id),
+    queryFn: () => fetchMyTasks(user.id),
+    enabled: !!user,
+  });
+};
+
+export const useJointTasks = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.joint(user?.id),
+    queryFn: () => fetchJointTasks(user.id),
+    enabled: !!user,
+  });
+};
+
+// Pending applications for the user's open tasks
+export const useReceivedApplications = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.applications.received(user?.id),
+    queryFn: () => applicationsRepo.listPendingReceived(user.id),
+    enabled: !!user,
+  });
+};
+
+// Everything the Tasks page shows. The cache is kept fresh by mutations and
+// realtime events (see RealtimeSync), so there is nothing to refetch by hand.
+export const useTaskFetch = () => {
+  const { toast } = useToast();
+  const myTasks = useMyTasks();
+  const jointTasks = useJointTasks();
+  const applications = useReceivedApplications();
+
+  const error = myTasks.error || jointTasks.error || applications.error;
+
+  useEffect(() => {
+    if (!error) return;
+
+    console.error('Error fetching tasks:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch tasks. Please try again later.",
+      variant: "destructive",
+    });
+  }, [error, toast]);
+
+  return {
+    tasks: myTasks.data?.created ?? NO_TASKS,
+    appliedTasks: myTasks.data?.applied ?? NO_TASKS,
+    applications: applications.data ?? NO_APPLICATIONS,
+    jointTasks: jointTasks.data?.tasks ?? NO_TASKS,
+    jointTaskRequests: jointTasks.data?.requests ?? NO_JOIN_REQUESTS,
+    isLoading: myTasks.isLoading || jointTasks.isLoading || applications.isLoading,
   };
 };
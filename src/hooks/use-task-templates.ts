@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { TaskTemplateType } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { templatesRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_TEMPLATES: TaskTemplateType[] = [];
+
+// The signed-in user's task templates, with saving and deleting
+export const useTaskTemplates = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const templatesKey = queryKeys.templates.list(user?.id);
+
+  const { data, isLoading } = useQuery({
+    queryKey: templatesKey,
+    queryFn: () => templatesRepo.list(user.id),
+    enabled: !!user,
+  });
+
+  const save = useMutation({
+    mutationFn: (template: Omit<TaskTemplateType, 'id'>) => templatesRepo.save(template, user.id),
+    onSuccess: (template) => {
+      toast({
+        title: "Template Saved",
+        description: `"${template.name}" is ready to use next time you create a task.`
+      });
+    },
+    onError: (error) => {
+      console.error('Error saving task template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the template. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: templatesKey }),
+  });
+
+  const remove = useMutation({
+    mutationFn: (templateId: string) => templatesRepo.remove(templateId),
+    onError: (error) => {
+      console.error('Error deleting task template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the template. Please try again later.",
+        variant: "destructive"
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: templatesKey }),
+  });
+
+  return {
+    templates: data ?? NO_TEMPLATES,
+    isLoading,
+    saveTemplate: (template: Omit<TaskTemplateType, 'id'>) =>
+      save.mutateAsync(template).then(() => true, () => false),
+    deleteTemplate: (templateId: string) =>
+      remove.mutateAsync(templateId).then(() => true, () => false),
+    isSaving: save.isPending,
+  };
+};
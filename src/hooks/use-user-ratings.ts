@@ -1,59 +1,35 @@
-
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-
-interface UserRatings {
-  creator_rating: number | null;
-  doer_rating: number | null;
-  rating_count_creator: number;
-  rating_count_doer: number;
-}
+import { useQuery } from '@tanstack/react-query';
+import { ReputationType } from '@/lib/types';
+import { ratingsRepo } from '@/lib/repositories';
+import { queryKeys } from '@/lib/query-keys';
 
 export const useUserRatings = (userId: string | undefined) => {
-  const [ratings, setRatings] = useState<UserRatings | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {
-    const fetchRatings = async () => {
-      if (!userId) {
-        setIsLoading(false);
-        return;
-      }
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.ratings.user(userId),
+    // Users without any ratings yet get zeroes
+    queryFn: () => ratingsRepo.getUserRatings(userId),
+    enabled: !!userId,
+  });
+
+  return { ratings: data ?? null, isLoading, error };
+};
 
-      try {
-        setIsLoading(true);
-        const { data, error } = await supabase
-          .from('user_ratings')
-          .select('creator_rating, doer_rating, rating_count_creator, rating_count_doer')
-          .eq('user_id', userId)
-          .single();
+const NO_REPUTATION: ReputationType[] = [];
 
-        if (error) {
-          // If no record exists yet, create a default empty rating object
-          if (error.code === 'PGRST116') {
-            setRatings({
-              creator_rating: 0,
-              doer_rating: 0,
-              rating_count_creator: 0,
-              rating_count_doer: 0
-            });
-          } else {
-            throw error;
-          }
-        } else {
-          setRatings(data);
-        }
-      } catch (err) {
-        console.error("Error fetching user ratings:", err);
-        setError(err instanceof Error ? err : new Error('Unknown error fetching ratings'));
-      } finally {
-        setIsLoading(false);
-      }
-    };
+// The user's reputation breakdown, one entry per role they have a record in
+export const useUserReputation = (userId: string | undefined) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.ratings.reputation(userId),
+    queryFn: () => ratingsRepo.getReputation(userId),
+    enabled: !!userId,
+  });
 
-    fetchRatings();
-  }, [userId]);
+  const reputations = data ?? NO_REPUTATION;
 
-  return { ratings, isLoading, error };
+  return {
+    doer: reputations.find(reputation => reputation.role === 'doer') ?? null,
+    creator: reputations.find(reputation => reputation.role === 'creator') ?? null,
+    isLoading,
+    error,
+  };
 };
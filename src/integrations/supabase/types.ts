@@ -9,6 +9,47 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          admin_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          reason: string | null
+          target_id: string | null
+          target_type: string | null
+        }
+        Insert: {
+          action: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Update: {
+          action?: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chats: {
         Row: {
           created_at: string
@@ -30,31 +71,261 @@ export type Database = {
         }
         Relationships: []
       }
+      joint_task_member_verification_attempts: {
+        Row: {
+          failed_attempts: number
+          last_failed_at: string | null
+          locked_until: string | null
+          member_id: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          member_id: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          member_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "joint_task_member_verification_attempts_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "joint_task_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      joint_task_members: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_doer_rated: boolean
+          is_doer_verified: boolean
+          is_member_rated: boolean
+          is_member_verified: boolean
+          needs: string
+          reward: number
+          status: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_doer_rated?: boolean
+          is_doer_verified?: boolean
+          is_member_rated?: boolean
+          is_member_verified?: boolean
+          needs: string
+          reward: number
+          status?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_doer_rated?: boolean
+          is_doer_verified?: boolean
+          is_member_rated?: boolean
+          is_member_verified?: boolean
+          needs?: string
+          reward?: number
+          status?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "joint_task_members_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "joint_task_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          balance: number
+          created_at: string
+          id: string
+          joint_member_id: string | null
+          kind: string
+          task_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          balance?: number
+          created_at?: string
+          id?: string
+          joint_member_id?: string | null
+          kind: string
+          task_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          balance?: number
+          created_at?: string
+          id?: string
+          joint_member_id?: string | null
+          kind?: string
+          task_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_joint_member_id_fkey"
+            columns: ["joint_member_id"]
+            isOneToOne: true
+            referencedRelation: "joint_task_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_accounts_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: true
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_accounts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string
+          id: string
+          transaction_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string
+          id?: string
+          transaction_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string
+          id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_transactions: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          kind: string
+          task_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          kind: string
+          task_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          kind?: string
+          task_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_transactions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachment: Json | null
+          attachment_name: string | null
+          attachment_size: number | null
+          attachment_type: string | null
+          attachment_url: string | null
           chat_id: string | null
           content: string
           id: string
           read: boolean | null
           receiver_id: string
+          removed_at: string | null
           sender_id: string
           timestamp: string
         }
         Insert: {
+          attachment?: Json | null
+          attachment_name?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
+          attachment_url?: string | null
           chat_id?: string | null
           content: string
           id?: string
           read?: boolean | null
           receiver_id: string
+          removed_at?: string | null
           sender_id: string
           timestamp?: string
         }
         Update: {
+          attachment?: Json | null
+          attachment_name?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
+          attachment_url?: string | null
           chat_id?: string | null
           content?: string
           id?: string
           read?: boolean | null
           receiver_id?: string
+          removed_at?: string | null
           sender_id?: string
           timestamp?: string
         }
@@ -66,6 +337,129 @@ export type Database = {
             referencedRelation: "chats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_sender_profile_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          digest_claimed_until: string | null
+          digest_failed_attempts: number
+          digest_last_failed_at: string | null
+          email_application_updates: boolean
+          email_chat_requests: boolean
+          email_daily_digest: boolean
+          email_task_updates: boolean
+          last_digest_sent_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          digest_claimed_until?: string | null
+          digest_failed_attempts?: number
+          digest_last_failed_at?: string | null
+          email_application_updates?: boolean
+          email_chat_requests?: boolean
+          email_daily_digest?: boolean
+          email_task_updates?: boolean
+          last_digest_sent_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          digest_claimed_until?: string | null
+          digest_failed_attempts?: number
+          digest_last_failed_at?: string | null
+          email_application_updates?: boolean
+          email_chat_requests?: boolean
+          email_daily_digest?: boolean
+          email_task_updates?: boolean
+          last_digest_sent_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          chat_id: string | null
+          created_at: string
+          email_attempts: number
+          email_claimed_until: string | null
+          email_last_failed_at: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          link: string | null
+          read: boolean
+          task_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          chat_id?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_claimed_until?: string | null
+          email_last_failed_at?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read?: boolean
+          task_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          chat_id?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_claimed_until?: string | null
+          email_last_failed_at?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read?: boolean
+          task_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -76,6 +470,13 @@ export type Database = {
           full_name: string | null
           id: string
           requestor_rating: number | null
+          role: string
+          show_open_tasks: boolean
+          show_reputation: boolean
+          show_reviews: boolean
+          skills: string[]
+          suspended_at: string | null
+          suspension_reason: string | null
           updated_at: string
           username: string | null
         }
@@ -86,6 +487,13 @@ export type Database = {
           full_name?: string | null
           id: string
           requestor_rating?: number | null
+          role?: string
+          show_open_tasks?: boolean
+          show_reputation?: boolean
+          show_reviews?: boolean
+          skills?: string[]
+          suspended_at?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           username?: string | null
         }
@@ -96,39 +504,128 @@ export type Database = {
           full_name?: string | null
           id?: string
           requestor_rating?: number | null
+          role?: string
+          show_open_tasks?: boolean
+          show_reputation?: boolean
+          show_reviews?: boolean
+          skills?: string[]
+          suspended_at?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           username?: string | null
         }
         Relationships: []
       }
-      task_applications: {
+      push_subscriptions: {
         Row: {
-          applicant_id: string
+          auth: string
           created_at: string
+          endpoint: string
           id: string
-          message: string
-          status: string
-          task_id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
         }
         Insert: {
-          applicant_id: string
+          auth: string
           created_at?: string
+          endpoint: string
           id?: string
-          message: string
-          status?: string
-          task_id: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
         }
         Update: {
-          applicant_id?: string
+          auth?: string
           created_at?: string
+          endpoint?: string
           id?: string
-          message?: string
-          status?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ratings: {
+        Row: {
+          clarity: number | null
+          communication: number | null
+          created_at: string | null
+          fairness: number | null
+          id: string
+          is_for_creator: boolean
+          punctuality: number | null
+          quality: number | null
+          rated_id: string
+          rater_id: string
+          rating: number
+          replied_at: string | null
+          reply: string | null
+          review: string | null
+          task_id: string
+        }
+        Insert: {
+          clarity?: number | null
+          communication?: number | null
+          created_at?: string | null
+          fairness?: number | null
+          id?: string
+          is_for_creator: boolean
+          punctuality?: number | null
+          quality?: number | null
+          rated_id: string
+          rater_id: string
+          rating: number
+          replied_at?: string | null
+          reply?: string | null
+          review?: string | null
+          task_id: string
+        }
+        Update: {
+          clarity?: number | null
+          communication?: number | null
+          created_at?: string | null
+          fairness?: number | null
+          id?: string
+          is_for_creator?: boolean
+          punctuality?: number | null
+          quality?: number | null
+          rated_id?: string
+          rater_id?: string
+          rating?: number
+          replied_at?: string | null
+          reply?: string | null
+          review?: string | null
           task_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_applications_task_id_fkey"
+            foreignKeyName: "ratings_rated_id_fkey"
+            columns: ["rated_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_rater_id_fkey"
+            columns: ["rater_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_task_id_fkey"
             columns: ["task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
@@ -136,78 +633,997 @@ export type Database = {
           },
         ]
       }
-      tasks: {
+      reports: {
         Row: {
           created_at: string
-          creator_id: string
-          creator_rating: number | null
-          deadline: string | null
-          description: string | null
-          doer_id: string | null
-          doer_rating: number | null
-          doer_verification_code: string | null
+          details: string | null
           id: string
-          is_doer_rated: boolean | null
-          is_doer_verified: boolean | null
-          is_requestor_rated: boolean | null
-          is_requestor_verified: boolean | null
-          location: string | null
-          requestor_verification_code: string | null
-          reward: number | null
-          status: string | null
-          task_type: string | null
-          title: string
+          reason: string
+          reporter_id: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
         }
         Insert: {
           created_at?: string
-          creator_id: string
-          creator_rating?: number | null
-          deadline?: string | null
-          description?: string | null
-          doer_id?: string | null
-          doer_rating?: number | null
-          doer_verification_code?: string | null
+          details?: string | null
           id?: string
-          is_doer_rated?: boolean | null
-          is_doer_verified?: boolean | null
-          is_requestor_rated?: boolean | null
-          is_requestor_verified?: boolean | null
-          location?: string | null
-          requestor_verification_code?: string | null
-          reward?: number | null
-          status?: string | null
-          task_type?: string | null
-          title: string
+          reason: string
+          reporter_id: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
         }
         Update: {
           created_at?: string
-          creator_id?: string
-          creator_rating?: number | null
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_applications: {
+        Row: {
+          applicant_id: string
+          created_at: string
+          id: string
+          message: string
+          status: string
+          task_id: string
+        }
+        Insert: {
+          applicant_id: string
+          created_at?: string
+          id?: string
+          message: string
+          status?: string
+          task_id: string
+        }
+        Update: {
+          applicant_id?: string
+          created_at?: string
+          id?: string
+          message?: string
+          status?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_applications_applicant_profile_fkey"
+            columns: ["applicant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_applications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_categories: {
+        Row: {
+          description: string | null
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          description?: string | null
+          id: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      task_dispute_evidence: {
+        Row: {
+          attachment: Json | null
+          author_id: string
+          created_at: string
+          dispute_id: string
+          id: string
+          message_id: string | null
+          statement: string | null
+        }
+        Insert: {
+          attachment?: Json | null
+          author_id: string
+          created_at?: string
+          dispute_id: string
+          id?: string
+          message_id?: string | null
+          statement?: string | null
+        }
+        Update: {
+          attachment?: Json | null
+          author_id?: string
+          created_at?: string
+          dispute_id?: string
+          id?: string
+          message_id?: string | null
+          statement?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dispute_evidence_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "task_disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dispute_evidence_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_disputes: {
+        Row: {
+          created_at: string
+          doer_share: number | null
+          id: string
+          outcome: string | null
+          previous_state: string
+          raised_by: string
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          doer_share?: number | null
+          id?: string
+          outcome?: string | null
+          previous_state: string
+          raised_by: string
+          reason: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          doer_share?: number | null
+          id?: string
+          outcome?: string | null
+          previous_state?: string
+          raised_by?: string
+          reason?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_disputes_raised_by_fkey"
+            columns: ["raised_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_disputes_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_disputes_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: true
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          name: string
+          owner_id: string
+          recurrence: string | null
+          reward: number
+          tags: string[]
+          task_type: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          latitude?: number | null
+          location?: string | null
+          longitude?: number | null
+          name: string
+          owner_id: string
+          recurrence?: string | null
+          reward?: number
+          tags?: string[]
+          task_type?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          latitude?: number | null
+          location?: string | null
+          longitude?: number | null
+          name?: string
+          owner_id?: string
+          recurrence?: string | null
+          reward?: number
+          tags?: string[]
+          task_type?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "task_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_verification_attempts: {
+        Row: {
+          failed_attempts: number
+          last_failed_at: string | null
+          locked_until: string | null
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          last_failed_at?: string | null
+          locked_until?: string | null
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_verification_attempts_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          category_id: string | null
+          completed_at: string | null
+          created_at: string
+          creator_id: string
+          creator_rating: number | null
+          deadline: string | null
+          description: string | null
+          dispute_outcome: string | null
+          dispute_resolved_at: string | null
+          doer_id: string | null
+          doer_rating: number | null
+          expired_at: string | null
+          id: string
+          is_doer_rated: boolean | null
+          is_doer_verified: boolean | null
+          is_requestor_rated: boolean | null
+          is_requestor_verified: boolean | null
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          recurrence: string | null
+          recurrence_ends_at: string | null
+          recurrence_held_at: string | null
+          recurrence_parent_id: string | null
+          removal_reason: string | null
+          removed_at: string | null
+          reward: number | null
+          search_vector: unknown | null
+          state: string
+          status: string | null
+          tags: string[]
+          task_type: string | null
+          title: string
+        }
+        Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          category_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          creator_id: string
+          creator_rating?: number | null
+          deadline?: string | null
+          description?: string | null
+          dispute_outcome?: string | null
+          dispute_resolved_at?: string | null
+          doer_id?: string | null
+          doer_rating?: number | null
+          expired_at?: string | null
+          id?: string
+          is_doer_rated?: boolean | null
+          is_doer_verified?: boolean | null
+          is_requestor_rated?: boolean | null
+          is_requestor_verified?: boolean | null
+          latitude?: number | null
+          location?: string | null
+          longitude?: number | null
+          recurrence?: string | null
+          recurrence_ends_at?: string | null
+          recurrence_held_at?: string | null
+          recurrence_parent_id?: string | null
+          removal_reason?: string | null
+          removed_at?: string | null
+          reward?: number | null
+          state?: string
+          status?: string | null
+          tags?: string[]
+          task_type?: string | null
+          title: string
+        }
+        Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          category_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          creator_id?: string
+          creator_rating?: number | null
           deadline?: string | null
           description?: string | null
+          dispute_outcome?: string | null
+          dispute_resolved_at?: string | null
           doer_id?: string | null
           doer_rating?: number | null
-          doer_verification_code?: string | null
+          expired_at?: string | null
           id?: string
           is_doer_rated?: boolean | null
           is_doer_verified?: boolean | null
           is_requestor_rated?: boolean | null
           is_requestor_verified?: boolean | null
+          latitude?: number | null
           location?: string | null
-          requestor_verification_code?: string | null
+          longitude?: number | null
+          recurrence?: string | null
+          recurrence_ends_at?: string | null
+          recurrence_held_at?: string | null
+          recurrence_parent_id?: string | null
+          removal_reason?: string | null
+          removed_at?: string | null
           reward?: number | null
+          state?: string
           status?: string | null
+          tags?: string[]
           task_type?: string | null
           title?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tasks_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "task_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_creator_profile_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_doer_profile_fkey"
+            columns: ["doer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_parent_id_fkey"
+            columns: ["recurrence_parent_id"]
+            isOneToOne: true
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_ratings: {
+        Row: {
+          clarity_rating: number | null
+          communication_rating: number | null
+          creator_rating: number
+          doer_rating: number
+          fairness_rating: number | null
+          id: string
+          punctuality_rating: number | null
+          quality_rating: number | null
+          rating_count_creator: number
+          rating_count_doer: number
+          review_count: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          clarity_rating?: number | null
+          communication_rating?: number | null
+          creator_rating?: number
+          doer_rating?: number
+          fairness_rating?: number | null
+          id?: string
+          punctuality_rating?: number | null
+          quality_rating?: number | null
+          rating_count_creator?: number
+          rating_count_doer?: number
+          review_count?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          clarity_rating?: number | null
+          communication_rating?: number | null
+          creator_rating?: number
+          doer_rating?: number
+          fairness_rating?: number | null
+          id?: string
+          punctuality_rating?: number | null
+          quality_rating?: number | null
+          rating_count_creator?: number
+          rating_count_doer?: number
+          review_count?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_ratings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_dispute_evidence: {
+        Args: {
+          p_dispute_id: string
+          p_statement: string
+          p_message_ids?: string[]
+        }
+        Returns: boolean
+      }
+      admin_list_reports: {
+        Args: {
+          p_status?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          reporter_id: string
+          reporter_name: string | null
+          target_type: string
+          target_id: string
+          target_owner_id: string | null
+          target_owner_name: string | null
+          target_preview: string | null
+          target_removed: boolean
+          reason: string
+          details: string | null
+          status: string
+          resolution_note: string | null
+          created_at: string
+          resolved_at: string | null
+        }[]
+      }
+      admin_reset_ratings: {
+        Args: {
+          p_user_id: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      admin_resolve_report: {
+        Args: {
+          p_report_id: string
+          p_status: string
+          p_note?: string
+        }
+        Returns: boolean
+      }
+      admin_run_maintenance: {
+        Args: {
+          p_job: string
+        }
+        Returns: number
+      }
+      admin_search_tasks: {
+        Args: {
+          p_query?: string
+          p_state?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          state: string
+          reward: number | null
+          creator_id: string
+          creator_name: string | null
+          doer_id: string | null
+          doer_name: string | null
+          created_at: string
+          removed_at: string | null
+          removal_reason: string | null
+          open_reports: number
+        }[]
+      }
+      admin_search_users: {
+        Args: {
+          p_query?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          username: string | null
+          full_name: string | null
+          avatar_url: string | null
+          role: string
+          suspended_at: string | null
+          suspension_reason: string | null
+          doer_rating: number | null
+          requestor_rating: number | null
+          created_at: string
+          tasks_created: number
+          tasks_done: number
+          open_reports: number
+        }[]
+      }
+      admin_set_user_suspension: {
+        Args: {
+          p_user_id: string
+          p_suspended: boolean
+          p_reason?: string
+        }
+        Returns: boolean
+      }
+      admin_take_down_message: {
+        Args: {
+          p_message_id: string
+          p_reason: string
+        }
+        Returns: boolean
+      }
+      admin_take_down_task: {
+        Args: {
+          p_task_id: string
+          p_reason: string
+        }
+        Returns: boolean
+      }
+      approve_joint_task_member: {
+        Args: {
+          member_id: string
+        }
+        Returns: boolean
+      }
+      approve_task_application: {
+        Args: {
+          application_id: string
+        }
+        Returns: boolean
+      }
+      cancel_task: {
+        Args: {
+          p_task_id: string
+          p_reason: string
+        }
+        Returns: boolean
+      }
+      distance_km: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_other_latitude: number
+          p_other_longitude: number
+        }
+        Returns: number
+      }
+      expire_overdue_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_joint_task_member_code: {
+        Args: {
+          p_member_id: string
+        }
+        Returns: string
+      }
+      get_leaderboard: {
+        Args: {
+          p_role: string
+          p_window?: string
+          p_category_id?: string
+          p_near_latitude?: number
+          p_near_longitude?: number
+          p_radius_km?: number
+          p_limit?: number
+          p_offset?: number
+          p_user_id?: string
+        }
+        Returns: {
+          rank: number
+          user_id: string
+          username: string
+          avatar_url: string | null
+          tasks_count: number
+          reward: number
+          score: number
+          average_rating: number | null
+          rating_count: number
+          total_count: number
+        }[]
+      }
+      get_points_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          balance: number
+          in_escrow: number
+          earned: number
+          paid: number
+        }[]
+      }
+      get_public_profile: {
+        Args: {
+          p_username: string
+        }
+        Returns: {
+          id: string
+          username: string
+          avatar_url: string | null
+          created_at: string
+          show_reputation: boolean
+          show_reviews: boolean
+          show_open_tasks: boolean
+          completed_as_doer: number | null
+          completed_as_creator: number | null
+        }[]
+      }
+      get_task_verification_code: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: string
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_points_transactions: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          kind: string
+          description: string
+          amount: number
+          task_id: string | null
+          task_title: string | null
+          created_at: string
+        }[]
+      }
+      mark_all_notifications_read: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_joint_task_member_rated: {
+        Args: {
+          member_id: string
+        }
+        Returns: boolean
+      }
+      normalize_tags: {
+        Args: {
+          p_tags: string[]
+          p_max: number
+        }
+        Returns: string[]
+      }
+      raise_task_dispute: {
+        Args: {
+          p_task_id: string
+          p_reason: string
+          p_message_ids?: string[]
+        }
+        Returns: string
+      }
+      recommend_tasks: {
+        Args: {
+          p_near_latitude?: number
+          p_near_longitude?: number
+          p_limit?: number
+        }
+        Returns: (Omit<Database["public"]["Tables"]["tasks"]["Row"], "search_vector"> & {
+          matched_skills: string[]
+          distance_km: number | null
+          recommendation_score: number
+        })[]
+      }
+      recompute_all_user_ratings: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recompute_user_ratings: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      reject_joint_task_member: {
+        Args: {
+          member_id: string
+        }
+        Returns: boolean
+      }
+      reject_task_application: {
+        Args: {
+          application_id: string
+        }
+        Returns: boolean
+      }
+      reply_to_rating: {
+        Args: {
+          p_rating_id: string
+          p_reply: string
+        }
+        Returns: undefined
+      }
+      resolve_task_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_outcome: string
+          p_doer_share?: number
+          p_note?: string
+        }
+        Returns: boolean
+      }
+      save_push_subscription: {
+        Args: {
+          p_endpoint: string
+          p_p256dh: string
+          p_auth: string
+          p_user_agent: string
+        }
+        Returns: string
+      }
+      search_tasks: {
+        Args: {
+          p_query?: string
+          p_min_reward?: number
+          p_max_reward?: number
+          p_deadline_before?: string
+          p_task_type?: string
+          p_min_creator_rating?: number
+          p_near_latitude?: number
+          p_near_longitude?: number
+          p_radius_km?: number
+          p_located_only?: boolean
+          p_category_id?: string
+          p_tag?: string
+          p_limit?: number
+          p_cursor_rank?: number
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+        }
+        Returns: (Omit<Database["public"]["Tables"]["tasks"]["Row"], "search_vector"> & {
+          search_rank: number
+          distance_km: number | null
+        })[]
+      }
+      spawn_recurring_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      submit_report: {
+        Args: {
+          p_target_type: string
+          p_target_id: string
+          p_reason: string
+          p_details?: string
+        }
+        Returns: string
+      }
+      task_state_transition_allowed: {
+        Args: {
+          from_state: string
+          to_state: string
+        }
+        Returns: boolean
+      }
+      to_prefix_tsquery: {
+        Args: {
+          p_query: string
+        }
+        Returns: unknown
+      }
+      transition_task_state: {
+        Args: {
+          p_task_id: string
+          p_state: string
+        }
+        Returns: string
+      }
+      user_reputation: {
+        Args: {
+          p_user_id?: string
+        }
+        Returns: {
+          user_id: string
+          role: string
+          score: number
+          bayesian_rating: number
+          average_rating: number | null
+          rating_count: number
+          weighted_count: number
+          prior_rating: number
+          prior_weight: number
+          half_life_days: number
+          completed_count: number
+          cancelled_count: number
+          completion_rate: number
+        }[]
+      }
+      verify_joint_task_member_code: {
+        Args: {
+          p_member_id: string
+          p_code: string
+        }
+        Returns: {
+          verified: boolean
+          attempts_remaining: number
+          locked_until: string | null
+        }[]
+      }
+      verify_task_code: {
+        Args: {
+          p_task_id: string
+          p_code: string
+        }
+        Returns: {
+          verified: boolean
+          attempts_remaining: number
+          locked_until: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,20 @@
+import { Coordinates } from '@/lib/types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance between two points, matching public.distance_km on the server
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (km: number) => {
+  if (km < 1) return `${Math.max(Math.round(km * 1000 / 50) * 50, 50)} m away`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`;
+};
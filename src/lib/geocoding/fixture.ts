@@ -0,0 +1,68 @@
+import { distanceKm } from './distance';
+import { GeocodeResult, GeocodingProvider } from './types';
+
+export type FixturePlace = GeocodeResult & {
+  // Other names the place is searched by
+  aliases?: string[];
+};
+
+// Neighbourhoods in a few Indian cities, enough to post and find tasks without
+// a network connection
+export const FIXTURE_PLACES: FixturePlace[] = [
+  { label: 'Koramangala, Bengaluru', latitude: 12.9352, longitude: 77.6245 },
+  { label: 'Indiranagar, Bengaluru', latitude: 12.9784, longitude: 77.6408 },
+  { label: 'HSR Layout, Bengaluru', latitude: 12.9116, longitude: 77.6474 },
+  { label: 'Jayanagar, Bengaluru', latitude: 12.9250, longitude: 77.5938 },
+  { label: 'Whitefield, Bengaluru', latitude: 12.9698, longitude: 77.7500 },
+  { label: 'MG Road, Bengaluru', latitude: 12.9756, longitude: 77.6066, aliases: ['Mahatma Gandhi Road'] },
+  { label: 'Andheri West, Mumbai', latitude: 19.1364, longitude: 72.8296 },
+  { label: 'Bandra West, Mumbai', latitude: 19.0596, longitude: 72.8295 },
+  { label: 'Powai, Mumbai', latitude: 19.1176, longitude: 72.9060 },
+  { label: 'Colaba, Mumbai', latitude: 18.9067, longitude: 72.8147 },
+  { label: 'Connaught Place, New Delhi', latitude: 28.6315, longitude: 77.2167, aliases: ['CP'] },
+  { label: 'Hauz Khas, New Delhi', latitude: 28.5494, longitude: 77.2001 },
+  { label: 'Lajpat Nagar, New Delhi', latitude: 28.5677, longitude: 77.2433 },
+  { label: 'Cyber City, Gurugram', latitude: 28.4951, longitude: 77.0895, aliases: ['Gurgaon'] },
+  { label: 'Sector 18, Noida', latitude: 28.5708, longitude: 77.3261 },
+  { label: 'T. Nagar, Chennai', latitude: 13.0418, longitude: 80.2341, aliases: ['Thyagaraya Nagar'] },
+  { label: 'Adyar, Chennai', latitude: 13.0012, longitude: 80.2565 },
+  { label: 'Banjara Hills, Hyderabad', latitude: 17.4138, longitude: 78.4398 },
+  { label: 'HITEC City, Hyderabad', latitude: 17.4435, longitude: 78.3772 },
+  { label: 'Koregaon Park, Pune', latitude: 18.5362, longitude: 73.8940 },
+  { label: 'Kothrud, Pune', latitude: 18.5074, longitude: 73.8077 },
+  { label: 'Salt Lake, Kolkata', latitude: 22.5867, longitude: 88.4171, aliases: ['Bidhannagar'] },
+  { label: 'Park Street, Kolkata', latitude: 22.5550, longitude: 88.3520 },
+  { label: 'Navrangpura, Ahmedabad', latitude: 23.0365, longitude: 72.5611 },
+];
+
+// Nearest fixture places count as a reverse match within this distance
+const REVERSE_MATCH_KM = 5;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// A geocoder that answers from a fixed list of places, for offline development and tests.
+// Every word of the query has to appear in the place's name or one of its aliases.
+export const createFixtureGeocoder = (places: FixturePlace[] = FIXTURE_PLACES): GeocodingProvider => ({
+  search: async (query, limit = 5) => {
+    const words = normalize(query).split(' ').filter(Boolean);
+    if (words.length === 0) return [];
+
+    return places
+      .filter(place => {
+        const names = normalize([place.label, ...(place.aliases || [])].join(' '));
+        return words.every(word => names.includes(word));
+      })
+      .slice(0, limit)
+      .map(({ label, latitude, longitude }) => ({ label, latitude, longitude }));
+  },
+  reverse: async (coordinates) => {
+    const nearest = places
+      .map(place => ({ place, distance: distanceKm(coordinates, place) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (!nearest || nearest.distance > REVERSE_MATCH_KM) return null;
+
+    const { label, latitude, longitude } = nearest.place;
+    return { label, latitude, longitude };
+  },
+});
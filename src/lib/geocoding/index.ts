@@ -0,0 +1,29 @@
+import { createFixtureGeocoder } from './fixture';
+import { nominatimGeocoder } from './nominatim';
+import { GeocodingProvider } from './types';
+
+export type { GeocodeResult, GeocodingProvider } from './types';
+export type { FixturePlace } from './fixture';
+export { FIXTURE_PLACES, createFixtureGeocoder } from './fixture';
+export { nominatimGeocoder } from './nominatim';
+export { distanceKm, formatDistance } from './distance';
+
+// VITE_GEOCODING_PROVIDER picks the geocoder: "nominatim" (the default) or
+// "fixture" for the offline dataset in fixture.ts
+const resolveGeocoder = (): GeocodingProvider => {
+  switch (import.meta.env.VITE_GEOCODING_PROVIDER) {
+    case 'fixture':
+      return createFixtureGeocoder();
+    default:
+      return nominatimGeocoder;
+  }
+};
+
+let geocoder = resolveGeocoder();
+
+export const getGeocoder = () => geocoder;
+
+// Swaps the geocoder at runtime, e.g. for a fixture with test-specific places
+export const setGeocoder = (provider: GeocodingProvider) => {
+  geocoder = provider;
+};
@@ -0,0 +1,43 @@
+import { GeocodeResult, GeocodingProvider } from './types';
+
+// OpenStreetMap's public geocoder. Its usage policy allows about one request a
+// second and no autocomplete, so the app only geocodes when the user asks to.
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+type NominatimPlace = {
+  lat: string;
+  lon: string;
+  display_name: string;
+};
+
+const toGeocodeResult = (place: NominatimPlace): GeocodeResult => ({
+  label: place.display_name,
+  latitude: Number(place.lat),
+  longitude: Number(place.lon),
+});
+
+const request = async <T>(path: string, params: Record<string, string>) => {
+  const response = await fetch(`${NOMINATIM_URL}/${path}?${new URLSearchParams({ format: 'jsonv2', ...params })}`, {
+    headers: { 'Accept-Language': navigator.language },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with status ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+};
+
+export const nominatimGeocoder: GeocodingProvider = {
+  search: async (query, limit = 5) => {
+    const places = await request<NominatimPlace[]>('search', { q: query, limit: String(limit) });
+    return places.map(toGeocodeResult);
+  },
+  reverse: async ({ latitude, longitude }) => {
+    const place = await request<NominatimPlace & { error?: string }>('reverse', {
+      lat: String(latitude),
+      lon: String(longitude),
+    });
+    return place.error ? null : toGeocodeResult(place);
+  },
+};
@@ -0,0 +1,12 @@
+import { Coordinates } from '@/lib/types';
+
+export type GeocodeResult = Coordinates & {
+  label: string;
+};
+
+// A geocoder turns an address into candidate points and a point back into an
+// address. The app only talks to this interface, so providers can be swapped.
+export interface GeocodingProvider {
+  search: (query: string, limit?: number) => Promise<GeocodeResult[]>;
+  reverse: (coordinates: Coordinates) => Promise<GeocodeResult | null>;
+}
@@ -0,0 +1,56 @@
+import { InfiniteData, QueryClient, QueryKey } from '@tanstack/react-query';
+import { MessageType, RecommendedTaskType, TaskType } from '@/lib/types';
+import { TaskFeedPage } from '@/lib/task-search';
+import { queryKeys } from '@/lib/query-keys';
+
+/**
+ * Applies an optimistic update to a cached query and returns a function
+ * that puts the previous data back if the mutation fails.
+ */
+export const optimisticUpdate = async <T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (data: T) => T
+) => {
+  // Keep an in-flight refetch from overwriting the optimistic data
+  await queryClient.cancelQueries({ queryKey });
+
+  const previous = queryClient.getQueryData<T>(queryKey);
+  if (previous !== undefined) {
+    queryClient.setQueryData<T>(queryKey, update(previous));
+  }
+
+  return () => queryClient.setQueryData<T>(queryKey, previous);
+};
+
+export const patchTask = (tasks: TaskType[], taskId: string, changes: Partial<TaskType>) =>
+  tasks.map(task => task.id === taskId ? { ...task, ...changes } : task);
+
+// Drops a task from every loaded feed page, map and recommendation list, e.g. once the user has applied for it
+export const removeTaskFromFeeds = (queryClient: QueryClient, taskId: string) => {
+  queryClient.setQueriesData<InfiniteData<TaskFeedPage>>({ queryKey: queryKeys.tasks.feeds() }, (data) => data && {
+    ...data,
+    pages: data.pages.map(page => ({
+      ...page,
+      tasks: page.tasks.filter(task => task.id !== taskId)
+    }))
+  });
+  queryClient.setQueriesData<TaskType[]>({ queryKey: queryKeys.tasks.maps() }, (tasks) =>
+    tasks?.filter(task => task.id !== taskId)
+  );
+  queryClient.setQueriesData<RecommendedTaskType[]>({ queryKey: queryKeys.tasks.recommendations() }, (tasks) =>
+    tasks?.filter(task => task.id !== taskId)
+  );
+};
+
+// Adds a message to a loaded chat, replacing the optimistic copy shown while it was being sent
+export const appendMessage = (queryClient: QueryClient, chatId: string, message: MessageType) => {
+  queryClient.setQueryData<MessageType[]>(queryKeys.chats.messages(chatId), (messages) => {
+    if (!messages || messages.some(m => m.id === message.id)) return messages;
+
+    const withoutOptimistic = messages.filter(m =>
+      !(m.isOptimistic && m.senderId === message.senderId && m.content === message.content)
+    );
+    return [...withoutOptimistic, message];
+  });
+};
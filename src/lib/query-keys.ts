@@ -0,0 +1,84 @@
+import { TaskSearchFilters } from '@/lib/task-search';
+import { Coordinates, LeaderboardFilters, LeaderboardRole, ReportStatus, TaskState } from '@/lib/types';
+
+// React Query keys for every cached resource. Keys are nested so a whole
+// group can be invalidated at once, e.g. `queryKeys.tasks.all` refetches
+// the feed, my tasks, joint tasks and history together.
+export const queryKeys = {
+  tasks: {
+    all: ['tasks'] as const,
+    feeds: () => [...queryKeys.tasks.all, 'feed'] as const,
+    feed: (userId: string | undefined, filters: TaskSearchFilters) => [...queryKeys.tasks.feeds(), userId, filters] as const,
+    mine: (userId: string | undefined) => [...queryKeys.tasks.all, 'mine', userId] as const,
+    joint: (userId: string | undefined) => [...queryKeys.tasks.all, 'joint', userId] as const,
+    history: (userId: string | undefined) => [...queryKeys.tasks.all, 'history', userId] as const,
+    detail: (taskId: string) => [...queryKeys.tasks.all, 'detail', taskId] as const,
+    stats: (userId: string | undefined) => [...queryKeys.tasks.all, 'stats', userId] as const,
+    openBy: (userId: string | undefined) => [...queryKeys.tasks.all, 'open-by', userId] as const,
+    recommendations: () => [...queryKeys.tasks.all, 'recommended'] as const,
+    recommended: (userId: string | undefined, near: Coordinates | null) => [...queryKeys.tasks.recommendations(), userId, near] as const,
+    maps: () => [...queryKeys.tasks.all, 'map'] as const,
+    map: (userId: string | undefined, filters: TaskSearchFilters) => [...queryKeys.tasks.maps(), userId, filters] as const,
+  },
+  profiles: {
+    all: ['profiles'] as const,
+    public: (username: string | undefined) => [...queryKeys.profiles.all, 'public', username] as const,
+  },
+  categories: {
+    all: ['categories'] as const,
+  },
+  templates: {
+    all: ['templates'] as const,
+    list: (userId: string | undefined) => [...queryKeys.templates.all, 'list', userId] as const,
+  },
+  applications: {
+    all: ['applications'] as const,
+    received: (userId: string | undefined) => [...queryKeys.applications.all, 'received', userId] as const,
+  },
+  chats: {
+    all: ['chats'] as const,
+    list: (userId: string | undefined) => [...queryKeys.chats.all, 'list', userId] as const,
+    messages: (chatId: string) => [...queryKeys.chats.all, 'messages', chatId] as const,
+    unread: (userId: string | undefined) => [...queryKeys.chats.all, 'unread', userId] as const,
+  },
+  ratings: {
+    all: ['ratings'] as const,
+    user: (userId: string | undefined) => [...queryKeys.ratings.all, 'user', userId] as const,
+    reviews: (userId: string | undefined, limit: number) => [...queryKeys.ratings.all, 'reviews', userId, limit] as const,
+    reputation: (userId: string | undefined) => [...queryKeys.ratings.all, 'reputation', userId] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    list: (userId: string | undefined) => [...queryKeys.notifications.all, 'list', userId] as const,
+    unread: (userId: string | undefined) => [...queryKeys.notifications.all, 'unread', userId] as const,
+    preferences: (userId: string | undefined) => [...queryKeys.notifications.all, 'preferences', userId] as const,
+    pushDevices: (userId: string | undefined) => [...queryKeys.notifications.all, 'push-devices', userId] as const,
+  },
+  points: {
+    all: ['points'] as const,
+    summary: (userId: string | undefined) => [...queryKeys.points.all, 'summary', userId] as const,
+    transactions: (userId: string | undefined) => [...queryKeys.points.all, 'transactions', userId] as const,
+  },
+  disputes: {
+    all: ['disputes'] as const,
+    task: (taskId: string) => [...queryKeys.disputes.all, 'task', taskId] as const,
+    review: (status: 'open' | 'resolved') => [...queryKeys.disputes.all, 'review', status] as const,
+    attachments: (userId: string | undefined, partnerId: string) => [...queryKeys.disputes.all, 'attachments', userId, partnerId] as const,
+  },
+  blocks: {
+    all: ['blocks'] as const,
+    list: (userId: string | undefined) => [...queryKeys.blocks.all, 'list', userId] as const,
+  },
+  admin: {
+    all: ['admin'] as const,
+    users: (query: string) => [...queryKeys.admin.all, 'users', query] as const,
+    tasks: (query: string, state: TaskState | undefined) => [...queryKeys.admin.all, 'tasks', query, state] as const,
+    reports: (status: ReportStatus) => [...queryKeys.admin.all, 'reports', status] as const,
+    auditLog: () => [...queryKeys.admin.all, 'audit-log'] as const,
+  },
+  leaderboard: {
+    all: ['leaderboard'] as const,
+    page: (role: LeaderboardRole, filters: LeaderboardFilters, offset: number) => [...queryKeys.leaderboard.all, 'page', role, filters, offset] as const,
+    rank: (role: LeaderboardRole, filters: LeaderboardFilters, userId: string | undefined) => [...queryKeys.leaderboard.all, 'rank', role, filters, userId] as const,
+  },
+};
@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MaintenanceJob, ReportStatus, TaskState } from '@/lib/types';
+import { AuditLogWithAdminRow, toAdminTask, toAdminUser, toAuditLogEntry, toReport } from './mappers';
+
+// Every function here is admin-only; the database rejects anyone else.
+
+const searchUsers = async (query: string, limit = 25) => {
+  const { data, error } = await supabase.rpc('admin_search_users', {
+    p_query: query,
+    p_limit: limit
+  });
+
+  if (error) throw error;
+  return (data || []).map(toAdminUser);
+};
+
+// Includes removed tasks, which are hidden from everyone else
+const searchTasks = async (query: string, state?: TaskState, limit = 25) => {
+  const { data, error } = await supabase.rpc('admin_search_tasks', {
+    p_query: query,
+    p_state: state,
+    p_limit: limit
+  });
+
+  if (error) throw error;
+  return (data || []).map(toAdminTask);
+};
+
+const listReports = async (status: ReportStatus, limit = 50) => {
+  const { data, error } = await supabase.rpc('admin_list_reports', {
+    p_status: status,
+    p_limit: limit
+  });
+
+  if (error) throw error;
+  return (data || []).map(toReport);
+};
+
+const listAuditLog = async (limit = 100) => {
+  const { data, error } = await supabase
+    .from('admin_audit_log')
+    .select('*, admin:profiles!admin_audit_log_admin_id_fkey(id, username, avatar_url)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return ((data || []) as AuditLogWithAdminRow[]).map(toAuditLogEntry);
+};
+
+// A reason is required to suspend, not to lift a suspension
+const setSuspension = async (userId: string, suspended: boolean, reason?: string) => {
+  const { error } = await supabase.rpc('admin_set_user_suspension', {
+    p_user_id: userId,
+    p_suspended: suspended,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+// Cancels (and refunds) the task when it can still be cancelled, then hides it
+const takeDownTask = async (taskId: string, reason: string) => {
+  const { error } = await supabase.rpc('admin_take_down_task', {
+    p_task_id: taskId,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+const takeDownMessage = async (messageId: string, reason: string) => {
+  const { error } = await supabase.rpc('admin_take_down_message', {
+    p_message_id: messageId,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+// Clears every rating the user received; returns how many were removed
+const resetRatings = async (userId: string, reason: string) => {
+  const { data, error } = await supabase.rpc('admin_reset_ratings', {
+    p_user_id: userId,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const resolveReport = async (reportId: string, status: Exclude<ReportStatus, 'open'>, note?: string) => {
+  const { error } = await supabase.rpc('admin_resolve_report', {
+    p_report_id: reportId,
+    p_status: status,
+    p_note: note
+  });
+
+  if (error) throw error;
+};
+
+// Returns how many rows the job changed
+const runMaintenance = async (job: MaintenanceJob) => {
+  const { data, error } = await supabase.rpc('admin_run_maintenance', { p_job: job });
+
+  if (error) throw error;
+  return data;
+};
+
+export const adminRepo = {
+  searchUsers,
+  searchTasks,
+  listReports,
+  listAuditLog,
+  setSuspension,
+  takeDownTask,
+  takeDownMessage,
+  resetRatings,
+  resolveReport,
+  runMaintenance,
+};
@@ -0,0 +1,191 @@
+import { supabase } from '@/integrations/supabase/client';
+import { profilesRepo } from './profiles';
+import { ApplicationWithApplicantRow, toApplication } from './mappers';
+
+const UNIQUE_VIOLATION = '23505';
+
+const hasApplied = async (taskId: string, applicantId: string) => {
+  const { data, error } = await supabase
+    .from('task_applications')
+    .select('id')
+    .eq('task_id', taskId)
+    .eq('applicant_id', applicantId)
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+const apply = async (taskId: string, applicantId: string, message: string) => {
+  const { error } = await supabase
+    .from('task_applications')
+    .insert({
+      task_id: taskId,
+      applicant_id: applicantId,
+      message: message
+    });
+
+  if (error) throw error;
+};
+
+// Task ids and statuses of every application the user has made
+const listByApplicant = async (applicantId: string) => {
+  const { data, error } = await supabase
+    .from('task_applications')
+    .select('task_id, status')
+    .eq('applicant_id', applicantId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Pending applications for every open task the user created, with the applicant and task title embedded
+const listPendingReceived = async (creatorId: string) => {
+  const { data, error } = await supabase
+    .from('task_applications')
+    .select('*, applicant:profiles!task_applications_applicant_profile_fkey(id, username, avatar_url), task:tasks!task_applications_task_id_fkey!inner(title, creator_id, state)')
+    .eq('task.creator_id', creatorId)
+    .eq('task.state', 'open')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as (ApplicationWithApplicantRow & { task: { title: string } })[];
+  profilesRepo.cacheProfiles(rows.map(row => row.applicant));
+
+  return rows.map(row => toApplication(row, row.task.title));
+};
+
+// Assigns the doer and rejects the other applications in one transaction on the server
+const approve = async (applicationId: string) => {
+  const { data, error } = await supabase.rpc('approve_task_application', {
+    application_id: applicationId
+  });
+
+  if (error) throw error;
+  return !!data;
+};
+
+const reject = async (applicationId: string) => {
+  const { data, error } = await supabase.rpc('reject_task_application', {
+    application_id: applicationId
+  });
+
+  if (error) throw error;
+  return !!data;
+};
+
+// Joint tasks: asking to join plays the role of an application
+
+/**
+ * Returns false when the user has already asked to join the task.
+ */
+const requestToJoin = async (taskId: string, userId: string, needs: string, reward: number) => {
+  const { error } = await supabase
+    .from('joint_task_members')
+    .insert({
+      task_id: taskId,
+      user_id: userId,
+      needs: needs,
+      reward: reward
+    });
+
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+};
+
+// Ids of joint tasks the user has joined or asked to join (rejected requests excluded)
+const listJointMemberships = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('joint_task_members')
+    .select('task_id')
+    .eq('user_id', userId)
+    .neq('status', 'rejected');
+
+  if (error) throw error;
+  return (data || []).map(membership => membership.task_id);
+};
+
+const listJointMembers = async (taskIds: string[]) => {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('joint_task_members')
+    .select('*')
+    .in('task_id', taskIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const approveJoinRequest = async (memberId: string) => {
+  const { data, error } = await supabase.rpc('approve_joint_task_member', { member_id: memberId });
+
+  if (error) throw error;
+  return !!data;
+};
+
+const rejectJoinRequest = async (memberId: string) => {
+  const { data, error } = await supabase.rpc('reject_joint_task_member', { member_id: memberId });
+
+  if (error) throw error;
+  return !!data;
+};
+
+const getJointMemberCode = async (memberId: string) => {
+  const { data, error } = await supabase.rpc('get_joint_task_member_code', { p_member_id: memberId });
+
+  if (error) throw error;
+  return data || null;
+};
+
+const listJointMemberAttempts = async (userId: string, memberIds: string[]) => {
+  const { data, error } = await supabase
+    .from('joint_task_member_verification_attempts')
+    .select('member_id, failed_attempts, locked_until')
+    .eq('user_id', userId)
+    .in('member_id', memberIds);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Like task codes, member codes are checked on the server, which counts wrong attempts
+const verifyJointMemberCode = async (memberId: string, code: string) => {
+  const { data, error } = await supabase
+    .rpc('verify_joint_task_member_code', {
+      p_member_id: memberId,
+      p_code: code
+    })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const markJointMemberRated = async (memberId: string) => {
+  const { error } = await supabase.rpc('mark_joint_task_member_rated', { member_id: memberId });
+
+  if (error) throw error;
+};
+
+export const applicationsRepo = {
+  hasApplied,
+  apply,
+  listByApplicant,
+  listPendingReceived,
+  approve,
+  reject,
+  requestToJoin,
+  listJointMemberships,
+  listJointMembers,
+  approveJoinRequest,
+  rejectJoinRequest,
+  getJointMemberCode,
+  listJointMemberAttempts,
+  verifyJointMemberCode,
+  markJointMemberRated,
+};
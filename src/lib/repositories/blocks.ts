@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+import { profilesRepo } from './profiles';
+import { UserBlockWithProfileRow, toBlockedUser } from './mappers';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Users the given user has blocked, most recent first
+const listBlocked = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('*, blocked:profiles!user_blocks_blocked_id_fkey(id, username, avatar_url)')
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = (data || []) as UserBlockWithProfileRow[];
+  profilesRepo.cacheProfiles(rows.map(row => row.blocked));
+  return rows.map(toBlockedUser);
+};
+
+// Blocking someone who is already blocked is a no-op
+const block = async (userId: string, blockedUserId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .insert({ blocker_id: userId, blocked_id: blockedUserId });
+
+  if (error && error.code !== UNIQUE_VIOLATION) throw error;
+};
+
+const unblock = async (userId: string, blockedUserId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', blockedUserId);
+
+  if (error) throw error;
+};
+
+// Whether userId has blocked otherUserId. Users never learn who blocked them,
+// so the other direction only shows up as a failed request.
+const hasBlocked = async (userId: string, otherUserId: string) => {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocked_id')
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherUserId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const blocksRepo = {
+  listBlocked,
+  block,
+  unblock,
+  hasBlocked,
+};
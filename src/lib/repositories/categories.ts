@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toTaskCategory } from './mappers';
+
+// The task category taxonomy, in display order
+const list = async () => {
+  const { data, error } = await supabase
+    .from('task_categories')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toTaskCategory);
+};
+
+export const categoriesRepo = {
+  list,
+};
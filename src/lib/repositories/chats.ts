@@ -0,0 +1,183 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ChatType, FileAttachment } from '@/lib/types';
+import { profilesRepo } from './profiles';
+import { MessageRow, MessageWithSenderRow, toAttachmentColumns, toMessage } from './mappers';
+
+// The user's chats, newest first, with the other participant, last message and unread count
+const listForUser = async (userId: string): Promise<ChatType[]> => {
+  const { data: chatsData, error } = await supabase
+    .from('chats')
+    .select('*')
+    .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const chats = chatsData || [];
+  const participantIdOf = (chat: typeof chats[number]) => chat.user1_id === userId ? chat.user2_id : chat.user1_id;
+
+  // Fetch all chat participants in one query
+  const participants = await profilesRepo.getMany(chats.map(participantIdOf));
+
+  return Promise.all(chats.map(async (chat) => {
+    const participantId = participantIdOf(chat);
+    const participant = participants.get(participantId);
+
+    const { data: lastMessageData, error: lastMessageError } = await supabase
+      .from('messages')
+      .select('content, timestamp')
+      .eq('chat_id', chat.id)
+      .order('timestamp', { ascending: false })
+      .limit(1);
+
+    if (lastMessageError) {
+      console.error('Error fetching last message:', lastMessageError);
+    }
+
+    const { count, error: unreadCountError } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('chat_id', chat.id)
+      .eq('receiver_id', userId)
+      .eq('read', false);
+
+    if (unreadCountError) {
+      console.error('Error counting unread messages:', unreadCountError);
+    }
+
+    const lastMessage = lastMessageData?.[0];
+
+    return {
+      id: chat.id,
+      participantId,
+      participantName: participant?.username || 'Unknown User',
+      participantImage: participant?.avatarUrl || undefined,
+      lastMessage: lastMessage?.content,
+      lastMessageTime: lastMessage ? new Date(lastMessage.timestamp) : undefined,
+      unreadCount: count || 0,
+    };
+  }));
+};
+
+/**
+ * Returns the chat between two users, creating it if needed.
+ */
+const findOrCreate = async (userId: string, otherUserId: string) => {
+  const { data: existingChats, error: chatCheckError } = await supabase
+    .from('chats')
+    .select('id')
+    .or(`and(user1_id.eq.${userId},user2_id.eq.${otherUserId}),and(user1_id.eq.${otherUserId},user2_id.eq.${userId})`)
+    .limit(1);
+
+  if (chatCheckError) throw chatCheckError;
+
+  if (existingChats && existingChats.length > 0) {
+    return { id: existingChats[0].id, created: false };
+  }
+
+  const { data: newChat, error: createChatError } = await supabase
+    .from('chats')
+    .insert({
+      user1_id: userId,
+      user2_id: otherUserId
+    })
+    .select('id')
+    .single();
+
+  if (createChatError) throw createChatError;
+  return { id: newChat.id, created: true };
+};
+
+// Messages of a chat, oldest first, with the sender's profile embedded
+const listMessages = async (chatId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*, sender:profiles!messages_sender_profile_fkey(id, username, avatar_url)')
+    .eq('chat_id', chatId)
+    .order('timestamp', { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as MessageWithSenderRow[];
+  profilesRepo.cacheProfiles(rows.map(row => row.sender));
+  return rows.map(toMessage);
+};
+
+// Messages with an attachment exchanged between two users, newest first
+const listAttachmentsBetween = async (userId: string, otherUserId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*, sender:profiles!messages_sender_profile_fkey(id, username, avatar_url)')
+    .or(`and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`)
+    .not('attachment_url', 'is', null)
+    .order('timestamp', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = (data || []) as MessageWithSenderRow[];
+  profilesRepo.cacheProfiles(rows.map(row => row.sender));
+  return rows.map(toMessage);
+};
+
+// Maps a message received over realtime, filling in the sender from the profile cache
+const toRealtimeMessage = async (row: MessageRow) => {
+  const sender = await profilesRepo.getOne(row.sender_id);
+  return toMessage({
+    ...row,
+    sender: sender ? { id: sender.id, username: sender.username, avatar_url: sender.avatarUrl } : null,
+  });
+};
+
+const sendMessage = async (message: {
+  chatId: string;
+  senderId: string;
+  receiverId: string;
+  content: string;
+  attachment?: FileAttachment;
+}) => {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_id: message.chatId,
+      sender_id: message.senderId,
+      receiver_id: message.receiverId,
+      content: message.content,
+      read: false,
+      ...(message.attachment ? toAttachmentColumns(message.attachment) : {}),
+    });
+
+  if (error) throw error;
+};
+
+const markRead = async (messageIds: string[]) => {
+  if (messageIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('messages')
+    .update({ read: true })
+    .in('id', messageIds);
+
+  if (error) throw error;
+};
+
+const hasUnread = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('receiver_id', userId)
+    .eq('read', false);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
+
+export const chatsRepo = {
+  listForUser,
+  findOrCreate,
+  listMessages,
+  listAttachmentsBetween,
+  toRealtimeMessage,
+  sendMessage,
+  markRead,
+  hasUnread,
+};
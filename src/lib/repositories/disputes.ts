@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DisputeOutcome } from '@/lib/types';
+import { profilesRepo } from './profiles';
+import { DisputeWithDetailsRow, toDispute } from './mappers';
+
+// Embeds the task with both parties, and every piece of evidence with its author
+const DISPUTE_WITH_DETAILS_SELECT = `*,
+  task:tasks!task_disputes_task_id_fkey(title, reward, creator_id, doer_id,
+    creator:profiles!tasks_creator_profile_fkey(id, username, avatar_url),
+    doer:profiles!tasks_doer_profile_fkey(id, username, avatar_url)),
+  evidence:task_dispute_evidence(*, author:profiles!task_dispute_evidence_author_id_fkey(id, username, avatar_url))`;
+
+const toDisputes = (rows: unknown[] | null) => {
+  const disputeRows = (rows || []) as DisputeWithDetailsRow[];
+  profilesRepo.cacheProfiles(disputeRows.flatMap(row => [
+    row.task?.creator,
+    row.task?.doer,
+    ...(row.evidence || []).map(evidence => evidence.author),
+  ]));
+  return disputeRows.map(toDispute);
+};
+
+// The dispute raised on a task, if any
+const getForTask = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_disputes')
+    .select(DISPUTE_WITH_DETAILS_SELECT)
+    .eq('task_id', taskId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toDisputes([data])[0] : null;
+};
+
+// The admin review queue: open disputes oldest first, then recently resolved ones
+const listForReview = async (status: 'open' | 'resolved', limit = 50) => {
+  const { data, error } = await supabase
+    .from('task_disputes')
+    .select(DISPUTE_WITH_DETAILS_SELECT)
+    .eq('status', status)
+    .order(status === 'open' ? 'created_at' : 'resolved_at', { ascending: status === 'open' })
+    .limit(limit);
+
+  if (error) throw error;
+  return toDisputes(data);
+};
+
+// Freezes the task and its reward (see raise_task_dispute)
+const raise = async (taskId: string, reason: string, messageIds: string[]) => {
+  const { data, error } = await supabase.rpc('raise_task_dispute', {
+    p_task_id: taskId,
+    p_reason: reason,
+    p_message_ids: messageIds
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const addEvidence = async (disputeId: string, statement: string, messageIds: string[]) => {
+  const { error } = await supabase.rpc('add_dispute_evidence', {
+    p_dispute_id: disputeId,
+    p_statement: statement,
+    p_message_ids: messageIds
+  });
+
+  if (error) throw error;
+};
+
+// Admins only; doerShare is required for a split
+const resolve = async (disputeId: string, outcome: DisputeOutcome, doerShare?: number, note?: string) => {
+  const { error } = await supabase.rpc('resolve_task_dispute', {
+    p_dispute_id: disputeId,
+    p_outcome: outcome,
+    p_doer_share: doerShare,
+    p_note: note
+  });
+
+  if (error) throw error;
+};
+
+export const disputesRepo = {
+  getForTask,
+  listForReview,
+  raise,
+  addEvidence,
+  resolve,
+};
@@ -0,0 +1,20 @@
+// Typed data access over Supabase. Components and hooks go through these
+// repositories instead of building `.from()` queries themselves.
+export { tasksRepo } from './tasks';
+export { applicationsRepo } from './applications';
+export { chatsRepo } from './chats';
+export { ratingsRepo } from './ratings';
+export { profilesRepo } from './profiles';
+export { notificationsRepo } from './notifications';
+export { pushSubscriptionsRepo } from './push-subscriptions';
+export { pointsRepo } from './points';
+export { disputesRepo } from './disputes';
+export { adminRepo } from './admin';
+export { blocksRepo } from './blocks';
+export { categoriesRepo } from './categories';
+export { reportsRepo } from './reports';
+export { templatesRepo } from './templates';
+export { leaderboardRepo } from './leaderboard';
+export type { CachedProfile } from './profiles';
+export type { UserRatings } from './ratings';
+export * from './mappers';
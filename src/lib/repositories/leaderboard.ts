@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LeaderboardFilters, LeaderboardPage, LeaderboardRole } from '@/lib/types';
+import { toLeaderboardEntry } from './mappers';
+
+const toLeaderboardArgs = (role: LeaderboardRole, filters: LeaderboardFilters) => ({
+  p_role: role,
+  p_window: filters.window,
+  p_category_id: filters.categoryId,
+  p_near_latitude: filters.near?.latitude,
+  p_near_longitude: filters.near?.longitude,
+  p_radius_km: filters.near ? filters.radiusKm : undefined,
+});
+
+// One page of ranked creators or doers (see get_leaderboard)
+const getPage = async (
+  role: LeaderboardRole,
+  filters: LeaderboardFilters,
+  offset: number,
+  limit: number
+): Promise<LeaderboardPage> => {
+  const { data, error } = await supabase.rpc('get_leaderboard', {
+    ...toLeaderboardArgs(role, filters),
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  return { entries: rows.map(toLeaderboardEntry), totalCount: rows[0]?.total_count ?? 0 };
+};
+
+// The user's own row on the same board, or null when the filters count none of their tasks
+const getRank = async (role: LeaderboardRole, filters: LeaderboardFilters, userId: string) => {
+  const { data, error } = await supabase.rpc('get_leaderboard', {
+    ...toLeaderboardArgs(role, filters),
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  return row ? toLeaderboardEntry(row) : null;
+};
+
+export const leaderboardRepo = {
+  getPage,
+  getRank,
+};
@@ -0,0 +1,465 @@
+import { Database, Json } from '@/integrations/supabase/types';
+import { AdminTaskType, AdminUserType, ApplicationType, AuditLogEntryType, BlockedUserType, DisputeEvidenceType, DisputeOutcome, DisputeType, FileAttachment, JointTaskMemberType, LeaderboardEntryType, MessageType, NotificationPreferences, NotificationType, PointsSummary, PointsTransactionType, PublicProfileType, PushDeviceType, ReportStatus, ReportTargetType, ReportType, ReputationType, ReviewSubScore, ReviewType, TaskCategoryType, TaskRecurrence, TaskTemplateType, TaskType } from '@/lib/types';
+import { toTaskState } from '@/lib/task-state';
+
+// Row <-> domain conversions. Rows use the database's snake_case columns;
+// the rest of the app only deals with the camelCase domain types.
+
+type Tables = Database['public']['Tables'];
+
+export type ProfileRow = Tables['profiles']['Row'];
+export type TaskRow = Tables['tasks']['Row'];
+export type TaskCategoryRow = Tables['task_categories']['Row'];
+export type TaskTemplateRow = Tables['task_templates']['Row'];
+export type ApplicationRow = Tables['task_applications']['Row'];
+export type JointTaskMemberRow = Tables['joint_task_members']['Row'];
+export type MessageRow = Tables['messages']['Row'];
+export type NotificationRow = Tables['notifications']['Row'];
+export type NotificationPreferencesRow = Tables['notification_preferences']['Row'];
+export type PushSubscriptionRow = Tables['push_subscriptions']['Row'];
+export type RatingRow = Tables['ratings']['Row'];
+export type DisputeRow = Tables['task_disputes']['Row'];
+export type DisputeEvidenceRow = Tables['task_dispute_evidence']['Row'];
+export type AuditLogRow = Tables['admin_audit_log']['Row'];
+export type UserBlockRow = Tables['user_blocks']['Row'];
+export type UserRatingsRow = Tables['user_ratings']['Row'];
+
+type Functions = Database['public']['Functions'];
+
+export type PointsSummaryRow = Functions['get_points_summary']['Returns'][number];
+export type PointsTransactionRow = Functions['list_points_transactions']['Returns'][number];
+export type AdminUserRow = Functions['admin_search_users']['Returns'][number];
+export type AdminTaskRow = Functions['admin_search_tasks']['Returns'][number];
+export type ReportRow = Functions['admin_list_reports']['Returns'][number];
+export type ReputationRow = Functions['user_reputation']['Returns'][number];
+export type PublicProfileRow = Functions['get_public_profile']['Returns'][number];
+export type LeaderboardRow = Functions['get_leaderboard']['Returns'][number];
+
+export type EmbeddedProfile = Pick<ProfileRow, 'id' | 'username' | 'avatar_url'> | null;
+
+export type TaskWithProfilesRow = Omit<TaskRow, 'search_vector'> & {
+  creator?: EmbeddedProfile;
+  doer?: EmbeddedProfile;
+  distance_km?: number | null;
+};
+
+export type ApplicationWithApplicantRow = ApplicationRow & {
+  applicant?: EmbeddedProfile;
+};
+
+export type MessageWithSenderRow = MessageRow & {
+  sender?: EmbeddedProfile;
+};
+
+export type ReviewWithRaterRow = RatingRow & {
+  rater?: EmbeddedProfile;
+};
+
+export type UserBlockWithProfileRow = UserBlockRow & {
+  blocked?: EmbeddedProfile;
+};
+
+export type AuditLogWithAdminRow = AuditLogRow & {
+  admin?: EmbeddedProfile;
+};
+
+export type DisputeWithDetailsRow = DisputeRow & {
+  task?: Pick<TaskWithProfilesRow, 'title' | 'reward' | 'creator_id' | 'doer_id' | 'creator' | 'doer'> | null;
+  evidence?: (DisputeEvidenceRow & { author?: EmbeddedProfile })[];
+};
+
+export const toTask = (row: TaskWithProfilesRow): TaskType => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  location: row.location || '',
+  coordinates: typeof row.latitude === 'number' && typeof row.longitude === 'number'
+    ? { latitude: row.latitude, longitude: row.longitude }
+    : null,
+  distanceKm: row.distance_km ?? null,
+  categoryId: row.category_id,
+  tags: row.tags || [],
+  recurrence: row.recurrence as TaskRecurrence | null,
+  recurrenceEndsAt: row.recurrence_ends_at ? new Date(row.recurrence_ends_at) : null,
+  reward: row.reward || 0,
+  deadline: row.deadline ? new Date(row.deadline) : new Date(),
+  taskType: row.task_type === 'joint' ? 'joint' : 'normal',
+  state: toTaskState(row.state),
+  createdAt: new Date(row.created_at),
+  creatorId: row.creator_id,
+  creatorName: row.creator?.username || 'Unknown user',
+  creatorRating: row.creator_rating || 0,
+  doerId: row.doer_id,
+  doerName: row.doer_id ? row.doer?.username || 'Unknown doer' : undefined,
+  doerRating: row.doer_rating || 0,
+  isRequestorVerified: row.is_requestor_verified || false,
+  isDoerVerified: row.is_doer_verified || false,
+  isRequestorRated: row.is_requestor_rated || false,
+  isDoerRated: row.is_doer_rated || false,
+  cancellationReason: row.cancellation_reason,
+  cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : null,
+  expiredAt: row.expired_at ? new Date(row.expired_at) : null,
+  disputeOutcome: row.dispute_outcome as DisputeOutcome | null,
+  disputeResolvedAt: row.dispute_resolved_at ? new Date(row.dispute_resolved_at) : null,
+});
+
+export const toTaskCategory = (row: TaskCategoryRow): TaskCategoryType => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+});
+
+export const toTaskTemplate = (row: TaskTemplateRow): TaskTemplateType => ({
+  id: row.id,
+  name: row.name,
+  title: row.title,
+  description: row.description || '',
+  location: row.location || '',
+  coordinates: typeof row.latitude === 'number' && typeof row.longitude === 'number'
+    ? { latitude: row.latitude, longitude: row.longitude }
+    : null,
+  reward: row.reward,
+  taskType: row.task_type === 'joint' ? 'joint' : 'normal',
+  categoryId: row.category_id,
+  tags: row.tags || [],
+  recurrence: row.recurrence as TaskRecurrence | null,
+});
+
+export const toTaskTemplateInsert = (template: Omit<TaskTemplateType, 'id'>, ownerId: string): Tables['task_templates']['Insert'] => ({
+  owner_id: ownerId,
+  name: template.name.trim(),
+  title: template.title,
+  description: template.description,
+  location: template.location,
+  latitude: template.coordinates?.latitude ?? null,
+  longitude: template.coordinates?.longitude ?? null,
+  reward: template.reward,
+  task_type: template.taskType,
+  category_id: template.categoryId,
+  tags: template.tags,
+  recurrence: template.recurrence,
+  updated_at: new Date().toISOString(),
+});
+
+// Columns a user may set when creating a task; everything else is derived on the server
+export const toTaskInsert = (task: TaskType, creatorId: string): Tables['tasks']['Insert'] => ({
+  title: task.title,
+  description: task.description,
+  location: task.location,
+  latitude: task.coordinates?.latitude ?? null,
+  longitude: task.coordinates?.longitude ?? null,
+  category_id: task.categoryId ?? null,
+  tags: task.tags ?? [],
+  recurrence: task.recurrence ?? null,
+  recurrence_ends_at: task.recurrence && task.recurrenceEndsAt ? task.recurrenceEndsAt.toISOString() : null,
+  reward: task.reward,
+  deadline: task.deadline.toISOString(),
+  task_type: task.taskType,
+  creator_id: creatorId,
+});
+
+export const toTaskUpdate = (task: TaskType): Tables['tasks']['Update'] => ({
+  title: task.title,
+  description: task.description,
+  location: task.location,
+  latitude: task.coordinates?.latitude ?? null,
+  longitude: task.coordinates?.longitude ?? null,
+  category_id: task.categoryId ?? null,
+  tags: task.tags ?? [],
+  recurrence: task.recurrence ?? null,
+  recurrence_ends_at: task.recurrence && task.recurrenceEndsAt ? task.recurrenceEndsAt.toISOString() : null,
+  reward: task.reward,
+  deadline: task.deadline.toISOString(),
+});
+
+export const toApplication = (row: ApplicationWithApplicantRow, taskTitle?: string): ApplicationType => ({
+  id: row.id,
+  taskId: row.task_id,
+  userId: row.applicant_id,
+  username: row.applicant?.username || 'Unknown user',
+  message: row.message,
+  rating: 0,
+  createdAt: new Date(row.created_at),
+  status: row.status,
+  applicantName: row.applicant?.username || 'Unknown user',
+  taskTitle: taskTitle || 'Unknown task',
+});
+
+export const toJointTaskMember = (row: JointTaskMemberRow, username?: string | null, taskTitle?: string): JointTaskMemberType => ({
+  id: row.id,
+  userId: row.user_id,
+  username: username || 'Unknown user',
+  taskId: row.task_id,
+  taskTitle,
+  needs: row.needs,
+  reward: row.reward,
+  rating: 0,
+  status: row.status as JointTaskMemberType['status'],
+  createdAt: new Date(row.created_at),
+  isMemberVerified: row.is_member_verified,
+  isDoerVerified: row.is_doer_verified,
+  isMemberRated: row.is_member_rated,
+  isDoerRated: row.is_doer_rated,
+});
+
+// Attachments are stored both as a JSON object and as separate columns;
+// older messages may only have one of the two.
+const toAttachment = (row: MessageRow): FileAttachment | undefined => {
+  let parsed: Partial<FileAttachment> = {};
+
+  if (row.attachment) {
+    try {
+      parsed = (typeof row.attachment === 'string'
+        ? JSON.parse(row.attachment)
+        : row.attachment) as Partial<FileAttachment>;
+    } catch (e) {
+      console.error('Error parsing attachment:', e);
+    }
+  }
+
+  const url = parsed.url || row.attachment_url;
+  if (!url) return undefined;
+
+  return {
+    id: parsed.id || `file-${row.id}`,
+    name: parsed.name || row.attachment_name || 'file',
+    type: parsed.type || row.attachment_type || 'application/octet-stream',
+    url,
+    size: parsed.size || row.attachment_size || 0,
+  };
+};
+
+export const toMessage = (row: MessageWithSenderRow): MessageType => ({
+  id: row.id,
+  senderId: row.sender_id,
+  senderName: row.sender?.username || 'Unknown User',
+  senderImage: row.sender?.avatar_url || undefined,
+  receiverId: row.receiver_id,
+  content: row.content,
+  timestamp: new Date(row.timestamp),
+  read: row.read || false,
+  attachment: toAttachment(row),
+  removedAt: row.removed_at ? new Date(row.removed_at) : null,
+});
+
+export const toAttachmentColumns = (attachment: FileAttachment) => ({
+  attachment: { ...attachment } as Json,
+  attachment_name: attachment.name,
+  attachment_type: attachment.type,
+  attachment_url: attachment.url,
+  attachment_size: attachment.size,
+});
+
+export const toNotification = (row: NotificationRow): NotificationType => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body,
+  taskId: row.task_id,
+  chatId: row.chat_id,
+  link: row.link,
+  read: row.read,
+  createdAt: new Date(row.created_at),
+});
+
+export const toNotificationPreferences = (row: NotificationPreferencesRow): NotificationPreferences => ({
+  emailApplicationUpdates: row.email_application_updates,
+  emailTaskUpdates: row.email_task_updates,
+  emailChatRequests: row.email_chat_requests,
+  emailDailyDigest: row.email_daily_digest,
+});
+
+export const toNotificationPreferencesUpdate = (preferences: NotificationPreferences): Tables['notification_preferences']['Update'] => ({
+  email_application_updates: preferences.emailApplicationUpdates,
+  email_task_updates: preferences.emailTaskUpdates,
+  email_chat_requests: preferences.emailChatRequests,
+  email_daily_digest: preferences.emailDailyDigest,
+});
+
+export const toPushDevice = (row: PushSubscriptionRow): PushDeviceType => ({
+  id: row.id,
+  endpoint: row.endpoint,
+  userAgent: row.user_agent,
+  createdAt: new Date(row.created_at),
+  lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+});
+
+export const toPointsSummary = (row?: PointsSummaryRow | null): PointsSummary => ({
+  balance: row?.balance ?? 0,
+  inEscrow: row?.in_escrow ?? 0,
+  earned: row?.earned ?? 0,
+  paid: row?.paid ?? 0,
+});
+
+export const toPointsTransaction = (row: PointsTransactionRow): PointsTransactionType => ({
+  id: row.id,
+  kind: row.kind as PointsTransactionType['kind'],
+  description: row.description,
+  amount: row.amount,
+  taskId: row.task_id,
+  taskTitle: row.task_title,
+  createdAt: new Date(row.created_at),
+});
+
+export const toDisputeEvidence = (row: DisputeEvidenceRow & { author?: EmbeddedProfile }): DisputeEvidenceType => ({
+  id: row.id,
+  authorId: row.author_id,
+  authorName: row.author?.username || 'Unknown user',
+  statement: row.statement,
+  messageId: row.message_id,
+  // Copied from the message's attachment when the evidence was added
+  attachment: row.attachment as FileAttachment | null,
+  createdAt: new Date(row.created_at),
+});
+
+export const toDispute = (row: DisputeWithDetailsRow): DisputeType => ({
+  id: row.id,
+  taskId: row.task_id,
+  taskTitle: row.task?.title || 'Deleted task',
+  taskReward: row.task?.reward || 0,
+  creatorId: row.task?.creator_id,
+  creatorName: row.task?.creator?.username || 'Unknown user',
+  doerId: row.task?.doer_id,
+  doerName: row.task?.doer?.username,
+  raisedBy: row.raised_by,
+  reason: row.reason,
+  previousState: toTaskState(row.previous_state),
+  status: row.status === 'resolved' ? 'resolved' : 'open',
+  outcome: row.outcome as DisputeOutcome | null,
+  doerShare: row.doer_share,
+  resolutionNote: row.resolution_note,
+  evidence: (row.evidence || [])
+    .map(toDisputeEvidence)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+  createdAt: new Date(row.created_at),
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+});
+
+export const toAdminUser = (row: AdminUserRow): AdminUserType => ({
+  id: row.id,
+  username: row.username || 'Unknown user',
+  fullName: row.full_name,
+  avatarUrl: row.avatar_url,
+  role: row.role === 'admin' ? 'admin' : 'user',
+  suspendedAt: row.suspended_at ? new Date(row.suspended_at) : null,
+  suspensionReason: row.suspension_reason,
+  doerRating: Number(row.doer_rating) || 0,
+  requestorRating: Number(row.requestor_rating) || 0,
+  createdAt: new Date(row.created_at),
+  tasksCreated: Number(row.tasks_created),
+  tasksDone: Number(row.tasks_done),
+  openReports: Number(row.open_reports),
+});
+
+export const toAdminTask = (row: AdminTaskRow): AdminTaskType => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  state: toTaskState(row.state),
+  reward: row.reward || 0,
+  creatorId: row.creator_id,
+  creatorName: row.creator_name || 'Unknown user',
+  doerId: row.doer_id,
+  doerName: row.doer_name,
+  createdAt: new Date(row.created_at),
+  removedAt: row.removed_at ? new Date(row.removed_at) : null,
+  removalReason: row.removal_reason,
+  openReports: Number(row.open_reports),
+});
+
+export const toReport = (row: ReportRow): ReportType => ({
+  id: row.id,
+  reporterId: row.reporter_id,
+  reporterName: row.reporter_name || 'Unknown user',
+  targetType: row.target_type as ReportTargetType,
+  targetId: row.target_id,
+  targetOwnerId: row.target_owner_id,
+  targetOwnerName: row.target_owner_name,
+  targetPreview: row.target_preview,
+  isTargetRemoved: row.target_removed,
+  reason: row.reason,
+  details: row.details,
+  status: row.status as ReportStatus,
+  resolutionNote: row.resolution_note,
+  createdAt: new Date(row.created_at),
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+});
+
+export const toAuditLogEntry = (row: AuditLogWithAdminRow): AuditLogEntryType => ({
+  id: row.id,
+  adminId: row.admin_id,
+  adminName: row.admin?.username || 'System',
+  action: row.action,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  reason: row.reason,
+  details: (row.details || {}) as Record<string, unknown>,
+  createdAt: new Date(row.created_at),
+});
+
+const REVIEW_SUB_SCORES: ReviewSubScore[] = ['punctuality', 'communication', 'quality', 'clarity', 'fairness'];
+
+export const toReview = (row: ReviewWithRaterRow): ReviewType => ({
+  id: row.id,
+  taskId: row.task_id,
+  raterId: row.rater_id,
+  raterName: row.rater?.username || 'Unknown user',
+  raterAvatarUrl: row.rater?.avatar_url,
+  ratedId: row.rated_id,
+  isForCreator: row.is_for_creator,
+  rating: Number(row.rating),
+  review: row.review || '',
+  subScores: Object.fromEntries(
+    REVIEW_SUB_SCORES.filter(key => row[key] != null).map(key => [key, row[key]])
+  ),
+  reply: row.reply,
+  repliedAt: row.replied_at ? new Date(row.replied_at) : null,
+  createdAt: new Date(row.created_at),
+});
+
+export const toPublicProfile = (row: PublicProfileRow): PublicProfileType => ({
+  id: row.id,
+  username: row.username,
+  avatarUrl: row.avatar_url,
+  joinedAt: new Date(row.created_at),
+  showReputation: row.show_reputation,
+  showReviews: row.show_reviews,
+  showOpenTasks: row.show_open_tasks,
+  completedAsDoer: row.completed_as_doer,
+  completedAsCreator: row.completed_as_creator,
+});
+
+export const toReputation = (row: ReputationRow): ReputationType => ({
+  userId: row.user_id,
+  role: row.role as ReputationType['role'],
+  score: Number(row.score),
+  bayesianRating: Number(row.bayesian_rating),
+  averageRating: row.average_rating === null ? null : Number(row.average_rating),
+  ratingCount: row.rating_count,
+  weightedCount: Number(row.weighted_count),
+  priorRating: Number(row.prior_rating),
+  priorWeight: Number(row.prior_weight),
+  halfLifeDays: row.half_life_days,
+  completedCount: row.completed_count,
+  cancelledCount: row.cancelled_count,
+  completionRate: Number(row.completion_rate),
+});
+
+export const toLeaderboardEntry = (row: LeaderboardRow): LeaderboardEntryType => ({
+  rank: row.rank,
+  userId: row.user_id,
+  username: row.username || 'Unknown user',
+  avatarUrl: row.avatar_url,
+  tasksCount: row.tasks_count,
+  reward: Number(row.reward),
+  score: Number(row.score),
+  averageRating: row.average_rating === null ? null : Number(row.average_rating),
+  ratingCount: row.rating_count,
+});
+
+export const toBlockedUser = (row: UserBlockWithProfileRow): BlockedUserType => ({
+  userId: row.blocked_id,
+  username: row.blocked?.username || 'Unknown user',
+  avatarUrl: row.blocked?.avatar_url,
+  blockedAt: new Date(row.created_at),
+});
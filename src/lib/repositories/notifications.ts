@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import { NotificationPreferences } from '@/lib/types';
+import { toNotification, toNotificationPreferences, toNotificationPreferencesUpdate } from './mappers';
+
+// Matches the column defaults, for users who never saved their preferences
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  emailApplicationUpdates: true,
+  emailTaskUpdates: true,
+  emailChatRequests: false,
+  emailDailyDigest: true,
+};
+
+// The user's most recent notifications, newest first
+const listForUser = async (userId: string, limit = 30) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).map(toNotification);
+};
+
+const countUnread = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+const markRead = async (notificationIds: string[]) => {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .in('id', notificationIds);
+
+  if (error) throw error;
+};
+
+const markAllRead = async () => {
+  const { error } = await supabase.rpc('mark_all_notifications_read');
+
+  if (error) throw error;
+};
+
+const getPreferences = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toNotificationPreferences(data) : DEFAULT_PREFERENCES;
+};
+
+const updatePreferences = async (userId: string, preferences: NotificationPreferences) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      user_id: userId,
+      ...toNotificationPreferencesUpdate(preferences),
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
+
+export const notificationsRepo = {
+  listForUser,
+  countUnread,
+  markRead,
+  markAllRead,
+  getPreferences,
+  updatePreferences,
+};
@@ -0,0 +1,23 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toPointsSummary, toPointsTransaction } from './mappers';
+
+// The signed-in user's balance and lifetime totals (see get_points_summary)
+const getSummary = async () => {
+  const { data, error } = await supabase.rpc('get_points_summary');
+
+  if (error) throw error;
+  return toPointsSummary(data?.[0]);
+};
+
+// The signed-in user's ledger entries, newest first
+const listTransactions = async (limit = 50) => {
+  const { data, error } = await supabase.rpc('list_points_transactions', { p_limit: limit });
+
+  if (error) throw error;
+  return (data || []).map(toPointsTransaction);
+};
+
+export const pointsRepo = {
+  getSummary,
+  listTransactions,
+};
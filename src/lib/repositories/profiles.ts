@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { EmbeddedProfile, toPublicProfile } from './mappers';
+
+export type CachedProfile = {
+  id: string;
+  username: string | null;
+  avatarUrl: string | null;
+};
+
+// Usernames and avatars are shown on almost every screen and rarely change, so every
+// profile we receive (directly or embedded in another query) is kept for the session.
+const profileCache = new Map<string, CachedProfile>();
+
+const cacheProfiles = (rows: (Partial<EmbeddedProfile> | null | undefined)[]) => {
+  rows.forEach(row => {
+    if (!row?.id) return;
+    profileCache.set(row.id, {
+      id: row.id,
+      username: row.username ?? profileCache.get(row.id)?.username ?? null,
+      avatarUrl: row.avatar_url ?? profileCache.get(row.id)?.avatarUrl ?? null,
+    });
+  });
+};
+
+/**
+ * Returns the profiles for the given ids, fetching any that are not cached yet
+ * in a single query.
+ */
+const getMany = async (ids: string[]): Promise<Map<string, CachedProfile>> => {
+  const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+  const missingIds = uniqueIds.filter(id => !profileCache.has(id));
+
+  if (missingIds.length > 0) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, username, avatar_url')
+      .in('id', missingIds);
+
+    if (error) {
+      console.error('Error fetching profiles:', error);
+    } else {
+      cacheProfiles(data || []);
+    }
+  }
+
+  return new Map(
+    uniqueIds
+      .filter(id => profileCache.has(id))
+      .map(id => [id, profileCache.get(id)] as [string, CachedProfile])
+  );
+};
+
+const getOne = async (id: string) => {
+  const result = await getMany([id]);
+  return result.get(id);
+};
+
+// Full profile row, e.g. for the signed-in user's own profile
+const getById = async (id: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+
+  cacheProfiles([data]);
+  return data;
+};
+
+// Another user's public profile, or null when there is no such user to show
+const getPublic = async (username: string) => {
+  const { data, error } = await supabase.rpc('get_public_profile', { p_username: username });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) return null;
+
+  cacheProfiles([row]);
+  return toPublicProfile(row);
+};
+
+const update = async (id: string, changes: Database['public']['Tables']['profiles']['Update']) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+const isUsernameTaken = async (username: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('username')
+    .eq('username', username)
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+// Case-insensitive match; pass `%term%` style patterns for partial matches
+const searchByUsername = async (pattern: string, limit: number) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, avatar_url')
+    .ilike('username', pattern)
+    .limit(limit);
+
+  if (error) throw error;
+
+  cacheProfiles(data || []);
+  return data || [];
+};
+
+export const profilesRepo = {
+  cacheProfiles,
+  getCached: (id: string) => profileCache.get(id),
+  getMany,
+  getOne,
+  getById,
+  getPublic,
+  update,
+  isUsernameTaken,
+  searchByUsername,
+};
@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toPushDevice } from './mappers';
+
+// Devices the user enabled push notifications on, most recent first
+const listForUser = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toPushDevice);
+};
+
+// Stores the browser's subscription for the signed-in user (see save_push_subscription)
+const save = async (subscription: PushSubscriptionJSON, userAgent: string) => {
+  const { data, error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: subscription.keys.p256dh,
+    p_auth: subscription.keys.auth,
+    p_user_agent: userAgent
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const remove = async (subscriptionId: string) => {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('id', subscriptionId);
+
+  if (error) throw error;
+};
+
+export const pushSubscriptionsRepo = {
+  listForUser,
+  save,
+  remove,
+};
@@ -0,0 +1,133 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ReviewSubScore } from '@/lib/types';
+import { ReviewWithRaterRow, UserRatingsRow, toReputation, toReview } from './mappers';
+
+const UNIQUE_VIOLATION = '23505';
+const NO_ROWS = 'PGRST116';
+
+export type UserRatings = Pick<
+  UserRatingsRow,
+  | 'creator_rating'
+  | 'doer_rating'
+  | 'rating_count_creator'
+  | 'rating_count_doer'
+  | 'punctuality_rating'
+  | 'communication_rating'
+  | 'quality_rating'
+  | 'clarity_rating'
+  | 'fairness_rating'
+  | 'review_count'
+>;
+
+const USER_RATINGS_COLUMNS = 'creator_rating, doer_rating, rating_count_creator, rating_count_doer, punctuality_rating, communication_rating, quality_rating, clarity_rating, fairness_rating, review_count';
+
+const EMPTY_RATINGS: UserRatings = {
+  creator_rating: 0,
+  doer_rating: 0,
+  rating_count_creator: 0,
+  rating_count_doer: 0,
+  punctuality_rating: null,
+  communication_rating: null,
+  quality_rating: null,
+  clarity_rating: null,
+  fairness_rating: null,
+  review_count: 0
+};
+
+// Users without any ratings yet have no row; they get zeroes
+const getUserRatings = async (userId: string): Promise<UserRatings> => {
+  const { data, error } = await supabase
+    .from('user_ratings')
+    .select(USER_RATINGS_COLUMNS)
+    .eq('user_id', userId)
+    .single();
+
+  if (error?.code === NO_ROWS) return EMPTY_RATINGS;
+  if (error) throw error;
+  return data;
+};
+
+// One user's reputation as a doer and as a creator, with how each score was reached
+const getReputation = async (userId: string) => {
+  const { data, error } = await supabase.rpc('user_reputation', { p_user_id: userId });
+
+  if (error) throw error;
+  return (data || []).map(toReputation);
+};
+
+const hasRated = async (taskId: string, raterId: string, isForCreator: boolean) => {
+  const { data, error } = await supabase
+    .from('ratings')
+    .select('id')
+    .eq('task_id', taskId)
+    .eq('rater_id', raterId)
+    .eq('is_for_creator', isForCreator)
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+/**
+ * Stores a rating. Returns false when the rater had already rated
+ * this task in this role. The rated user's averages in user_ratings
+ * are recomputed from their ratings by a database trigger.
+ */
+const create = async (rating: {
+  taskId: string;
+  raterId: string;
+  ratedId: string;
+  rating: number;
+  isForCreator: boolean;
+  review?: string;
+  subScores?: Partial<Record<ReviewSubScore, number>>;
+}) => {
+  const { error } = await supabase
+    .from('ratings')
+    .insert({
+      task_id: rating.taskId,
+      rater_id: rating.raterId,
+      rated_id: rating.ratedId,
+      rating: rating.rating,
+      is_for_creator: rating.isForCreator,
+      review: rating.review?.trim() || null,
+      ...rating.subScores
+    });
+
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+};
+
+// Written reviews of a user, newest first
+const listReviews = async (userId: string, limit: number) => {
+  const { data, error } = await supabase
+    .from('ratings')
+    .select('*, rater:profiles!ratings_rater_id_fkey(id, username, avatar_url)')
+    .eq('rated_id', userId)
+    .not('review', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return ((data || []) as ReviewWithRaterRow[]).map(toReview);
+};
+
+// The reviewed user's one public reply; the server refuses a second one
+const reply = async (ratingId: string, text: string) => {
+  const { error } = await supabase.rpc('reply_to_rating', {
+    p_rating_id: ratingId,
+    p_reply: text
+  });
+
+  if (error) throw error;
+};
+
+export const ratingsRepo = {
+  getUserRatings,
+  getReputation,
+  hasRated,
+  create,
+  listReviews,
+  reply,
+};
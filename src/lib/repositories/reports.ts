@@ -0,0 +1,23 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ReportTargetType } from '@/lib/types';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Files a report for the moderation queue. Returns false when the user already
+// has an open report on the same target.
+const submit = async (targetType: ReportTargetType, targetId: string, reason: string, details?: string) => {
+  const { error } = await supabase.rpc('submit_report', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_reason: reason,
+    p_details: details
+  });
+
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+};
+
+export const reportsRepo = {
+  submit,
+};
@@ -0,0 +1,294 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Coordinates, RecommendedTaskType, TaskState, TaskType } from '@/lib/types';
+import { ASSIGNED_TASK_STATES, TERMINAL_TASK_STATES, toTaskState } from '@/lib/task-state';
+import { TaskFeedCursor, TaskFeedPage, TaskSearchFilters, toSearchTasksArgs } from '@/lib/task-search';
+import { profilesRepo } from './profiles';
+import { TaskWithProfilesRow, toTask, toTaskInsert, toTaskUpdate } from './mappers';
+
+// Embeds the creator and doer profiles through their foreign keys,
+// so a page of tasks needs one request instead of one profile lookup per task.
+const TASK_WITH_PROFILES_SELECT =
+  '*, creator:profiles!tasks_creator_profile_fkey(id, username, avatar_url), doer:profiles!tasks_doer_profile_fkey(id, username, avatar_url)';
+
+const toTasks = (rows: unknown[] | null) => {
+  const taskRows = (rows || []) as TaskWithProfilesRow[];
+  profilesRepo.cacheProfiles(taskRows.flatMap(row => [row.creator, row.doer]));
+  return taskRows.map(toTask);
+};
+
+const create = async (task: TaskType, creatorId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert(toTaskInsert(task, creatorId))
+    .select(TASK_WITH_PROFILES_SELECT)
+    .single();
+
+  if (error) throw error;
+  return toTasks([data])[0];
+};
+
+const update = async (task: TaskType) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update(toTaskUpdate(task))
+    .eq('id', task.id);
+
+  if (error) throw error;
+};
+
+const getById = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_WITH_PROFILES_SELECT)
+    .eq('id', taskId)
+    .single();
+
+  if (error) throw error;
+  return toTasks([data])[0];
+};
+
+const listByIds = async (taskIds: string[]) => {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_WITH_PROFILES_SELECT)
+    .in('id', taskIds)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return toTasks(data);
+};
+
+const listCreatedBy = async (userId: string, states?: TaskState[]) => {
+  let query = supabase
+    .from('tasks')
+    .select(TASK_WITH_PROFILES_SELECT)
+    .eq('creator_id', userId);
+
+  if (states) {
+    query = query.in('state', states);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return toTasks(data);
+};
+
+// Finished tasks (completed, cancelled or expired) the user created or worked on
+const listHistory = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_WITH_PROFILES_SELECT)
+    .in('state', TERMINAL_TASK_STATES)
+    .or(`creator_id.eq.${userId},doer_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return toTasks(data);
+};
+
+// Joint tasks in the given states the user created, is doing, or is a member of
+const listJoint = async (userId: string, memberTaskIds: string[], states: TaskState[]) => {
+  const belongsFilter = [`creator_id.eq.${userId}`, `doer_id.eq.${userId}`];
+  if (memberTaskIds.length > 0) {
+    belongsFilter.push(`id.in.(${memberTaskIds.join(',')})`);
+  }
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_WITH_PROFILES_SELECT)
+    .eq('task_type', 'joint')
+    .in('state', states)
+    .or(belongsFilter.join(','))
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return toTasks(data);
+};
+
+type SearchTasksRow = Database['public']['Functions']['search_tasks']['Returns'][number];
+
+// search_tasks and recommend_tasks return plain task rows, so creators come from the profile cache
+const toSearchedTasks = async (rows: SearchTasksRow[]) => {
+  const profiles = await profilesRepo.getMany(rows.map(row => row.creator_id));
+
+  return rows.map(row => {
+    const creator = profiles.get(row.creator_id);
+    return toTask({
+      ...row,
+      creator: creator ? { id: creator.id, username: creator.username, avatar_url: creator.avatarUrl } : null,
+    });
+  });
+};
+
+/**
+ * One page of the ranked home feed. Pass the returned cursor back in
+ * to get the next page; it is null once the feed is exhausted.
+ */
+const searchPage = async (filters: TaskSearchFilters, cursor: TaskFeedCursor | null, pageSize: number): Promise<TaskFeedPage> => {
+  const { data, error } = await supabase.rpc('search_tasks', {
+    ...toSearchTasksArgs(filters),
+    p_limit: pageSize,
+    p_cursor_rank: cursor?.rank,
+    p_cursor_created_at: cursor?.createdAt,
+    p_cursor_id: cursor?.id,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const tasks = await toSearchedTasks(rows);
+
+  const lastRow = rows[rows.length - 1];
+  const nextCursor: TaskFeedCursor | null = rows.length === pageSize && lastRow
+    ? { rank: lastRow.search_rank, createdAt: lastRow.created_at, id: lastRow.id }
+    : null;
+
+  return { tasks, nextCursor };
+};
+
+// The first `limit` feed results that have coordinates, for the map view
+const searchLocated = async (filters: TaskSearchFilters, limit: number) => {
+  const { data, error } = await supabase.rpc('search_tasks', {
+    ...toSearchTasksArgs(filters),
+    p_located_only: true,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return toSearchedTasks(data || []);
+};
+
+// Open tasks that fit the signed-in user's skills and history, best match first
+const listRecommended = async (near: Coordinates | null, limit: number): Promise<RecommendedTaskType[]> => {
+  const { data, error } = await supabase.rpc('recommend_tasks', {
+    p_near_latitude: near?.latitude,
+    p_near_longitude: near?.longitude,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const tasks = await toSearchedTasks(rows.map(row => ({ ...row, search_rank: 0 })));
+
+  return tasks.map((task, index) => ({
+    ...task,
+    score: rows[index].recommendation_score,
+    matchedSkills: rows[index].matched_skills || [],
+  }));
+};
+
+const cancel = async (taskId: string, reason: string) => {
+  const { error } = await supabase.rpc('cancel_task', {
+    p_task_id: taskId,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+};
+
+const transition = async (taskId: string, state: TaskState) => {
+  const { error } = await supabase.rpc('transition_task_state', {
+    p_task_id: taskId,
+    p_state: state
+  });
+
+  if (error) throw error;
+};
+
+const getVerificationCode = async (taskId: string) => {
+  const { data, error } = await supabase.rpc('get_task_verification_code', { p_task_id: taskId });
+
+  if (error) throw error;
+  return data || null;
+};
+
+const listVerificationAttempts = async (userId: string, taskIds: string[]) => {
+  const { data, error } = await supabase
+    .from('task_verification_attempts')
+    .select('task_id, failed_attempts, locked_until')
+    .eq('user_id', userId)
+    .in('task_id', taskIds);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The code is checked on the server, which also counts wrong attempts
+const verifyCode = async (taskId: string, code: string) => {
+  const { data, error } = await supabase
+    .rpc('verify_task_code', {
+      p_task_id: taskId,
+      p_code: code
+    })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const getProgress = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('state, is_requestor_verified, is_doer_verified, is_requestor_rated, is_doer_rated')
+    .eq('id', taskId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const markRated = async (taskId: string, asDoer: boolean) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update(asDoer ? { is_doer_rated: true } : { is_requestor_rated: true })
+    .eq('id', taskId);
+
+  if (error) throw error;
+};
+
+// Counts shown on a user's statistics card
+const getUserStats = async (userId: string) => {
+  const [created, doing] = await Promise.all([
+    supabase.from('tasks').select('state').eq('creator_id', userId),
+    supabase.from('tasks').select('state').eq('doer_id', userId),
+  ]);
+
+  if (created.error) throw created.error;
+  if (doing.error) throw doing.error;
+
+  const createdStates = (created.data || []).map(task => task.state);
+  const doingStates = (doing.data || []).map(task => task.state);
+
+  return {
+    created: createdStates.length,
+    closed: createdStates.filter(state => state === 'completed').length,
+    completed: doingStates.filter(state => state === 'completed').length,
+    inProgress: doingStates.filter(state => ASSIGNED_TASK_STATES.includes(toTaskState(state))).length,
+  };
+};
+
+export const tasksRepo = {
+  create,
+  update,
+  getById,
+  listByIds,
+  listCreatedBy,
+  listHistory,
+  listJoint,
+  searchPage,
+  searchLocated,
+  listRecommended,
+  cancel,
+  transition,
+  getVerificationCode,
+  listVerificationAttempts,
+  verifyCode,
+  getProgress,
+  markRated,
+  getUserStats,
+};
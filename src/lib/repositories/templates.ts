@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TaskTemplateType } from '@/lib/types';
+import { toTaskTemplate, toTaskTemplateInsert } from './mappers';
+
+// The user's saved task templates, by name
+const list = async (ownerId: string) => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('owner_id', ownerId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toTaskTemplate);
+};
+
+// Saving under a name the user already has replaces that template
+const save = async (template: Omit<TaskTemplateType, 'id'>, ownerId: string) => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .upsert(toTaskTemplateInsert(template, ownerId), { onConflict: 'owner_id,name' })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return toTaskTemplate(data);
+};
+
+const remove = async (templateId: string) => {
+  const { error } = await supabase
+    .from('task_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+};
+
+export const templatesRepo = {
+  list,
+  save,
+  remove,
+};
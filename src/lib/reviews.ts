@@ -0,0 +1,18 @@
+import { ReviewSubScore } from '@/lib/types';
+
+// Review sub-scores and limits. These mirror the checks on the ratings table
+// (see 20250430000000_add_rating_reviews.sql).
+
+export const DOER_SUB_SCORES: ReviewSubScore[] = ['punctuality', 'communication', 'quality'];
+
+export const CREATOR_SUB_SCORES: ReviewSubScore[] = ['clarity', 'fairness'];
+
+export const REVIEW_SUB_SCORE_LABELS: Record<ReviewSubScore, string> = {
+  punctuality: 'Punctuality',
+  communication: 'Communication',
+  quality: 'Quality',
+  clarity: 'Clarity',
+  fairness: 'Fairness',
+};
+
+export const MAX_REVIEW_LENGTH = 1000;
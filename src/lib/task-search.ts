@@ -0,0 +1,115 @@
+// Search and facet state for the home feed. The state lives in the URL query string
+// so a search can be shared or bookmarked; these helpers convert between the two.
+
+import { Coordinates, TaskType } from '@/lib/types';
+
+export type DeadlineWindow = 'today' | 'week' | 'month';
+
+export type TaskSearchFilters = {
+  query: string;
+  minReward?: number;
+  maxReward?: number;
+  deadline?: DeadlineWindow;
+  taskType?: 'normal' | 'joint';
+  minCreatorRating?: number;
+  categoryId?: string;
+  tag?: string;
+  radiusKm?: number;
+  // The user's position for radiusKm. It comes from the browser, never from the URL.
+  near?: Coordinates;
+};
+
+export const RADIUS_OPTIONS_KM = [1, 5, 10, 25, 50];
+
+export const DEADLINE_WINDOWS: Record<DeadlineWindow, { label: string; days: number }> = {
+  today: { label: 'Due within 24 hours', days: 1 },
+  week: { label: 'Due within a week', days: 7 },
+  month: { label: 'Due within a month', days: 30 },
+};
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export const parseTaskSearchParams = (params: URLSearchParams): TaskSearchFilters => {
+  const deadline = params.get('deadline');
+  const taskType = params.get('type');
+
+  return {
+    query: params.get('q') || '',
+    minReward: parseNumber(params.get('minReward')),
+    maxReward: parseNumber(params.get('maxReward')),
+    deadline: deadline && deadline in DEADLINE_WINDOWS ? (deadline as DeadlineWindow) : undefined,
+    taskType: taskType === 'normal' || taskType === 'joint' ? taskType : undefined,
+    minCreatorRating: parseNumber(params.get('minRating')),
+    categoryId: params.get('category') || undefined,
+    tag: params.get('tag')?.trim().toLowerCase() || undefined,
+    radiusKm: parseNumber(params.get('within')) || undefined,
+  };
+};
+
+// Empty facets are left out so shared URLs stay short
+export const toTaskSearchParams = (filters: TaskSearchFilters) => {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.minReward !== undefined) params.set('minReward', String(filters.minReward));
+  if (filters.maxReward !== undefined) params.set('maxReward', String(filters.maxReward));
+  if (filters.deadline) params.set('deadline', filters.deadline);
+  if (filters.taskType) params.set('type', filters.taskType);
+  if (filters.minCreatorRating !== undefined) params.set('minRating', String(filters.minCreatorRating));
+  if (filters.categoryId) params.set('category', filters.categoryId);
+  if (filters.tag?.trim()) params.set('tag', filters.tag.trim());
+  if (filters.radiusKm !== undefined) params.set('within', String(filters.radiusKm));
+
+  return params;
+};
+
+export const hasActiveFacets = (filters: TaskSearchFilters) => {
+  return (
+    filters.minReward !== undefined ||
+    filters.maxReward !== undefined ||
+    !!filters.deadline ||
+    !!filters.taskType ||
+    filters.minCreatorRating !== undefined ||
+    !!filters.categoryId ||
+    !!filters.tag ||
+    filters.radiusKm !== undefined
+  );
+};
+
+// Arguments for the search_tasks database function
+export const toSearchTasksArgs = (filters: TaskSearchFilters) => {
+  const deadlineBefore = filters.deadline
+    ? new Date(Date.now() + DEADLINE_WINDOWS[filters.deadline].days * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+
+  return {
+    p_query: filters.query.trim() || undefined,
+    p_min_reward: filters.minReward,
+    p_max_reward: filters.maxReward,
+    p_deadline_before: deadlineBefore,
+    p_task_type: filters.taskType,
+    p_min_creator_rating: filters.minCreatorRating,
+    p_near_latitude: filters.near?.latitude,
+    p_near_longitude: filters.near?.longitude,
+    p_radius_km: filters.near ? filters.radiusKm : undefined,
+    p_category_id: filters.categoryId,
+    p_tag: filters.tag?.trim() || undefined,
+  };
+};
+
+// Position of the last task on a feed page. createdAt is kept as the raw string from the
+// database because a JS Date would drop the microseconds and break the keyset comparison.
+export type TaskFeedCursor = {
+  rank: number;
+  createdAt: string;
+  id: string;
+};
+
+export type TaskFeedPage = {
+  tasks: TaskType[];
+  nextCursor: TaskFeedCursor | null;
+};
@@ -0,0 +1,115 @@
+import { DisputeOutcome, TaskRecurrence, TaskState, TaskType } from '@/lib/types';
+
+// The lifecycle itself is enforced by the database (see the enforce_task_state trigger).
+// These helpers only read the state column so every view agrees on where a task belongs.
+
+export const TASK_STATES: TaskState[] = [
+  'draft',
+  'open',
+  'assigned',
+  'in_progress',
+  'awaiting_verification',
+  'disputed',
+  'completed',
+  'cancelled',
+  'expired',
+];
+
+// States that count towards the three-active-tasks limit
+export const ACTIVE_TASK_STATES: TaskState[] = ['draft', 'open', 'assigned', 'in_progress', 'awaiting_verification', 'disputed'];
+
+// States where a doer has been assigned and the work is still under way
+export const ASSIGNED_TASK_STATES: TaskState[] = ['assigned', 'in_progress', 'awaiting_verification'];
+
+// States either party can raise a dispute from; mirrors raise_task_dispute
+export const DISPUTABLE_TASK_STATES: TaskState[] = ['assigned', 'in_progress', 'awaiting_verification'];
+
+// States a creator can still cancel from; mirrors task_state_transition_allowed
+export const CANCELLABLE_TASK_STATES: TaskState[] = ['draft', 'open', 'assigned', 'in_progress'];
+
+// States whose reward can still be edited; mirrors enforce_task_state
+export const REWARD_EDITABLE_TASK_STATES: TaskState[] = ['draft', 'open'];
+
+export const TERMINAL_TASK_STATES: TaskState[] = ['completed', 'cancelled', 'expired'];
+
+export const TASK_STATE_LABELS: Record<TaskState, string> = {
+  draft: 'Draft',
+  open: 'Live',
+  assigned: 'Assigned',
+  in_progress: 'In Progress',
+  awaiting_verification: 'Awaiting Verification',
+  disputed: 'Disputed',
+  completed: 'Done',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export const DISPUTE_OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  completed: 'Paid to doer',
+  refunded: 'Refunded to creator',
+  split: 'Reward split',
+};
+
+// How often a repeating task is posted again; mirrors spawn_recurring_tasks
+export const TASK_RECURRENCE_LABELS: Record<TaskRecurrence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// Mirrors max_attempts in the verify_task_code function
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+
+export type TaskTab = 'active' | 'approved' | 'applied' | 'history';
+
+export const toTaskState = (value: string | null | undefined): TaskState => {
+  return TASK_STATES.includes(value as TaskState) ? (value as TaskState) : 'open';
+};
+
+export const isActiveTask = (task: Pick<TaskType, 'state'>) => ACTIVE_TASK_STATES.includes(task.state);
+
+export const isCancellableTask = (task: Pick<TaskType, 'state'>) => CANCELLABLE_TASK_STATES.includes(task.state);
+
+export const isDisputableTask = (task: Pick<TaskType, 'state'>) => DISPUTABLE_TASK_STATES.includes(task.state);
+
+// Returns which tab of the Tasks page a task belongs to for the given user
+export const getTaskTab = (task: TaskType, userId?: string): TaskTab | null => {
+  if (!userId) return null;
+
+  const isCreator = task.creatorId === userId;
+  const isDoer = task.doerId === userId;
+
+  if (isCreator && (task.state === 'draft' || task.state === 'open')) {
+    return 'active';
+  }
+
+  // Disputed tasks stay with the assigned ones until an admin settles them
+  if ((isCreator || isDoer) && (ASSIGNED_TASK_STATES.includes(task.state) || task.state === 'disputed')) {
+    return 'approved';
+  }
+
+  // Completed tasks stay under approved until the user has left their rating
+  if (task.state === 'completed' && (isCreator || isDoer)) {
+    const hasRated = isCreator ? task.isRequestorRated : task.isDoerRated;
+    return hasRated ? 'history' : 'approved';
+  }
+
+  if (
+    !isCreator &&
+    task.state === 'open' &&
+    task.applicationStatus === 'pending' &&
+    task.deadline > new Date()
+  ) {
+    return 'applied';
+  }
+
+  if (TERMINAL_TASK_STATES.includes(task.state)) {
+    return 'history';
+  }
+
+  return null;
+};
+
+export const filterTasksByTab = (tasks: TaskType[], tab: TaskTab, userId?: string) => {
+  return tasks.filter(task => getTaskTab(task, userId) === tab);
+};
@@ -7,15 +7,70 @@ export type UserType = {
   profileImage?: string;
 };
 
+export type TaskCategoryType = {
+  id: string;
+  name: string;
+  description?: string | null;
+};
+
+// An open task picked for the user, with why it was picked
+export type RecommendedTaskType = TaskType & {
+  score: number;
+  matchedSkills: string[];
+};
+
+export type TaskRecurrence = 'daily' | 'weekly' | 'monthly';
+
+// A task's details saved under a name, to post it again without retyping
+export type TaskTemplateType = {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  location: string;
+  coordinates: Coordinates | null;
+  reward: number;
+  taskType: 'normal' | 'joint';
+  categoryId: string | null;
+  tags: string[];
+  recurrence: TaskRecurrence | null;
+};
+
+// A point on the map, in decimal degrees
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+export type TaskState =
+  | 'draft'
+  | 'open'
+  | 'assigned'
+  | 'in_progress'
+  | 'awaiting_verification'
+  | 'disputed'
+  | 'completed'
+  | 'cancelled'
+  | 'expired';
+
 export type TaskType = {
   id: string;
   title: string;
   description: string;
   location: string;
+  // Set when the creator pinned the location; tasks without them are left off the map
+  coordinates?: Coordinates | null;
+  // Distance from the user's position, when the feed was searched near it
+  distanceKm?: number | null;
+  categoryId?: string | null;
+  tags?: string[];
+  // Repeating tasks are posted again when this instance is done or its deadline passes
+  recurrence?: TaskRecurrence | null;
+  recurrenceEndsAt?: Date | null;
   reward: number;
   deadline: Date;
   taskType: 'normal' | 'joint';
-  status: 'active' | 'completed';
+  state: TaskState;
   createdAt: Date;
   creatorId: string;
   creatorName: string;
@@ -24,12 +79,54 @@ export type TaskType = {
   doerName?: string;
   doerRating?: number;
   applicationStatus?: string;
-  requestorVerificationCode?: string | null;
-  doerVerificationCode?: string | null;
+  // The current user's own verification code; the other party's code never reaches the client
+  verificationCode?: string | null;
+  verificationAttemptsRemaining?: number;
+  verificationLockedUntil?: Date | null;
   isRequestorVerified?: boolean;
   isDoerVerified?: boolean;
   isRequestorRated?: boolean;
   isDoerRated?: boolean;
+  jointMembers?: JointTaskMemberType[];
+  cancellationReason?: string | null;
+  cancelledAt?: Date | null;
+  expiredAt?: Date | null;
+  disputeOutcome?: DisputeOutcome | null;
+  disputeResolvedAt?: Date | null;
+};
+
+// How an admin settled a dispute: the doer is paid, the creator is refunded, or the reward is shared
+export type DisputeOutcome = 'completed' | 'refunded' | 'split';
+
+export type DisputeEvidenceType = {
+  id: string;
+  authorId: string;
+  authorName: string;
+  statement?: string | null;
+  messageId?: string | null;
+  attachment?: FileAttachment | null;
+  createdAt: Date;
+};
+
+export type DisputeType = {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  taskReward: number;
+  creatorId: string;
+  creatorName: string;
+  doerId?: string | null;
+  doerName?: string | null;
+  raisedBy: string;
+  reason: string;
+  previousState: TaskState;
+  status: 'open' | 'resolved';
+  outcome?: DisputeOutcome | null;
+  doerShare?: number | null;
+  resolutionNote?: string | null;
+  evidence: DisputeEvidenceType[];
+  createdAt: Date;
+  resolvedAt?: Date | null;
 };
 
 export type JointTaskMemberType = {
@@ -40,6 +137,17 @@ export type JointTaskMemberType = {
   needs: string;
   reward: number;
   rating: number;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: Date;
+  taskTitle?: string;
+  // The current user's own code for this membership, when they are the member or the doer
+  verificationCode?: string | null;
+  verificationAttemptsRemaining?: number;
+  verificationLockedUntil?: Date | null;
+  isMemberVerified?: boolean;
+  isDoerVerified?: boolean;
+  isMemberRated?: boolean;
+  isDoerRated?: boolean;
 };
 
 export type ApplicationType = {
@@ -74,8 +182,59 @@ export interface MessageType {
   read: boolean;
   attachment?: FileAttachment;
   isOptimistic?: boolean;
+  // Set when a moderator took the message down; its content is cleared
+  removedAt?: Date | null;
 }
 
+export type NotificationType = {
+  id: string;
+  type: string;
+  title: string;
+  body?: string | null;
+  taskId?: string | null;
+  chatId?: string | null;
+  link?: string | null;
+  read: boolean;
+  createdAt: Date;
+};
+
+// Which notifications are also sent by email
+export type NotificationPreferences = {
+  emailApplicationUpdates: boolean;
+  emailTaskUpdates: boolean;
+  emailChatRequests: boolean;
+  emailDailyDigest: boolean;
+};
+
+// A browser the user enabled push notifications on
+export type PushDeviceType = {
+  id: string;
+  endpoint: string;
+  userAgent?: string | null;
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+};
+
+// Points the user holds, has locked in escrow for their open tasks, and has
+// earned or paid out through completed tasks
+export type PointsSummary = {
+  balance: number;
+  inEscrow: number;
+  earned: number;
+  paid: number;
+};
+
+// One line of the user's points history; credits are positive, debits negative
+export type PointsTransactionType = {
+  id: string;
+  kind: 'grant' | 'escrow_hold' | 'escrow_adjust' | 'escrow_release' | 'escrow_refund' | 'backfill';
+  description: string;
+  amount: number;
+  taskId?: string | null;
+  taskTitle?: string | null;
+  createdAt: Date;
+};
+
 export type ChatType = {
   id: string;
   participantId: string;
@@ -85,3 +244,164 @@ export type ChatType = {
   lastMessageTime?: Date;
   unreadCount: number;
 };
+
+export type ReportTargetType = 'task' | 'message' | 'profile';
+
+export type ReportStatus = 'open' | 'actioned' | 'dismissed';
+
+// Someone on the signed-in user's block list
+// Sub-scores a review can carry: the first three rate a doer, the last two a creator
+export type ReviewSubScore = 'punctuality' | 'communication' | 'quality' | 'clarity' | 'fairness';
+
+// A rating with its written review and the reviewed user's reply, if any
+export type ReviewType = {
+  id: string;
+  taskId: string;
+  raterId: string;
+  raterName: string;
+  raterAvatarUrl?: string | null;
+  ratedId: string;
+  // Set when the rated user was the task's creator
+  isForCreator: boolean;
+  rating: number;
+  review: string;
+  subScores: Partial<Record<ReviewSubScore, number>>;
+  reply?: string | null;
+  repliedAt?: Date | null;
+  createdAt: Date;
+};
+
+// Another user's profile as shown at /u/:username. The user decides which
+// sections are shown; completed counts are null when their reputation is hidden.
+export type PublicProfileType = {
+  id: string;
+  username: string;
+  avatarUrl?: string | null;
+  joinedAt: Date;
+  showReputation: boolean;
+  showReviews: boolean;
+  showOpenTasks: boolean;
+  completedAsDoer: number | null;
+  completedAsCreator: number | null;
+};
+
+// A user's reputation in one role, with the inputs behind the score
+// (see 20250501000000_add_user_reputation.sql)
+export type ReputationType = {
+  userId: string;
+  role: 'doer' | 'creator';
+  score: number;
+  bayesianRating: number;
+  averageRating: number | null;
+  ratingCount: number;
+  weightedCount: number;
+  priorRating: number;
+  priorWeight: number;
+  halfLifeDays: number;
+  completedCount: number;
+  cancelledCount: number;
+  completionRate: number;
+};
+
+export type LeaderboardRole = 'creator' | 'doer';
+
+export type LeaderboardWindow = 'week' | 'month' | 'all';
+
+// Which completed tasks a leaderboard counts; the radius only applies with a position
+export type LeaderboardFilters = {
+  window: LeaderboardWindow;
+  categoryId?: string;
+  near?: Coordinates | null;
+  radiusKm?: number;
+};
+
+// One ranked user, with totals over the tasks the filters count
+export type LeaderboardEntryType = {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl?: string | null;
+  tasksCount: number;
+  reward: number;
+  score: number;
+  averageRating: number | null;
+  ratingCount: number;
+};
+
+export type LeaderboardPage = {
+  entries: LeaderboardEntryType[];
+  totalCount: number;
+};
+
+export type BlockedUserType = {
+  userId: string;
+  username: string;
+  avatarUrl?: string | null;
+  blockedAt: Date;
+};
+
+// A user report as the moderation queue shows it, with a preview of the reported content
+export type ReportType = {
+  id: string;
+  reporterId: string;
+  reporterName: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetOwnerId?: string | null;
+  targetOwnerName?: string | null;
+  targetPreview?: string | null;
+  isTargetRemoved: boolean;
+  reason: string;
+  details?: string | null;
+  status: ReportStatus;
+  resolutionNote?: string | null;
+  createdAt: Date;
+  resolvedAt?: Date | null;
+};
+
+export type AdminUserType = {
+  id: string;
+  username: string;
+  fullName?: string | null;
+  avatarUrl?: string | null;
+  role: 'user' | 'admin';
+  suspendedAt?: Date | null;
+  suspensionReason?: string | null;
+  doerRating: number;
+  requestorRating: number;
+  createdAt: Date;
+  tasksCreated: number;
+  tasksDone: number;
+  openReports: number;
+};
+
+export type AdminTaskType = {
+  id: string;
+  title: string;
+  description: string;
+  state: TaskState;
+  reward: number;
+  creatorId: string;
+  creatorName: string;
+  doerId?: string | null;
+  doerName?: string | null;
+  createdAt: Date;
+  removedAt?: Date | null;
+  removalReason?: string | null;
+  openReports: number;
+};
+
+export type AuditLogEntryType = {
+  id: string;
+  adminId?: string | null;
+  adminName: string;
+  action: string;
+  targetType?: string | null;
+  targetId?: string | null;
+  reason?: string | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+};
+
+// Jobs an admin can run from the console instead of waiting for cron
+export type MaintenanceJob = 'expire_overdue_tasks' | 'spawn_recurring_tasks' | 'recompute_all_user_ratings' | 'truncate_task_application_cache';
@@ -0,0 +1,54 @@
+// Browser side of web push: the service worker registration and this
+// device's push subscription. Pushes are sent by the send-push edge function.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+export const isPushConfigured = () => !!import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// The VAPID public key is base64url encoded; the Push API wants the raw bytes
+const urlBase64ToUint8Array = (base64String: string) => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+// This device's current subscription, if push was enabled on it before
+export const getDeviceSubscription = async () => {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Asks for permission and subscribes this device to push.
+ * Throws if the browser does not support push or the user blocks notifications.
+ */
+export const subscribeDevice = async () => {
+  if (!isPushSupported() || !isPushConfigured()) {
+    throw new Error('Push notifications are not available in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings to enable push.');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const existing = await registration.pushManager.getSubscription();
+  return existing || registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(import.meta.env.VITE_VAPID_PUBLIC_KEY),
+  });
+};
+
+export const unsubscribeDevice = async () => {
+  const subscription = await getDeviceSubscription();
+  await subscription?.unsubscribe();
+};
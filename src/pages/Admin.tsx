@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import Layout from '@/components/Layout';
+import AdminAuditLog from '@/components/AdminAuditLog';
+import AdminMaintenanceCard from '@/components/AdminMaintenanceCard';
+import AdminReportsPanel from '@/components/AdminReportsPanel';
+import AdminTasksPanel from '@/components/AdminTasksPanel';
+import AdminUsersPanel from '@/components/AdminUsersPanel';
+import DisputeReviewCard from '@/components/DisputeReviewCard';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DisputeType } from '@/lib/types';
+import { useDisputeReview } from '@/hooks/use-disputes';
+import { useAdminReports } from '@/hooks/use-admin';
+
+const Admin = () => {
+  const openDisputes = useDisputeReview('open');
+  const resolvedDisputes = useDisputeReview('resolved');
+  const { reports: openReports } = useAdminReports('open');
+  const [disputeSearch, setDisputeSearch] = useState('');
+
+  // Disputes are few enough to search in the browser
+  const matchesSearch = (dispute: DisputeType) => {
+    const query = disputeSearch.trim().toLowerCase();
+    return !query || [dispute.taskTitle, dispute.creatorName, dispute.doerName, dispute.reason]
+      .some(value => value?.toLowerCase().includes(query));
+  };
+
+  const renderDisputes = (allDisputes: DisputeType[], isLoading: boolean, emptyMessage: string) => {
+    const disputes = allDisputes.filter(matchesSearch);
+
+    if (isLoading) {
+      return <p className="text-muted-foreground py-10 text-center">Loading disputes...</p>;
+    }
+
+    if (disputes.length === 0) {
+      return <p className="text-muted-foreground py-10 text-center">{emptyMessage}</p>;
+    }
+
+    return (
+      <div className="flex flex-col space-y-6">
+        {disputes.map(dispute => (
+          <DisputeReviewCard
+            key={dispute.id}
+            dispute={dispute}
+            isResolving={openDisputes.isResolving}
+            onResolve={openDisputes.resolveDispute}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Layout requireAdmin>
+      <div className="container mx-auto py-8">
+        <h1 className="text-xl font-semibold text-primary mb-6">Admin</h1>
+
+        <Tabs defaultValue="reports" className="w-full">
+          <TabsList className="mb-4 flex-wrap h-auto">
+            <TabsTrigger value="reports">Reports ({openReports.length})</TabsTrigger>
+            <TabsTrigger value="disputes">Disputes ({openDisputes.disputes.length})</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="tasks">Tasks</TabsTrigger>
+            <TabsTrigger value="audit">Audit Log</TabsTrigger>
+            <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reports">
+            <Tabs defaultValue="open">
+              <TabsList className="mb-4">
+                <TabsTrigger value="open">Open</TabsTrigger>
+                <TabsTrigger value="actioned">Actioned</TabsTrigger>
+                <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
+              </TabsList>
+              <TabsContent value="open"><AdminReportsPanel status="open" /></TabsContent>
+              <TabsContent value="actioned"><AdminReportsPanel status="actioned" /></TabsContent>
+              <TabsContent value="dismissed"><AdminReportsPanel status="dismissed" /></TabsContent>
+            </Tabs>
+          </TabsContent>
+
+          <TabsContent value="disputes">
+            <Input
+              className="mb-4"
+              placeholder="Search by task, party or reason"
+              value={disputeSearch}
+              onChange={(e) => setDisputeSearch(e.target.value)}
+            />
+            <Tabs defaultValue="open">
+              <TabsList className="mb-4">
+                <TabsTrigger value="open">Open</TabsTrigger>
+                <TabsTrigger value="resolved">Resolved</TabsTrigger>
+              </TabsList>
+              <TabsContent value="open">
+                {renderDisputes(openDisputes.disputes, openDisputes.isLoading, "No open disputes.")}
+              </TabsContent>
+              <TabsContent value="resolved">
+                {renderDisputes(resolvedDisputes.disputes, resolvedDisputes.isLoading, "No resolved disputes yet.")}
+              </TabsContent>
+            </Tabs>
+          </TabsContent>
+
+          <TabsContent value="users">
+            <AdminUsersPanel />
+          </TabsContent>
+
+          <TabsContent value="tasks">
+            <AdminTasksPanel />
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <AdminAuditLog />
+          </TabsContent>
+
+          <TabsContent value="maintenance">
+            <AdminMaintenanceCard />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+};
+
+export default Admin;
@@ -1,105 +1,42 @@
 
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import Layout from '@/components/Layout';
 import TaskCard from '@/components/TaskCard';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Search } from 'lucide-react';
 import { TaskType } from '@/lib/types';
-import { supabase } from '@/integrations/supabase/client';
+import { tasksRepo } from '@/lib/repositories';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/lib/query-keys';
+
+const NO_TASKS: TaskType[] = [];
 
 const History = () => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [tasks, setTasks] = useState<TaskType[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const { user } = useAuth();
   const { toast } = useToast();
-  
+
+  // Finished tasks (completed, cancelled or expired) where the user is either the creator or doer
+  const { data: tasks = NO_TASKS, isLoading, error } = useQuery({
+    queryKey: queryKeys.tasks.history(user?.id),
+    queryFn: () => tasksRepo.listHistory(user.id),
+    enabled: !!user,
+  });
+
   useEffect(() => {
-    const fetchCompletedTasks = async () => {
-      if (!user) return;
-      
-      try {
-        setIsLoading(true);
-        
-        // Fetch completed tasks where the user is either the creator or doer
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('status', 'completed')
-          .or(`creator_id.eq.${user.id},doer_id.eq.${user.id}`)
-          .order('created_at', { ascending: false });
-          
-        if (error) throw error;
-        
-        // Process tasks
-        const processedTasks = await Promise.all(
-          (data || []).map(async (task) => {
-            // Get the creator's profile
-            const { data: creatorProfile } = await supabase
-              .from('profiles')
-              .select('username')
-              .eq('id', task.creator_id)
-              .single();
-            
-            // Get the doer's profile if exists
-            let doerName = undefined;
-            if (task.doer_id) {
-              const { data: doerProfile } = await supabase
-                .from('profiles')
-                .select('username')
-                .eq('id', task.doer_id)
-                .single();
-              
-              doerName = doerProfile?.username;
-            }
-            
-            // Ensure the status is either 'active' or 'completed'
-            const status = task.status === 'active' || task.status === 'completed'
-              ? task.status as 'active' | 'completed'
-              : 'completed'; // Default to 'completed' since we're in history
-            
-            // Ensure taskType is either 'normal' or 'joint'
-            const taskType = task.task_type === 'joint' ? 'joint' : 'normal';
-            
-            return {
-              id: task.id,
-              title: task.title,
-              description: task.description || '',
-              location: task.location || '',
-              reward: task.reward,
-              deadline: task.deadline ? new Date(task.deadline) : new Date(),
-              taskType: taskType as 'normal' | 'joint',
-              status: status,
-              createdAt: new Date(task.created_at),
-              creatorId: task.creator_id,
-              creatorName: creatorProfile?.username || 'Unknown user',
-              creatorRating: 0,
-              doerId: task.doer_id,
-              doerName: doerName,
-              doerRating: 0,
-            };
-          })
-        );
-        
-        setTasks(processedTasks);
-      } catch (error) {
-        console.error('Error fetching task history:', error);
-        toast({
-          title: "Error",
-          description: "Failed to fetch task history. Please try again later.",
-          variant: "destructive",
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchCompletedTasks();
-  }, [user, toast]);
-  
+    if (!error) return;
+
+    console.error('Error fetching task history:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch task history. Please try again later.",
+      variant: "destructive",
+    });
+  }, [error, toast]);
+
   const filteredTasks = tasks.filter(task => 
     task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     task.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -107,7 +44,28 @@ const History = () => {
   );
   
   const createdTasks = filteredTasks.filter(task => task.creatorId === user?.id);
-  const completedTasks = filteredTasks.filter(task => task.doerId === user?.id);
+  const completedTasks = filteredTasks.filter(task => task.doerId === user?.id && task.state === 'completed');
+  const cancelledTasks = filteredTasks.filter(task => task.state === 'cancelled');
+  const expiredTasks = filteredTasks.filter(task => task.state === 'expired');
+
+  const renderTaskList = (taskList: TaskType[], emptyMessage: string) => (
+    <div className="flex flex-col space-y-6">
+      {taskList.length > 0 ? (
+        taskList.map(task => (
+          <TaskCard 
+            key={task.id} 
+            task={task} 
+            isOwner={task.creatorId === user?.id}
+            isCompleted={true}
+          />
+        ))
+      ) : (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground">{emptyMessage}</p>
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <Layout requireAuth>
@@ -134,63 +92,28 @@ const History = () => {
               <TabsTrigger value="all">All Tasks ({filteredTasks.length})</TabsTrigger>
               <TabsTrigger value="created">Created Tasks ({createdTasks.length})</TabsTrigger>
               <TabsTrigger value="completed">Completed Tasks ({completedTasks.length})</TabsTrigger>
+              <TabsTrigger value="cancelled">Cancelled ({cancelledTasks.length})</TabsTrigger>
+              <TabsTrigger value="expired">Expired ({expiredTasks.length})</TabsTrigger>
             </TabsList>
             
             <TabsContent value="all">
-              <div className="flex flex-col space-y-6">
-                {filteredTasks.length > 0 ? (
-                  filteredTasks.map(task => (
-                    <TaskCard 
-                      key={task.id} 
-                      task={task} 
-                      isOwner={task.creatorId === user?.id}
-                      isCompleted={true}
-                    />
-                  ))
-                ) : (
-                  <div className="text-center py-10">
-                    <p className="text-muted-foreground">No completed tasks found matching your search.</p>
-                  </div>
-                )}
-              </div>
+              {renderTaskList(filteredTasks, "No tasks found matching your search.")}
             </TabsContent>
             
             <TabsContent value="created">
-              <div className="flex flex-col space-y-6">
-                {createdTasks.length > 0 ? (
-                  createdTasks.map(task => (
-                    <TaskCard 
-                      key={task.id} 
-                      task={task} 
-                      isOwner={true}
-                      isCompleted={true}
-                    />
-                  ))
-                ) : (
-                  <div className="text-center py-10">
-                    <p className="text-muted-foreground">No created tasks found matching your search.</p>
-                  </div>
-                )}
-              </div>
+              {renderTaskList(createdTasks, "No created tasks found matching your search.")}
             </TabsContent>
             
             <TabsContent value="completed">
-              <div className="flex flex-col space-y-6">
-                {completedTasks.length > 0 ? (
-                  completedTasks.map(task => (
-                    <TaskCard 
-                      key={task.id} 
-                      task={task} 
-                      isOwner={false}
-                      isCompleted={true}
-                    />
-                  ))
-                ) : (
-                  <div className="text-center py-10">
-                    <p className="text-muted-foreground">No completed tasks found matching your search.</p>
-                  </div>
-                )}
-              </div>
+              {renderTaskList(completedTasks, "No completed tasks found matching your search.")}
+            </TabsContent>
+
+            <TabsContent value="cancelled">
+              {renderTaskList(cancelledTasks, "No cancelled tasks found matching your search.")}
+            </TabsContent>
+
+            <TabsContent value="expired">
+              {renderTaskList(expiredTasks, "No expired tasks found matching your search.")}
             </TabsContent>
           </Tabs>
         )}
@@ -1,249 +1,109 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 import Layout from '@/components/Layout';
 import { Button } from '@/components/ui/button';
-import TaskCard from '@/components/TaskCard';
+import TaskGrid from '@/components/TaskGrid';
 import { TaskType } from '@/lib/types';
-import { PlusCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-import { extendedSupabase } from '@/integrations/supabase/extended-client';
+import { ArrowUp, List, Map as MapIcon, PlusCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useAuth } from '@/context/AuthContext';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import CreateTaskForm from '@/components/CreateTaskForm';
+import TaskSearchFacets from '@/components/TaskSearchFacets';
+import TaskMap from '@/components/TaskMap';
+import TaskCard from '@/components/TaskCard';
+import RecommendedTasks from '@/components/RecommendedTasks';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useTaskFeed, useTaskMap } from '@/hooks/use-task-feed';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useTaskActions } from '@/hooks/use-task-actions';
+import { TaskSearchFilters, hasActiveFacets, parseTaskSearchParams, toTaskSearchParams } from '@/lib/task-search';
 
 const Index = () => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [tasks, setTasks] = useState<TaskType[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<TaskType[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const { toast } = useToast();
-  const { user } = useAuth();
-
-  useEffect(() => {
-    const fetchTasks = async () => {
-      try {
-        setIsLoading(true);
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('status', 'active')
-          .order('created_at', { ascending: false });
+  const navigate = useNavigate();
 
-        if (error) {
-          throw error;
-        }
+  const [view, setView] = useState<'list' | 'map'>('list');
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const { position, error: locationError, isLocating, locate } = useGeolocation();
 
-        // Fetch profile information separately for each task
-        const tasksWithProfiles: TaskType[] = await Promise.all(
-          data.map(async (task) => {
-            // Get the creator's profile
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('username')
-              .eq('id', task.creator_id)
-              .single();
-            
-            // Ensure the status is either 'active' or 'completed'
-            const status = task.status === 'active' || task.status === 'completed' 
-              ? task.status as 'active' | 'completed'
-              : 'active'; // Default to 'active' if it's neither
-              
-            // Ensure taskType is either 'normal' or 'joint'
-            const taskType = task.task_type === 'joint' ? 'joint' : 'normal';
-            
-            return {
-              id: task.id,
-              title: task.title,
-              description: task.description || '',
-              location: task.location || '',
-              reward: task.reward,
-              deadline: task.deadline ? new Date(task.deadline) : new Date(),
-              taskType: taskType as 'normal' | 'joint',
-              status: status,
-              createdAt: new Date(task.created_at),
-              creatorId: task.creator_id,
-              creatorName: profileData?.username || 'Unknown user',
-              creatorRating: task.creator_rating || 0,
-            };
-          })
-        );
+  // Search and facet state is read from the URL so it can be shared and bookmarked
+  const searchKey = searchParams.toString();
+  const filters = useMemo(() => parseTaskSearchParams(new URLSearchParams(searchKey)), [searchKey]);
 
-        // If user is logged in, filter out tasks they've already applied for
-        if (user) {
-          const { data: applications } = await extendedSupabase
-            .from('task_applications')
-            .select('task_id')
-            .eq('applicant_id', user.id);
-          
-          const appliedTaskIds = applications?.map(app => app.task_id) || [];
-          
-          const filteredTasksForUser = tasksWithProfiles.filter(
-            task => !appliedTaskIds.includes(task.id) && task.creatorId !== user.id
-          );
-          
-          setTasks(filteredTasksForUser);
-          setFilteredTasks(filteredTasksForUser);
-        } else {
-          setTasks(tasksWithProfiles);
-          setFilteredTasks(tasksWithProfiles);
-        }
-      } catch (error) {
-        console.error('Error fetching tasks:', error);
-        toast({
-          title: "Error",
-          description: "Failed to fetch tasks. Please try again later.",
-          variant: "destructive",
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchTasks();
-
-    // Set up real-time subscription for task applications
-    const channel = supabase
-      .channel('public:task_applications')
-      .on('postgres_changes', 
-        { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'task_applications' 
-        }, 
-        (payload) => {
-          if (user && payload.new && payload.new.applicant_id === user.id) {
-            // If the current user created this application, filter out the task
-            setTasks(currentTasks => 
-              currentTasks.filter(task => task.id !== payload.new.task_id)
-            );
-            setFilteredTasks(currentFiltered => 
-              currentFiltered.filter(task => task.id !== payload.new.task_id)
-            );
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [toast, user]);
+  // The distance facet needs the user's position, which never goes in the URL
+  useEffect(() => {
+    if (filters.radiusKm && !position) {
+      locate();
+    }
+  }, [filters.radiusKm, position, locate]);
 
-  const handleSearch = (term: string) => {
-    const lowerCaseTerm = term.toLowerCase();
-    setSearchTerm(lowerCaseTerm);
-    
-    const filtered = tasks.filter(task => 
-      task.title.toLowerCase().includes(lowerCaseTerm) || 
-      task.description.toLowerCase().includes(lowerCaseTerm) || 
-      task.location.toLowerCase().includes(lowerCaseTerm)
-    );
-    
-    setFilteredTasks(filtered);
-  };
+  const feedFilters = useMemo(
+    () => filters.radiusKm && position ? { ...filters, near: position } : filters,
+    [filters, position]
+  );
 
-  // Add task application handler
-  const handleApplyForTask = async (taskId: string, message: string) => {
-    if (!user) {
-      toast({
-        title: "Authentication Required",
-        description: "Please log in to apply for tasks.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    try {
-      // Check if user has already applied
-      const { data: existingApplications, error: checkError } = await extendedSupabase
-        .from('task_applications')
-        .select('*')
-        .eq('task_id', taskId)
-        .eq('applicant_id', user.id)
-        .limit(1);
-        
-      if (checkError) throw checkError;
-      
-      if (existingApplications && existingApplications.length > 0) {
-        toast({
-          title: "Already Applied",
-          description: "You have already applied for this task",
-          variant: "destructive"
-        });
-        return;
-      }
-      
-      // Submit the application
-      const { error } = await extendedSupabase
-        .from('task_applications')
-        .insert({
-          task_id: taskId,
-          applicant_id: user.id,
-          message: message
-        });
+  // Hold the search back until the position is known, unless it could not be found
+  const isWaitingForPosition = !!filters.radiusKm && !position && !locationError;
+
+  // Ranking, facet filtering and hiding tasks the user already applied for happen on the server
+  const {
+    tasks,
+    isLoading,
+    error: feedError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    newTaskCount,
+    showNewTasks
+  } = useTaskFeed(feedFilters, view === 'list' && !isWaitingForPosition);
+
+  const {
+    tasks: mapTasks,
+    isLoading: isMapLoading,
+    error: mapError
+  } = useTaskMap(feedFilters, view === 'map' && !isWaitingForPosition);
+
+  const selectedTask = mapTasks.find(task => task.id === selectedTaskId);
+
+  // Applying or asking to join also drops the task from the feed
+  const {
+    handleApplyForTask,
+    handleJoinJointTask,
+    handleCreateTask: handleCreateTaskAction
+  } = useTaskActions();
 
-      if (error) throw error;
-      
-      toast({
-        title: "Application Submitted",
-        description: "Your application has been sent to the task creator."
-      });
-    } catch (error) {
-      console.error("Error submitting application:", error);
+  useEffect(() => {
+    if (feedError || mapError) {
       toast({
         title: "Error",
-        description: "Failed to submit application. Please try again.",
-        variant: "destructive"
+        description: "Failed to fetch tasks. Please try again later.",
+        variant: "destructive",
       });
     }
+  }, [feedError, mapError, toast]);
+
+  const loadMoreTasks = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  const updateFilters = (nextFilters: TaskSearchFilters) => {
+    setSearchParams(toTaskSearchParams(nextFilters), { replace: true });
   };
 
-  const handleCreateTask = async (task: TaskType) => {
-    if (!user) {
-      toast({
-        title: "Authentication Required",
-        description: "Please log in to create tasks.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: task.title,
-          description: task.description,
-          location: task.location,
-          reward: task.reward,
-          deadline: task.deadline.toISOString(),
-          task_type: task.taskType,
-          creator_id: user?.id
-        })
-        .select()
-        .single();
+  const handleSearch = (term: string) => {
+    updateFilters({ ...filters, query: term });
+  };
 
-      if (error) throw error;
+  const handleCreateTask = async (task: TaskType) => {
+    const created = await handleCreateTaskAction(task);
 
-      toast({
-        title: "Task Created",
-        description: "Your task has been created successfully."
-      });
-      
+    if (created) {
       setIsCreateDialogOpen(false);
-      
-      // Refresh tasks list
-      window.location.href = '/task';
-    } catch (error) {
-      console.error('Error creating task:', error);
-      toast({
-        title: "Error",
-        description: "Failed to create task. Please try again later.",
-        variant: "destructive"
-      });
+      navigate('/task');
     }
   };
 
@@ -270,26 +130,103 @@ const Index = () => {
           </Dialog>
         </div>
 
-        {isLoading ? (
-          <div className="flex justify-center items-center py-10">
-            <p>Loading tasks...</p>
-          </div>
-        ) : filteredTasks.length === 0 ? (
-          <div className="text-center py-10">
-            <h2 className="text-2xl font-semibold text-gray-500">No tasks found</h2>
-            <p className="mt-2 text-gray-400">Try adjusting your search or create a new task</p>
+        <TaskSearchFacets
+          filters={filters}
+          onChange={updateFilters}
+          locationStatus={!filters.radiusKm ? null : isLocating ? 'Finding your location...' : locationError}
+        />
+
+        <div className="flex justify-end mb-4">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={view}
+            onValueChange={(value) => value && setView(value as 'list' | 'map')}
+          >
+            <ToggleGroupItem value="list" aria-label="List view">
+              <List className="h-4 w-4 mr-1" />
+              List
+            </ToggleGroupItem>
+            <ToggleGroupItem value="map" aria-label="Map view">
+              <MapIcon className="h-4 w-4 mr-1" />
+              Map
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {view === 'map' ? (
+          <div className="space-y-4">
+            {isMapLoading || isWaitingForPosition ? (
+              <div className="flex justify-center items-center py-10">
+                <p>Loading map...</p>
+              </div>
+            ) : (
+              <>
+                <TaskMap
+                  tasks={mapTasks}
+                  position={filters.radiusKm ? position : null}
+                  selectedTaskId={selectedTaskId}
+                  onSelectTask={(task) => setSelectedTaskId(task.id)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {mapTasks.length === 0
+                    ? 'No matching tasks have a pinned location.'
+                    : `Showing ${mapTasks.length} matching ${mapTasks.length === 1 ? 'task' : 'tasks'} with a pinned location.`}
+                </p>
+              </>
+            )}
+
+            {selectedTask && (
+              <TaskCard
+                task={selectedTask}
+                onApply={handleApplyForTask}
+                onJoinJointTask={handleJoinJointTask}
+              />
+            )}
           </div>
         ) : (
-          <div className="flex flex-col space-y-6">
-            {filteredTasks.map(task => (
-              <TaskCard 
-                key={task.id} 
-                task={task} 
-                isOwner={user?.id === task.creatorId}
+          <>
+            {!filters.query.trim() && !hasActiveFacets(filters) && (
+              <RecommendedTasks
+                position={position}
                 onApply={handleApplyForTask}
+                onJoinJointTask={handleJoinJointTask}
               />
-            ))}
-          </div>
+            )}
+
+            {newTaskCount > 0 && (
+              <div className="flex justify-center mb-6">
+                <Button variant="secondary" size="sm" className="flex items-center gap-2" onClick={showNewTasks}>
+                  <ArrowUp size={16} />
+                  {newTaskCount === 1 ? '1 new task' : `${newTaskCount} new tasks`}
+                </Button>
+              </div>
+            )}
+
+            {isLoading || isWaitingForPosition ? (
+              <div className="flex justify-center items-center py-10">
+                <p>Loading tasks...</p>
+              </div>
+            ) : tasks.length === 0 ? (
+              <div className="text-center py-10">
+                <h2 className="text-2xl font-semibold text-gray-500">No tasks found</h2>
+                <p className="mt-2 text-gray-400">Try adjusting your search or create a new task</p>
+              </div>
+            ) : (
+              <TaskGrid
+                tasks={tasks}
+                loading={false}
+                emptyMessage="No tasks found"
+                onApply={handleApplyForTask}
+                onJoinJointTask={handleJoinJointTask}
+                hasMore={hasNextPage}
+                isLoadingMore={isFetchingNextPage}
+                onLoadMore={loadMoreTasks}
+                fullWidth
+              />
+            )}
+          </>
         )}
       </div>
     </Layout>
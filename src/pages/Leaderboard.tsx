@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Layout from "@/components/Layout";
-import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
   TableHeader,
@@ -11,251 +11,120 @@ import {
 } from "@/components/ui/table";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Trophy, User } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Trophy, User } from "lucide-react";
 import MaskedUsername from "@/components/MaskedUsername";
+import { useAuth } from "@/context/AuthContext";
+import { useTaskCategories } from "@/hooks/use-categories";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { useLeaderboard, useMyLeaderboardRank } from "@/hooks/use-leaderboard";
+import { RADIUS_OPTIONS_KM } from "@/lib/task-search";
+import { LeaderboardEntryType, LeaderboardFilters, LeaderboardRole, LeaderboardWindow } from "@/lib/types";
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  week: "This week",
+  month: "This month",
+  all: "All time",
+};
 
-interface LeaderboardUser {
-  id: string;
-  username: string;
-  avatar_url: string | null;
-  rating: number | undefined;
-  tasksCount: number;
-  reward: number;
-}
+const ANY = "any";
+
+const RankCell = ({ rank }: { rank: number }) =>
+  rank === 1 ? (
+    <Trophy className="h-5 w-5 text-yellow-500" />
+  ) : rank === 2 ? (
+    <Trophy className="h-5 w-5 text-gray-400" />
+  ) : rank === 3 ? (
+    <Trophy className="h-5 w-5 text-amber-700" />
+  ) : (
+    <span>{rank}</span>
+  );
 
+// Top creators and doers, ranked by the database (see get_leaderboard)
 const Leaderboard = () => {
-  const [topCreators, setTopCreators] = useState<LeaderboardUser[]>([]);
-  const [topDoers, setTopDoers] = useState<LeaderboardUser[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchLeaderboardData = async () => {
-      try {
-        setIsLoading(true);
-
-        // Fetch completed tasks for creators to count tasks and calculate rewards
-        const { data: tasksData, error: tasksError } = await supabase
-          .from("tasks")
-          .select("creator_id, status");
-
-        if (tasksError) throw tasksError;
-
-        // Process and aggregate the creator data manually
-        const creatorMap = new Map<
-          string,
-          {
-            id: string;
-            tasksCount: number;
-            reward: number;
-          }
-        >();
-
-        if (tasksData) {
-          tasksData.forEach((task) => {
-            if (!task.creator_id) return;
-
-            if (creatorMap.has(task.creator_id)) {
-              // Update existing entry
-              const existing = creatorMap.get(task.creator_id)!;
-              if (task.status === "completed") {
-                existing.tasksCount += 1;
-                existing.reward += 100; // Assuming 100 per task
-              }
-            } else {
-              // Create new entry
-              creatorMap.set(task.creator_id, {
-                id: task.creator_id,
-                tasksCount: task.status === "completed" ? 1 : 0,
-                reward: task.status === "completed" ? 100 : 0,
-              });
-            }
-          });
-        }
-
-        // Fetch ratings from user_ratings table
-        const { data: ratingsData, error: ratingsError } = await supabase
-          .from("user_ratings")
-          .select("user_id, creator_rating")
-          .not("creator_rating", "is", null)
-          .gt("creator_rating", 0);
-
-        if (ratingsError) throw ratingsError;
-
-        // Add ratings to creator map
-        if (ratingsData) {
-          ratingsData.forEach((rating) => {
-            if (!rating.user_id || typeof rating.creator_rating !== "number") return;
-
-            if (creatorMap.has(rating.user_id)) {
-              // Update existing entry with rating
-              const existing = creatorMap.get(rating.user_id)!;
-              creatorMap.set(rating.user_id, {
-                ...existing,
-                rating: rating.creator_rating
-              });
-            } else {
-              // Create new entry with just the rating
-              creatorMap.set(rating.user_id, {
-                id: rating.user_id,
-                rating: rating.creator_rating,
-                tasksCount: 0,
-                reward: 0
-              });
-            }
-          });
-        }
-
-        // Fetch user data for each creator
-        const creators: LeaderboardUser[] = [];
+  const { user } = useAuth();
+  const { categories } = useTaskCategories();
+  const { position, error: locationError, isLocating, locate } = useGeolocation();
+  const [role, setRole] = useState<LeaderboardRole>("creator");
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("all");
+  const [categoryId, setCategoryId] = useState<string | undefined>();
+  const [radiusKm, setRadiusKm] = useState<number | undefined>();
+  const [page, setPage] = useState(0);
+
+  const filters = useMemo<LeaderboardFilters>(
+    () => ({ window: timeWindow, categoryId, near: radiusKm ? position : null, radiusKm }),
+    [timeWindow, categoryId, radiusKm, position]
+  );
 
-        for (const [id, data] of creatorMap.entries()) {
-          const { data: profileData } = await supabase
-            .from("profiles")
-            .select("username, avatar_url")
-            .eq("id", id)
-            .single();
+  const { entries, pageCount, isLoading, isFetching, error } = useLeaderboard(role, filters, page);
+  const myRank = useMyLeaderboardRank(role, filters);
 
-          creators.push({
-            id,
-            username: profileData?.username || "Unknown User",
-            avatar_url: profileData?.avatar_url,
-            rating: data.rating,
-            tasksCount: data.tasksCount,
-            reward: data.reward,
-          });
-        }
+  const isCreators = role === "creator";
+  // Week and month boards only score the ratings received in that window
+  const ratingsWindow = timeWindow === "all" ? "" : ` ${WINDOW_LABELS[timeWindow].toLowerCase()}`;
 
-        // Sort by reward and then by rating (if available)
-        const topCreators = creators
-          .sort((a, b) => {
-            if (b.reward !== a.reward) return b.reward - a.reward;
-            const aRating = a.rating !== undefined ? Number(a.rating) : 0;
-            const bRating = b.rating !== undefined ? Number(b.rating) : 0;
-            return bRating - aRating;
-          })
-          .slice(0, 10);
+  // A new board starts from its first page
+  useEffect(() => {
+    setPage(0);
+  }, [role, filters]);
 
-        setTopCreators(topCreators);
+  useEffect(() => {
+    if (error) {
+      console.error("Error fetching leaderboard data:", error);
+    }
+  }, [error]);
 
-        // Fetch completed tasks for doers to count tasks and calculate rewards
-        const { data: doersData, error: doersError } = await supabase
-          .from("tasks")
-          .select("doer_id, status")
-          .not("doer_id", "is", null);
+  const handleRadiusChange = (value: string) => {
+    if (value === ANY) {
+      setRadiusKm(undefined);
+      return;
+    }
 
-        if (doersError) throw doersError;
+    setRadiusKm(Number(value));
+    if (!position) locate();
+  };
 
-        // Process and aggregate the doer data manually
-        const doerMap = new Map<
-          string,
-          {
-            id: string;
-            tasksCount: number;
-            reward: number;
+  const renderRow = (entry: LeaderboardEntryType, isMine: boolean) => (
+    <TableRow key={entry.userId} className={isMine ? "bg-primary/5" : undefined}>
+      <TableCell className="font-medium">
+        <RankCell rank={entry.rank} />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Avatar className="h-8 w-8">
+            {entry.avatarUrl ? (
+              <AvatarImage src={entry.avatarUrl} alt={entry.username} />
+            ) : (
+              <AvatarFallback>
+                <User className="h-4 w-4" />
+              </AvatarFallback>
+            )}
+          </Avatar>
+          <MaskedUsername username={entry.username} linkToProfile />
+          {isMine && <Badge variant="secondary">You</Badge>}
+        </div>
+      </TableCell>
+      <TableCell>{entry.tasksCount}</TableCell>
+      <TableCell>₹{entry.reward.toLocaleString()}</TableCell>
+      <TableCell className="text-right">
+        <Badge
+          variant="outline"
+          className={`ml-auto font-medium ${isCreators ? "text-yellow-500" : "text-green-500"}`}
+          title={
+            entry.averageRating !== null
+              ? `Average ${entry.averageRating.toFixed(1)} ★ from ${entry.ratingCount} rating${entry.ratingCount === 1 ? "" : "s"}${ratingsWindow}`
+              : `No ratings${ratingsWindow || " yet"}`
           }
-        >();
-
-        if (doersData) {
-          doersData.forEach((task) => {
-            if (!task.doer_id) return;
-
-            if (doerMap.has(task.doer_id)) {
-              // Update existing entry
-              const existing = doerMap.get(task.doer_id)!;
-              if (task.status === "completed") {
-                existing.tasksCount += 1;
-                existing.reward += 100; // Assuming 100 per task
-              }
-            } else {
-              // Create new entry
-              doerMap.set(task.doer_id, {
-                id: task.doer_id,
-                tasksCount: task.status === "completed" ? 1 : 0,
-                reward: task.status === "completed" ? 100 : 0,
-              });
-            }
-          });
-        }
-
-        // Fetch ratings from user_ratings table
-        const { data: doerRatingsData, error: doerRatingsError } = await supabase
-          .from("user_ratings")
-          .select("user_id, doer_rating")
-          .not("doer_rating", "is", null)
-          .gt("doer_rating", 0);
-
-        if (doerRatingsError) throw doerRatingsError;
-
-        // Add ratings to doer map
-        if (doerRatingsData) {
-          doerRatingsData.forEach((rating) => {
-            if (!rating.user_id || typeof rating.doer_rating !== "number") return;
-
-            if (doerMap.has(rating.user_id)) {
-              // Update existing entry with rating
-              const existing = doerMap.get(rating.user_id)!;
-              doerMap.set(rating.user_id, {
-                ...existing,
-                rating: rating.doer_rating
-              });
-            } else {
-              // Create new entry with just the rating
-              doerMap.set(rating.user_id, {
-                id: rating.user_id,
-                rating: rating.doer_rating,
-                tasksCount: 0,
-                reward: 0
-              });
-            }
-          });
-        }
-
-        // Fetch user data for each doer
-        const doers: LeaderboardUser[] = [];
-
-        for (const [id, data] of doerMap.entries()) {
-          const { data: profileData } = await supabase
-            .from("profiles")
-            .select("username, avatar_url")
-            .eq("id", id)
-            .single();
-
-          doers.push({
-            id,
-            username: profileData?.username || "Unknown User",
-            avatar_url: profileData?.avatar_url,
-            rating: data.rating,
-            tasksCount: data.tasksCount,
-            reward: data.reward,
-          });
-        }
-
-        // Sort by reward and then by rating (if available)
-        const topDoers = doers
-          .sort((a, b) => {
-            if (b.reward !== a.reward) return b.reward - a.reward;
-            const aRating = a.rating !== undefined ? Number(a.rating) : 0;
-            const bRating = b.rating !== undefined ? Number(b.rating) : 0;
-            return bRating - aRating;
-          })
-          .slice(0, 10);
-
-        setTopDoers(topDoers);
-      } catch (error) {
-        console.error("Error fetching leaderboard data:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchLeaderboardData();
-  }, []);
+        >
+          {entry.score > 0 ? entry.score.toFixed(2) : "N/A"} ★
+        </Badge>
+      </TableCell>
+    </TableRow>
+  );
 
-  const renderLeaderboardTable = (
-    users: LeaderboardUser[],
-    isCreators: boolean,
-  ) => {
+  const renderLeaderboardTable = () => {
     if (isLoading) {
       return (
         <div className="flex justify-center items-center h-64">
@@ -264,16 +133,18 @@ const Leaderboard = () => {
       );
     }
 
-    if (users.length === 0) {
+    if (entries.length === 0) {
       return (
         <div className="flex justify-center items-center h-64">
-          <p className="text-muted-foreground">No data available</p>
+          <p className="text-muted-foreground">No completed tasks match these filters yet</p>
         </div>
       );
     }
 
+    const isMineShown = entries.some((entry) => entry.userId === user?.id);
+
     return (
-      <Table>
+      <Table className={isFetching ? "opacity-60 transition-opacity" : undefined}>
         <TableHeader>
           <TableRow>
             <TableHead className="w-[80px]">Rank</TableHead>
@@ -281,50 +152,22 @@ const Leaderboard = () => {
             <TableHead>
               {isCreators ? "Tasks Created" : "Tasks Completed"}
             </TableHead>
-            <TableHead>Reward</TableHead>
-            <TableHead className="text-right">Rating</TableHead>
+            <TableHead>{isCreators ? "Rewards Paid" : "Rewards Earned"}</TableHead>
+            <TableHead className="text-right">Reputation</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {users.map((user, index) => (
-            <TableRow key={user.id}>
-              <TableCell className="font-medium">
-                {index === 0 ? (
-                  <Trophy className="h-5 w-5 text-yellow-500" />
-                ) : index === 1 ? (
-                  <Trophy className="h-5 w-5 text-gray-400" />
-                ) : index === 2 ? (
-                  <Trophy className="h-5 w-5 text-amber-700" />
-                ) : (
-                  <span>{index + 1}</span>
-                )}
-              </TableCell>
-              <TableCell>
-                <div className="flex items-center gap-2">
-                  <Avatar className="h-8 w-8">
-                    {user.avatar_url ? (
-                      <AvatarImage src={user.avatar_url} alt={user.username} />
-                    ) : (
-                      <AvatarFallback>
-                        <User className="h-4 w-4" />
-                      </AvatarFallback>
-                    )}
-                  </Avatar>
-                  <MaskedUsername username={user.username} />
-                </div>
-              </TableCell>
-              <TableCell>{user.tasksCount}</TableCell>
-              <TableCell>₹{user.reward.toLocaleString()}</TableCell>
-              <TableCell className="text-right">
-                <Badge
-                  variant="outline"
-                  className={`ml-auto font-medium ${isCreators ? "text-yellow-500" : "text-green-500"}`}
-                >
-                  {user.rating !== undefined && user.rating > 0 ? user.rating.toFixed(1) : "N/A"} ★
-                </Badge>
-              </TableCell>
-            </TableRow>
-          ))}
+          {entries.map((entry) => renderRow(entry, entry.userId === user?.id))}
+          {myRank && !isMineShown && (
+            <>
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-xs text-muted-foreground py-1">
+                  Your rank
+                </TableCell>
+              </TableRow>
+              {renderRow(myRank, true)}
+            </>
+          )}
         </TableBody>
       </Table>
     );
@@ -335,29 +178,101 @@ const Leaderboard = () => {
       <div className="container mx-auto py-8">
         <h1 className="text-2xl font-bold mb-6">Community Leaderboard</h1>
 
-        <Tabs defaultValue="creators" className="max-w-4xl mx-auto">
-          <div className="flex justify-center mb-6">
-            <TabsList>
-              <TabsTrigger value="creators">Top Creators</TabsTrigger>
-              <TabsTrigger value="doers">Top Doers</TabsTrigger>
-            </TabsList>
-          </div>
+        <div className="max-w-4xl mx-auto">
+          <Tabs value={role} onValueChange={(value) => setRole(value as LeaderboardRole)}>
+            <div className="flex justify-center mb-6">
+              <TabsList>
+                <TabsTrigger value="creator">Top Creators</TabsTrigger>
+                <TabsTrigger value="doer">Top Doers</TabsTrigger>
+              </TabsList>
+            </div>
+          </Tabs>
+
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Period</Label>
+              <Select value={timeWindow} onValueChange={(value) => setTimeWindow(value as LeaderboardWindow)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((key) => (
+                    <SelectItem key={key} value={key}>{WINDOW_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-          <TabsContent value="creators">
-            <div className="max-w-4xl mx-auto">
-              {renderLeaderboardTable(topCreators, true)}
+            <div className="space-y-1">
+              <Label className="text-xs">Category</Label>
+              <Select
+                value={categoryId ?? ANY}
+                onValueChange={(value) => setCategoryId(value === ANY ? undefined : value)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          </TabsContent>
 
-          <TabsContent value="doers">
-            <div className="max-w-4xl mx-auto">
-              {renderLeaderboardTable(topDoers, false)}
+            <div className="space-y-1">
+              <Label className="text-xs">Distance</Label>
+              <Select value={radiusKm !== undefined ? String(radiusKm) : ANY} onValueChange={handleRadiusChange}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Anywhere</SelectItem>
+                  {RADIUS_OPTIONS_KM.map((radius) => (
+                    <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {radiusKm !== undefined && !position && (
+                <p className="text-xs text-muted-foreground w-40">
+                  {isLocating ? "Finding your location..." : locationError || "Distance needs your location."}
+                </p>
+              )}
             </div>
-          </TabsContent>
-        </Tabs>
+          </div>
+
+          {renderLeaderboardTable()}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page === 0 || isFetching}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page + 1 >= pageCount || isFetching}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
       </div>
     </Layout>
   );
 };
 
-export default Leaderboard;
\ No newline at end of file
+export default Leaderboard;
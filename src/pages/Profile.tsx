@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Star, Edit, LogOut, User, Camera, Upload, Loader2, PlusCircle } from 'lucide-react';
 import { UserType, TaskType } from '@/lib/types';
+import { ACTIVE_TASK_STATES } from '@/lib/task-state';
+import { UserRatings, ratingsRepo, tasksRepo } from '@/lib/repositories';
 import TaskCard from '@/components/TaskCard';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useNavigate } from 'react-router-dom';
@@ -16,6 +18,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import { useAuth } from '@/context/AuthContext';
 import UserStatistics from '@/components/UserStatistics';
+import NotificationPreferencesCard from '@/components/NotificationPreferencesCard';
+import PushNotificationsCard from '@/components/PushNotificationsCard';
+import PointsCard from '@/components/PointsCard';
+import BlockedUsersCard from '@/components/BlockedUsersCard';
+import PublicProfileSettingsCard from '@/components/PublicProfileSettingsCard';
+import SkillsCard from '@/components/SkillsCard';
+import ReviewList from '@/components/ReviewList';
 import CreateTaskForm from '@/components/CreateTaskForm';
 
 const Profile = () => {
@@ -33,7 +42,7 @@ const Profile = () => {
   const [isCreateTaskDialogOpen, setIsCreateTaskDialogOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [userRatings, setUserRatings] = useState<any>(null); // Added state for user ratings
+  const [userRatings, setUserRatings] = useState<UserRatings | null>(null);
 
   useEffect(() => {
     const fetchUserData = async () => {
@@ -66,64 +75,10 @@ const Profile = () => {
           setUserProfile(userProfileData);
         }
 
-        const { data: tasksData, error: tasksError } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('creator_id', authUser.id)
-          .eq('status', 'active')
-          .order('created_at', { ascending: false });
-
-        if (tasksError) throw tasksError;
-
-        if (tasksData) {
-          const formattedTasks: TaskType[] = await Promise.all(tasksData.map(async (task) => {
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('username')
-              .eq('id', task.creator_id)
-              .single();
-
-            const taskType = task.task_type === 'joint' ? 'joint' as const : 'normal' as const;
-
-            return {
-              id: task.id,
-              title: task.title,
-              description: task.description || '',
-              location: task.location || '',
-              reward: task.reward || 0,
-              deadline: task.deadline ? new Date(task.deadline) : new Date(),
-              taskType: taskType,
-              status: (task.status || 'active') as 'active' | 'completed',
-              createdAt: new Date(task.created_at),
-              creatorId: task.creator_id,
-              creatorName: profileData?.username || 'Unknown user',
-              creatorRating: task.creator_rating || 0,
-            };
-          }));
-
-          setActiveTasks(formattedTasks);
-        }
+        setActiveTasks(await tasksRepo.listCreatedBy(authUser.id, ACTIVE_TASK_STATES));
 
-        // Fetch user ratings
-        const { data: ratingsData, error: ratingsError } = await supabase
-          .from('user_ratings')
-          .select('*')
-          .eq('user_id', authUser.id)
-          .single();
-
-        if (ratingsError) {
-          console.error('Error fetching user ratings:', ratingsError);
-          // Create default empty ratings if not found
-          setUserRatings({
-            creator_rating: 0,
-            doer_rating: 0,
-            rating_count_creator: 0,
-            rating_count_doer: 0
-          });
-        } else {
-          console.log("Fetched user ratings:", ratingsData);
-          setUserRatings(ratingsData);
-        }
+        // Users who have not been rated yet get zeroes
+        setUserRatings(await ratingsRepo.getUserRatings(authUser.id));
       } catch (error) {
         console.error('Error fetching profile data:', error);
         toast({
@@ -272,21 +227,7 @@ const Profile = () => {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: task.title,
-          description: task.description,
-          location: task.location,
-          reward: task.reward,
-          deadline: task.deadline.toISOString(),
-          task_type: task.taskType,
-          creator_id: authUser?.id
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      await tasksRepo.create(task, authUser.id);
 
       toast({
         title: "Task Created",
@@ -480,6 +421,11 @@ const Profile = () => {
               <TabsList>
                 <TabsTrigger value="tasks">Active Tasks</TabsTrigger>
                 <TabsTrigger value="stats">Statistics</TabsTrigger>
+                <TabsTrigger value="reviews">Reviews</TabsTrigger>
+                <TabsTrigger value="skills">Skills</TabsTrigger>
+                <TabsTrigger value="points">Points</TabsTrigger>
+                <TabsTrigger value="notifications">Notifications</TabsTrigger>
+                <TabsTrigger value="privacy">Privacy</TabsTrigger>
               </TabsList>
 
               <TabsContent value="tasks" className="mt-4">
@@ -509,6 +455,38 @@ const Profile = () => {
               <TabsContent value="stats" className="mt-4">
                 {userProfile && <UserStatistics userId={userProfile.id} />}
               </TabsContent>
+
+              <TabsContent value="reviews" className="mt-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Reviews</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      What others have written about you. You can post one public reply to each review.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    {userProfile && <ReviewList userId={userProfile.id} canReply />}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="skills" className="mt-4">
+                <SkillsCard />
+              </TabsContent>
+
+              <TabsContent value="points" className="mt-4">
+                <PointsCard />
+              </TabsContent>
+
+              <TabsContent value="notifications" className="mt-4 space-y-6">
+                <NotificationPreferencesCard />
+                <PushNotificationsCard />
+              </TabsContent>
+
+              <TabsContent value="privacy" className="mt-4 space-y-6">
+                <PublicProfileSettingsCard />
+                <BlockedUsersCard />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Ban, Flag, Lock, MessageCircle, RadioTower, Users } from 'lucide-react';
+import Layout from '@/components/Layout';
+import TaskCard from '@/components/TaskCard';
+import ReviewList from '@/components/ReviewList';
+import ReportDialog from '@/components/ReportDialog';
+import BlockUserDialog from '@/components/BlockUserDialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useOpenTasksBy, usePublicProfile } from '@/hooks/use-public-profile';
+import { useUserReputation } from '@/hooks/use-user-ratings';
+import { useTaskActions } from '@/hooks/use-task-actions';
+import { chatsRepo } from '@/lib/repositories';
+import { ReputationType } from '@/lib/types';
+
+const HiddenSection = ({ username }: { username: string }) => (
+  <p className="text-sm text-muted-foreground flex items-center">
+    <Lock className="h-4 w-4 mr-2" />
+    {username} has chosen not to show this.
+  </p>
+);
+
+const ReputationTile = ({
+  label,
+  icon,
+  reputation,
+  completedCount,
+}: {
+  label: string;
+  icon: React.ReactNode;
+  reputation: ReputationType | null;
+  completedCount: number | null;
+}) => (
+  <div className="flex flex-col items-center rounded-md border p-4">
+    {icon}
+    <p className="text-3xl font-bold">{reputation ? reputation.score.toFixed(2) : 'N/A'}</p>
+    <p className="text-sm text-muted-foreground">{label} Reputation</p>
+    <p className="text-xs text-muted-foreground mt-1">
+      {reputation?.ratingCount ?? 0} rating{reputation?.ratingCount === 1 ? '' : 's'} · {completedCount ?? 0} completed
+    </p>
+  </div>
+);
+
+// Another user's profile, showing only the sections they have chosen to make public
+const PublicProfile = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isStartingChat, setIsStartingChat] = useState(false);
+  const { profile, isLoading, error } = usePublicProfile(username);
+  const { doer, creator } = useUserReputation(profile?.showReputation ? profile.id : undefined);
+  const { tasks: openTasks } = useOpenTasksBy(profile?.id, !!profile?.showOpenTasks);
+  const { handleApplyForTask, handleJoinJointTask } = useTaskActions();
+
+  const isSelf = !!user && profile?.id === user.id;
+
+  useEffect(() => {
+    if (!error) return;
+
+    console.error('Error fetching profile:', error);
+    toast({
+      title: "Error",
+      description: "Failed to load this profile. Please try again later.",
+      variant: "destructive",
+    });
+  }, [error, toast]);
+
+  const handleMessage = async () => {
+    if (!user || !profile) return;
+
+    setIsStartingChat(true);
+
+    try {
+      const { id: chatId } = await chatsRepo.findOrCreate(user.id, profile.id);
+
+      navigate('/chat', {
+        state: {
+          activeChatId: chatId,
+          participant: {
+            id: profile.id,
+            name: profile.username
+          }
+        }
+      });
+    } catch (error) {
+      console.error("Error starting chat:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start chat. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStartingChat(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout requireAuth>
+        <div className="container mx-auto py-8 text-center text-muted-foreground">Loading profile...</div>
+      </Layout>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <Layout requireAuth>
+        <div className="container mx-auto py-16 text-center">
+          <h1 className="text-xl font-semibold mb-2">User not found</h1>
+          <p className="text-muted-foreground mb-6">There is no one called "{username}" for you to see.</p>
+          <Button asChild variant="outline">
+            <Link to="/home">Back to tasks</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout requireAuth>
+      <div className="container mx-auto py-8 max-w-4xl space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <Avatar className="h-20 w-20">
+                <AvatarImage src={profile.avatarUrl || undefined} alt={profile.username} />
+                <AvatarFallback className="text-2xl">{profile.username.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold">{profile.username}</h1>
+                <p className="text-sm text-muted-foreground">Member since {format(profile.joinedAt, 'MMMM yyyy')}</p>
+              </div>
+
+              {isSelf ? (
+                <div className="flex flex-col items-start sm:items-end gap-2">
+                  <p className="text-xs text-muted-foreground">This is how others see your profile.</p>
+                  <Button asChild variant="outline" size="sm">
+                    <Link to="/profile">Edit profile and privacy</Link>
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleMessage} disabled={isStartingChat}>
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {isStartingChat ? 'Opening...' : 'Message'}
+                  </Button>
+                  <ReportDialog
+                    trigger={
+                      <Button variant="outline" size="sm">
+                        <Flag className="h-4 w-4 mr-1" />
+                        Report
+                      </Button>
+                    }
+                    targetType="profile"
+                    targetId={profile.id}
+                    targetLabel={profile.username}
+                  />
+                  <BlockUserDialog
+                    trigger={
+                      <Button variant="ghost" size="sm" className="text-muted-foreground">
+                        <Ban className="h-4 w-4 mr-1" />
+                        Block
+                      </Button>
+                    }
+                    userId={profile.id}
+                    username={profile.username}
+                    onBlocked={() => navigate('/home')}
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reputation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {profile.showReputation ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <ReputationTile
+                  label="Doer"
+                  icon={<Users className="h-8 w-8 text-green-500 mb-2" />}
+                  reputation={doer}
+                  completedCount={profile.completedAsDoer}
+                />
+                <ReputationTile
+                  label="Requestor"
+                  icon={<RadioTower className="h-8 w-8 text-yellow-500 mb-2" />}
+                  reputation={creator}
+                  completedCount={profile.completedAsCreator}
+                />
+              </div>
+            ) : (
+              <HiddenSection username={profile.username} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {profile.showReviews ? (
+              <ReviewList userId={profile.id} limit={10} />
+            ) : (
+              <HiddenSection username={profile.username} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Tasks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!profile.showOpenTasks ? (
+              <HiddenSection username={profile.username} />
+            ) : openTasks.length > 0 ? (
+              <div className="flex flex-col space-y-6">
+                {openTasks.map(task => (
+                  <TaskCard
+                    key={task.id}
+                    task={task}
+                    isOwner={isSelf}
+                    onApply={isSelf ? undefined : handleApplyForTask}
+                    onJoinJointTask={isSelf ? undefined : handleJoinJointTask}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No open tasks right now.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default PublicProfile;
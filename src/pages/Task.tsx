@@ -4,6 +4,7 @@ import TaskGrid from '@/components/TaskGrid';
 import TaskFilters from '@/components/TaskFilters';
 import CreateTaskForm from '@/components/CreateTaskForm';
 import RatingDialog from '@/components/RatingDialog';
+import JointTaskMembersCard from '@/components/JointTaskMembersCard';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { PlusCircle } from 'lucide-react';
@@ -12,7 +13,7 @@ import { useTaskFetch } from '@/hooks/use-task-fetch';
 import { useTaskActions } from '@/hooks/use-task-actions';
 import { useRating } from '@/hooks/use-rating';
 import { useAuth } from '@/context/AuthContext';
-import { supabase } from '@/lib/supabaseClient';
+import { filterTasksByTab } from '@/lib/task-state';
 
 
 const Task = () => {
@@ -23,37 +24,30 @@ const Task = () => {
   // Fetch task data
   const { 
     tasks, 
-    setTasks, 
     appliedTasks, 
-    setAppliedTasks, 
     applications, 
-    setApplications, 
-    isLoading, 
-    generateVerificationCode,
-    fetchUserTasks
+    jointTasks,
+    jointTaskRequests,
+    isLoading
   } = useTaskFetch();
 
   // Task action handlers
   const { 
     handleCreateTask, 
     handleCancelTask, 
+    handleStartTask,
     handleEditTask, 
     handleApplyForTask,
     handleJoinJointTask,
+    handleApproveJointRequest,
+    handleRejectJointRequest,
+    handleVerifyJointCode,
+    handleSubmitJointRating,
     handleApproveApplication,
     handleRejectApplication,
     handleVerifyCode,
     handleSubmitRating 
-  } = useTaskActions({
-    tasks,
-    setTasks,
-    appliedTasks,
-    setAppliedTasks,
-    applications,
-    setApplications,
-    generateVerificationCode,
-    fetchUserTasks
-  });
+  } = useTaskActions();
 
   // Rating management
   const {
@@ -66,13 +60,6 @@ const Task = () => {
     onSubmitRating
   } = useRating(tasks, appliedTasks, handleSubmitRating);
   
-  // Force refresh after rating dialog closes
-  useEffect(() => {
-    if (!isRatingDialogOpen) {
-      fetchUserTasks();
-    }
-  }, [isRatingDialogOpen]);
-
   // Check for tasks needing rating on initial render and when task data updates
   useEffect(() => {
     if (!isLoading && tasks.length > 0) {
@@ -80,54 +67,31 @@ const Task = () => {
     }
   }, [tasks, appliedTasks, isLoading]);
 
-  // Filter functions for task categories
+  // Filter functions for task categories, all derived from the task state
   const getActiveTasks = () => {
-    // Only show tasks created by user that don't have a doer assigned yet
-    return tasks.filter(task => 
-      task.status === 'active' && 
-      task.creatorId === user?.id &&
-      !task.doerId
-    ).map(task => ({
+    return filterTasksByTab(tasks, 'active', user?.id).map(task => ({
       ...task,
       isOwner: true
     }));
   };
 
   const getApprovedTasks = () => {
-    // Tasks created by user that have a doer assigned
-    const approvedCreatedTasks = tasks.filter(
-      task => task.status === 'active' && 
-      task.doerId && 
-      task.creatorId === user?.id
-    );
-
-    // Tasks where the current user is the doer
-    const approvedDoingTasks = appliedTasks.filter(
-      task => task.status === 'active' && 
-      task.doerId === user?.id
-    );
-
-    return [...approvedCreatedTasks, ...approvedDoingTasks];
+    // Tasks created by the user that have a doer, and tasks where the user is the doer
+    return [
+      ...filterTasksByTab(tasks, 'approved', user?.id),
+      ...filterTasksByTab(appliedTasks, 'approved', user?.id)
+    ];
   };
 
   const getAppliedTasks = () => {
-    // Only show tasks that user has applied for, are still pending, not assigned to any doer, and not expired
-    const now = new Date();
-    return appliedTasks.filter(task => 
-      task.status === 'active' && 
-      task.applicationStatus === 'pending' &&
-      !task.doerId &&
-      task.deadline > now // Filter out expired tasks
-    );
+    return filterTasksByTab(appliedTasks, 'applied', user?.id);
   };
 
   const getPendingApplications = () => {
-    // Get all active task IDs created by the user that don't have a doer assigned
-    const activeTaskIds = tasks.filter(task => 
-      task.status === 'active' && 
-      task.creatorId === user?.id &&
-      !task.doerId
-    ).map(task => task.id);
+    // Only open tasks can still take applications
+    const activeTaskIds = tasks
+      .filter(task => task.state === 'open' && task.creatorId === user?.id)
+      .map(task => task.id);
 
     // Get pending applications for those tasks
     return applications.filter(app => 
@@ -138,10 +102,6 @@ const Task = () => {
 
   const onTabChange = (newTab: string) => {
     setCurrentTab(newTab);
-    // Refresh data when switching to the requests tab
-    if (newTab === 'requests') {
-      fetchUserTasks();
-    }
   };
 
   const onCreateTask = async (task: any) => {
@@ -173,6 +133,7 @@ const Task = () => {
             emptyMessage="No approved tasks found."
             showVerificationCodes={true}
             onCancel={handleCancelTask}
+            onStartTask={handleStartTask}
             onVerifyCode={handleVerifyCode}
             onRequestRating={handleRequestRating}
           />
@@ -200,6 +161,27 @@ const Task = () => {
             fullWidth={true}
           />
         );
+      case 'joint':
+        if (isLoading) {
+          return <p>Loading tasks...</p>;
+        }
+        if (jointTasks.length === 0) {
+          return <p>You are not part of any joint tasks yet.</p>;
+        }
+        return (
+          <div className="flex flex-col space-y-4">
+            {jointTasks.map(task => (
+              <JointTaskMembersCard
+                key={task.id}
+                task={task}
+                onApproveRequest={handleApproveJointRequest}
+                onRejectRequest={handleRejectJointRequest}
+                onVerifyCode={handleVerifyJointCode}
+                onRated={handleSubmitJointRating}
+              />
+            ))}
+          </div>
+        );
       default:
         return null;
     }
@@ -216,6 +198,8 @@ const Task = () => {
                   tasks={tasks}
                   appliedTasks={appliedTasks}
                   applications={applications}
+                  jointTasks={jointTasks}
+                  jointTaskRequests={jointTaskRequests}
                   defaultTab={currentTab}
                   onTabChange={onTabChange}
                 />
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Public VAPID key for web push; push stays disabled when it is not set
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+  // Geocoder for task locations: "nominatim" (default) or "fixture" for the offline dataset
+  readonly VITE_GEOCODING_PROVIDER?: 'nominatim' | 'fixture';
+}
@@ -0,0 +1,129 @@
+// Email templates for notifications. Every email has a plain-text and an
+// HTML body built from the same content.
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type EmailNotification = {
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+};
+
+// Call to action shown under each kind of notification
+const ACTIONS: Record<string, string> = {
+  application_received: 'Review the application',
+  application_approved: 'Open your tasks',
+  application_rejected: 'Find another task',
+  task_assigned: 'Open your tasks',
+  counterpart_verified: 'Enter their code',
+  rating_due: 'Leave a rating',
+  deadline_approaching: 'Open your tasks',
+  task_cancelled: 'View your history',
+  task_expired: 'View your history',
+  task_recurred: 'Open your tasks',
+  task_recurrence_held: 'Open your tasks',
+  review_received: 'Read the review',
+  review_replied: 'Read the reply',
+  chat_request: 'Open the chat',
+  task_disputed: 'Add your evidence',
+  dispute_opened: 'Review the dispute',
+  dispute_resolved: 'View your history',
+  task_removed: 'View your history',
+  account_suspended: 'View your profile',
+  account_restored: 'Open Task Loop',
+  report_submitted: 'Review the report',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const absoluteUrl = (appUrl: string, link: string | null) =>
+  new URL(link || '/home', appUrl).toString();
+
+const layout = (greeting: string, content: string, appUrl: string) => `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <tr><td>
+        <h1 style="font-size:20px;margin:0 0 16px;">Task Loop</h1>
+        <p style="margin:0 0 16px;">${escapeHtml(greeting)}</p>
+        ${content}
+        <p style="margin:24px 0 0;font-size:12px;color:#71717a;">
+          You can choose which emails you get under
+          <a href="${absoluteUrl(appUrl, '/profile')}" style="color:#71717a;">Profile &rsaquo; Notifications</a>.
+        </p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+const button = (label: string, href: string) =>
+  `<a href="${href}" style="display:inline-block;padding:10px 16px;background:#18181b;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a>`;
+
+export const renderNotificationEmail = (
+  notification: EmailNotification,
+  username: string | null,
+  appUrl: string
+): RenderedEmail => {
+  const greeting = `Hi ${username || 'there'},`;
+  const action = ACTIONS[notification.type] || 'Open Task Loop';
+  const url = absoluteUrl(appUrl, notification.link);
+
+  const text = [
+    greeting,
+    '',
+    notification.title,
+    ...(notification.body ? [notification.body] : []),
+    '',
+    `${action}: ${url}`,
+  ].join('\n');
+
+  const html = layout(greeting, `
+        <p style="margin:0 0 8px;font-weight:bold;">${escapeHtml(notification.title)}</p>
+        ${notification.body ? `<p style="margin:0 0 16px;">${escapeHtml(notification.body)}</p>` : ''}
+        ${button(action, url)}`, appUrl);
+
+  return { subject: notification.title, text, html };
+};
+
+export const renderDigestEmail = (
+  notifications: EmailNotification[],
+  username: string | null,
+  appUrl: string
+): RenderedEmail => {
+  const greeting = `Hi ${username || 'there'},`;
+  const count = notifications.length;
+  const subject = `You have ${count} unread notification${count === 1 ? '' : 's'} on Task Loop`;
+
+  const text = [
+    greeting,
+    '',
+    `Here is what happened since your last digest:`,
+    '',
+    ...notifications.map(n => `- ${n.title}${n.body ? ` (${n.body})` : ''}: ${absoluteUrl(appUrl, n.link)}`),
+  ].join('\n');
+
+  const items = notifications.map(n => `
+          <li style="margin:0 0 12px;">
+            <a href="${absoluteUrl(appUrl, n.link)}" style="color:#18181b;font-weight:bold;">${escapeHtml(n.title)}</a>
+            ${n.body ? `<br /><span style="color:#52525b;">${escapeHtml(n.body)}</span>` : ''}
+          </li>`).join('');
+
+  const html = layout(greeting, `
+        <p style="margin:0 0 16px;">Here is what happened since your last digest:</p>
+        <ul style="padding-left:20px;margin:0 0 16px;">${items}
+        </ul>
+        ${button('Open Task Loop', absoluteUrl(appUrl, '/home'))}`, appUrl);
+
+  return { subject, text, html };
+};
@@ -0,0 +1,30 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+import { RenderedEmail } from './email-templates.ts';
+
+// SMTP transport configured from the environment. Locally this points at a
+// mail catcher such as MailHog (SMTP_HOST=host.docker.internal, SMTP_PORT=1025).
+const env = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? fallback;
+  if (value === undefined) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+};
+
+export const createMailer = () => {
+  const user = Deno.env.get('SMTP_USER');
+
+  const transport = nodemailer.createTransport({
+    host: env('SMTP_HOST'),
+    port: Number(env('SMTP_PORT', '587')),
+    secure: env('SMTP_SECURE', 'false') === 'true',
+    auth: user ? { user, pass: env('SMTP_PASS') } : undefined,
+  });
+
+  const from = env('EMAIL_FROM', 'Task Loop <no-reply@taskloop.local>');
+
+  return {
+    send: (to: string, email: RenderedEmail) =>
+      transport.sendMail({ from, to, subject: email.subject, text: email.text, html: email.html }),
+  };
+};
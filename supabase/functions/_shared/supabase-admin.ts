@@ -0,0 +1,20 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Service role client for scheduled functions. It bypasses RLS, so these
+// functions only accept requests that carry the service role key themselves.
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  serviceRoleKey,
+  { auth: { persistSession: false } }
+);
+
+export const isServiceRoleRequest = (req: Request) =>
+  req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,105 @@
+import { EmailNotification, renderDigestEmail, renderNotificationEmail } from '../_shared/email-templates.ts';
+import { createMailer } from '../_shared/smtp.ts';
+import { isServiceRoleRequest, jsonResponse, supabaseAdmin as supabase } from '../_shared/supabase-admin.ts';
+
+// Sends notification emails. Called on a schedule with
+//   { "mode": "transactional" } to email new notifications the recipient opted into, or
+//   { "mode": "digest" } to send the daily digest of unread notifications.
+// Only the service role may call it.
+
+type PendingEmail = EmailNotification & {
+  notification_id: string;
+  email: string;
+  username: string | null;
+};
+
+type ClaimedDigest = {
+  user_id: string;
+  email: string;
+  username: string | null;
+  notifications: EmailNotification[];
+};
+
+const appUrl = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+
+// Each email is marked as soon as it is sent, so a run that dies part way only
+// leaves the rest of its claim to be retried once the claim runs out. A failed
+// email goes back to the queue until it has used up its attempts.
+const sendTransactional = async (mailer: ReturnType<typeof createMailer>) => {
+  const { data, error } = await supabase.rpc('claim_pending_notification_emails', { p_limit: 50 });
+  if (error) throw error;
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const pending of (data || []) as PendingEmail[]) {
+    let status: 'sent' | 'failed' = 'sent';
+
+    try {
+      await mailer.send(pending.email, renderNotificationEmail(pending, pending.username, appUrl));
+      sent += 1;
+    } catch (err) {
+      console.error('Error sending notification email:', err);
+      status = 'failed';
+      failed += 1;
+    }
+
+    const { error: markError } = await supabase.rpc('mark_notification_emails', {
+      p_notification_ids: [pending.notification_id],
+      p_status: status,
+    });
+    if (markError) throw markError;
+  }
+
+  return { sent, failed };
+};
+
+// Digests are claimed before sending, like transactional emails, and a failed
+// digest is released so the next run retries it
+const sendDigests = async (mailer: ReturnType<typeof createMailer>) => {
+  const { data, error } = await supabase.rpc('claim_notification_digests', { p_limit: 50 });
+  if (error) throw error;
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const digest of (data || []) as ClaimedDigest[]) {
+    try {
+      await mailer.send(digest.email, renderDigestEmail(digest.notifications, digest.username, appUrl));
+    } catch (err) {
+      console.error('Error sending digest email:', err);
+      failed += 1;
+
+      const { error: markError } = await supabase.rpc('mark_notification_digest_failed', { p_user_id: digest.user_id });
+      if (markError) throw markError;
+      continue;
+    }
+
+    const { error: markError } = await supabase.rpc('mark_notification_digest_sent', { p_user_id: digest.user_id });
+    if (markError) throw markError;
+
+    sent += 1;
+  }
+
+  return { sent, failed };
+};
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: 'Forbidden' }, 403);
+  }
+
+  const { mode = 'transactional' } = await req.json().catch(() => ({}));
+
+  try {
+    const mailer = createMailer();
+    const result = mode === 'digest'
+      ? await sendDigests(mailer)
+      : await sendTransactional(mailer);
+
+    return jsonResponse({ mode, ...result });
+  } catch (error) {
+    console.error('Error sending emails:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
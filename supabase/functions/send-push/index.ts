@@ -0,0 +1,101 @@
+import webpush from 'npm:web-push@3.6.7';
+import { isServiceRoleRequest, jsonResponse, supabaseAdmin as supabase } from '../_shared/supabase-admin.ts';
+
+// Delivers queued web pushes to every device of the recipient. Called by a
+// database webhook on push_queue inserts (or on a schedule); each call drains
+// whatever is pending, including failed pushes that have attempts left and
+// pushes whose earlier claim ran out. Only the service role may call it.
+
+type StoredSubscription = {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+type PendingPush = {
+  push_id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  tag: string | null;
+  subscriptions: StoredSubscription[];
+};
+
+// Push services answer 404 or 410 once a subscription has been revoked
+const EXPIRED_STATUS_CODES = [404, 410];
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@taskloop.local',
+  Deno.env.get('VAPID_PUBLIC_KEY')!,
+  Deno.env.get('VAPID_PRIVATE_KEY')!
+);
+
+const deliver = async (push: PendingPush) => {
+  const payload = JSON.stringify({
+    title: push.title,
+    body: push.body,
+    url: push.link || '/home',
+    tag: push.tag,
+  });
+
+  const used: string[] = [];
+  const expired: string[] = [];
+
+  await Promise.all(push.subscriptions.map(async (subscription) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: 60 * 60 * 24 }
+      );
+      used.push(subscription.id);
+    } catch (err) {
+      if (EXPIRED_STATUS_CODES.includes((err as { statusCode?: number }).statusCode)) {
+        expired.push(subscription.id);
+      } else {
+        console.error('Error sending push:', err);
+      }
+    }
+  }));
+
+  return { used, expired };
+};
+
+Deno.serve(async (req) => {
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: 'Forbidden' }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_pending_pushes', { p_limit: 100 });
+    if (error) throw error;
+
+    const sent: string[] = [];
+    const failed: string[] = [];
+    const used: string[] = [];
+    const expired: string[] = [];
+
+    for (const push of (data || []) as PendingPush[]) {
+      const result = await deliver(push);
+      used.push(...result.used);
+      expired.push(...result.expired);
+
+      // A push counts as sent once it reached at least one device
+      (result.used.length > 0 ? sent : failed).push(push.push_id);
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_pushes', {
+      p_sent_ids: sent,
+      p_failed_ids: failed,
+      p_used_subscription_ids: used,
+      p_expired_subscription_ids: expired,
+    });
+    if (completeError) throw completeError;
+
+    return jsonResponse({ sent: sent.length, failed: failed.length, expiredSubscriptions: expired.length });
+  } catch (error) {
+    console.error('Error sending pushes:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,250 @@
+
+-- Create joint task members table
+-- A joint task is posted by one creator; other users can join it as co-requestors,
+-- each adding what they need and the share of the reward they are paying.
+CREATE TABLE IF NOT EXISTS public.joint_task_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  needs TEXT NOT NULL,
+  reward INTEGER NOT NULL CHECK (reward > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  is_member_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  is_doer_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  is_member_rated BOOLEAN NOT NULL DEFAULT FALSE,
+  is_doer_rated BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_joint_task_member UNIQUE(task_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_joint_task_members_task_id ON public.joint_task_members(task_id);
+CREATE INDEX IF NOT EXISTS idx_joint_task_members_user_id ON public.joint_task_members(user_id);
+
+-- Add RLS policies for joint_task_members table
+ALTER TABLE public.joint_task_members ENABLE ROW LEVEL SECURITY;
+
+-- Members, the task creator and the assigned doer can read membership rows
+CREATE POLICY "Users can view joint task members"
+ON public.joint_task_members FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid() OR
+  task_id IN (
+    SELECT id FROM public.tasks
+    WHERE creator_id = auth.uid() OR doer_id = auth.uid()
+  )
+);
+
+-- Users can only request to join open joint tasks they did not create
+CREATE POLICY "Users can request to join joint tasks"
+ON public.joint_task_members FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid() AND
+  status = 'pending' AND
+  task_id IN (
+    SELECT id FROM public.tasks
+    WHERE task_type = 'joint'
+      AND status = 'active'
+      AND doer_id IS NULL
+      AND creator_id <> auth.uid()
+  )
+);
+
+-- Users can withdraw their own pending requests
+CREATE POLICY "Users can withdraw pending joint task requests"
+ON public.joint_task_members FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'pending');
+
+GRANT SELECT, INSERT, DELETE ON public.joint_task_members TO authenticated;
+
+-- Verification codes per approved membership. Members, creators and doers can all
+-- read membership rows, so the codes live apart from them: RLS without any
+-- policies means only SECURITY DEFINER functions can reach them.
+CREATE TABLE IF NOT EXISTS public.joint_task_member_codes (
+  member_id UUID PRIMARY KEY REFERENCES public.joint_task_members(id) ON DELETE CASCADE,
+  member_code TEXT NOT NULL,
+  doer_code TEXT NOT NULL
+);
+
+ALTER TABLE public.joint_task_member_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.joint_task_member_codes FROM anon, authenticated;
+
+-- A doer rates the creator and every joint member on the same task,
+-- so uniqueness has to include the rated user
+ALTER TABLE public.ratings DROP CONSTRAINT IF EXISTS unique_rating_per_task_and_role;
+ALTER TABLE public.ratings
+  ADD CONSTRAINT unique_rating_per_task_and_role UNIQUE(task_id, rater_id, rated_id, is_for_creator);
+
+-- Function to approve a join request and issue the member/doer verification codes.
+-- Requests can only be approved while the task is active and has no doer yet.
+CREATE OR REPLACE FUNCTION public.approve_joint_task_member(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  success INTEGER;
+BEGIN
+  UPDATE public.joint_task_members m
+  SET status = 'approved',
+      is_member_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_member_rated = FALSE,
+      is_doer_rated = FALSE
+  FROM public.tasks t
+  WHERE m.id = approve_joint_task_member.member_id
+    AND m.status = 'pending'
+    AND t.id = m.task_id
+    AND t.creator_id = auth.uid()
+    AND t.status = 'active'
+    AND t.doer_id IS NULL;
+
+  GET DIAGNOSTICS success = ROW_COUNT;
+
+  IF success = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.joint_task_member_codes (member_id, member_code, doer_code)
+  VALUES (
+    approve_joint_task_member.member_id,
+    (FLOOR(RANDOM() * 900000) + 100000)::INTEGER::TEXT,
+    (FLOOR(RANDOM() * 900000) + 100000)::INTEGER::TEXT
+  )
+  ON CONFLICT ON CONSTRAINT joint_task_member_codes_pkey DO NOTHING;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function to reject a join request
+CREATE OR REPLACE FUNCTION public.reject_joint_task_member(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  success INTEGER;
+BEGIN
+  UPDATE public.joint_task_members m
+  SET status = 'rejected'
+  FROM public.tasks t
+  WHERE m.id = member_id
+    AND m.status = 'pending'
+    AND t.id = m.task_id
+    AND t.creator_id = auth.uid();
+
+  GET DIAGNOSTICS success = ROW_COUNT;
+
+  RETURN success > 0;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function returning the caller's own verification code for a membership
+CREATE OR REPLACE FUNCTION public.get_joint_task_member_code(p_member_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_member public.joint_task_members%ROWTYPE;
+  v_codes public.joint_task_member_codes%ROWTYPE;
+  v_doer_id UUID;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.joint_task_members
+  WHERE id = p_member_id AND status = 'approved';
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_codes FROM public.joint_task_member_codes WHERE member_id = p_member_id;
+  SELECT doer_id INTO v_doer_id FROM public.tasks WHERE id = v_member.task_id;
+
+  IF auth.uid() = v_member.user_id THEN
+    RETURN v_codes.member_code;
+  ELSIF v_doer_id IS NOT NULL AND auth.uid() = v_doer_id THEN
+    RETURN v_codes.doer_code;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function to verify the code exchanged between a joint member and the task doer.
+-- The member enters the doer's code and the doer enters the member's code.
+CREATE OR REPLACE FUNCTION public.verify_joint_task_member_code(member_id UUID, code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_member public.joint_task_members%ROWTYPE;
+  v_codes public.joint_task_member_codes%ROWTYPE;
+  v_doer_id UUID;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.joint_task_members
+  WHERE id = verify_joint_task_member_code.member_id AND status = 'approved';
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_codes FROM public.joint_task_member_codes c WHERE c.member_id = v_member.id;
+  SELECT doer_id INTO v_doer_id FROM public.tasks WHERE id = v_member.task_id;
+
+  IF auth.uid() = v_member.user_id THEN
+    IF code IS DISTINCT FROM v_codes.doer_code THEN
+      RETURN FALSE;
+    END IF;
+
+    UPDATE public.joint_task_members SET is_member_verified = TRUE WHERE id = v_member.id;
+    RETURN TRUE;
+  ELSIF v_doer_id IS NOT NULL AND auth.uid() = v_doer_id THEN
+    IF code IS DISTINCT FROM v_codes.member_code THEN
+      RETURN FALSE;
+    END IF;
+
+    UPDATE public.joint_task_members SET is_doer_verified = TRUE WHERE id = v_member.id;
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function to mark that the caller (member or doer) has rated the other side
+CREATE OR REPLACE FUNCTION public.mark_joint_task_member_rated(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  success INTEGER;
+BEGIN
+  UPDATE public.joint_task_members m
+  SET is_member_rated = CASE WHEN m.user_id = auth.uid() THEN TRUE ELSE m.is_member_rated END,
+      is_doer_rated = CASE WHEN t.doer_id = auth.uid() THEN TRUE ELSE m.is_doer_rated END
+  FROM public.tasks t
+  WHERE m.id = member_id
+    AND t.id = m.task_id
+    AND m.is_member_verified
+    AND m.is_doer_verified
+    AND (m.user_id = auth.uid() OR t.doer_id = auth.uid());
+
+  GET DIAGNOSTICS success = ROW_COUNT;
+
+  RETURN success > 0;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.approve_joint_task_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_joint_task_member(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reject_joint_task_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_joint_task_member(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_joint_task_member_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_joint_task_member_code(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.verify_joint_task_member_code(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_joint_task_member_code(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_joint_task_member_rated(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_joint_task_member_rated(UUID) TO service_role;
+
+-- Enable realtime for joint_task_members
+ALTER TABLE public.joint_task_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.joint_task_members;
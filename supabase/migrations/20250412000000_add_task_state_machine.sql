@@ -0,0 +1,184 @@
+
+-- Explicit task lifecycle
+--
+--   draft -> open -> assigned -> in_progress -> awaiting_verification -> completed
+--
+-- with cancelled and expired as the other terminal states. The state column replaces
+-- reading the lifecycle from status + doer_id + the is_*_verified flags; status is kept
+-- as a mirror of state for older queries.
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS state TEXT NOT NULL DEFAULT 'open';
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_state_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_state_check CHECK (
+    state IN ('draft', 'open', 'assigned', 'in_progress', 'awaiting_verification', 'completed', 'cancelled', 'expired')
+  );
+
+-- Backfill state for existing rows
+UPDATE public.tasks
+SET state = CASE
+  WHEN status = 'completed' AND is_requestor_verified AND is_doer_verified THEN 'completed'
+  WHEN status = 'completed' THEN 'cancelled'
+  WHEN doer_id IS NOT NULL AND is_requestor_verified AND is_doer_verified THEN 'completed'
+  WHEN doer_id IS NOT NULL AND (is_requestor_verified OR is_doer_verified) THEN 'awaiting_verification'
+  WHEN doer_id IS NOT NULL THEN 'assigned'
+  ELSE 'open'
+END;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_state ON public.tasks(state);
+
+-- Returns whether a task may move from one state to another
+CREATE OR REPLACE FUNCTION public.task_state_transition_allowed(from_state TEXT, to_state TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN CASE from_state
+    WHEN 'draft' THEN to_state IN ('open', 'cancelled')
+    WHEN 'open' THEN to_state IN ('draft', 'assigned', 'cancelled', 'expired')
+    WHEN 'assigned' THEN to_state IN ('in_progress', 'awaiting_verification', 'cancelled', 'expired')
+    WHEN 'in_progress' THEN to_state IN ('awaiting_verification', 'cancelled', 'expired')
+    WHEN 'awaiting_verification' THEN to_state IN ('completed')
+    ELSE FALSE
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Trigger function that derives the next state from the facts being written
+-- (doer assignment, code verification) and rejects illegal transitions
+CREATE OR REPLACE FUNCTION public.enforce_task_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.state NOT IN ('draft', 'open') THEN
+      RAISE EXCEPTION 'New tasks must start as draft or open, not %', NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.state = OLD.state THEN
+    -- Assigning a doer moves an open task to assigned
+    IF OLD.doer_id IS NULL AND NEW.doer_id IS NOT NULL THEN
+      NEW.state := 'assigned';
+    END IF;
+
+    -- The first verification starts the verification phase, the second completes it
+    IF NEW.is_requestor_verified AND NEW.is_doer_verified AND OLD.state = 'awaiting_verification' THEN
+      NEW.state := 'completed';
+    ELSIF (NEW.is_requestor_verified OR NEW.is_doer_verified)
+      AND NOT (COALESCE(OLD.is_requestor_verified, FALSE) OR COALESCE(OLD.is_doer_verified, FALSE)) THEN
+      NEW.state := 'awaiting_verification';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.state <> OLD.state THEN
+    IF NOT public.task_state_transition_allowed(OLD.state, NEW.state) THEN
+      RAISE EXCEPTION 'Illegal task state transition from % to %', OLD.state, NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'assigned' AND NEW.doer_id IS NULL THEN
+      RAISE EXCEPTION 'A task cannot be assigned without a doer'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'completed' AND NOT (NEW.is_requestor_verified AND NEW.is_doer_verified) THEN
+      RAISE EXCEPTION 'A task can only be completed once both parties have verified'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Keep the legacy status column in sync
+  NEW.status := CASE
+    WHEN NEW.state IN ('completed', 'cancelled', 'expired') THEN NEW.state
+    ELSE 'active'
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_task_state ON public.tasks;
+CREATE TRIGGER enforce_task_state
+BEFORE INSERT OR UPDATE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_task_state();
+
+-- Function for the explicit, user-driven transitions. Assignment and completion happen
+-- through doer approval and code verification instead.
+CREATE OR REPLACE FUNCTION public.transition_task_state(p_task_id UUID, p_state TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Creators publish, unpublish and cancel; doers start work
+  IF p_state IN ('open', 'draft', 'cancelled') THEN
+    IF v_task.creator_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the task creator can move a task to %', p_state
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_state = 'in_progress' THEN
+    IF v_task.doer_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the assigned doer can start a task'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Tasks cannot be moved to % directly', p_state
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.tasks SET state = p_state WHERE id = p_task_id;
+
+  RETURN p_state;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.task_state_transition_allowed(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_state_transition_allowed(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.transition_task_state(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_task_state(UUID, TEXT) TO service_role;
+
+-- Joint task requests are only accepted while the task is open
+DROP POLICY IF EXISTS "Users can request to join joint tasks" ON public.joint_task_members;
+CREATE POLICY "Users can request to join joint tasks"
+ON public.joint_task_members FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid() AND
+  status = 'pending' AND
+  task_id IN (
+    SELECT id FROM public.tasks
+    WHERE task_type = 'joint'
+      AND state = 'open'
+      AND creator_id <> auth.uid()
+  )
+);
+
+-- Only expire tasks that are still open under the new lifecycle
+CREATE OR REPLACE FUNCTION public.delete_expired_tasks()
+RETURNS void AS $$
+DECLARE
+  expired_task_ids UUID[];
+BEGIN
+  -- Get IDs of expired tasks without assigned doers
+  SELECT array_agg(id) INTO expired_task_ids
+  FROM public.tasks
+  WHERE deadline < NOW()
+    AND state = 'open';
+
+  -- Delete applications for all expired tasks (if any)
+  IF expired_task_ids IS NOT NULL AND array_length(expired_task_ids, 1) > 0 THEN
+    DELETE FROM public.task_applications
+    WHERE task_id = ANY(expired_task_ids);
+  END IF;
+
+  -- Delete all expired tasks (both assigned and unassigned)
+  DELETE FROM public.tasks
+  WHERE deadline < NOW() AND state IN ('open', 'assigned', 'in_progress');
+END;
+$$ LANGUAGE plpgsql;
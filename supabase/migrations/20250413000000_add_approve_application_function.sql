@@ -0,0 +1,74 @@
+
+-- Function to approve a task application in a single transaction.
+-- Assigns the applicant as doer, issues both verification codes and rejects
+-- every other application for the task. The task row is locked so two
+-- approvals for the same task cannot both succeed.
+CREATE OR REPLACE FUNCTION public.approve_task_application(application_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_application public.task_applications%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_application
+  FROM public.task_applications
+  WHERE id = application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock the task so concurrent approvals wait for this one to finish
+  SELECT * INTO v_task
+  FROM public.tasks
+  WHERE id = v_application.task_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_task.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the task creator can approve applications'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_task.doer_id IS NOT NULL OR v_task.state <> 'open' THEN
+    RAISE EXCEPTION 'This task already has a doer or is no longer open'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending applications can be approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Assigning the doer moves the task to the assigned state (see enforce_task_state)
+  UPDATE public.tasks
+  SET doer_id = v_application.applicant_id,
+      requestor_verification_code = (FLOOR(RANDOM() * 900000) + 100000)::INTEGER::TEXT,
+      doer_verification_code = (FLOOR(RANDOM() * 900000) + 100000)::INTEGER::TEXT,
+      is_requestor_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_requestor_rated = FALSE,
+      is_doer_rated = FALSE
+  WHERE id = v_task.id;
+
+  UPDATE public.task_applications
+  SET status = 'approved'
+  WHERE id = application_id;
+
+  -- Reject all other applications for this task
+  UPDATE public.task_applications
+  SET status = 'rejected'
+  WHERE task_id = v_task.id
+    AND id <> application_id
+    AND status = 'pending';
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.approve_task_application(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_task_application(UUID) TO service_role;
@@ -0,0 +1,271 @@
+
+-- Server-side verification codes
+--
+-- Codes are no longer stored in plain text on the task row. Each task gets a random
+-- secret that clients cannot read, and each party's code is an HMAC of their role
+-- under that secret. A user can only fetch their own code, and the counterpart's
+-- code is only ever compared inside verify_task_code.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.task_verification_secrets (
+  task_id UUID PRIMARY KEY REFERENCES public.tasks(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- RLS without any policies: only SECURITY DEFINER functions can reach the secrets
+ALTER TABLE public.task_verification_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.task_verification_secrets FROM anon, authenticated;
+
+-- Wrong attempts per task and verifying user
+CREATE TABLE IF NOT EXISTS public.task_verification_attempts (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  PRIMARY KEY (task_id, user_id)
+);
+
+ALTER TABLE public.task_verification_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verification attempts"
+ON public.task_verification_attempts FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT ON public.task_verification_attempts TO authenticated;
+
+-- Issue secrets for tasks that are already assigned. Their codes change once,
+-- since the old plain-text codes cannot be carried over.
+INSERT INTO public.task_verification_secrets (task_id)
+SELECT id FROM public.tasks
+WHERE doer_id IS NOT NULL
+  AND state IN ('assigned', 'in_progress', 'awaiting_verification')
+ON CONFLICT (task_id) DO NOTHING;
+
+ALTER TABLE public.tasks DROP COLUMN IF EXISTS requestor_verification_code;
+ALTER TABLE public.tasks DROP COLUMN IF EXISTS doer_verification_code;
+
+-- Verification flags, doer and state only change through the functions below and
+-- approve_task_application, so clients keep update rights on the editable fields only
+REVOKE UPDATE ON public.tasks FROM anon, authenticated;
+GRANT UPDATE (title, description, location, reward, deadline, is_requestor_rated, is_doer_rated)
+ON public.tasks TO authenticated;
+
+-- Derives the 6 digit code held by the given role ('requestor' or 'doer') of a task
+CREATE OR REPLACE FUNCTION public.derive_task_verification_code(p_task_id UUID, p_role TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret BYTEA;
+BEGIN
+  SELECT secret INTO v_secret
+  FROM public.task_verification_secrets
+  WHERE task_id = p_task_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN LPAD(
+    (('x' || SUBSTRING(ENCODE(extensions.hmac(p_role, v_secret, 'sha256'), 'hex') FROM 1 FOR 8))::BIT(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Internal helper, never callable from the client
+REVOKE EXECUTE ON FUNCTION public.derive_task_verification_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the caller's own verification code for a task
+CREATE OR REPLACE FUNCTION public.get_task_verification_code(p_task_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF auth.uid() = v_task.creator_id THEN
+    RETURN public.derive_task_verification_code(p_task_id, 'requestor');
+  ELSIF v_task.doer_id IS NOT NULL AND auth.uid() = v_task.doer_id THEN
+    RETURN public.derive_task_verification_code(p_task_id, 'doer');
+  END IF;
+
+  RAISE EXCEPTION 'Only the task creator and doer have verification codes'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function to check the code the caller received from the other party.
+-- After five wrong attempts verification is locked for fifteen minutes.
+CREATE OR REPLACE FUNCTION public.verify_task_code(p_task_id UUID, p_code TEXT)
+RETURNS TABLE (verified BOOLEAN, attempts_remaining INTEGER, locked_until TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+  lockout CONSTANT INTERVAL := INTERVAL '15 minutes';
+  v_task public.tasks%ROWTYPE;
+  v_attempts public.task_verification_attempts%ROWTYPE;
+  v_is_doer BOOLEAN;
+  v_expected TEXT;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_task.doer_id IS NOT NULL AND auth.uid() = v_task.doer_id THEN
+    v_is_doer := TRUE;
+  ELSIF auth.uid() = v_task.creator_id THEN
+    v_is_doer := FALSE;
+  ELSE
+    RAISE EXCEPTION 'Only the task creator and doer can verify codes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_task.state NOT IN ('assigned', 'in_progress', 'awaiting_verification') THEN
+    RAISE EXCEPTION 'This task is not awaiting verification'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.task_verification_attempts (task_id, user_id)
+  VALUES (p_task_id, auth.uid())
+  ON CONFLICT (task_id, user_id) DO NOTHING;
+
+  SELECT * INTO v_attempts
+  FROM public.task_verification_attempts a
+  WHERE a.task_id = p_task_id AND a.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_attempts.locked_until > NOW() THEN
+    RETURN QUERY SELECT FALSE, 0, v_attempts.locked_until;
+    RETURN;
+  END IF;
+
+  -- An expired lock starts a fresh round of attempts
+  IF v_attempts.locked_until IS NOT NULL THEN
+    v_attempts.failed_attempts := 0;
+    v_attempts.locked_until := NULL;
+  END IF;
+
+  -- The doer enters the requestor's code and the requestor enters the doer's code
+  v_expected := public.derive_task_verification_code(
+    p_task_id,
+    CASE WHEN v_is_doer THEN 'requestor' ELSE 'doer' END
+  );
+
+  IF v_expected IS NOT NULL AND TRIM(p_code) = v_expected THEN
+    IF v_is_doer THEN
+      UPDATE public.tasks SET is_doer_verified = TRUE WHERE id = p_task_id;
+    ELSE
+      UPDATE public.tasks SET is_requestor_verified = TRUE WHERE id = p_task_id;
+    END IF;
+
+    UPDATE public.task_verification_attempts a
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE a.task_id = p_task_id AND a.user_id = auth.uid();
+
+    RETURN QUERY SELECT TRUE, max_attempts, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  v_attempts.failed_attempts := v_attempts.failed_attempts + 1;
+  IF v_attempts.failed_attempts >= max_attempts THEN
+    v_attempts.locked_until := NOW() + lockout;
+  END IF;
+
+  UPDATE public.task_verification_attempts a
+  SET failed_attempts = v_attempts.failed_attempts,
+      last_failed_at = NOW(),
+      locked_until = v_attempts.locked_until
+  WHERE a.task_id = p_task_id AND a.user_id = auth.uid();
+
+  RETURN QUERY SELECT FALSE, GREATEST(max_attempts - v_attempts.failed_attempts, 0), v_attempts.locked_until;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Approving an application now issues a verification secret instead of plain-text codes
+CREATE OR REPLACE FUNCTION public.approve_task_application(application_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_application public.task_applications%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_application
+  FROM public.task_applications
+  WHERE id = application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock the task so concurrent approvals wait for this one to finish
+  SELECT * INTO v_task
+  FROM public.tasks
+  WHERE id = v_application.task_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_task.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the task creator can approve applications'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_task.doer_id IS NOT NULL OR v_task.state <> 'open' THEN
+    RAISE EXCEPTION 'This task already has a doer or is no longer open'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_application.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending applications can be approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Assigning the doer moves the task to the assigned state (see enforce_task_state)
+  UPDATE public.tasks
+  SET doer_id = v_application.applicant_id,
+      is_requestor_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_requestor_rated = FALSE,
+      is_doer_rated = FALSE
+  WHERE id = v_task.id;
+
+  INSERT INTO public.task_verification_secrets (task_id)
+  VALUES (v_task.id)
+  ON CONFLICT (task_id) DO UPDATE SET secret = extensions.gen_random_bytes(32);
+
+  DELETE FROM public.task_verification_attempts WHERE task_id = v_task.id;
+
+  UPDATE public.task_applications
+  SET status = 'approved'
+  WHERE id = application_id;
+
+  -- Reject all other applications for this task
+  UPDATE public.task_applications
+  SET status = 'rejected'
+  WHERE task_id = v_task.id
+    AND id <> application_id
+    AND status = 'pending';
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.get_task_verification_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_task_verification_code(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.verify_task_code(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_task_code(UUID, TEXT) TO service_role;
@@ -0,0 +1,195 @@
+
+-- Cancellation reasons and soft expiry
+--
+-- Cancelled tasks used to be marked completed and expired tasks were deleted.
+-- Both now keep their row with a terminal state so they stay visible in History.
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- Tasks cancelled before this migration have no reason, so only check new rows
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_cancellation_reason_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_cancellation_reason_check
+  CHECK (state <> 'cancelled' OR LENGTH(TRIM(COALESCE(cancellation_reason, ''))) > 0) NOT VALID;
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  read BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+-- Add RLS policies for notifications table
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Notifications are only written by database functions
+GRANT SELECT, DELETE ON public.notifications TO authenticated;
+GRANT UPDATE (read) ON public.notifications TO authenticated;
+
+-- Notify the assigned doer and everyone with a pending application about a task
+CREATE OR REPLACE FUNCTION public.notify_task_participants(p_task_id UUID, p_type TEXT, p_title TEXT, p_body TEXT)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, body, task_id)
+  SELECT participant_id, p_type, p_title, p_body, p_task_id
+  FROM (
+    SELECT doer_id AS participant_id FROM public.tasks
+    WHERE id = p_task_id AND doer_id IS NOT NULL
+    UNION
+    SELECT applicant_id FROM public.task_applications
+    WHERE task_id = p_task_id AND status = 'pending'
+  ) participants;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.notify_task_participants(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function to cancel a task with a reason
+CREATE OR REPLACE FUNCTION public.cancel_task(p_task_id UUID, p_reason TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_task.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the task creator can cancel a task'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A cancellation reason is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Illegal transitions (e.g. from awaiting_verification) are rejected by enforce_task_state
+  UPDATE public.tasks
+  SET state = 'cancelled',
+      cancellation_reason = TRIM(p_reason),
+      cancelled_at = NOW()
+  WHERE id = p_task_id;
+
+  PERFORM public.notify_task_participants(
+    p_task_id,
+    'task_cancelled',
+    'Task cancelled: ' || v_task.title,
+    TRIM(p_reason)
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Cancelling needs a reason, so it is no longer one of the plain transitions
+CREATE OR REPLACE FUNCTION public.transition_task_state(p_task_id UUID, p_state TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Creators publish and unpublish; doers start work
+  IF p_state IN ('open', 'draft') THEN
+    IF v_task.creator_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the task creator can move a task to %', p_state
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF p_state = 'in_progress' THEN
+    IF v_task.doer_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the assigned doer can start a task'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Tasks cannot be moved to % directly', p_state
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.tasks SET state = p_state WHERE id = p_task_id;
+
+  RETURN p_state;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function to move overdue tasks to expired instead of deleting them
+CREATE OR REPLACE FUNCTION public.expire_overdue_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_task RECORD;
+  expired_count INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT id, title FROM public.tasks
+    WHERE deadline < NOW()
+      AND state IN ('open', 'assigned', 'in_progress')
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.tasks
+    SET state = 'expired',
+        expired_at = NOW()
+    WHERE id = v_task.id;
+
+    PERFORM public.notify_task_participants(
+      v_task.id,
+      'task_expired',
+      'Task expired: ' || v_task.title,
+      'The deadline passed before the task was completed.'
+    );
+
+    expired_count := expired_count + 1;
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.delete_expired_tasks();
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.cancel_task(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_task(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_overdue_tasks() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_overdue_tasks() TO service_role;
+
+-- Enable realtime for notifications
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- If your database supports pg_cron, expire tasks every 15 minutes:
+-- SELECT cron.schedule('*/15 * * * *', 'SELECT public.expire_overdue_tasks()');
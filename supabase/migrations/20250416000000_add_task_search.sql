@@ -0,0 +1,56 @@
+
+-- Full-text search over tasks
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(location, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON public.tasks USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_tasks_reward ON public.tasks(reward);
+CREATE INDEX IF NOT EXISTS idx_tasks_deadline ON public.tasks(deadline);
+
+-- Turns free text into a prefix query so results update while the user is typing,
+-- e.g. 'dog walk' becomes 'dog:* & walk:*'. Returns NULL for empty input.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(p_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(
+    TRIM(regexp_replace(COALESCE(p_query, ''), '[^[:alnum:][:space:]]', ' ', 'g')),
+    '\s+'
+  ) AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to search open tasks with ranking and facets. Every facet is optional.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_query TEXT DEFAULT NULL,
+  p_min_reward INTEGER DEFAULT NULL,
+  p_max_reward INTEGER DEFAULT NULL,
+  p_deadline_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_task_type TEXT DEFAULT NULL,
+  p_min_creator_rating NUMERIC DEFAULT NULL
+)
+RETURNS SETOF public.tasks AS $$
+  SELECT t.*
+  FROM public.tasks t
+  LEFT JOIN public.user_ratings ur ON ur.user_id = t.creator_id
+  CROSS JOIN (SELECT public.to_prefix_tsquery(p_query) AS query) q
+  WHERE t.state = 'open'
+    AND (q.query IS NULL OR t.search_vector @@ q.query)
+    AND (p_min_reward IS NULL OR t.reward >= p_min_reward)
+    AND (p_max_reward IS NULL OR t.reward <= p_max_reward)
+    AND (p_deadline_before IS NULL OR t.deadline <= p_deadline_before)
+    AND (p_task_type IS NULL OR t.task_type = p_task_type)
+    AND (p_min_creator_rating IS NULL OR COALESCE(ur.creator_rating, 0) >= p_min_creator_rating)
+  ORDER BY
+    CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(t.search_vector, q.query) END DESC,
+    t.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.to_prefix_tsquery(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.to_prefix_tsquery(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC) TO service_role;
@@ -0,0 +1,76 @@
+
+-- Keyset pagination for the task feed
+--
+-- Pages are ordered by (rank, created_at, id) and the next page starts strictly after
+-- the last row of the previous one. Without a search query rank is always 0, so the
+-- order is plain (created_at, id). Rank is rounded so it survives the JSON round trip
+-- through the client unchanged and can be used as part of the cursor.
+CREATE INDEX IF NOT EXISTS idx_tasks_feed ON public.tasks(created_at DESC, id DESC) WHERE state = 'open';
+
+-- The return type changes, so the old version has to go
+DROP FUNCTION IF EXISTS public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC);
+
+-- Function to search open tasks one page at a time. Each row is the task plus its search_rank.
+-- Tasks created, applied for or joined by the caller are left out of their feed.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_query TEXT DEFAULT NULL,
+  p_min_reward INTEGER DEFAULT NULL,
+  p_max_reward INTEGER DEFAULT NULL,
+  p_deadline_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_task_type TEXT DEFAULT NULL,
+  p_min_creator_rating NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_rank NUMERIC DEFAULT NULL,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS SETOF JSONB AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS query
+  ),
+  ranked AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN q.query IS NULL THEN 0
+        ELSE ROUND(ts_rank(t.search_vector, q.query)::NUMERIC, 6)
+      END AS search_rank
+    FROM public.tasks t
+    CROSS JOIN q
+    LEFT JOIN public.user_ratings ur ON ur.user_id = t.creator_id
+    WHERE t.state = 'open'
+      AND (q.query IS NULL OR t.search_vector @@ q.query)
+      AND (p_min_reward IS NULL OR t.reward >= p_min_reward)
+      AND (p_max_reward IS NULL OR t.reward <= p_max_reward)
+      AND (p_deadline_before IS NULL OR t.deadline <= p_deadline_before)
+      AND (p_task_type IS NULL OR t.task_type = p_task_type)
+      AND (p_min_creator_rating IS NULL OR COALESCE(ur.creator_rating, 0) >= p_min_creator_rating)
+      AND (
+        auth.uid() IS NULL OR (
+          t.creator_id <> auth.uid()
+          AND NOT EXISTS (
+            SELECT 1 FROM public.task_applications a
+            WHERE a.task_id = t.id AND a.applicant_id = auth.uid()
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM public.joint_task_members m
+            WHERE m.task_id = t.id AND m.user_id = auth.uid()
+          )
+        )
+      )
+  )
+  SELECT to_jsonb(r) - 'search_vector'
+  FROM ranked r
+  WHERE p_cursor_created_at IS NULL
+     OR (r.search_rank, r.created_at, r.id) < (COALESCE(p_cursor_rank, 0), p_cursor_created_at, p_cursor_id)
+  ORDER BY r.search_rank DESC, r.created_at DESC, r.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO service_role;
+
+-- Enable realtime for tasks so clients can announce newly posted tasks
+ALTER TABLE public.tasks REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
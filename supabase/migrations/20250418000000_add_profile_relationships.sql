@@ -0,0 +1,32 @@
+
+-- Foreign keys from user columns to profiles so PostgREST can embed the related
+-- profile (username, avatar) in the same request instead of one lookup per row.
+-- Added NOT VALID so existing rows are not rechecked; new writes are enforced.
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_creator_profile_fkey;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_creator_profile_fkey
+  FOREIGN KEY (creator_id) REFERENCES public.profiles(id) ON DELETE CASCADE NOT VALID;
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_doer_profile_fkey;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_doer_profile_fkey
+  FOREIGN KEY (doer_id) REFERENCES public.profiles(id) ON DELETE SET NULL NOT VALID;
+
+ALTER TABLE public.task_applications DROP CONSTRAINT IF EXISTS task_applications_applicant_profile_fkey;
+ALTER TABLE public.task_applications
+  ADD CONSTRAINT task_applications_applicant_profile_fkey
+  FOREIGN KEY (applicant_id) REFERENCES public.profiles(id) ON DELETE CASCADE NOT VALID;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_sender_profile_fkey;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_sender_profile_fkey
+  FOREIGN KEY (sender_id) REFERENCES public.profiles(id) ON DELETE CASCADE NOT VALID;
+
+-- Indexes for the embedded lookups and the "my tasks" filters
+CREATE INDEX IF NOT EXISTS idx_tasks_creator_id ON public.tasks(creator_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_doer_id ON public.tasks(doer_id);
+CREATE INDEX IF NOT EXISTS idx_task_applications_applicant_id ON public.task_applications(applicant_id);
+
+-- Make PostgREST pick up the new relationships
+NOTIFY pgrst, 'reload schema';
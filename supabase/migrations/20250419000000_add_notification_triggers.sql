@@ -0,0 +1,362 @@
+-- Notification center
+--
+-- Notifications used to be written only when a task was cancelled or expired.
+-- Triggers now record every event a participant needs to act on, and each
+-- notification carries the page it links to.
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS chat_id UUID REFERENCES public.chats(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS link TEXT;
+
+-- Cancelled and expired tasks are found in History
+UPDATE public.notifications
+SET link = '/history'
+WHERE link IS NULL AND type IN ('task_cancelled', 'task_expired');
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE NOT read;
+
+-- Users can mark all their notifications as read at once
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.notifications
+  SET read = TRUE
+  WHERE user_id = auth.uid() AND NOT read;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Write a single notification. Nobody is notified about their own actions.
+CREATE OR REPLACE FUNCTION public.notify_user(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_link TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_chat_id UUID DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, task_id, chat_id)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link, p_task_id, p_chat_id);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Cancellation and expiry notifications now link to History
+CREATE OR REPLACE FUNCTION public.notify_task_participants(p_task_id UUID, p_type TEXT, p_title TEXT, p_body TEXT)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, body, link, task_id)
+  SELECT participant_id, p_type, p_title, p_body, '/history', p_task_id
+  FROM (
+    SELECT doer_id AS participant_id FROM public.tasks
+    WHERE id = p_task_id AND doer_id IS NOT NULL
+    UNION
+    SELECT applicant_id FROM public.task_applications
+    WHERE task_id = p_task_id AND status = 'pending'
+  ) participants;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Applications: the creator hears about new ones, the applicant about the decision
+CREATE OR REPLACE FUNCTION public.notify_task_application_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = NEW.task_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      v_task.creator_id,
+      'application_received',
+      'New application: ' || v_task.title,
+      NULLIF(TRIM(NEW.message), ''),
+      '/task',
+      NEW.task_id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'approved' THEN
+      PERFORM public.notify_user(
+        NEW.applicant_id,
+        'application_approved',
+        'Application approved: ' || v_task.title,
+        'You are now the doer. Meet the creator to exchange verification codes.',
+        '/task',
+        NEW.task_id
+      );
+    ELSIF NEW.status = 'rejected' THEN
+      PERFORM public.notify_user(
+        NEW.applicant_id,
+        'application_rejected',
+        'Application not accepted: ' || v_task.title,
+        NULL,
+        '/task',
+        NEW.task_id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_task_application_change ON public.task_applications;
+CREATE TRIGGER notify_task_application_change
+AFTER INSERT OR UPDATE OF status ON public.task_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_task_application_change();
+
+-- Join requests for joint tasks work the same way as applications
+CREATE OR REPLACE FUNCTION public.notify_joint_task_member_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = NEW.task_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify_user(
+      v_task.creator_id,
+      'application_received',
+      'New join request: ' || v_task.title,
+      NULLIF(TRIM(NEW.needs), ''),
+      '/task',
+      NEW.task_id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'approved' THEN
+      PERFORM public.notify_user(
+        NEW.user_id,
+        'application_approved',
+        'Join request approved: ' || v_task.title,
+        'Meet the doer to exchange verification codes.',
+        '/task',
+        NEW.task_id
+      );
+    ELSIF NEW.status = 'rejected' THEN
+      PERFORM public.notify_user(
+        NEW.user_id,
+        'application_rejected',
+        'Join request not accepted: ' || v_task.title,
+        NULL,
+        '/task',
+        NEW.task_id
+      );
+    END IF;
+  END IF;
+
+  -- The member enters the doer's code and the doer enters the member's code
+  IF NEW.is_member_verified AND NOT OLD.is_member_verified THEN
+    PERFORM public.notify_user(
+      v_task.doer_id,
+      'counterpart_verified',
+      'Member verified: ' || v_task.title,
+      'Enter their code to finish verification.',
+      '/task',
+      NEW.task_id
+    );
+  END IF;
+
+  IF NEW.is_doer_verified AND NOT OLD.is_doer_verified THEN
+    PERFORM public.notify_user(
+      NEW.user_id,
+      'counterpart_verified',
+      'Doer verified: ' || v_task.title,
+      'Enter their code to finish verification.',
+      '/task',
+      NEW.task_id
+    );
+  END IF;
+
+  IF NEW.is_member_verified AND NEW.is_doer_verified
+    AND NOT (OLD.is_member_verified AND OLD.is_doer_verified) THEN
+    PERFORM public.notify_user(NEW.user_id, 'rating_due', 'Rate the doer: ' || v_task.title, NULL, '/task', NEW.task_id);
+    PERFORM public.notify_user(v_task.doer_id, 'rating_due', 'Rate the member: ' || v_task.title, NULL, '/task', NEW.task_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_joint_task_member_change ON public.joint_task_members;
+CREATE TRIGGER notify_joint_task_member_change
+AFTER INSERT OR UPDATE ON public.joint_task_members
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_joint_task_member_change();
+
+-- Tasks: assignment, verification progress and completion
+CREATE OR REPLACE FUNCTION public.notify_task_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Doers who applied already got an approval notification
+  IF NEW.doer_id IS NOT NULL AND NEW.doer_id IS DISTINCT FROM OLD.doer_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.task_applications
+      WHERE task_id = NEW.id AND applicant_id = NEW.doer_id
+    ) THEN
+    PERFORM public.notify_user(
+      NEW.doer_id,
+      'task_assigned',
+      'Task assigned: ' || NEW.title,
+      'Meet the creator to exchange verification codes.',
+      '/task',
+      NEW.id
+    );
+  END IF;
+
+  -- The doer enters the requestor's code and the requestor enters the doer's code
+  IF NEW.is_doer_verified AND NOT COALESCE(OLD.is_doer_verified, FALSE) THEN
+    PERFORM public.notify_user(
+      NEW.creator_id,
+      'counterpart_verified',
+      'Doer verified: ' || NEW.title,
+      'Enter their code to finish verification.',
+      '/task',
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.is_requestor_verified AND NOT COALESCE(OLD.is_requestor_verified, FALSE) THEN
+    PERFORM public.notify_user(
+      NEW.doer_id,
+      'counterpart_verified',
+      'Creator verified: ' || NEW.title,
+      'Enter their code to finish verification.',
+      '/task',
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.state = 'completed' AND OLD.state IS DISTINCT FROM 'completed' THEN
+    PERFORM public.notify_user(NEW.creator_id, 'rating_due', 'Rate the doer: ' || NEW.title, NULL, '/task', NEW.id);
+    PERFORM public.notify_user(NEW.doer_id, 'rating_due', 'Rate the creator: ' || NEW.title, NULL, '/task', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_task_change ON public.tasks;
+CREATE TRIGGER notify_task_change
+AFTER UPDATE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_task_change();
+
+-- New chats: the other participant gets a chat request
+CREATE OR REPLACE FUNCTION public.notify_chat_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_username TEXT;
+BEGIN
+  SELECT username INTO v_username FROM public.profiles WHERE id = NEW.user1_id;
+
+  PERFORM public.notify_user(
+    NEW.user2_id,
+    'chat_request',
+    'New chat from ' || COALESCE(v_username, 'a user'),
+    NULL,
+    '/chat',
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_chat_created ON public.chats;
+CREATE TRIGGER notify_chat_created
+AFTER INSERT ON public.chats
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_chat_created();
+
+-- Remind the creator and doer once when a task's deadline is less than a day away
+CREATE OR REPLACE FUNCTION public.notify_approaching_deadlines(p_within INTERVAL DEFAULT INTERVAL '24 hours')
+RETURNS INTEGER AS $$
+DECLARE
+  notified_count INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, body, link, task_id)
+  SELECT participant_id, 'deadline_approaching', 'Deadline approaching: ' || t.title,
+         'Due ' || TO_CHAR(t.deadline AT TIME ZONE 'UTC', 'Mon DD, HH24:MI') || ' UTC',
+         '/task', t.id
+  FROM public.tasks t
+  CROSS JOIN LATERAL (VALUES (t.creator_id), (t.doer_id)) participants(participant_id)
+  WHERE t.state IN ('open', 'assigned', 'in_progress')
+    AND t.deadline BETWEEN NOW() AND NOW() + p_within
+    AND participant_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.task_id = t.id
+        AND n.user_id = participant_id
+        AND n.type = 'deadline_approaching'
+    );
+
+  GET DIAGNOSTICS notified_count = ROW_COUNT;
+  RETURN notified_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.notify_approaching_deadlines(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- The expiry sweep also sends deadline reminders, so one scheduled job covers both
+CREATE OR REPLACE FUNCTION public.expire_overdue_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_task RECORD;
+  expired_count INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT id, title FROM public.tasks
+    WHERE deadline < NOW()
+      AND state IN ('open', 'assigned', 'in_progress')
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.tasks
+    SET state = 'expired',
+        expired_at = NOW()
+    WHERE id = v_task.id;
+
+    PERFORM public.notify_task_participants(
+      v_task.id,
+      'task_expired',
+      'Task expired: ' || v_task.title,
+      'The deadline passed before the task was completed.'
+    );
+
+    expired_count := expired_count + 1;
+  END LOOP;
+
+  PERFORM public.notify_approaching_deadlines();
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO service_role;
+GRANT EXECUTE ON FUNCTION public.notify_approaching_deadlines(INTERVAL) TO service_role;
@@ -0,0 +1,195 @@
+-- Email notifications
+--
+-- Notifications are also delivered by email through the send-emails edge
+-- function: right away for the events a user has opted into, and as a daily
+-- digest of whatever is still unread.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email_application_updates BOOLEAN NOT NULL DEFAULT TRUE,
+  email_task_updates BOOLEAN NOT NULL DEFAULT TRUE,
+  email_chat_requests BOOLEAN NOT NULL DEFAULT FALSE,
+  email_daily_digest BOOLEAN NOT NULL DEFAULT TRUE,
+  last_digest_sent_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- The digest bookkeeping column is only written by the email sender.
+-- Preferences are saved with an upsert, which needs both grants.
+GRANT SELECT ON public.notification_preferences TO authenticated;
+GRANT INSERT (user_id, email_application_updates, email_task_updates, email_chat_requests, email_daily_digest, updated_at)
+  ON public.notification_preferences TO authenticated;
+GRANT UPDATE (user_id, email_application_updates, email_task_updates, email_chat_requests, email_daily_digest, updated_at)
+  ON public.notification_preferences TO authenticated;
+
+-- Delivery state of each notification's email
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS email_status TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_email_status_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_email_status_check
+  CHECK (email_status IN ('pending', 'sending', 'sent', 'skipped', 'failed'));
+
+-- Don't email anything that happened before this migration
+UPDATE public.notifications SET email_status = 'skipped' WHERE email_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_email_pending
+ON public.notifications(created_at) WHERE email_status = 'pending';
+
+-- Which preference covers each notification type. Types without one
+-- (e.g. deadline reminders) follow the task updates setting.
+CREATE OR REPLACE FUNCTION public.notification_email_enabled(p_prefs public.notification_preferences, p_type TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Users who never saved preferences get the defaults
+  IF p_prefs.user_id IS NULL THEN
+    RETURN p_type <> 'chat_request';
+  END IF;
+
+  RETURN CASE
+    WHEN p_type IN ('application_received', 'application_approved', 'application_rejected') THEN p_prefs.email_application_updates
+    WHEN p_type = 'chat_request' THEN p_prefs.email_chat_requests
+    ELSE p_prefs.email_task_updates
+  END;
+END;
+$$ LANGUAGE plpgsql
+STABLE;
+
+-- Claims the oldest pending transactional emails by moving them to sending,
+-- so overlapping runs never send the same email twice. Notifications the
+-- recipient has opted out of (or that have waited over a day) are skipped.
+CREATE OR REPLACE FUNCTION public.claim_pending_notification_emails(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  notification_id UUID,
+  email TEXT,
+  username TEXT,
+  type TEXT,
+  title TEXT,
+  body TEXT,
+  link TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  UPDATE public.notifications n
+  SET email_status = 'skipped'
+  WHERE n.email_status = 'pending'
+    AND (n.created_at < NOW() - INTERVAL '1 day'
+      OR NOT public.notification_email_enabled(
+        (SELECT p FROM public.notification_preferences p WHERE p.user_id = n.user_id),
+        n.type
+      ));
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.notifications n
+    SET email_status = 'sending'
+    WHERE n.id IN (
+      SELECT pending.id FROM public.notifications pending
+      WHERE pending.email_status = 'pending'
+      ORDER BY pending.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*
+  )
+  SELECT c.id, u.email::TEXT, pr.username, c.type, c.title, c.body, c.link, c.created_at
+  FROM claimed c
+  JOIN auth.users u ON u.id = c.user_id
+  LEFT JOIN public.profiles pr ON pr.id = c.user_id
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.mark_notification_emails(p_notification_ids UUID[], p_status TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.notifications
+  SET email_status = p_status,
+      emailed_at = CASE WHEN p_status = 'sent' THEN NOW() ELSE emailed_at END
+  WHERE id = ANY(p_notification_ids);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Users who are due a daily digest, with their unread notifications since the last one
+CREATE OR REPLACE FUNCTION public.due_notification_digests()
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  username TEXT,
+  notifications JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT pr.id, u.email::TEXT, pr.username,
+         JSONB_AGG(JSONB_BUILD_OBJECT(
+           'title', n.title,
+           'body', n.body,
+           'link', n.link,
+           'created_at', n.created_at
+         ) ORDER BY n.created_at DESC)
+  FROM public.profiles pr
+  JOIN auth.users u ON u.id = pr.id
+  LEFT JOIN public.notification_preferences p ON p.user_id = pr.id
+  JOIN public.notifications n ON n.user_id = pr.id
+  WHERE COALESCE(p.email_daily_digest, TRUE)
+    AND COALESCE(p.last_digest_sent_at, '-infinity') < NOW() - INTERVAL '1 day'
+    AND NOT n.read
+    AND n.created_at > COALESCE(p.last_digest_sent_at, NOW() - INTERVAL '1 day')
+    AND u.email IS NOT NULL
+  GROUP BY pr.id, u.email, pr.username;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.mark_notification_digest_sent(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.notification_preferences (user_id, last_digest_sent_at)
+  VALUES (p_user_id, NOW())
+  ON CONFLICT (user_id) DO UPDATE SET last_digest_sent_at = EXCLUDED.last_digest_sent_at;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- The email sender runs with the service role; users never call these
+REVOKE EXECUTE ON FUNCTION public.claim_pending_notification_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notification_emails(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.due_notification_digests() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notification_digest_sent(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.claim_pending_notification_emails(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notification_emails(UUID[], TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.due_notification_digests() TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notification_digest_sent(UUID) TO service_role;
+
+-- If your database supports pg_cron and pg_net, send emails every minute and digests every morning:
+-- SELECT cron.schedule('* * * * *', $$SELECT net.http_post(
+--   url := '<project-url>/functions/v1/send-emails',
+--   headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb,
+--   body := '{"mode": "transactional"}'::jsonb)$$);
+-- SELECT cron.schedule('0 8 * * *', $$SELECT net.http_post(
+--   url := '<project-url>/functions/v1/send-emails',
+--   headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb,
+--   body := '{"mode": "digest"}'::jsonb)$$);
@@ -0,0 +1,217 @@
+-- Web push notifications
+--
+-- Each browser a user enables push on stores its subscription here. New
+-- messages, application decisions and verification requests are queued in
+-- push_queue and delivered to every device by the send-push edge function.
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT, DELETE ON public.push_subscriptions TO authenticated;
+GRANT INSERT (user_id, endpoint, p256dh, auth, user_agent) ON public.push_subscriptions TO authenticated;
+
+-- A browser that changes hands keeps its endpoint, so subscribing again moves it to the new user
+CREATE OR REPLACE FUNCTION public.save_push_subscription(p_endpoint TEXT, p_p256dh TEXT, p_auth TEXT, p_user_agent TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to enable push notifications'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Pushes waiting to be delivered. Only users with at least one device get rows.
+CREATE TABLE IF NOT EXISTS public.push_queue (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  tag TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_queue_pending ON public.push_queue(created_at) WHERE status = 'pending';
+
+-- Only the push sender reads the queue
+ALTER TABLE public.push_queue ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.push_queue FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_push(p_user_id UUID, p_title TEXT, p_body TEXT, p_link TEXT, p_tag TEXT)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.push_queue (user_id, title, body, link, tag)
+  VALUES (p_user_id, p_title, p_body, p_link, p_tag);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.queue_push(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Application decisions and verification requests come from the notification triggers
+CREATE OR REPLACE FUNCTION public.queue_notification_push()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type IN ('application_approved', 'application_rejected', 'task_assigned', 'counterpart_verified') THEN
+    PERFORM public.queue_push(NEW.user_id, NEW.title, NEW.body, NEW.link, 'task-' || COALESCE(NEW.task_id::TEXT, NEW.id::TEXT));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_notification_push ON public.notifications;
+CREATE TRIGGER queue_notification_push
+AFTER INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_notification_push();
+
+-- New messages are pushed to the receiver; pushes for one chat replace each other
+CREATE OR REPLACE FUNCTION public.queue_message_push()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_username TEXT;
+BEGIN
+  SELECT username INTO v_username FROM public.profiles WHERE id = NEW.sender_id;
+
+  PERFORM public.queue_push(
+    NEW.receiver_id,
+    'New message from ' || COALESCE(v_username, 'a user'),
+    CASE WHEN LENGTH(NEW.content) > 120 THEN LEFT(NEW.content, 117) || '...' ELSE NULLIF(NEW.content, '') END,
+    '/chat',
+    'chat-' || NEW.chat_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_message_push ON public.messages;
+CREATE TRIGGER queue_message_push
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_message_push();
+
+-- Claims pending pushes together with the recipient's devices
+CREATE OR REPLACE FUNCTION public.claim_pending_pushes(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  push_id UUID,
+  title TEXT,
+  body TEXT,
+  link TEXT,
+  tag TEXT,
+  subscriptions JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.push_queue q
+    SET status = 'sending'
+    WHERE q.id IN (
+      SELECT pending.id FROM public.push_queue pending
+      WHERE pending.status = 'pending'
+      ORDER BY pending.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*
+  )
+  SELECT c.id, c.title, c.body, c.link, c.tag,
+         COALESCE(JSONB_AGG(JSONB_BUILD_OBJECT(
+           'id', s.id,
+           'endpoint', s.endpoint,
+           'p256dh', s.p256dh,
+           'auth', s.auth
+         )) FILTER (WHERE s.id IS NOT NULL), '[]'::JSONB)
+  FROM claimed c
+  LEFT JOIN public.push_subscriptions s ON s.user_id = c.user_id
+  GROUP BY c.id, c.title, c.body, c.link, c.tag, c.created_at
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Records the outcome of a delivery run. Subscriptions the push service
+-- reported as gone are deleted; delivered ones are marked as used.
+CREATE OR REPLACE FUNCTION public.complete_pushes(
+  p_sent_ids UUID[],
+  p_failed_ids UUID[],
+  p_used_subscription_ids UUID[],
+  p_expired_subscription_ids UUID[]
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.push_queue SET status = 'sent' WHERE id = ANY(p_sent_ids);
+  UPDATE public.push_queue SET status = 'failed' WHERE id = ANY(p_failed_ids);
+  UPDATE public.push_subscriptions SET last_used_at = NOW() WHERE id = ANY(p_used_subscription_ids);
+  DELETE FROM public.push_subscriptions WHERE id = ANY(p_expired_subscription_ids);
+
+  -- Delivered pushes are only kept for a week
+  DELETE FROM public.push_queue WHERE status = 'sent' AND created_at < NOW() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pending_pushes(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_pushes(UUID[], UUID[], UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(TEXT, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_pending_pushes(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_pushes(UUID[], UUID[], UUID[], UUID[]) TO service_role;
+
+-- Deliver pushes as soon as they are queued by adding a database webhook on
+-- push_queue INSERT that calls the send-push function with the service role key.
+-- Without webhooks, pg_cron and pg_net can poll instead:
+-- SELECT cron.schedule('* * * * *', $$SELECT net.http_post(
+--   url := '<project-url>/functions/v1/send-push',
+--   headers := '{"Authorization": "Bearer <service-role-key>"}'::jsonb)$$);
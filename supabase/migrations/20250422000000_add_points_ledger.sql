@@ -0,0 +1,397 @@
+-- Points ledger with reward escrow
+--
+-- Rewards used to be a bare number on the task. Points now live in a
+-- double-entry ledger: every transaction moves an amount from one account to
+-- another, so balances always add up. Posting a task moves its reward from the
+-- creator into an escrow account for the task; completion releases the escrow
+-- to the doer, and cancellation or expiry refunds it to the creator.
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL CHECK (kind IN ('user', 'escrow', 'system')),
+  user_id UUID UNIQUE REFERENCES public.profiles(id) ON DELETE SET NULL,
+  task_id UUID UNIQUE REFERENCES public.tasks(id) ON DELETE SET NULL,
+  balance BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Only the system account, which issues points, may go negative
+  CONSTRAINT ledger_accounts_balance_check CHECK (kind = 'system' OR balance >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_system ON public.ledger_accounts(kind) WHERE kind = 'system';
+
+CREATE TABLE IF NOT EXISTS public.ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL CHECK (kind IN ('grant', 'escrow_hold', 'escrow_adjust', 'escrow_release', 'escrow_refund', 'backfill')),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Credits are positive and debits negative; the entries of a transaction sum to zero
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL REFERENCES public.ledger_transactions(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.ledger_accounts(id),
+  amount BIGINT NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON public.ledger_entries(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON public.ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_task ON public.ledger_transactions(task_id);
+
+-- The ledger is only written by the functions below; users read their own rows
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger account"
+ON public.ledger_accounts FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view entries on their own account"
+ON public.ledger_entries FOR SELECT
+TO authenticated
+USING (account_id IN (SELECT id FROM public.ledger_accounts WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can view transactions that touch their account"
+ON public.ledger_transactions FOR SELECT
+TO authenticated
+USING (id IN (
+  SELECT e.transaction_id FROM public.ledger_entries e
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE a.user_id = auth.uid()
+));
+
+REVOKE ALL ON public.ledger_accounts, public.ledger_transactions, public.ledger_entries FROM anon, authenticated;
+GRANT SELECT ON public.ledger_accounts, public.ledger_transactions, public.ledger_entries TO authenticated;
+
+-- Points every user starts with
+CREATE OR REPLACE FUNCTION public.ledger_starting_balance()
+RETURNS BIGINT AS $$
+  SELECT 1000::BIGINT;
+$$ LANGUAGE sql
+IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.ledger_system_account()
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id FROM public.ledger_accounts WHERE kind = 'system';
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (kind) VALUES ('system')
+    ON CONFLICT DO NOTHING;
+    SELECT id INTO v_id FROM public.ledger_accounts WHERE kind = 'system';
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Moves p_amount from one account to another as a single two-entry transaction
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_kind TEXT,
+  p_task_id UUID,
+  p_description TEXT,
+  p_from_account UUID,
+  p_to_account UUID,
+  p_amount BIGINT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Lock both accounts in a fixed order so concurrent postings cannot deadlock
+  PERFORM 1 FROM public.ledger_accounts
+  WHERE id IN (p_from_account, p_to_account)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ledger_accounts
+    WHERE id = p_from_account AND kind <> 'system' AND balance < p_amount
+  ) THEN
+    RAISE EXCEPTION 'Not enough points: % needed', p_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.ledger_transactions (kind, task_id, description)
+  VALUES (p_kind, p_task_id, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  INSERT INTO public.ledger_entries (transaction_id, account_id, amount)
+  VALUES (v_transaction_id, p_from_account, -p_amount),
+         (v_transaction_id, p_to_account, p_amount);
+
+  UPDATE public.ledger_accounts SET balance = balance - p_amount WHERE id = p_from_account;
+  UPDATE public.ledger_accounts SET balance = balance + p_amount WHERE id = p_to_account;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- A user's account, opened with the starting balance the first time it is needed
+CREATE OR REPLACE FUNCTION public.ledger_user_account(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id FROM public.ledger_accounts WHERE user_id = p_user_id;
+  IF v_id IS NOT NULL THEN
+    RETURN v_id;
+  END IF;
+
+  INSERT INTO public.ledger_accounts (kind, user_id) VALUES ('user', p_user_id)
+  ON CONFLICT (user_id) DO NOTHING
+  RETURNING id INTO v_id;
+
+  -- Another transaction opened it first
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM public.ledger_accounts WHERE user_id = p_user_id;
+    RETURN v_id;
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'grant', NULL, 'Welcome points',
+    public.ledger_system_account(), v_id, public.ledger_starting_balance()
+  );
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.ledger_escrow_account(p_task_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.ledger_accounts (kind, task_id) VALUES ('escrow', p_task_id)
+  ON CONFLICT (task_id) DO NOTHING;
+
+  SELECT id INTO v_id FROM public.ledger_accounts WHERE task_id = p_task_id;
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_system_account() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_transaction(TEXT, UUID, TEXT, UUID, UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_user_account(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_escrow_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Posting a task puts its reward in escrow. Creators without enough points cannot post.
+CREATE OR REPLACE FUNCTION public.escrow_task_reward()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.post_ledger_transaction(
+    'escrow_hold', NEW.id, 'Reward held for ' || NEW.title,
+    public.ledger_user_account(NEW.creator_id), public.ledger_escrow_account(NEW.id), COALESCE(NEW.reward, 0)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS escrow_task_reward ON public.tasks;
+CREATE TRIGGER escrow_task_reward
+AFTER INSERT ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.escrow_task_reward();
+
+-- Keeps the escrow in step with the task: reward edits top it up or give the
+-- difference back, completion pays the doer and cancellation or expiry refunds the creator
+CREATE OR REPLACE FUNCTION public.settle_task_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_escrow UUID;
+  v_held BIGINT;
+  v_difference BIGINT;
+BEGIN
+  v_escrow := public.ledger_escrow_account(NEW.id);
+
+  IF COALESCE(NEW.reward, 0) <> COALESCE(OLD.reward, 0)
+    AND NEW.state NOT IN ('completed', 'cancelled', 'expired') THEN
+    v_difference := COALESCE(NEW.reward, 0) - COALESCE(OLD.reward, 0);
+
+    IF v_difference > 0 THEN
+      PERFORM public.post_ledger_transaction(
+        'escrow_adjust', NEW.id, 'Reward raised for ' || NEW.title,
+        public.ledger_user_account(NEW.creator_id), v_escrow, v_difference
+      );
+    ELSE
+      PERFORM public.post_ledger_transaction(
+        'escrow_adjust', NEW.id, 'Reward lowered for ' || NEW.title,
+        v_escrow, public.ledger_user_account(NEW.creator_id), -v_difference
+      );
+    END IF;
+  END IF;
+
+  IF NEW.state IS DISTINCT FROM OLD.state THEN
+    SELECT balance INTO v_held FROM public.ledger_accounts WHERE id = v_escrow;
+
+    IF NEW.state = 'completed' AND NEW.doer_id IS NOT NULL THEN
+      PERFORM public.post_ledger_transaction(
+        'escrow_release', NEW.id, 'Reward for ' || NEW.title,
+        v_escrow, public.ledger_user_account(NEW.doer_id), v_held
+      );
+    ELSIF NEW.state IN ('cancelled', 'expired') THEN
+      PERFORM public.post_ledger_transaction(
+        'escrow_refund', NEW.id,
+        CASE WHEN NEW.state = 'cancelled' THEN 'Refund for cancelled ' ELSE 'Refund for expired ' END || NEW.title,
+        v_escrow, public.ledger_user_account(NEW.creator_id), v_held
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS settle_task_escrow ON public.tasks;
+CREATE TRIGGER settle_task_escrow
+AFTER UPDATE OF reward, state ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_task_escrow();
+
+-- Balance, points held in escrow for the user's open tasks, and lifetime totals
+CREATE OR REPLACE FUNCTION public.get_points_summary()
+RETURNS TABLE (balance BIGINT, in_escrow BIGINT, earned BIGINT, paid BIGINT) AS $$
+DECLARE
+  v_account UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to view your points'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_account := public.ledger_user_account(auth.uid());
+
+  RETURN QUERY
+  SELECT
+    (SELECT a.balance FROM public.ledger_accounts a WHERE a.id = v_account),
+    COALESCE((
+      SELECT SUM(a.balance) FROM public.ledger_accounts a
+      JOIN public.tasks t ON t.id = a.task_id
+      WHERE a.kind = 'escrow' AND t.creator_id = auth.uid()
+    ), 0)::BIGINT,
+    COALESCE((
+      SELECT SUM(e.amount) FROM public.ledger_entries e
+      JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+      WHERE e.account_id = v_account AND tx.kind IN ('escrow_release', 'backfill') AND e.amount > 0
+    ), 0)::BIGINT,
+    COALESCE((
+      SELECT SUM(e.amount) FROM public.ledger_entries e
+      JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+      JOIN public.ledger_accounts a ON a.id = e.account_id
+      JOIN public.tasks t ON t.id = tx.task_id
+      WHERE tx.kind IN ('escrow_release', 'backfill') AND e.amount > 0
+        AND a.kind = 'user' AND t.creator_id = auth.uid()
+    ), 0)::BIGINT;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- The user's ledger entries, newest first, with the task they belong to
+CREATE OR REPLACE FUNCTION public.list_points_transactions(p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+  id UUID,
+  kind TEXT,
+  description TEXT,
+  amount BIGINT,
+  task_id UUID,
+  task_title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT e.id, tx.kind, tx.description, e.amount, tx.task_id, t.title, e.created_at
+  FROM public.ledger_entries e
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+  LEFT JOIN public.tasks t ON t.id = tx.task_id
+  WHERE a.user_id = auth.uid()
+  ORDER BY e.created_at DESC, e.id
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Points each user earned as a doer and paid out as a creator, for the leaderboard
+CREATE OR REPLACE FUNCTION public.get_points_leaderboard_totals()
+RETURNS TABLE (user_id UUID, earned BIGINT, paid BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  WITH payouts AS (
+    SELECT t.creator_id, a.user_id AS doer_id, e.amount
+    FROM public.ledger_entries e
+    JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+    JOIN public.tasks t ON t.id = tx.task_id
+    JOIN public.ledger_accounts a ON a.id = e.account_id
+    WHERE tx.kind IN ('escrow_release', 'backfill')
+      AND e.amount > 0
+      AND a.kind = 'user'
+  ),
+  totals AS (
+    SELECT doer_id AS id, amount AS earned, 0::BIGINT AS paid FROM payouts
+    UNION ALL
+    SELECT creator_id, 0::BIGINT, amount FROM payouts
+  )
+  SELECT totals.id, SUM(totals.earned)::BIGINT, SUM(totals.paid)::BIGINT
+  FROM totals
+  GROUP BY totals.id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Fund the ledger for tasks posted before it existed. Their rewards were never
+-- taken from the creator, so they are issued by the system account instead.
+DO $$
+DECLARE
+  v_task RECORD;
+BEGIN
+  FOR v_task IN
+    SELECT id, title, reward, state, doer_id FROM public.tasks
+    WHERE COALESCE(reward, 0) > 0
+      AND (state IN ('draft', 'open', 'assigned', 'in_progress', 'awaiting_verification')
+        OR (state = 'completed' AND doer_id IS NOT NULL))
+  LOOP
+    PERFORM public.post_ledger_transaction(
+      'backfill', v_task.id,
+      CASE WHEN v_task.state = 'completed' THEN 'Reward for ' ELSE 'Reward held for ' END || v_task.title,
+      public.ledger_system_account(),
+      CASE WHEN v_task.state = 'completed'
+        THEN public.ledger_user_account(v_task.doer_id)
+        ELSE public.ledger_escrow_account(v_task.id)
+      END,
+      v_task.reward
+    );
+  END LOOP;
+
+  -- Everyone else starts with the welcome points
+  PERFORM public.ledger_user_account(id) FROM public.profiles;
+END;
+$$;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.get_points_summary() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_points_summary() TO service_role;
+GRANT EXECUTE ON FUNCTION public.list_points_transactions(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_points_transactions(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_points_leaderboard_totals() TO anon;
+GRANT EXECUTE ON FUNCTION public.get_points_leaderboard_totals() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_points_leaderboard_totals() TO service_role;
+
+-- Enable realtime so balances update when a reward is released
+ALTER TABLE public.ledger_entries REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ledger_entries;
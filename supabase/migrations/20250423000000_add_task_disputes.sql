@@ -0,0 +1,444 @@
+-- Task disputes
+--
+-- When verification stalls (a code is withheld, or the work is contested) either
+-- party can raise a dispute. The task moves to the disputed state, which freezes
+-- it and its escrowed reward until an admin resolves the dispute as completed
+-- (the doer is paid), refunded (the creator gets the reward back) or split.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('user', 'admin'));
+
+-- Returns whether the caller is an admin
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+-- Users cannot promote themselves; roles are granted by an admin or from the SQL editor
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+-- Disputed joins the lifecycle between assignment and completion
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_state_check;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_state_check CHECK (
+    state IN ('draft', 'open', 'assigned', 'in_progress', 'awaiting_verification', 'disputed', 'completed', 'cancelled', 'expired')
+  );
+
+-- The outcome of a resolved dispute stays on the task for History
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS dispute_outcome TEXT CHECK (dispute_outcome IN ('completed', 'refunded', 'split')),
+ADD COLUMN IF NOT EXISTS dispute_resolved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.task_disputes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL UNIQUE REFERENCES public.tasks(id) ON DELETE CASCADE,
+  raised_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  -- The state the task was in when the dispute was raised
+  previous_state TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  outcome TEXT CHECK (outcome IN ('completed', 'refunded', 'split')),
+  -- Points paid to the doer when the reward is split; the rest goes back to the creator
+  doer_share INTEGER,
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT task_disputes_resolution_check CHECK (status = 'open' OR outcome IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_disputes_open ON public.task_disputes(created_at) WHERE status = 'open';
+
+-- Statements and chat attachments either party submits. Attachments are copied
+-- from the message so they stay with the dispute if the message is removed.
+CREATE TABLE IF NOT EXISTS public.task_dispute_evidence (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dispute_id UUID NOT NULL REFERENCES public.task_disputes(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  statement TEXT,
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  attachment JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_dispute_evidence_content_check CHECK (LENGTH(TRIM(COALESCE(statement, ''))) > 0 OR attachment IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dispute_evidence_dispute ON public.task_dispute_evidence(dispute_id, created_at);
+
+-- Both parties and admins can read a dispute; everything is written by the functions below
+ALTER TABLE public.task_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Task parties and admins can view disputes"
+ON public.task_disputes FOR SELECT
+TO authenticated
+USING (
+  public.is_admin() OR task_id IN (
+    SELECT id FROM public.tasks WHERE creator_id = auth.uid() OR doer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Task parties and admins can view dispute evidence"
+ON public.task_dispute_evidence FOR SELECT
+TO authenticated
+USING (dispute_id IN (SELECT id FROM public.task_disputes));
+
+REVOKE ALL ON public.task_disputes, public.task_dispute_evidence FROM anon, authenticated;
+GRANT SELECT ON public.task_disputes, public.task_dispute_evidence TO authenticated;
+
+-- Any assigned task can be disputed; a disputed task is settled by an admin
+CREATE OR REPLACE FUNCTION public.task_state_transition_allowed(from_state TEXT, to_state TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN CASE from_state
+    WHEN 'draft' THEN to_state IN ('open', 'cancelled')
+    WHEN 'open' THEN to_state IN ('draft', 'assigned', 'cancelled', 'expired')
+    WHEN 'assigned' THEN to_state IN ('in_progress', 'awaiting_verification', 'disputed', 'cancelled', 'expired')
+    WHEN 'in_progress' THEN to_state IN ('awaiting_verification', 'disputed', 'cancelled', 'expired')
+    WHEN 'awaiting_verification' THEN to_state IN ('completed', 'disputed')
+    WHEN 'disputed' THEN to_state IN ('completed', 'cancelled')
+    ELSE FALSE
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same rules as before, plus: a disputed task keeps its reward and only leaves
+-- the disputed state once its dispute has been resolved
+CREATE OR REPLACE FUNCTION public.enforce_task_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.state NOT IN ('draft', 'open') THEN
+      RAISE EXCEPTION 'New tasks must start as draft or open, not %', NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.state = OLD.state THEN
+    -- Assigning a doer moves an open task to assigned
+    IF OLD.doer_id IS NULL AND NEW.doer_id IS NOT NULL THEN
+      NEW.state := 'assigned';
+    END IF;
+
+    -- The first verification starts the verification phase, the second completes it
+    IF NEW.is_requestor_verified AND NEW.is_doer_verified AND OLD.state = 'awaiting_verification' THEN
+      NEW.state := 'completed';
+    ELSIF (NEW.is_requestor_verified OR NEW.is_doer_verified)
+      AND NOT (COALESCE(OLD.is_requestor_verified, FALSE) OR COALESCE(OLD.is_doer_verified, FALSE)) THEN
+      NEW.state := 'awaiting_verification';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.state = 'disputed' THEN
+    IF COALESCE(NEW.reward, 0) <> COALESCE(OLD.reward, 0) THEN
+      RAISE EXCEPTION 'The reward of a disputed task cannot change'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state <> OLD.state AND EXISTS (
+      SELECT 1 FROM public.task_disputes WHERE task_id = NEW.id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'This task is disputed and can only be settled by an admin'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.state <> OLD.state THEN
+    IF NOT public.task_state_transition_allowed(OLD.state, NEW.state) THEN
+      RAISE EXCEPTION 'Illegal task state transition from % to %', OLD.state, NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'assigned' AND NEW.doer_id IS NULL THEN
+      RAISE EXCEPTION 'A task cannot be assigned without a doer'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'completed' AND NOT (NEW.is_requestor_verified AND NEW.is_doer_verified) THEN
+      RAISE EXCEPTION 'A task can only be completed once both parties have verified'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Keep the legacy status column in sync
+  NEW.status := CASE
+    WHEN NEW.state IN ('completed', 'cancelled', 'expired') THEN NEW.state
+    ELSE 'active'
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copies the attachments of the given chat messages into a dispute. Only
+-- messages exchanged between the task's creator and doer are accepted.
+CREATE OR REPLACE FUNCTION public.attach_dispute_messages(p_dispute_id UUID, p_message_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.task_dispute_evidence (dispute_id, author_id, message_id, attachment)
+  SELECT d.id, auth.uid(), m.id, COALESCE(m.attachment, JSONB_BUILD_OBJECT(
+    'id', 'file-' || m.id,
+    'name', COALESCE(m.attachment_name, 'file'),
+    'type', COALESCE(m.attachment_type, 'application/octet-stream'),
+    'url', m.attachment_url,
+    'size', COALESCE(m.attachment_size, 0)
+  ))
+  FROM public.task_disputes d
+  JOIN public.tasks t ON t.id = d.task_id
+  JOIN public.messages m ON m.id = ANY(COALESCE(p_message_ids, ARRAY[]::UUID[]))
+  WHERE d.id = p_dispute_id
+    AND (m.attachment IS NOT NULL OR m.attachment_url IS NOT NULL)
+    AND ((m.sender_id = t.creator_id AND m.receiver_id = t.doer_id)
+      OR (m.sender_id = t.doer_id AND m.receiver_id = t.creator_id))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.task_dispute_evidence e
+      WHERE e.dispute_id = d.id AND e.message_id = m.id
+    );
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.attach_dispute_messages(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Function for the creator or doer to dispute an assigned task
+CREATE OR REPLACE FUNCTION public.raise_task_dispute(p_task_id UUID, p_reason TEXT, p_message_ids UUID[] DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+  v_dispute_id UUID;
+  v_admin_id UUID;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_task.creator_id AND auth.uid() IS DISTINCT FROM v_task.doer_id THEN
+    RAISE EXCEPTION 'Only the task creator and doer can raise a dispute'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_task.state NOT IN ('assigned', 'in_progress', 'awaiting_verification') THEN
+    RAISE EXCEPTION 'Only tasks that are under way can be disputed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to raise a dispute'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.task_disputes (task_id, raised_by, reason, previous_state)
+  VALUES (p_task_id, auth.uid(), TRIM(p_reason), v_task.state)
+  RETURNING id INTO v_dispute_id;
+
+  PERFORM public.attach_dispute_messages(v_dispute_id, p_message_ids);
+
+  UPDATE public.tasks SET state = 'disputed' WHERE id = p_task_id;
+
+  PERFORM public.notify_user(
+    CASE WHEN auth.uid() = v_task.creator_id THEN v_task.doer_id ELSE v_task.creator_id END,
+    'task_disputed',
+    'Dispute raised: ' || v_task.title,
+    TRIM(p_reason),
+    '/task',
+    p_task_id
+  );
+
+  FOR v_admin_id IN SELECT id FROM public.profiles WHERE role = 'admin' LOOP
+    PERFORM public.notify_user(
+      v_admin_id,
+      'dispute_opened',
+      'New dispute: ' || v_task.title,
+      TRIM(p_reason),
+      '/admin',
+      p_task_id
+    );
+  END LOOP;
+
+  RETURN v_dispute_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for either party to add a statement or chat attachments while a dispute is open
+CREATE OR REPLACE FUNCTION public.add_dispute_evidence(p_dispute_id UUID, p_statement TEXT, p_message_ids UUID[] DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_dispute public.task_disputes%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute FROM public.task_disputes WHERE id = p_dispute_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = v_dispute.task_id;
+
+  IF auth.uid() IS DISTINCT FROM v_task.creator_id AND auth.uid() IS DISTINCT FROM v_task.doer_id THEN
+    RAISE EXCEPTION 'Only the task creator and doer can add evidence'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(p_statement, ''))) > 0 THEN
+    INSERT INTO public.task_dispute_evidence (dispute_id, author_id, statement)
+    VALUES (p_dispute_id, auth.uid(), TRIM(p_statement));
+  END IF;
+
+  PERFORM public.attach_dispute_messages(p_dispute_id, p_message_ids);
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to settle a dispute. Completed pays the doer in full,
+-- refunded cancels the task and returns the reward to the creator, and split
+-- pays the doer p_doer_share points and returns the rest to the creator.
+CREATE OR REPLACE FUNCTION public.resolve_task_dispute(
+  p_dispute_id UUID,
+  p_outcome TEXT,
+  p_doer_share INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_dispute public.task_disputes%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+  v_escrow UUID;
+  v_held BIGINT;
+  v_note TEXT := NULLIF(TRIM(COALESCE(p_note, '')), '');
+  v_summary TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_dispute FROM public.task_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_outcome NOT IN ('completed', 'refunded', 'split') THEN
+    RAISE EXCEPTION 'Unknown dispute outcome %', p_outcome
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = v_dispute.task_id FOR UPDATE;
+
+  v_escrow := public.ledger_escrow_account(v_task.id);
+  SELECT balance INTO v_held FROM public.ledger_accounts WHERE id = v_escrow;
+
+  IF p_outcome = 'split' AND (p_doer_share IS NULL OR p_doer_share <= 0 OR p_doer_share >= v_held) THEN
+    RAISE EXCEPTION 'A split must give the doer between 1 and % points', v_held - 1
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.task_disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      doer_share = CASE WHEN p_outcome = 'split' THEN p_doer_share END,
+      resolution_note = v_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_dispute_id;
+
+  -- Split the escrow first; settle_task_escrow then has nothing left to move
+  IF p_outcome = 'split' THEN
+    PERFORM public.post_ledger_transaction(
+      'escrow_release', v_task.id, 'Split reward for ' || v_task.title,
+      v_escrow, public.ledger_user_account(v_task.doer_id), p_doer_share
+    );
+    PERFORM public.post_ledger_transaction(
+      'escrow_refund', v_task.id, 'Split refund for ' || v_task.title,
+      v_escrow, public.ledger_user_account(v_task.creator_id), v_held - p_doer_share
+    );
+  END IF;
+
+  -- A completed or split task counts as verified by both sides, so both can rate as usual
+  IF p_outcome = 'refunded' THEN
+    UPDATE public.tasks
+    SET state = 'cancelled',
+        cancellation_reason = COALESCE(v_note, 'Refunded after a dispute'),
+        cancelled_at = NOW(),
+        dispute_outcome = p_outcome,
+        dispute_resolved_at = NOW()
+    WHERE id = v_task.id;
+  ELSE
+    UPDATE public.tasks
+    SET state = 'completed',
+        is_requestor_verified = TRUE,
+        is_doer_verified = TRUE,
+        dispute_outcome = p_outcome,
+        dispute_resolved_at = NOW()
+    WHERE id = v_task.id;
+  END IF;
+
+  v_summary := CASE p_outcome
+    WHEN 'completed' THEN 'The reward was released to the doer.'
+    WHEN 'refunded' THEN 'The reward was refunded to the creator.'
+    ELSE 'The doer received ' || p_doer_share || ' points and the creator was refunded ' || (v_held - p_doer_share) || '.'
+  END || COALESCE(' ' || v_note, '');
+
+  PERFORM public.notify_user(v_task.creator_id, 'dispute_resolved', 'Dispute resolved: ' || v_task.title, v_summary, '/history', v_task.id);
+  PERFORM public.notify_user(v_task.doer_id, 'dispute_resolved', 'Dispute resolved: ' || v_task.title, v_summary, '/history', v_task.id);
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO service_role;
+GRANT EXECUTE ON FUNCTION public.raise_task_dispute(UUID, TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.raise_task_dispute(UUID, TEXT, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.add_dispute_evidence(UUID, TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_dispute_evidence(UUID, TEXT, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_task_dispute(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_task_dispute(UUID, TEXT, INTEGER, TEXT) TO service_role;
+
+-- Enable realtime so both parties and the review queue see new evidence and outcomes
+ALTER TABLE public.task_disputes REPLICA IDENTITY FULL;
+ALTER TABLE public.task_dispute_evidence REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_disputes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_dispute_evidence;
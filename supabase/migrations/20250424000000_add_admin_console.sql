@@ -0,0 +1,701 @@
+-- Admin and moderation console
+--
+-- Admins (profiles.role = 'admin') can suspend users, take down tasks and
+-- messages, reset gamed ratings, work through user reports and run the
+-- maintenance jobs on demand. Every one of those actions goes through a
+-- function below and is written to admin_audit_log.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS removal_reason TEXT;
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP WITH TIME ZONE;
+
+-- Roles and suspensions are only changed by admins (or from the SQL editor)
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+    NEW.suspended_at := NULL;
+    NEW.suspension_reason := NULL;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  ELSIF NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+    OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason THEN
+    RAISE EXCEPTION 'Only admins can change suspensions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+DROP FUNCTION IF EXISTS public.protect_profile_role();
+
+DROP TRIGGER IF EXISTS protect_profile_admin_fields ON public.profiles;
+CREATE TRIGGER protect_profile_admin_fields
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_admin_fields();
+
+-- Suspended users keep read access and can wind down tasks already under way,
+-- but cannot post, apply, message or rate
+CREATE OR REPLACE FUNCTION public.reject_suspended_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND suspended_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Your account is suspended'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.tasks;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.task_applications;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.task_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.joint_task_members;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.joint_task_members
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.chats;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.chats
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.messages;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+DROP TRIGGER IF EXISTS reject_suspended_user ON public.ratings;
+CREATE TRIGGER reject_suspended_user
+BEFORE INSERT ON public.ratings
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_suspended_user();
+
+-- Removed tasks stay visible to their parties (for History) and to admins only
+DROP POLICY IF EXISTS "Removed tasks are hidden" ON public.tasks;
+CREATE POLICY "Removed tasks are hidden"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+USING (
+  removed_at IS NULL
+  OR creator_id = auth.uid()
+  OR doer_id = auth.uid()
+  OR public.is_admin()
+);
+
+-- Removed messages keep their place in the conversation, so senders cannot
+-- write anything back into them
+CREATE OR REPLACE FUNCTION public.protect_removed_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.removed_at IS DISTINCT FROM OLD.removed_at
+    OR (OLD.removed_at IS NOT NULL AND (
+      NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.attachment IS DISTINCT FROM OLD.attachment
+      OR NEW.attachment_url IS DISTINCT FROM OLD.attachment_url
+    )) THEN
+    RAISE EXCEPTION 'This message was removed by a moderator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_removed_message ON public.messages;
+CREATE TRIGGER protect_removed_message
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_removed_message();
+
+-- Reports users file against tasks, messages and profiles
+CREATE TABLE IF NOT EXISTS public.reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('task', 'message', 'profile')),
+  target_id UUID NOT NULL,
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_open ON public.reports(created_at) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_target ON public.reports(target_type, target_id);
+
+-- Every admin action, with the reason given and what it changed
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id UUID,
+  reason TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON public.admin_audit_log(created_at DESC);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and admins can view reports"
+ON public.reports FOR SELECT
+TO authenticated
+USING (reporter_id = auth.uid() OR public.is_admin());
+
+CREATE POLICY "Admins can view the audit log"
+ON public.admin_audit_log FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+REVOKE ALL ON public.reports, public.admin_audit_log FROM anon, authenticated;
+GRANT SELECT ON public.reports, public.admin_audit_log TO authenticated;
+
+-- Maintenance jobs used to be callable by anyone; they now run from cron or the console
+REVOKE EXECUTE ON FUNCTION public.truncate_task_application_cache() FROM PUBLIC, anon, authenticated;
+
+-- Raises unless the caller is an admin
+CREATE OR REPLACE FUNCTION public.require_admin()
+RETURNS void AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can do this'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Writes an entry to the audit log for the calling admin
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  p_action TEXT,
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details JSONB DEFAULT '{}'::JSONB
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.admin_audit_log (admin_id, action, target_type, target_id, reason, details)
+  VALUES (auth.uid(), p_action, p_target_type, p_target_id, NULLIF(TRIM(COALESCE(p_reason, '')), ''), COALESCE(p_details, '{}'::JSONB));
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.require_admin() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(TEXT, TEXT, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Lists users whose username or full name matches p_query, newest first
+CREATE OR REPLACE FUNCTION public.admin_search_users(
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  doer_rating NUMERIC,
+  requestor_rating NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE,
+  tasks_created BIGINT,
+  tasks_done BIGINT,
+  open_reports BIGINT
+) AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.role,
+    p.suspended_at,
+    p.suspension_reason,
+    p.doer_rating::NUMERIC,
+    p.requestor_rating::NUMERIC,
+    p.created_at,
+    (SELECT COUNT(*) FROM public.tasks t WHERE t.creator_id = p.id),
+    (SELECT COUNT(*) FROM public.tasks t WHERE t.doer_id = p.id AND t.state = 'completed'),
+    (SELECT COUNT(*) FROM public.reports r WHERE r.target_type = 'profile' AND r.target_id = p.id AND r.status = 'open')
+  FROM public.profiles p
+  WHERE NULLIF(TRIM(COALESCE(p_query, '')), '') IS NULL
+    OR p.username ILIKE '%' || TRIM(p_query) || '%'
+    OR p.full_name ILIKE '%' || TRIM(p_query) || '%'
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER;
+
+-- Lists tasks whose title or description matches p_query, including removed ones
+CREATE OR REPLACE FUNCTION public.admin_search_tasks(
+  p_query TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  state TEXT,
+  reward INTEGER,
+  creator_id UUID,
+  creator_name TEXT,
+  doer_id UUID,
+  doer_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  removed_at TIMESTAMP WITH TIME ZONE,
+  removal_reason TEXT,
+  open_reports BIGINT
+) AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.title,
+    t.description,
+    t.state,
+    t.reward::INTEGER,
+    t.creator_id,
+    creator.username,
+    t.doer_id,
+    doer.username,
+    t.created_at,
+    t.removed_at,
+    t.removal_reason,
+    (SELECT COUNT(*) FROM public.reports r WHERE r.target_type = 'task' AND r.target_id = t.id AND r.status = 'open')
+  FROM public.tasks t
+  LEFT JOIN public.profiles creator ON creator.id = t.creator_id
+  LEFT JOIN public.profiles doer ON doer.id = t.doer_id
+  WHERE (p_state IS NULL OR t.state = p_state)
+    AND (NULLIF(TRIM(COALESCE(p_query, '')), '') IS NULL
+      OR t.title ILIKE '%' || TRIM(p_query) || '%'
+      OR t.description ILIKE '%' || TRIM(p_query) || '%')
+  ORDER BY t.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER;
+
+-- Lists reports with a short preview of what was reported
+CREATE OR REPLACE FUNCTION public.admin_list_reports(
+  p_status TEXT DEFAULT 'open',
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  reporter_id UUID,
+  reporter_name TEXT,
+  target_type TEXT,
+  target_id UUID,
+  target_owner_id UUID,
+  target_owner_name TEXT,
+  target_preview TEXT,
+  target_removed BOOLEAN,
+  reason TEXT,
+  details TEXT,
+  status TEXT,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.reporter_id,
+    reporter.username,
+    r.target_type,
+    r.target_id,
+    target.owner_id,
+    owner.username,
+    target.preview,
+    COALESCE(target.removed, FALSE),
+    r.reason,
+    r.details,
+    r.status,
+    r.resolution_note,
+    r.created_at,
+    r.resolved_at
+  FROM public.reports r
+  LEFT JOIN public.profiles reporter ON reporter.id = r.reporter_id
+  LEFT JOIN LATERAL (
+    SELECT t.creator_id AS owner_id, t.title AS preview, t.removed_at IS NOT NULL AS removed
+    FROM public.tasks t WHERE r.target_type = 'task' AND t.id = r.target_id
+    UNION ALL
+    SELECT m.sender_id, COALESCE(NULLIF(m.content, ''), m.attachment_name), m.removed_at IS NOT NULL
+    FROM public.messages m WHERE r.target_type = 'message' AND m.id = r.target_id
+    UNION ALL
+    SELECT p.id, COALESCE(p.full_name, p.username), p.suspended_at IS NOT NULL
+    FROM public.profiles p WHERE r.target_type = 'profile' AND p.id = r.target_id
+  ) target ON TRUE
+  LEFT JOIN public.profiles owner ON owner.id = target.owner_id
+  WHERE p_status IS NULL OR r.status = p_status
+  ORDER BY r.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER;
+
+-- Function for admins to suspend a user, or lift a suspension
+CREATE OR REPLACE FUNCTION public.admin_set_user_suspension(p_user_id UUID, p_suspended BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+BEGIN
+  PERFORM public.require_admin();
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_suspended AND v_profile.role = 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot be suspended'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_suspended AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to suspend a user'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.profiles
+  SET suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, NOW()) END,
+      suspension_reason = CASE WHEN p_suspended THEN v_reason END
+  WHERE id = p_user_id;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN p_suspended THEN 'suspend_user' ELSE 'unsuspend_user' END,
+    'profile', p_user_id, v_reason,
+    JSONB_BUILD_OBJECT('username', v_profile.username)
+  );
+
+  PERFORM public.notify_user(
+    p_user_id,
+    CASE WHEN p_suspended THEN 'account_suspended' ELSE 'account_restored' END,
+    CASE WHEN p_suspended THEN 'Your account has been suspended' ELSE 'Your account has been restored' END,
+    v_reason,
+    '/profile',
+    NULL
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to take down a task. Tasks that can still be cancelled
+-- are cancelled (refunding the creator); either way the task is hidden from
+-- everyone but its parties.
+CREATE OR REPLACE FUNCTION public.admin_take_down_task(p_task_id UUID, p_reason TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+BEGIN
+  PERFORM public.require_admin();
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to take down a task'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_task.state = 'disputed' THEN
+    RAISE EXCEPTION 'Resolve the dispute on this task before taking it down'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.task_state_transition_allowed(v_task.state, 'cancelled') THEN
+    UPDATE public.tasks
+    SET state = 'cancelled',
+        cancellation_reason = 'Removed by a moderator: ' || v_reason,
+        cancelled_at = NOW()
+    WHERE id = p_task_id;
+  END IF;
+
+  UPDATE public.tasks
+  SET removed_at = NOW(),
+      removal_reason = v_reason
+  WHERE id = p_task_id;
+
+  PERFORM public.log_admin_action(
+    'take_down_task', 'task', p_task_id, v_reason,
+    JSONB_BUILD_OBJECT('title', v_task.title, 'state', v_task.state, 'creator_id', v_task.creator_id)
+  );
+
+  PERFORM public.notify_user(
+    v_task.creator_id,
+    'task_removed',
+    'Task removed: ' || v_task.title,
+    v_reason,
+    '/history',
+    p_task_id
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to take down a chat message. Its content and attachment
+-- are cleared; the original is kept in the audit log.
+CREATE OR REPLACE FUNCTION public.admin_take_down_message(p_message_id UUID, p_reason TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+BEGIN
+  PERFORM public.require_admin();
+
+  SELECT * INTO v_message FROM public.messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to take down a message'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.messages
+  SET content = '',
+      attachment = NULL,
+      attachment_url = NULL,
+      attachment_name = NULL,
+      attachment_type = NULL,
+      attachment_size = NULL,
+      removed_at = NOW()
+  WHERE id = p_message_id;
+
+  PERFORM public.log_admin_action(
+    'take_down_message', 'message', p_message_id, v_reason,
+    JSONB_BUILD_OBJECT(
+      'sender_id', v_message.sender_id,
+      'receiver_id', v_message.receiver_id,
+      'content', v_message.content,
+      'attachment_url', COALESCE(v_message.attachment ->> 'url', v_message.attachment_url)
+    )
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to clear the ratings a user received and reset their
+-- averages, for ratings that were obviously gamed
+CREATE OR REPLACE FUNCTION public.admin_reset_ratings(p_user_id UUID, p_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+  v_removed INTEGER;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reset ratings'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.ratings WHERE rated_id = p_user_id;
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  UPDATE public.user_ratings
+  SET doer_rating = 0,
+      creator_rating = 0,
+      rating_count_doer = 0,
+      rating_count_creator = 0,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  UPDATE public.profiles
+  SET doer_rating = 0,
+      requestor_rating = 0
+  WHERE id = p_user_id;
+
+  PERFORM public.log_admin_action(
+    'reset_ratings', 'profile', p_user_id, v_reason,
+    JSONB_BUILD_OBJECT('removed', v_removed)
+  );
+
+  RETURN v_removed;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to close a report as actioned or dismissed
+CREATE OR REPLACE FUNCTION public.admin_resolve_report(p_report_id UUID, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_report public.reports%ROWTYPE;
+  v_note TEXT := NULLIF(TRIM(COALESCE(p_note, '')), '');
+BEGIN
+  PERFORM public.require_admin();
+
+  IF p_status NOT IN ('actioned', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown report status %', p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_report FROM public.reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_report.status <> 'open' THEN
+    RAISE EXCEPTION 'This report has already been closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.reports
+  SET status = p_status,
+      resolution_note = v_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_report_id;
+
+  PERFORM public.log_admin_action(
+    CASE WHEN p_status = 'actioned' THEN 'action_report' ELSE 'dismiss_report' END,
+    'report', p_report_id, v_note,
+    JSONB_BUILD_OBJECT('target_type', v_report.target_type, 'target_id', v_report.target_id)
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to run a maintenance job now instead of waiting for cron.
+-- expire_overdue_tasks replaced delete_expired_tasks in 20250415000000.
+CREATE OR REPLACE FUNCTION public.admin_run_maintenance(p_job TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_affected INTEGER := 0;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF p_job = 'expire_overdue_tasks' THEN
+    v_affected := public.expire_overdue_tasks();
+  ELSIF p_job = 'truncate_task_application_cache' THEN
+    SELECT COUNT(*) INTO v_affected
+    FROM public.task_applications
+    WHERE status = 'pending' AND created_at < NOW() - INTERVAL '14 days';
+
+    PERFORM public.truncate_task_application_cache();
+  ELSE
+    RAISE EXCEPTION 'Unknown maintenance job %', p_job
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    'run_maintenance', NULL, NULL, NULL,
+    JSONB_BUILD_OBJECT('job', p_job, 'affected', v_affected)
+  );
+
+  RETURN v_affected;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.admin_search_users(TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_search_users(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_search_tasks(TEXT, TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_search_tasks(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_list_reports(TEXT, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_list_reports(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_suspension(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_suspension(UUID, BOOLEAN, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_take_down_task(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_take_down_task(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_take_down_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_take_down_message(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_reset_ratings(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_reset_ratings(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_resolve_report(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_resolve_report(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.admin_run_maintenance(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_run_maintenance(TEXT) TO service_role;
+
+-- Enable realtime so the console picks up new reports and other admins' actions
+ALTER TABLE public.reports REPLICA IDENTITY FULL;
+ALTER TABLE public.admin_audit_log REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reports;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.admin_audit_log;
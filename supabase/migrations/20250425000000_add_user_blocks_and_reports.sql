@@ -0,0 +1,197 @@
+-- User blocking and reporting
+--
+-- A block works in both directions: neither user sees the other's tasks or
+-- applications, and neither can start a chat with or message the other.
+-- Reports on tasks, messages and profiles go to the moderation queue in the
+-- admin console (see 20250424000000).
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+  blocker_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT user_blocks_not_self CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON public.user_blocks(blocked_id);
+
+-- Users manage their own block list and never see who blocked them
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their block list"
+ON public.user_blocks FOR SELECT
+TO authenticated
+USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block other users"
+ON public.user_blocks FOR INSERT
+TO authenticated
+WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock users"
+ON public.user_blocks FOR DELETE
+TO authenticated
+USING (blocker_id = auth.uid());
+
+REVOKE ALL ON public.user_blocks FROM anon, authenticated;
+GRANT SELECT, INSERT, DELETE ON public.user_blocks TO authenticated;
+
+-- Returns whether either user has blocked the other. Runs as definer so a
+-- block is enforced even though the blocked user cannot see it; clients only
+-- get is_blocked_with, which always asks about the caller.
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_id UUID, p_other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE (blocker_id = p_user_id AND blocked_id = p_other_user_id)
+       OR (blocker_id = p_other_user_id AND blocked_id = p_user_id)
+  );
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.is_blocked_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Returns whether the caller and p_user_id have blocked each other either way.
+-- Every policy below checks the caller against the other user through it.
+CREATE OR REPLACE FUNCTION public.is_blocked_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_blocked_between(auth.uid(), p_user_id);
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+-- Same check against a task's creator. The task itself is hidden from a blocked
+-- caller, so the creator has to be looked up as definer.
+CREATE OR REPLACE FUNCTION public.is_blocked_with_task_creator(p_task_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_blocked_between(auth.uid(), (SELECT creator_id FROM public.tasks WHERE id = p_task_id));
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+-- Blocks narrow the existing policies, so they are added as restrictive ones.
+-- Parties to a task keep seeing it, so History and disputes still work.
+DROP POLICY IF EXISTS "Tasks from blocked users are hidden" ON public.tasks;
+CREATE POLICY "Tasks from blocked users are hidden"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+USING (
+  auth.uid() IS NULL
+  OR creator_id = auth.uid()
+  OR doer_id = auth.uid()
+  OR NOT public.is_blocked_with(creator_id)
+);
+
+DROP POLICY IF EXISTS "Applications from blocked users are hidden" ON public.task_applications;
+CREATE POLICY "Applications from blocked users are hidden"
+ON public.task_applications AS RESTRICTIVE FOR SELECT
+USING (
+  applicant_id = auth.uid()
+  OR NOT public.is_blocked_with(applicant_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot apply" ON public.task_applications;
+CREATE POLICY "Blocked users cannot apply"
+ON public.task_applications AS RESTRICTIVE FOR INSERT
+WITH CHECK (
+  NOT public.is_blocked_with_task_creator(task_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot join joint tasks" ON public.joint_task_members;
+CREATE POLICY "Blocked users cannot join joint tasks"
+ON public.joint_task_members AS RESTRICTIVE FOR INSERT
+WITH CHECK (
+  NOT public.is_blocked_with_task_creator(task_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot start chats" ON public.chats;
+CREATE POLICY "Blocked users cannot start chats"
+ON public.chats AS RESTRICTIVE FOR INSERT
+WITH CHECK (NOT public.is_blocked_with(CASE WHEN user1_id = auth.uid() THEN user2_id ELSE user1_id END));
+
+DROP POLICY IF EXISTS "Blocked users cannot message each other" ON public.messages;
+CREATE POLICY "Blocked users cannot message each other"
+ON public.messages AS RESTRICTIVE FOR INSERT
+WITH CHECK (NOT public.is_blocked_with(receiver_id));
+
+-- One open report per reporter and target; a closed report can be filed again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_per_reporter
+ON public.reports(reporter_id, target_type, target_id) WHERE status = 'open';
+
+-- Function for users to report a task, a message they received or a profile.
+-- Admins are notified so the report shows up in their queue straight away.
+CREATE OR REPLACE FUNCTION public.submit_report(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_owner_id UUID;
+  v_report_id UUID;
+  v_admin_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report content'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to file a report'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_target_type = 'task' THEN
+    SELECT creator_id INTO v_owner_id FROM public.tasks WHERE id = p_target_id;
+  ELSIF p_target_type = 'message' THEN
+    -- Only the recipient of a message can report it
+    SELECT sender_id INTO v_owner_id FROM public.messages
+    WHERE id = p_target_id AND receiver_id = auth.uid();
+  ELSIF p_target_type = 'profile' THEN
+    SELECT id INTO v_owner_id FROM public.profiles WHERE id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown report target %', p_target_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_owner_id IS NULL THEN
+    RAISE EXCEPTION 'The reported % was not found', p_target_type
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report your own content'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, target_type, target_id, reason, details)
+  VALUES (auth.uid(), p_target_type, p_target_id, TRIM(p_reason), NULLIF(TRIM(COALESCE(p_details, '')), ''))
+  RETURNING id INTO v_report_id;
+
+  FOR v_admin_id IN SELECT id FROM public.profiles WHERE role = 'admin' LOOP
+    PERFORM public.notify_user(
+      v_admin_id,
+      'report_submitted',
+      'New report: ' || p_target_type,
+      TRIM(p_reason),
+      '/admin',
+      CASE WHEN p_target_type = 'task' THEN p_target_id END
+    );
+  END LOOP;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.is_blocked_with(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_blocked_with(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.is_blocked_with_task_creator(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_blocked_with_task_creator(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.submit_report(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_report(TEXT, UUID, TEXT, TEXT) TO service_role;
+
+-- Enable realtime so a user's other tabs pick up blocks straight away
+ALTER TABLE public.user_blocks REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_blocks;
@@ -0,0 +1,125 @@
+-- Coordinates for tasks and a distance filter for the feed
+--
+-- location stays the free-text address shown on the task; latitude and longitude
+-- are set when the creator pins it, from a geocoder result or their own position.
+-- Plain columns are used instead of PostGIS so the project runs without the extension.
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_coordinates_check;
+ALTER TABLE public.tasks ADD CONSTRAINT tasks_coordinates_check CHECK (
+  (latitude IS NULL AND longitude IS NULL)
+  OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+);
+
+-- Creators can move or remove the pin when editing the task
+GRANT UPDATE (latitude, longitude) ON public.tasks TO authenticated;
+
+-- The distance filter first narrows open tasks to a bounding box on this index
+CREATE INDEX IF NOT EXISTS idx_tasks_coordinates ON public.tasks(latitude, longitude)
+WHERE state = 'open' AND latitude IS NOT NULL;
+
+-- Great-circle distance in kilometres between two points (haversine formula)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_other_latitude DOUBLE PRECISION,
+  p_other_longitude DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT 2 * 6371 * ASIN(SQRT(
+    POWER(SIN(RADIANS(p_other_latitude - p_latitude) / 2), 2)
+    + COS(RADIANS(p_latitude)) * COS(RADIANS(p_other_latitude))
+      * POWER(SIN(RADIANS(p_other_longitude - p_longitude) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- New filters change the signature, so the old version has to go
+DROP FUNCTION IF EXISTS public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID);
+
+-- Function to search open tasks one page at a time. Each row is the task plus its search_rank,
+-- and its distance_km from p_near_latitude/p_near_longitude when a point is given.
+-- Tasks created, applied for or joined by the caller are left out of their feed.
+-- p_radius_km keeps tasks within that distance of the point; tasks without coordinates
+-- are left out when it is set, and p_located_only leaves them out on its own (for the map).
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_query TEXT DEFAULT NULL,
+  p_min_reward INTEGER DEFAULT NULL,
+  p_max_reward INTEGER DEFAULT NULL,
+  p_deadline_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_task_type TEXT DEFAULT NULL,
+  p_min_creator_rating NUMERIC DEFAULT NULL,
+  p_near_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_near_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_located_only BOOLEAN DEFAULT FALSE,
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_rank NUMERIC DEFAULT NULL,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS SETOF JSONB AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(p_query) AS query,
+      p_near_latitude IS NOT NULL AND p_near_longitude IS NOT NULL AS has_point,
+      -- Degrees of latitude and longitude covering the radius, for the bounding box
+      p_radius_km / 111.0 AS lat_span,
+      p_radius_km / (111.0 * GREATEST(COS(RADIANS(COALESCE(p_near_latitude, 0))), 0.01)) AS lng_span
+  ),
+  ranked AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN q.query IS NULL THEN 0
+        ELSE ROUND(ts_rank(t.search_vector, q.query)::NUMERIC, 6)
+      END AS search_rank,
+      CASE
+        WHEN q.has_point AND t.latitude IS NOT NULL
+        THEN ROUND(public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude)::NUMERIC, 2)
+      END AS distance_km
+    FROM public.tasks t
+    CROSS JOIN q
+    LEFT JOIN public.user_ratings ur ON ur.user_id = t.creator_id
+    WHERE t.state = 'open'
+      AND (q.query IS NULL OR t.search_vector @@ q.query)
+      AND (p_min_reward IS NULL OR t.reward >= p_min_reward)
+      AND (p_max_reward IS NULL OR t.reward <= p_max_reward)
+      AND (p_deadline_before IS NULL OR t.deadline <= p_deadline_before)
+      AND (p_task_type IS NULL OR t.task_type = p_task_type)
+      AND (p_min_creator_rating IS NULL OR COALESCE(ur.creator_rating, 0) >= p_min_creator_rating)
+      AND (NOT COALESCE(p_located_only, FALSE) OR t.latitude IS NOT NULL)
+      AND (
+        p_radius_km IS NULL OR NOT q.has_point OR (
+          t.latitude BETWEEN p_near_latitude - q.lat_span AND p_near_latitude + q.lat_span
+          AND t.longitude BETWEEN p_near_longitude - q.lng_span AND p_near_longitude + q.lng_span
+          AND public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude) <= p_radius_km
+        )
+      )
+      AND (
+        auth.uid() IS NULL OR (
+          t.creator_id <> auth.uid()
+          AND NOT EXISTS (
+            SELECT 1 FROM public.task_applications a
+            WHERE a.task_id = t.id AND a.applicant_id = auth.uid()
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM public.joint_task_members m
+            WHERE m.task_id = t.id AND m.user_id = auth.uid()
+          )
+        )
+      )
+  )
+  SELECT to_jsonb(r) - 'search_vector'
+  FROM ranked r
+  WHERE p_cursor_created_at IS NULL
+     OR (r.search_rank, r.created_at, r.id) < (COALESCE(p_cursor_rank, 0), p_cursor_created_at, p_cursor_id)
+  ORDER BY r.search_rank DESC, r.created_at DESC, r.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.distance_km(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.distance_km(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, BOOLEAN, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, BOOLEAN, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO service_role;
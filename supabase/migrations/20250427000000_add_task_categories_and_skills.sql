@@ -0,0 +1,268 @@
+-- Task categories, tags and skill matching
+--
+-- Every new task belongs to one category from a fixed taxonomy and can carry a few
+-- free-form tags. Users list their skills on their profile; recommend_tasks ranks
+-- open tasks for them by skill/tag overlap, how well they have done similar work
+-- and how far away the task is.
+CREATE TABLE IF NOT EXISTS public.task_categories (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.task_categories (id, name, description, sort_order) VALUES
+  ('errands', 'Errands', 'Shopping, pickups, queues and other running around', 10),
+  ('delivery', 'Delivery', 'Taking something from one place to another', 20),
+  ('cleaning', 'Cleaning', 'Homes, offices, vehicles and laundry', 30),
+  ('repairs', 'Repairs', 'Plumbing, electrical, carpentry and fixing things', 40),
+  ('moving', 'Moving', 'Packing, lifting and shifting', 50),
+  ('tech', 'Tech Help', 'Computers, phones, setup and troubleshooting', 60),
+  ('tutoring', 'Tutoring', 'Lessons, homework help and coaching', 70),
+  ('pets', 'Pet Care', 'Walking, feeding and sitting', 80),
+  ('gardening', 'Gardening', 'Plants, lawns and outdoor work', 90),
+  ('events', 'Events', 'Setup, serving and help on the day', 100),
+  ('creative', 'Creative', 'Design, writing, photos and video', 110),
+  ('other', 'Other', 'Anything that does not fit elsewhere', 1000)
+ON CONFLICT (id) DO NOTHING;
+
+-- The taxonomy is managed through migrations, so clients can only read it
+ALTER TABLE public.task_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view task categories"
+ON public.task_categories FOR SELECT
+USING (true);
+
+REVOKE ALL ON public.task_categories FROM anon, authenticated;
+GRANT SELECT ON public.task_categories TO anon, authenticated;
+
+-- Existing tasks keep a NULL category
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS category_id TEXT REFERENCES public.task_categories(id);
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}';
+
+GRANT UPDATE (category_id, tags) ON public.tasks TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_category_id ON public.tasks(category_id) WHERE state = 'open';
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON public.tasks USING GIN(tags);
+
+-- Lowercases, trims and de-duplicates a list of tags or skills, keeping the first
+-- p_max non-empty entries of at most 30 characters each
+CREATE OR REPLACE FUNCTION public.normalize_tags(p_tags TEXT[], p_max INTEGER)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(ARRAY(
+    SELECT tag FROM (
+      SELECT LEFT(LOWER(TRIM(raw)), 30) AS tag, MIN(ord) AS first_seen
+      FROM unnest(COALESCE(p_tags, '{}')) WITH ORDINALITY AS t(raw, ord)
+      WHERE TRIM(raw) <> ''
+      GROUP BY 1
+    ) tags
+    ORDER BY first_seen
+    LIMIT p_max
+  ), '{}');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Trigger function to keep task tags tidy so they match skills reliably
+CREATE OR REPLACE FUNCTION public.normalize_task_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags, 10);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS normalize_task_tags ON public.tasks;
+CREATE TRIGGER normalize_task_tags
+BEFORE INSERT OR UPDATE OF tags ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_task_tags();
+
+-- Trigger function to keep profile skills tidy the same way
+CREATE OR REPLACE FUNCTION public.normalize_profile_skills()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.skills := public.normalize_tags(NEW.skills, 20);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS normalize_profile_skills ON public.profiles;
+CREATE TRIGGER normalize_profile_skills
+BEFORE INSERT OR UPDATE OF skills ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_profile_skills();
+
+-- The category and tag facets change the signature, so the old version has to go
+DROP FUNCTION IF EXISTS public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, BOOLEAN, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID);
+
+-- Function to search open tasks one page at a time. Each row is the task plus its search_rank,
+-- and its distance_km from p_near_latitude/p_near_longitude when a point is given.
+-- Tasks created, applied for or joined by the caller are left out of their feed.
+-- p_radius_km keeps tasks within that distance of the point; tasks without coordinates
+-- are left out when it is set, and p_located_only leaves them out on its own (for the map).
+-- p_category_id and p_tag narrow the feed to one category or one tag.
+CREATE OR REPLACE FUNCTION public.search_tasks(
+  p_query TEXT DEFAULT NULL,
+  p_min_reward INTEGER DEFAULT NULL,
+  p_max_reward INTEGER DEFAULT NULL,
+  p_deadline_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_task_type TEXT DEFAULT NULL,
+  p_min_creator_rating NUMERIC DEFAULT NULL,
+  p_near_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_near_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_located_only BOOLEAN DEFAULT FALSE,
+  p_category_id TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_rank NUMERIC DEFAULT NULL,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS SETOF JSONB AS $$
+  WITH q AS (
+    SELECT
+      public.to_prefix_tsquery(p_query) AS query,
+      p_near_latitude IS NOT NULL AND p_near_longitude IS NOT NULL AS has_point,
+      -- Degrees of latitude and longitude covering the radius, for the bounding box
+      p_radius_km / 111.0 AS lat_span,
+      p_radius_km / (111.0 * GREATEST(COS(RADIANS(COALESCE(p_near_latitude, 0))), 0.01)) AS lng_span
+  ),
+  ranked AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN q.query IS NULL THEN 0
+        ELSE ROUND(ts_rank(t.search_vector, q.query)::NUMERIC, 6)
+      END AS search_rank,
+      CASE
+        WHEN q.has_point AND t.latitude IS NOT NULL
+        THEN ROUND(public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude)::NUMERIC, 2)
+      END AS distance_km
+    FROM public.tasks t
+    CROSS JOIN q
+    LEFT JOIN public.user_ratings ur ON ur.user_id = t.creator_id
+    WHERE t.state = 'open'
+      AND (q.query IS NULL OR t.search_vector @@ q.query)
+      AND (p_min_reward IS NULL OR t.reward >= p_min_reward)
+      AND (p_max_reward IS NULL OR t.reward <= p_max_reward)
+      AND (p_deadline_before IS NULL OR t.deadline <= p_deadline_before)
+      AND (p_task_type IS NULL OR t.task_type = p_task_type)
+      AND (p_min_creator_rating IS NULL OR COALESCE(ur.creator_rating, 0) >= p_min_creator_rating)
+      AND (p_category_id IS NULL OR t.category_id = p_category_id)
+      AND (p_tag IS NULL OR t.tags @> ARRAY[LOWER(TRIM(p_tag))])
+      AND (NOT COALESCE(p_located_only, FALSE) OR t.latitude IS NOT NULL)
+      AND (
+        p_radius_km IS NULL OR NOT q.has_point OR (
+          t.latitude BETWEEN p_near_latitude - q.lat_span AND p_near_latitude + q.lat_span
+          AND t.longitude BETWEEN p_near_longitude - q.lng_span AND p_near_longitude + q.lng_span
+          AND public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude) <= p_radius_km
+        )
+      )
+      AND (
+        auth.uid() IS NULL OR (
+          t.creator_id <> auth.uid()
+          AND NOT EXISTS (
+            SELECT 1 FROM public.task_applications a
+            WHERE a.task_id = t.id AND a.applicant_id = auth.uid()
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM public.joint_task_members m
+            WHERE m.task_id = t.id AND m.user_id = auth.uid()
+          )
+        )
+      )
+  )
+  SELECT to_jsonb(r) - 'search_vector'
+  FROM ranked r
+  WHERE p_cursor_created_at IS NULL
+     OR (r.search_rank, r.created_at, r.id) < (COALESCE(p_cursor_rank, 0), p_cursor_created_at, p_cursor_id)
+  ORDER BY r.search_rank DESC, r.created_at DESC, r.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- Function to recommend open tasks to the caller. Each row is the task plus:
+--   recommendation_score  0..1, the weighted sum of the three signals below
+--   matched_skills        the caller's skills that match the task's tags or category
+--   distance_km           distance from the given point, when both are known
+-- Signals: skill overlap (50%), the caller's doer ratings on completed tasks in the
+-- same category, or their overall doer rating at half weight when they have none
+-- there (30%), and closeness, halving every 5 km (20%). Tasks with no skill match and
+-- no history in their category are left out, as are the caller's own, applied-for
+-- and joined tasks.
+CREATE OR REPLACE FUNCTION public.recommend_tasks(
+  p_near_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_near_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_limit INTEGER DEFAULT 6
+)
+RETURNS SETOF JSONB AS $$
+  WITH me AS (
+    SELECT
+      p.skills,
+      COALESCE(ur.doer_rating, 0) AS doer_rating
+    FROM public.profiles p
+    LEFT JOIN public.user_ratings ur ON ur.user_id = p.id
+    WHERE p.id = auth.uid()
+  ),
+  -- How the caller has been rated as a doer, per category
+  history AS (
+    SELECT t.category_id, AVG(r.rating)::NUMERIC AS avg_rating
+    FROM public.ratings r
+    JOIN public.tasks t ON t.id = r.task_id
+    WHERE r.rated_id = auth.uid()
+      AND NOT r.is_for_creator
+      AND t.category_id IS NOT NULL
+    GROUP BY t.category_id
+  ),
+  candidates AS (
+    SELECT
+      t.*,
+      ARRAY(
+        SELECT skill FROM unnest(me.skills) AS skill
+        WHERE skill = ANY(t.tags) OR skill = t.category_id OR skill = LOWER(c.name)
+      ) AS matched_skills,
+      h.avg_rating AS category_rating,
+      me.doer_rating,
+      CASE
+        WHEN p_near_latitude IS NOT NULL AND p_near_longitude IS NOT NULL AND t.latitude IS NOT NULL
+        THEN ROUND(public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude)::NUMERIC, 2)
+      END AS distance_km
+    FROM public.tasks t
+    CROSS JOIN me
+    LEFT JOIN public.task_categories c ON c.id = t.category_id
+    LEFT JOIN history h ON h.category_id = t.category_id
+    WHERE t.state = 'open'
+      AND t.creator_id <> auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.task_applications a
+        WHERE a.task_id = t.id AND a.applicant_id = auth.uid()
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.joint_task_members m
+        WHERE m.task_id = t.id AND m.user_id = auth.uid()
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      ROUND((
+        0.5 * LEAST(CARDINALITY(c.matched_skills), 3) / 3.0
+        + 0.3 * COALESCE(c.category_rating / 5.0, c.doer_rating / 10.0)
+        + 0.2 * COALESCE(POWER(0.5, c.distance_km / 5.0), 0)
+      )::NUMERIC, 4) AS recommendation_score
+    FROM candidates c
+    WHERE CARDINALITY(c.matched_skills) > 0 OR c.category_rating IS NOT NULL
+  )
+  SELECT to_jsonb(s) - 'search_vector' - 'category_rating' - 'doer_rating'
+  FROM scored s
+  ORDER BY s.recommendation_score DESC, s.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 6), 1), 50);
+$$ LANGUAGE sql STABLE;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.normalize_tags(TEXT[], INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.normalize_tags(TEXT[], INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, BOOLEAN, TEXT, TEXT, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_tasks(TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, BOOLEAN, TEXT, TEXT, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recommend_tasks(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recommend_tasks(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO service_role;
@@ -0,0 +1,237 @@
+-- Task templates and recurring tasks
+--
+-- A template saves a task's details under a name so the creator can post it
+-- again without retyping. A recurring task repeats daily, weekly or monthly until
+-- an optional end date: spawn_recurring_tasks posts the next instance once the
+-- previous one is completed or its deadline passes. Instances are chained
+-- through recurrence_parent_id, so each one spawns at most one successor.
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) BETWEEN 1 AND 60),
+  title TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  reward INTEGER NOT NULL DEFAULT 100,
+  task_type TEXT NOT NULL DEFAULT 'normal' CHECK (task_type IN ('normal', 'joint')),
+  category_id TEXT REFERENCES public.task_categories(id),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  recurrence TEXT CHECK (recurrence IN ('daily', 'weekly', 'monthly')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_templates_owner_name_key UNIQUE (owner_id, name),
+  CONSTRAINT task_templates_coordinates_check CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  )
+);
+
+-- Templates are private to their owner
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own task templates"
+ON public.task_templates FOR SELECT
+TO authenticated
+USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can save task templates"
+ON public.task_templates FOR INSERT
+TO authenticated
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update their own task templates"
+ON public.task_templates FOR UPDATE
+TO authenticated
+USING (owner_id = auth.uid())
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can delete their own task templates"
+ON public.task_templates FOR DELETE
+TO authenticated
+USING (owner_id = auth.uid());
+
+REVOKE ALL ON public.task_templates FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_templates TO authenticated;
+
+-- Template tags are tidied the same way as task tags
+DROP TRIGGER IF EXISTS normalize_task_tags ON public.task_templates;
+CREATE TRIGGER normalize_task_tags
+BEFORE INSERT OR UPDATE OF tags ON public.task_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_task_tags();
+
+-- recurrence_held_at is set when the next instance could not be posted, so the
+-- creator is told once instead of on every run of the job
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS recurrence TEXT,
+ADD COLUMN IF NOT EXISTS recurrence_ends_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurrence_held_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_recurrence_check;
+ALTER TABLE public.tasks ADD CONSTRAINT tasks_recurrence_check CHECK (
+  recurrence IS NULL OR recurrence IN ('daily', 'weekly', 'monthly')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_parent_id ON public.tasks(recurrence_parent_id)
+WHERE recurrence_parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring ON public.tasks(deadline)
+WHERE recurrence IS NOT NULL;
+
+-- Creators can change or stop the repeat; the chain and hold marker belong to the job
+GRANT UPDATE (recurrence, recurrence_ends_at) ON public.tasks TO authenticated;
+
+-- Function to post the next instance of every recurring task that is completed or
+-- past its deadline. The next deadline is one period after the previous one, moved
+-- forward until it is in the future, and the series ends once it would fall after
+-- recurrence_ends_at. Like handleCreateTask in the app, a creator with three active
+-- tasks is not given another; the instance is held and posted on a later run once a
+-- slot frees up. The same goes for a creator who cannot cover the reward.
+CREATE OR REPLACE FUNCTION public.spawn_recurring_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_task RECORD;
+  v_step INTERVAL;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_active_count INTEGER;
+  v_held_reason TEXT;
+  v_new_task_id UUID;
+  spawned_count INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT t.* FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.creator_id
+    WHERE t.recurrence IS NOT NULL
+      AND t.removed_at IS NULL
+      AND p.suspended_at IS NULL
+      AND (t.state = 'completed' OR (t.deadline < NOW() AND t.state <> 'cancelled'))
+      AND (t.recurrence_ends_at IS NULL OR t.recurrence_ends_at > NOW())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks n WHERE n.recurrence_parent_id = t.id
+      )
+    ORDER BY t.deadline
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    v_step := CASE v_task.recurrence
+      WHEN 'daily' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '7 days'
+      ELSE INTERVAL '1 month'
+    END;
+
+    v_deadline := v_task.deadline + v_step;
+    WHILE v_deadline <= NOW() LOOP
+      v_deadline := v_deadline + v_step;
+    END LOOP;
+
+    IF v_task.recurrence_ends_at IS NOT NULL AND v_deadline > v_task.recurrence_ends_at THEN
+      CONTINUE;
+    END IF;
+
+    v_held_reason := NULL;
+
+    SELECT COUNT(*) INTO v_active_count
+    FROM public.tasks
+    WHERE creator_id = v_task.creator_id
+      AND state IN ('draft', 'open', 'assigned', 'in_progress', 'awaiting_verification', 'disputed');
+
+    IF v_active_count >= 3 THEN
+      v_held_reason := 'You already have 3 active tasks. It will be posted once one of them is finished.';
+    ELSE
+      BEGIN
+        INSERT INTO public.tasks (
+          creator_id, title, description, location, latitude, longitude, reward, deadline,
+          task_type, category_id, tags, recurrence, recurrence_ends_at, recurrence_parent_id
+        )
+        VALUES (
+          v_task.creator_id, v_task.title, v_task.description, v_task.location,
+          v_task.latitude, v_task.longitude, v_task.reward, v_deadline,
+          v_task.task_type, v_task.category_id, v_task.tags,
+          v_task.recurrence, v_task.recurrence_ends_at, v_task.id
+        )
+        RETURNING id INTO v_new_task_id;
+      EXCEPTION
+        -- The escrow hold refuses a reward the creator cannot cover
+        WHEN check_violation THEN
+          v_held_reason := 'You don''t have enough points to fund its reward. It will be posted once you do.';
+      END;
+    END IF;
+
+    IF v_held_reason IS NOT NULL THEN
+      IF v_task.recurrence_held_at IS NULL THEN
+        UPDATE public.tasks SET recurrence_held_at = NOW() WHERE id = v_task.id;
+
+        PERFORM public.notify_user(
+          v_task.creator_id,
+          'task_recurrence_held',
+          'Next instance on hold: ' || v_task.title,
+          v_held_reason,
+          '/task',
+          v_task.id
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    PERFORM public.notify_user(
+      v_task.creator_id,
+      'task_recurred',
+      'Task posted again: ' || v_task.title,
+      'The next instance is due ' || TO_CHAR(v_deadline, 'FMDD Mon YYYY') || '.',
+      '/task',
+      v_new_task_id
+    );
+
+    spawned_count := spawned_count + 1;
+  END LOOP;
+
+  RETURN spawned_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Runs from cron or the admin console only
+REVOKE EXECUTE ON FUNCTION public.spawn_recurring_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Function for admins to run a maintenance job now instead of waiting for cron.
+-- expire_overdue_tasks replaced delete_expired_tasks in 20250415000000.
+CREATE OR REPLACE FUNCTION public.admin_run_maintenance(p_job TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_affected INTEGER := 0;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF p_job = 'expire_overdue_tasks' THEN
+    v_affected := public.expire_overdue_tasks();
+  ELSIF p_job = 'spawn_recurring_tasks' THEN
+    v_affected := public.spawn_recurring_tasks();
+  ELSIF p_job = 'truncate_task_application_cache' THEN
+    SELECT COUNT(*) INTO v_affected
+    FROM public.task_applications
+    WHERE status = 'pending' AND created_at < NOW() - INTERVAL '14 days';
+
+    PERFORM public.truncate_task_application_cache();
+  ELSE
+    RAISE EXCEPTION 'Unknown maintenance job %', p_job
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    'run_maintenance', NULL, NULL, NULL,
+    JSONB_BUILD_OBJECT('job', p_job, 'affected', v_affected)
+  );
+
+  RETURN v_affected;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.spawn_recurring_tasks() TO service_role;
+
+-- If your database supports pg_cron, post recurring tasks every 15 minutes, just after expiry runs:
+-- SELECT cron.schedule('5,20,35,50 * * * *', 'SELECT public.spawn_recurring_tasks()');
@@ -0,0 +1,229 @@
+-- User rating aggregates computed from the ratings table
+--
+-- user_ratings used to be a running average bumped by update_user_rating, which
+-- clients called after inserting a rating. A retried submit bumped it again even
+-- though the duplicate rating was rejected, so counts drifted upwards. The
+-- averages are now recomputed from ratings by a trigger whenever a rating is
+-- added, changed or removed, and clients can no longer write them at all.
+DROP FUNCTION IF EXISTS public.update_user_rating(UUID, BOOLEAN, DECIMAL);
+
+DROP POLICY IF EXISTS "Allow insert of user ratings" ON public.user_ratings;
+DROP POLICY IF EXISTS "Allow update of user ratings" ON public.user_ratings;
+REVOKE INSERT, UPDATE, DELETE ON public.user_ratings FROM anon, authenticated;
+
+-- A rater can change their score, but not what or whom it is for
+REVOKE UPDATE ON public.ratings FROM anon, authenticated;
+GRANT UPDATE (rating) ON public.ratings TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_ratings_rated_id_role ON public.ratings(rated_id, is_for_creator);
+
+-- Recomputes one user's averages and counts from their ratings, and copies the
+-- averages onto their profile. Ratings with is_for_creator set rate the user as a creator.
+CREATE OR REPLACE FUNCTION public.recompute_user_ratings(p_user_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_doer_rating DECIMAL;
+  v_doer_count INTEGER;
+  v_creator_rating DECIMAL;
+  v_creator_count INTEGER;
+BEGIN
+  SELECT
+    COALESCE(AVG(rating) FILTER (WHERE NOT is_for_creator), 0),
+    COUNT(*) FILTER (WHERE NOT is_for_creator),
+    COALESCE(AVG(rating) FILTER (WHERE is_for_creator), 0),
+    COUNT(*) FILTER (WHERE is_for_creator)
+  INTO v_doer_rating, v_doer_count, v_creator_rating, v_creator_count
+  FROM public.ratings
+  WHERE rated_id = p_user_id;
+
+  INSERT INTO public.user_ratings (
+    user_id, doer_rating, creator_rating, rating_count_doer, rating_count_creator, updated_at
+  )
+  VALUES (p_user_id, v_doer_rating, v_creator_rating, v_doer_count, v_creator_count, NOW())
+  ON CONFLICT (user_id) DO UPDATE
+  SET doer_rating = EXCLUDED.doer_rating,
+      creator_rating = EXCLUDED.creator_rating,
+      rating_count_doer = EXCLUDED.rating_count_doer,
+      rating_count_creator = EXCLUDED.rating_count_creator,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.profiles
+  SET doer_rating = v_doer_rating,
+      requestor_rating = v_creator_rating
+  WHERE id = p_user_id
+    AND (doer_rating IS DISTINCT FROM v_doer_rating OR requestor_rating IS DISTINCT FROM v_creator_rating);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.recompute_user_ratings(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Trigger function to keep the rated user's aggregates in step with their ratings
+CREATE OR REPLACE FUNCTION public.sync_user_ratings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.recompute_user_ratings(NEW.rated_id);
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.rated_id IS DISTINCT FROM NEW.rated_id) THEN
+    PERFORM public.recompute_user_ratings(OLD.rated_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_user_ratings ON public.ratings;
+CREATE TRIGGER sync_user_ratings
+AFTER INSERT OR UPDATE OR DELETE ON public.ratings
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_user_ratings();
+
+-- Function to recompute every user's aggregates, repairing drift from the old
+-- running averages. Covers users with ratings and users with a stale row left
+-- over after theirs were removed. Returns the number of users recomputed.
+CREATE OR REPLACE FUNCTION public.recompute_all_user_ratings()
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID;
+  recomputed_count INTEGER := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT rated_id FROM public.ratings
+    UNION
+    SELECT user_id FROM public.user_ratings
+    UNION
+    SELECT id FROM public.profiles WHERE doer_rating <> 0 OR requestor_rating <> 0
+  LOOP
+    PERFORM public.recompute_user_ratings(v_user_id);
+    recomputed_count := recomputed_count + 1;
+  END LOOP;
+
+  RETURN recomputed_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.recompute_all_user_ratings() FROM PUBLIC, anon, authenticated;
+
+-- Profile ratings are copies of user_ratings. Users keep updating the rest of their
+-- profile, but the rating columns only change when recompute_user_ratings runs
+-- from the ratings trigger, which makes this a nested trigger call.
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'user';
+    NEW.suspended_at := NULL;
+    NEW.suspension_reason := NULL;
+    NEW.doer_rating := 0;
+    NEW.requestor_rating := 0;
+    RETURN NEW;
+  END IF;
+
+  IF pg_trigger_depth() = 1 THEN
+    NEW.doer_rating := OLD.doer_rating;
+    NEW.requestor_rating := OLD.requestor_rating;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  ELSIF NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+    OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason THEN
+    RAISE EXCEPTION 'Only admins can change suspensions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Removing the ratings is enough now; the trigger zeroes the aggregates
+CREATE OR REPLACE FUNCTION public.admin_reset_ratings(p_user_id UUID, p_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_reason, '')), '');
+  v_removed INTEGER;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reset ratings'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.ratings WHERE rated_id = p_user_id;
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  -- Covers a user whose aggregates had drifted without any ratings to delete
+  PERFORM public.recompute_user_ratings(p_user_id);
+
+  PERFORM public.log_admin_action(
+    'reset_ratings', 'profile', p_user_id, v_reason,
+    JSONB_BUILD_OBJECT('removed', v_removed)
+  );
+
+  RETURN v_removed;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Function for admins to run a maintenance job now instead of waiting for cron.
+-- expire_overdue_tasks replaced delete_expired_tasks in 20250415000000.
+CREATE OR REPLACE FUNCTION public.admin_run_maintenance(p_job TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_affected INTEGER := 0;
+BEGIN
+  PERFORM public.require_admin();
+
+  IF p_job = 'expire_overdue_tasks' THEN
+    v_affected := public.expire_overdue_tasks();
+  ELSIF p_job = 'spawn_recurring_tasks' THEN
+    v_affected := public.spawn_recurring_tasks();
+  ELSIF p_job = 'recompute_all_user_ratings' THEN
+    v_affected := public.recompute_all_user_ratings();
+  ELSIF p_job = 'truncate_task_application_cache' THEN
+    SELECT COUNT(*) INTO v_affected
+    FROM public.task_applications
+    WHERE status = 'pending' AND created_at < NOW() - INTERVAL '14 days';
+
+    PERFORM public.truncate_task_application_cache();
+  ELSE
+    RAISE EXCEPTION 'Unknown maintenance job %', p_job
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM public.log_admin_action(
+    'run_maintenance', NULL, NULL, NULL,
+    JSONB_BUILD_OBJECT('job', p_job, 'affected', v_affected)
+  );
+
+  RETURN v_affected;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Repair the drift left by the old running averages
+SELECT public.recompute_all_user_ratings();
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.recompute_user_ratings(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recompute_all_user_ratings() TO service_role;
+
+-- Enable realtime so profiles and the leaderboard pick up new averages
+ALTER TABLE public.user_ratings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_ratings;
@@ -0,0 +1,188 @@
+-- Written reviews with sub-scores, and one public reply per review
+--
+-- A rating can carry an optional written review and sub-scores. Doers are scored
+-- on punctuality, communication and quality; creators on clarity and fairness.
+-- The reviewed user can answer each review once through reply_to_rating.
+ALTER TABLE public.ratings
+ADD COLUMN IF NOT EXISTS review TEXT,
+ADD COLUMN IF NOT EXISTS punctuality SMALLINT,
+ADD COLUMN IF NOT EXISTS communication SMALLINT,
+ADD COLUMN IF NOT EXISTS quality SMALLINT,
+ADD COLUMN IF NOT EXISTS clarity SMALLINT,
+ADD COLUMN IF NOT EXISTS fairness SMALLINT,
+ADD COLUMN IF NOT EXISTS reply TEXT,
+ADD COLUMN IF NOT EXISTS replied_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.ratings DROP CONSTRAINT IF EXISTS ratings_review_check;
+ALTER TABLE public.ratings ADD CONSTRAINT ratings_review_check CHECK (
+  (review IS NULL OR LENGTH(TRIM(review)) BETWEEN 1 AND 1000)
+  AND (reply IS NULL OR LENGTH(TRIM(reply)) BETWEEN 1 AND 1000)
+);
+
+-- Each sub-score is 1-5 and only applies to the role being rated
+ALTER TABLE public.ratings DROP CONSTRAINT IF EXISTS ratings_sub_scores_check;
+ALTER TABLE public.ratings ADD CONSTRAINT ratings_sub_scores_check CHECK (
+  COALESCE(punctuality, 1) BETWEEN 1 AND 5
+  AND COALESCE(communication, 1) BETWEEN 1 AND 5
+  AND COALESCE(quality, 1) BETWEEN 1 AND 5
+  AND COALESCE(clarity, 1) BETWEEN 1 AND 5
+  AND COALESCE(fairness, 1) BETWEEN 1 AND 5
+  AND (
+    CASE WHEN is_for_creator
+      THEN punctuality IS NULL AND communication IS NULL AND quality IS NULL
+      ELSE clarity IS NULL AND fairness IS NULL
+    END
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_ratings_reviews ON public.ratings(rated_id, created_at DESC)
+WHERE review IS NOT NULL;
+
+-- Replies only go through reply_to_rating
+REVOKE INSERT ON public.ratings FROM anon, authenticated;
+GRANT INSERT (task_id, rater_id, rated_id, rating, is_for_creator, review, punctuality, communication, quality, clarity, fairness)
+ON public.ratings TO authenticated;
+
+-- Sub-score averages, NULL until someone has given that sub-score
+ALTER TABLE public.user_ratings
+ADD COLUMN IF NOT EXISTS punctuality_rating DECIMAL,
+ADD COLUMN IF NOT EXISTS communication_rating DECIMAL,
+ADD COLUMN IF NOT EXISTS quality_rating DECIMAL,
+ADD COLUMN IF NOT EXISTS clarity_rating DECIMAL,
+ADD COLUMN IF NOT EXISTS fairness_rating DECIMAL,
+ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+-- Recomputes one user's averages and counts from their ratings, and copies the
+-- averages onto their profile. Ratings with is_for_creator set rate the user as a creator.
+CREATE OR REPLACE FUNCTION public.recompute_user_ratings(p_user_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_totals RECORD;
+BEGIN
+  SELECT
+    COALESCE(AVG(rating) FILTER (WHERE NOT is_for_creator), 0) AS doer_rating,
+    COUNT(*) FILTER (WHERE NOT is_for_creator) AS doer_count,
+    COALESCE(AVG(rating) FILTER (WHERE is_for_creator), 0) AS creator_rating,
+    COUNT(*) FILTER (WHERE is_for_creator) AS creator_count,
+    ROUND(AVG(punctuality), 2) AS punctuality,
+    ROUND(AVG(communication), 2) AS communication,
+    ROUND(AVG(quality), 2) AS quality,
+    ROUND(AVG(clarity), 2) AS clarity,
+    ROUND(AVG(fairness), 2) AS fairness,
+    COUNT(review) AS review_count
+  INTO v_totals
+  FROM public.ratings
+  WHERE rated_id = p_user_id;
+
+  INSERT INTO public.user_ratings (
+    user_id, doer_rating, creator_rating, rating_count_doer, rating_count_creator,
+    punctuality_rating, communication_rating, quality_rating, clarity_rating, fairness_rating,
+    review_count, updated_at
+  )
+  VALUES (
+    p_user_id, v_totals.doer_rating, v_totals.creator_rating, v_totals.doer_count, v_totals.creator_count,
+    v_totals.punctuality, v_totals.communication, v_totals.quality, v_totals.clarity, v_totals.fairness,
+    v_totals.review_count, NOW()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET doer_rating = EXCLUDED.doer_rating,
+      creator_rating = EXCLUDED.creator_rating,
+      rating_count_doer = EXCLUDED.rating_count_doer,
+      rating_count_creator = EXCLUDED.rating_count_creator,
+      punctuality_rating = EXCLUDED.punctuality_rating,
+      communication_rating = EXCLUDED.communication_rating,
+      quality_rating = EXCLUDED.quality_rating,
+      clarity_rating = EXCLUDED.clarity_rating,
+      fairness_rating = EXCLUDED.fairness_rating,
+      review_count = EXCLUDED.review_count,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.profiles
+  SET doer_rating = v_totals.doer_rating,
+      requestor_rating = v_totals.creator_rating
+  WHERE id = p_user_id
+    AND (doer_rating IS DISTINCT FROM v_totals.doer_rating OR requestor_rating IS DISTINCT FROM v_totals.creator_rating);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Trigger function to let the reviewed user know, so they can reply
+CREATE OR REPLACE FUNCTION public.notify_review_received()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.notify_user(
+    NEW.rated_id,
+    'review_received',
+    'New review from ' || COALESCE((SELECT username FROM public.profiles WHERE id = NEW.rater_id), 'a user'),
+    LEFT(NEW.review, 140),
+    '/profile',
+    NEW.task_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_review_received ON public.ratings;
+CREATE TRIGGER notify_review_received
+AFTER INSERT ON public.ratings
+FOR EACH ROW
+WHEN (NEW.review IS NOT NULL)
+EXECUTE FUNCTION public.notify_review_received();
+
+-- Function for the reviewed user to post their one public reply to a review
+CREATE OR REPLACE FUNCTION public.reply_to_rating(p_rating_id UUID, p_reply TEXT)
+RETURNS void AS $$
+DECLARE
+  v_rating public.ratings%ROWTYPE;
+  v_reply TEXT := NULLIF(TRIM(COALESCE(p_reply, '')), '');
+BEGIN
+  SELECT * INTO v_rating FROM public.ratings WHERE id = p_rating_id FOR UPDATE;
+
+  IF NOT FOUND OR v_rating.review IS NULL THEN
+    RAISE EXCEPTION 'Review not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rating.rated_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the reviewed user can reply to a review'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_rating.reply IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already replied to this review'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF v_reply IS NULL THEN
+    RAISE EXCEPTION 'A reply cannot be empty'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.ratings
+  SET reply = v_reply,
+      replied_at = NOW()
+  WHERE id = p_rating_id;
+
+  PERFORM public.notify_user(
+    v_rating.rater_id,
+    'review_replied',
+    COALESCE((SELECT username FROM public.profiles WHERE id = v_rating.rated_id), 'A user') || ' replied to your review',
+    LEFT(v_reply, 140),
+    NULL,
+    v_rating.task_id
+  );
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Fill in the sub-score columns for existing users
+SELECT public.recompute_all_user_ratings();
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.reply_to_rating(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reply_to_rating(UUID, TEXT) TO service_role;
+
+-- Enable realtime so new reviews and replies show up straight away
+ALTER TABLE public.ratings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ratings;
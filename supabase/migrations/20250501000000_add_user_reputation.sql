@@ -0,0 +1,130 @@
+-- Reputation scores for the leaderboard and profiles
+--
+-- A raw average lets one 5-star rating beat fifty 4.8s. A user's reputation in
+-- each role is instead a Bayesian average: their ratings are pooled with five
+-- imaginary ratings at the site-wide average for that role, so a handful of
+-- ratings only moves the score a little. Each rating's weight halves every 180
+-- days, so recent work counts for more. The result is scaled by how reliably the
+-- user sees tasks through: for doers, assigned tasks that were completed rather
+-- than cancelled or left to expire; for creators, assigned tasks that were
+-- completed rather than cancelled.
+CREATE INDEX IF NOT EXISTS idx_tasks_doer_id_state ON public.tasks(doer_id, state)
+WHERE doer_id IS NOT NULL;
+
+-- Function returning the reputation breakdown of one user, or of every user who
+-- has been rated or has finished an assigned task when p_user_id is NULL. There
+-- is one row per role the user has a record in.
+CREATE OR REPLACE FUNCTION public.user_reputation(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  score NUMERIC,
+  bayesian_rating NUMERIC,
+  average_rating NUMERIC,
+  rating_count INTEGER,
+  weighted_count NUMERIC,
+  prior_rating NUMERIC,
+  prior_weight NUMERIC,
+  half_life_days INTEGER,
+  completed_count INTEGER,
+  cancelled_count INTEGER,
+  completion_rate NUMERIC
+) AS $$
+  WITH settings AS (
+    SELECT 5.0::NUMERIC AS prior_weight, 180 AS half_life_days
+  ),
+  -- The prior is the site-wide average per role, or the middle of the scale
+  -- before anyone has been rated
+  priors AS (
+    SELECT roles.role, COALESCE(AVG(r.rating), 3.0)::NUMERIC AS prior_rating
+    FROM (VALUES ('doer'), ('creator')) AS roles(role)
+    LEFT JOIN public.ratings r
+      ON r.is_for_creator = (roles.role = 'creator')
+    GROUP BY roles.role
+  ),
+  rated AS (
+    SELECT
+      r.rated_id AS user_id,
+      CASE WHEN r.is_for_creator THEN 'creator' ELSE 'doer' END AS role,
+      AVG(r.rating)::NUMERIC AS average_rating,
+      COUNT(*)::INTEGER AS rating_count,
+      SUM(r.rating * POWER(0.5, EXTRACT(EPOCH FROM NOW() - r.created_at) / 86400 / s.half_life_days))::NUMERIC AS weighted_sum,
+      SUM(POWER(0.5, EXTRACT(EPOCH FROM NOW() - r.created_at) / 86400 / s.half_life_days))::NUMERIC AS weighted_count
+    FROM public.ratings r
+    CROSS JOIN settings s
+    WHERE p_user_id IS NULL OR r.rated_id = p_user_id
+    GROUP BY 1, 2
+  ),
+  -- Only tasks that had a doer count; withdrawing an unassigned task is no failure
+  outcomes AS (
+    SELECT
+      t.doer_id AS user_id,
+      'doer' AS role,
+      COUNT(*) FILTER (WHERE t.state = 'completed')::INTEGER AS completed_count,
+      COUNT(*) FILTER (WHERE t.state IN ('cancelled', 'expired'))::INTEGER AS cancelled_count
+    FROM public.tasks t
+    WHERE t.doer_id IS NOT NULL
+      AND t.state IN ('completed', 'cancelled', 'expired')
+      AND (p_user_id IS NULL OR t.doer_id = p_user_id)
+    GROUP BY t.doer_id
+    UNION ALL
+    SELECT
+      t.creator_id,
+      'creator',
+      COUNT(*) FILTER (WHERE t.state = 'completed')::INTEGER,
+      COUNT(*) FILTER (WHERE t.state = 'cancelled')::INTEGER
+    FROM public.tasks t
+    WHERE t.doer_id IS NOT NULL
+      AND t.state IN ('completed', 'cancelled')
+      AND (p_user_id IS NULL OR t.creator_id = p_user_id)
+    GROUP BY t.creator_id
+  ),
+  combined AS (
+    SELECT
+      COALESCE(r.user_id, o.user_id) AS user_id,
+      COALESCE(r.role, o.role) AS role,
+      r.average_rating,
+      COALESCE(r.rating_count, 0) AS rating_count,
+      COALESCE(r.weighted_sum, 0) AS weighted_sum,
+      COALESCE(r.weighted_count, 0) AS weighted_count,
+      COALESCE(o.completed_count, 0) AS completed_count,
+      COALESCE(o.cancelled_count, 0) AS cancelled_count
+    FROM rated r
+    FULL OUTER JOIN outcomes o ON o.user_id = r.user_id AND o.role = r.role
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      p.prior_rating,
+      s.prior_weight,
+      s.half_life_days,
+      (s.prior_weight * p.prior_rating + c.weighted_sum) / (s.prior_weight + c.weighted_count) AS bayesian_rating,
+      -- One assumed completion keeps a single early cancellation from zeroing the score
+      (c.completed_count + 1.0) / (c.completed_count + c.cancelled_count + 1.0) AS completion_rate
+    FROM combined c
+    JOIN priors p ON p.role = c.role
+    CROSS JOIN settings s
+  )
+  SELECT
+    s.user_id,
+    s.role,
+    ROUND(s.bayesian_rating * s.completion_rate, 2),
+    ROUND(s.bayesian_rating, 2),
+    ROUND(s.average_rating, 2),
+    s.rating_count,
+    ROUND(s.weighted_count, 2),
+    ROUND(s.prior_rating, 2),
+    s.prior_weight,
+    s.half_life_days,
+    s.completed_count,
+    s.cancelled_count,
+    ROUND(s.completion_rate, 3)
+  FROM scored s
+  JOIN public.profiles pr ON pr.id = s.user_id
+  ORDER BY 3 DESC, s.rating_count DESC;
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.user_reputation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.user_reputation(UUID) TO service_role;
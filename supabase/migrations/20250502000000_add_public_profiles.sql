@@ -0,0 +1,103 @@
+-- Public user profiles at /u/:username
+--
+-- Anyone signed in can look up another user by username and see their avatar and
+-- join date. Users choose whether their reputation and completed task counts,
+-- their reviews and their open tasks are shown there too. Suspended users and
+-- users on either side of a block are not found.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS show_reputation BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS show_reviews BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS show_open_tasks BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_username_lower ON public.profiles(LOWER(username));
+
+-- Function returning the public profile for a username, matched case-insensitively.
+-- Completed task counts are NULL when the user hides their reputation.
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_username TEXT)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  show_reputation BOOLEAN,
+  show_reviews BOOLEAN,
+  show_open_tasks BOOLEAN,
+  completed_as_doer INTEGER,
+  completed_as_creator INTEGER
+) AS $$
+  SELECT
+    p.id,
+    p.username,
+    p.avatar_url,
+    p.created_at,
+    p.show_reputation,
+    p.show_reviews,
+    p.show_open_tasks,
+    CASE WHEN p.show_reputation THEN (
+      SELECT COUNT(*)::INTEGER FROM public.tasks t
+      WHERE t.doer_id = p.id AND t.state = 'completed'
+    ) END,
+    CASE WHEN p.show_reputation THEN (
+      SELECT COUNT(*)::INTEGER FROM public.tasks t
+      WHERE t.creator_id = p.id AND t.state = 'completed'
+    ) END
+  FROM public.profiles p
+  WHERE LOWER(p.username) = LOWER(TRIM(p_username))
+    AND (p.suspended_at IS NULL OR p.id = auth.uid() OR public.is_admin())
+    AND NOT public.is_blocked_between(auth.uid(), p.id)
+  LIMIT 1;
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER;
+
+-- Replies now link the reviewer to the reviewed user's public profile, where the
+-- review and its reply are shown
+CREATE OR REPLACE FUNCTION public.reply_to_rating(p_rating_id UUID, p_reply TEXT)
+RETURNS void AS $$
+DECLARE
+  v_rating public.ratings%ROWTYPE;
+  v_reply TEXT := NULLIF(TRIM(COALESCE(p_reply, '')), '');
+  v_username TEXT;
+BEGIN
+  SELECT * INTO v_rating FROM public.ratings WHERE id = p_rating_id FOR UPDATE;
+
+  IF NOT FOUND OR v_rating.review IS NULL THEN
+    RAISE EXCEPTION 'Review not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_rating.rated_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the reviewed user can reply to a review'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_rating.reply IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already replied to this review'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF v_reply IS NULL THEN
+    RAISE EXCEPTION 'A reply cannot be empty'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.ratings
+  SET reply = v_reply,
+      replied_at = NOW()
+  WHERE id = p_rating_id;
+
+  SELECT username INTO v_username FROM public.profiles WHERE id = v_rating.rated_id;
+
+  PERFORM public.notify_user(
+    v_rating.rater_id,
+    'review_replied',
+    COALESCE(v_username, 'A user') || ' replied to your review',
+    LEFT(v_reply, 140),
+    CASE WHEN v_username IS NOT NULL THEN '/u/' || v_username END,
+    v_rating.task_id
+  );
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.get_public_profile(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_public_profile(TEXT) TO service_role;
@@ -0,0 +1,159 @@
+-- Server-side leaderboard with time windows, filters and pagination
+--
+-- The leaderboard used to download every task and every user_ratings row and
+-- rank them in the browser. get_leaderboard ranks creators or doers in the
+-- database instead, over completed tasks in a window (this week, this month or
+-- all time), optionally only in one category or within a radius of a point. It
+-- returns one page at a time, or a single user's row so the signed-in user can
+-- see their own rank when they are outside the page shown.
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Tasks completed before this column existed take the time their reward was
+-- released, falling back to their first rating and then their deadline
+UPDATE public.tasks t
+SET completed_at = COALESCE(
+  (SELECT MIN(tx.created_at) FROM public.ledger_transactions tx
+   WHERE tx.task_id = t.id AND tx.kind = 'escrow_release'),
+  (SELECT MIN(r.created_at) FROM public.ratings r WHERE r.task_id = t.id),
+  LEAST(t.deadline, NOW())
+)
+WHERE t.state = 'completed' AND t.completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_completed_at ON public.tasks(completed_at DESC)
+WHERE state = 'completed';
+
+-- Trigger function to stamp when a task is completed
+CREATE OR REPLACE FUNCTION public.stamp_task_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.state = 'completed' AND OLD.state IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_task_completed_at ON public.tasks;
+CREATE TRIGGER stamp_task_completed_at
+BEFORE UPDATE OF state ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_task_completed_at();
+
+-- Function to rank creators or doers who completed at least one task in the
+-- window and filters. Users are ranked by their reputation in that role (see
+-- user_reputation), then by the rewards and number of those tasks. Weeks and
+-- months are calendar ones, starting on Monday and the 1st. Pass p_user_id to
+-- get only that user's row, with the same rank they have on the full board.
+-- Suspended users are left out, and users blocked either way are not shown.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  p_role TEXT,
+  p_window TEXT DEFAULT 'all',
+  p_category_id TEXT DEFAULT NULL,
+  p_near_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_near_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  tasks_count INTEGER,
+  reward BIGINT,
+  score NUMERIC,
+  average_rating NUMERIC,
+  rating_count INTEGER,
+  total_count INTEGER
+) AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE;
+  v_use_radius BOOLEAN := p_near_latitude IS NOT NULL AND p_near_longitude IS NOT NULL AND p_radius_km IS NOT NULL;
+BEGIN
+  IF p_role IS NULL OR p_role NOT IN ('creator', 'doer') THEN
+    RAISE EXCEPTION 'Unknown leaderboard role %', p_role
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_since := CASE COALESCE(p_window, 'all')
+    WHEN 'week' THEN DATE_TRUNC('week', NOW())
+    WHEN 'month' THEN DATE_TRUNC('month', NOW())
+    WHEN 'all' THEN NULL
+  END;
+
+  IF v_since IS NULL AND COALESCE(p_window, 'all') <> 'all' THEN
+    RAISE EXCEPTION 'Unknown leaderboard window %', p_window
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT
+      CASE WHEN p_role = 'doer' THEN t.doer_id ELSE t.creator_id END AS member_id,
+      COALESCE(t.reward, 0) AS task_reward
+    FROM public.tasks t
+    WHERE t.state = 'completed'
+      AND t.doer_id IS NOT NULL
+      AND t.removed_at IS NULL
+      AND (v_since IS NULL OR t.completed_at >= v_since)
+      AND (p_category_id IS NULL OR t.category_id = p_category_id)
+      AND (NOT v_use_radius OR (
+        t.latitude IS NOT NULL
+        AND public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude) <= p_radius_km
+      ))
+  ),
+  totals AS (
+    SELECT
+      scoped.member_id,
+      COUNT(*)::INTEGER AS task_count,
+      SUM(scoped.task_reward)::BIGINT AS reward_total
+    FROM scoped
+    GROUP BY scoped.member_id
+  ),
+  ranked AS (
+    SELECT
+      (RANK() OVER (
+        ORDER BY COALESCE(rep.score, 0) DESC, totals.reward_total DESC, totals.task_count DESC
+      ))::INTEGER AS member_rank,
+      totals.member_id,
+      p.username AS member_username,
+      p.avatar_url AS member_avatar_url,
+      totals.task_count,
+      totals.reward_total,
+      COALESCE(rep.score, 0) AS member_score,
+      rep.average_rating AS member_average_rating,
+      COALESCE(rep.rating_count, 0) AS member_rating_count,
+      (COUNT(*) OVER ())::INTEGER AS member_total
+    FROM totals
+    JOIN public.profiles p ON p.id = totals.member_id
+    LEFT JOIN public.user_reputation() rep
+      ON rep.user_id = totals.member_id AND rep.role = p_role
+    WHERE p.suspended_at IS NULL
+  )
+  SELECT
+    ranked.member_rank,
+    ranked.member_id,
+    ranked.member_username,
+    ranked.member_avatar_url,
+    ranked.task_count,
+    ranked.reward_total,
+    ranked.member_score,
+    ranked.member_average_rating,
+    ranked.member_rating_count,
+    ranked.member_total
+  FROM ranked
+  WHERE (p_user_id IS NULL OR ranked.member_id = p_user_id)
+    AND NOT public.is_blocked_between(auth.uid(), ranked.member_id)
+  ORDER BY ranked.member_rank, ranked.member_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+  OFFSET CASE WHEN p_user_id IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql STABLE
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, INTEGER, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, INTEGER, INTEGER, UUID) TO service_role;
@@ -0,0 +1,241 @@
+-- Server-side verification codes for joint task members
+--
+-- Joint memberships kept a stored pair of random codes that could be guessed
+-- without limit. They now work like task codes: each approved membership gets a
+-- random secret that clients cannot read, each side's code is an HMAC of their
+-- role under it, and wrong attempts lock verification for fifteen minutes.
+CREATE TABLE IF NOT EXISTS public.joint_task_member_verification_secrets (
+  member_id UUID PRIMARY KEY REFERENCES public.joint_task_members(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- RLS without any policies: only SECURITY DEFINER functions can reach the secrets
+ALTER TABLE public.joint_task_member_verification_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.joint_task_member_verification_secrets FROM anon, authenticated;
+
+-- Wrong attempts per membership and verifying user
+CREATE TABLE IF NOT EXISTS public.joint_task_member_verification_attempts (
+  member_id UUID NOT NULL REFERENCES public.joint_task_members(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  PRIMARY KEY (member_id, user_id)
+);
+
+ALTER TABLE public.joint_task_member_verification_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own joint verification attempts"
+ON public.joint_task_member_verification_attempts FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+GRANT SELECT ON public.joint_task_member_verification_attempts TO authenticated;
+
+-- Issue secrets for memberships that are already approved. Their codes change
+-- once, since the stored codes cannot be carried over.
+INSERT INTO public.joint_task_member_verification_secrets (member_id)
+SELECT id FROM public.joint_task_members
+WHERE status = 'approved'
+ON CONFLICT (member_id) DO NOTHING;
+
+DROP TABLE IF EXISTS public.joint_task_member_codes;
+
+-- Derives the 6 digit code held by the given side ('member' or 'doer') of a membership
+CREATE OR REPLACE FUNCTION public.derive_joint_task_member_code(p_member_id UUID, p_role TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret BYTEA;
+BEGIN
+  SELECT secret INTO v_secret
+  FROM public.joint_task_member_verification_secrets
+  WHERE member_id = p_member_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN LPAD(
+    (('x' || SUBSTRING(ENCODE(extensions.hmac(p_role, v_secret, 'sha256'), 'hex') FROM 1 FOR 8))::BIT(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Internal helper, never callable from the client
+REVOKE EXECUTE ON FUNCTION public.derive_joint_task_member_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function returning the caller's own verification code for a membership
+CREATE OR REPLACE FUNCTION public.get_joint_task_member_code(p_member_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_member public.joint_task_members%ROWTYPE;
+  v_doer_id UUID;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.joint_task_members
+  WHERE id = p_member_id AND status = 'approved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT doer_id INTO v_doer_id FROM public.tasks WHERE id = v_member.task_id;
+
+  IF auth.uid() = v_member.user_id THEN
+    RETURN public.derive_joint_task_member_code(p_member_id, 'member');
+  ELSIF v_doer_id IS NOT NULL AND auth.uid() = v_doer_id THEN
+    RETURN public.derive_joint_task_member_code(p_member_id, 'doer');
+  END IF;
+
+  RAISE EXCEPTION 'Only the member and the task doer have verification codes'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Approving a join request now issues a verification secret instead of plain-text codes
+CREATE OR REPLACE FUNCTION public.approve_joint_task_member(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  success INTEGER;
+BEGIN
+  UPDATE public.joint_task_members m
+  SET status = 'approved',
+      is_member_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_member_rated = FALSE,
+      is_doer_rated = FALSE
+  FROM public.tasks t
+  WHERE m.id = approve_joint_task_member.member_id
+    AND m.status = 'pending'
+    AND t.id = m.task_id
+    AND t.creator_id = auth.uid();
+
+  GET DIAGNOSTICS success = ROW_COUNT;
+
+  IF success = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.joint_task_member_verification_secrets (member_id)
+  VALUES (approve_joint_task_member.member_id)
+  ON CONFLICT ON CONSTRAINT joint_task_member_verification_secrets_pkey
+  DO UPDATE SET secret = extensions.gen_random_bytes(32);
+
+  DELETE FROM public.joint_task_member_verification_attempts a
+  WHERE a.member_id = approve_joint_task_member.member_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- The check now reports remaining attempts like verify_task_code, so it is
+-- recreated rather than replaced
+DROP FUNCTION IF EXISTS public.verify_joint_task_member_code(UUID, TEXT);
+
+-- Function to check the code the caller received from the other side of a
+-- membership. The member enters the doer's code and the doer enters the member's
+-- code. After five wrong attempts verification is locked for fifteen minutes.
+CREATE OR REPLACE FUNCTION public.verify_joint_task_member_code(p_member_id UUID, p_code TEXT)
+RETURNS TABLE (verified BOOLEAN, attempts_remaining INTEGER, locked_until TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+  lockout CONSTANT INTERVAL := INTERVAL '15 minutes';
+  v_member public.joint_task_members%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+  v_attempts public.joint_task_member_verification_attempts%ROWTYPE;
+  v_is_doer BOOLEAN;
+  v_expected TEXT;
+BEGIN
+  SELECT * INTO v_member
+  FROM public.joint_task_members
+  WHERE id = p_member_id AND status = 'approved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = v_member.task_id;
+
+  IF v_task.doer_id IS NOT NULL AND auth.uid() = v_task.doer_id THEN
+    v_is_doer := TRUE;
+  ELSIF auth.uid() = v_member.user_id THEN
+    v_is_doer := FALSE;
+  ELSE
+    RAISE EXCEPTION 'Only the member and the task doer can verify codes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_task.state NOT IN ('assigned', 'in_progress', 'awaiting_verification', 'completed') THEN
+    RAISE EXCEPTION 'This task is not awaiting verification'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.joint_task_member_verification_attempts (member_id, user_id)
+  VALUES (p_member_id, auth.uid())
+  ON CONFLICT ON CONSTRAINT joint_task_member_verification_attempts_pkey DO NOTHING;
+
+  SELECT * INTO v_attempts
+  FROM public.joint_task_member_verification_attempts a
+  WHERE a.member_id = p_member_id AND a.user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_attempts.locked_until > NOW() THEN
+    RETURN QUERY SELECT FALSE, 0, v_attempts.locked_until;
+    RETURN;
+  END IF;
+
+  -- An expired lock starts a fresh round of attempts
+  IF v_attempts.locked_until IS NOT NULL THEN
+    v_attempts.failed_attempts := 0;
+    v_attempts.locked_until := NULL;
+  END IF;
+
+  v_expected := public.derive_joint_task_member_code(
+    p_member_id,
+    CASE WHEN v_is_doer THEN 'member' ELSE 'doer' END
+  );
+
+  IF v_expected IS NOT NULL AND TRIM(p_code) = v_expected THEN
+    IF v_is_doer THEN
+      UPDATE public.joint_task_members SET is_doer_verified = TRUE WHERE id = p_member_id;
+    ELSE
+      UPDATE public.joint_task_members SET is_member_verified = TRUE WHERE id = p_member_id;
+    END IF;
+
+    UPDATE public.joint_task_member_verification_attempts a
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE a.member_id = p_member_id AND a.user_id = auth.uid();
+
+    RETURN QUERY SELECT TRUE, max_attempts, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  v_attempts.failed_attempts := v_attempts.failed_attempts + 1;
+  IF v_attempts.failed_attempts >= max_attempts THEN
+    v_attempts.locked_until := NOW() + lockout;
+  END IF;
+
+  UPDATE public.joint_task_member_verification_attempts a
+  SET failed_attempts = v_attempts.failed_attempts,
+      last_failed_at = NOW(),
+      locked_until = v_attempts.locked_until
+  WHERE a.member_id = p_member_id AND a.user_id = auth.uid();
+
+  RETURN QUERY SELECT FALSE, GREATEST(max_attempts - v_attempts.failed_attempts, 0), v_attempts.locked_until;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.get_joint_task_member_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_joint_task_member_code(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.verify_joint_task_member_code(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_joint_task_member_code(UUID, TEXT) TO service_role;
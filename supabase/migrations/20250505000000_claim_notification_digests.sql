@@ -0,0 +1,106 @@
+-- Claimed daily digests
+--
+-- Digests were read with due_notification_digests and only marked as sent after
+-- the email went out, so overlapping or retried runs could send the same digest
+-- twice, and a failed send was forgotten. Digests are now claimed like
+-- transactional emails: a run takes a short lease on each user's digest, and a
+-- failed send releases the lease and is counted, so the next run retries it.
+ALTER TABLE public.notification_preferences
+ADD COLUMN IF NOT EXISTS digest_claimed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS digest_failed_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS digest_last_failed_at TIMESTAMP WITH TIME ZONE;
+
+DROP FUNCTION IF EXISTS public.due_notification_digests();
+
+-- Claims up to p_limit users who are due a daily digest, with their unread
+-- notifications since the last one. A claim lasts fifteen minutes, so a run that
+-- dies mid-way only holds those digests back until the next run.
+CREATE OR REPLACE FUNCTION public.claim_notification_digests(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  username TEXT,
+  notifications JSONB
+) AS $$
+BEGIN
+  -- Users who never saved preferences get a row with the defaults to hold the claim
+  INSERT INTO public.notification_preferences (user_id)
+  SELECT DISTINCT n.user_id
+  FROM public.notifications n
+  WHERE NOT n.read
+    AND n.created_at > NOW() - INTERVAL '1 day'
+  ON CONFLICT ON CONSTRAINT notification_preferences_pkey DO NOTHING;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.notification_preferences p
+    SET digest_claimed_until = NOW() + INTERVAL '15 minutes'
+    WHERE p.user_id IN (
+      SELECT due.user_id FROM public.notification_preferences due
+      JOIN auth.users u ON u.id = due.user_id
+      WHERE due.email_daily_digest
+        AND COALESCE(due.last_digest_sent_at, '-infinity') < NOW() - INTERVAL '1 day'
+        AND COALESCE(due.digest_claimed_until, '-infinity') < NOW()
+        AND u.email IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM public.notifications n
+          WHERE n.user_id = due.user_id
+            AND NOT n.read
+            AND n.created_at > COALESCE(due.last_digest_sent_at, NOW() - INTERVAL '1 day')
+        )
+      ORDER BY due.last_digest_sent_at NULLS FIRST
+      LIMIT p_limit
+      FOR UPDATE OF due SKIP LOCKED
+    )
+    RETURNING p.user_id AS claimed_user_id, p.last_digest_sent_at AS claimed_since
+  )
+  SELECT pr.id, u.email::TEXT, pr.username,
+         JSONB_AGG(JSONB_BUILD_OBJECT(
+           'title', n.title,
+           'body', n.body,
+           'link', n.link,
+           'created_at', n.created_at
+         ) ORDER BY n.created_at DESC)
+  FROM claimed c
+  JOIN public.profiles pr ON pr.id = c.claimed_user_id
+  JOIN auth.users u ON u.id = c.claimed_user_id
+  JOIN public.notifications n ON n.user_id = c.claimed_user_id
+  WHERE NOT n.read
+    AND n.created_at > COALESCE(c.claimed_since, NOW() - INTERVAL '1 day')
+  GROUP BY pr.id, u.email, pr.username;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.mark_notification_digest_sent(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.notification_preferences
+  SET last_digest_sent_at = NOW(),
+      digest_claimed_until = NULL,
+      digest_failed_attempts = 0
+  WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Releases the claim on a digest that could not be sent, so the next run retries it
+CREATE OR REPLACE FUNCTION public.mark_notification_digest_failed(p_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.notification_preferences
+  SET digest_claimed_until = NULL,
+      digest_failed_attempts = digest_failed_attempts + 1,
+      digest_last_failed_at = NOW()
+  WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- The email sender runs with the service role; users never call these
+REVOKE EXECUTE ON FUNCTION public.claim_notification_digests(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notification_digest_failed(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.claim_notification_digests(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notification_digest_failed(UUID) TO service_role;
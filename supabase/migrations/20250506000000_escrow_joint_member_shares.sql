@@ -0,0 +1,228 @@
+-- Escrow for joint task members' reward shares
+--
+-- Only the creator's reward was held and paid, although the doer of a joint task
+-- is promised every approved member's share as well. Each membership now has its
+-- own escrow account: approving a member moves their share out of their points,
+-- the share is paid to the doer once the member and the doer have verified each
+-- other's codes, and it goes back to the member if the task is cancelled or
+-- expires first.
+ALTER TABLE public.ledger_accounts
+ADD COLUMN IF NOT EXISTS joint_member_id UUID UNIQUE REFERENCES public.joint_task_members(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.ledger_member_escrow_account(p_member_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.ledger_accounts (kind, joint_member_id) VALUES ('escrow', p_member_id)
+  ON CONFLICT (joint_member_id) DO NOTHING;
+
+  SELECT id INTO v_id FROM public.ledger_accounts WHERE joint_member_id = p_member_id;
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_member_escrow_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Approving a join request also holds the member's share. Members without
+-- enough points cannot be approved.
+CREATE OR REPLACE FUNCTION public.approve_joint_task_member(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_member public.joint_task_members%ROWTYPE;
+  v_task_title TEXT;
+BEGIN
+  UPDATE public.joint_task_members m
+  SET status = 'approved',
+      is_member_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_member_rated = FALSE,
+      is_doer_rated = FALSE
+  FROM public.tasks t
+  WHERE m.id = approve_joint_task_member.member_id
+    AND m.status = 'pending'
+    AND t.id = m.task_id
+    AND t.creator_id = auth.uid()
+  RETURNING m.* INTO v_member;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT title INTO v_task_title FROM public.tasks WHERE id = v_member.task_id;
+
+  PERFORM public.post_ledger_transaction(
+    'escrow_hold', v_member.task_id, 'Share held for ' || v_task_title,
+    public.ledger_user_account(v_member.user_id), public.ledger_member_escrow_account(v_member.id), v_member.reward
+  );
+
+  INSERT INTO public.joint_task_member_verification_secrets (member_id)
+  VALUES (v_member.id)
+  ON CONFLICT ON CONSTRAINT joint_task_member_verification_secrets_pkey
+  DO UPDATE SET secret = extensions.gen_random_bytes(32);
+
+  DELETE FROM public.joint_task_member_verification_attempts a
+  WHERE a.member_id = v_member.id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Pays a member's share to the doer once both sides of the membership are verified
+CREATE OR REPLACE FUNCTION public.release_joint_member_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+  v_escrow UUID;
+  v_held BIGINT;
+BEGIN
+  IF NOT (NEW.is_member_verified AND NEW.is_doer_verified)
+    OR (OLD.is_member_verified AND OLD.is_doer_verified) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_task FROM public.tasks WHERE id = NEW.task_id;
+
+  IF v_task.doer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_escrow := public.ledger_member_escrow_account(NEW.id);
+  SELECT balance INTO v_held FROM public.ledger_accounts WHERE id = v_escrow;
+
+  PERFORM public.post_ledger_transaction(
+    'escrow_release', NEW.task_id, 'Member share for ' || v_task.title,
+    v_escrow, public.ledger_user_account(v_task.doer_id), v_held
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS release_joint_member_escrow ON public.joint_task_members;
+CREATE TRIGGER release_joint_member_escrow
+AFTER UPDATE OF is_member_verified, is_doer_verified ON public.joint_task_members
+FOR EACH ROW
+EXECUTE FUNCTION public.release_joint_member_escrow();
+
+-- Gives members back whatever is still held for them when the task is cancelled
+-- or expires, including a dispute that ends in a refund
+CREATE OR REPLACE FUNCTION public.refund_joint_member_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_member RECORD;
+BEGIN
+  IF NEW.state IS NOT DISTINCT FROM OLD.state OR NEW.state NOT IN ('cancelled', 'expired') THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_member IN
+    SELECT m.user_id, a.id AS escrow_id, a.balance
+    FROM public.joint_task_members m
+    JOIN public.ledger_accounts a ON a.joint_member_id = m.id
+    WHERE m.task_id = NEW.id AND a.balance > 0
+  LOOP
+    PERFORM public.post_ledger_transaction(
+      'escrow_refund', NEW.id,
+      CASE WHEN NEW.state = 'cancelled' THEN 'Share refund for cancelled ' ELSE 'Share refund for expired ' END || NEW.title,
+      v_member.escrow_id, public.ledger_user_account(v_member.user_id), v_member.balance
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refund_joint_member_escrow ON public.tasks;
+CREATE TRIGGER refund_joint_member_escrow
+AFTER UPDATE OF state ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.refund_joint_member_escrow();
+
+-- In escrow now also counts the shares held for the user's joint memberships, and
+-- paid counts each reward against whoever funded its escrow
+CREATE OR REPLACE FUNCTION public.get_points_summary()
+RETURNS TABLE (balance BIGINT, in_escrow BIGINT, earned BIGINT, paid BIGINT) AS $$
+DECLARE
+  v_account UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to view your points'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_account := public.ledger_user_account(auth.uid());
+
+  RETURN QUERY
+  SELECT
+    (SELECT a.balance FROM public.ledger_accounts a WHERE a.id = v_account),
+    COALESCE((
+      SELECT SUM(a.balance) FROM public.ledger_accounts a
+      LEFT JOIN public.tasks t ON t.id = a.task_id
+      LEFT JOIN public.joint_task_members m ON m.id = a.joint_member_id
+      WHERE a.kind = 'escrow' AND COALESCE(t.creator_id, m.user_id) = auth.uid()
+    ), 0)::BIGINT,
+    COALESCE((
+      SELECT SUM(e.amount) FROM public.ledger_entries e
+      JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+      WHERE e.account_id = v_account AND tx.kind IN ('escrow_release', 'backfill') AND e.amount > 0
+    ), 0)::BIGINT,
+    COALESCE((
+      SELECT SUM(-e.amount) FROM public.ledger_entries e
+      JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+      JOIN public.ledger_accounts a ON a.id = e.account_id
+      LEFT JOIN public.tasks t ON t.id = a.task_id
+      LEFT JOIN public.joint_task_members m ON m.id = a.joint_member_id
+      WHERE tx.kind = 'escrow_release' AND e.amount < 0
+        AND a.kind = 'escrow' AND COALESCE(t.creator_id, m.user_id) = auth.uid()
+    ), 0)::BIGINT
+    + COALESCE((
+      -- Rewards for tasks completed before the ledger existed were issued by the system
+      SELECT SUM(e.amount) FROM public.ledger_entries e
+      JOIN public.ledger_transactions tx ON tx.id = e.transaction_id
+      JOIN public.ledger_accounts a ON a.id = e.account_id
+      JOIN public.tasks t ON t.id = tx.task_id
+      WHERE tx.kind = 'backfill' AND e.amount > 0
+        AND a.kind = 'user' AND t.creator_id = auth.uid()
+    ), 0)::BIGINT;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Fund the shares of memberships approved before this migration. Like the
+-- original backfill, they were never taken from the member, so the system account
+-- issues them into the member's escrow, which then pays out straight away for
+-- memberships already verified on both sides.
+DO $$
+DECLARE
+  v_member RECORD;
+BEGIN
+  FOR v_member IN
+    SELECT m.id, m.reward, m.is_member_verified AND m.is_doer_verified AS is_settled, t.id AS task_id, t.title, t.doer_id
+    FROM public.joint_task_members m
+    JOIN public.tasks t ON t.id = m.task_id
+    WHERE m.status = 'approved'
+      AND t.state IN ('open', 'assigned', 'in_progress', 'awaiting_verification', 'disputed', 'completed')
+      AND NOT EXISTS (SELECT 1 FROM public.ledger_accounts a WHERE a.joint_member_id = m.id)
+  LOOP
+    PERFORM public.post_ledger_transaction(
+      'backfill', v_member.task_id, 'Share held for ' || v_member.title,
+      public.ledger_system_account(), public.ledger_member_escrow_account(v_member.id), v_member.reward
+    );
+
+    IF v_member.is_settled AND v_member.doer_id IS NOT NULL THEN
+      PERFORM public.post_ledger_transaction(
+        'escrow_release', v_member.task_id, 'Member share for ' || v_member.title,
+        public.ledger_member_escrow_account(v_member.id), public.ledger_user_account(v_member.doer_id), v_member.reward
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- The leaderboard totals are only read by signed-in users
+REVOKE EXECUTE ON FUNCTION public.get_points_leaderboard_totals() FROM PUBLIC, anon;
@@ -0,0 +1,83 @@
+-- Block checks out of the API
+--
+-- is_blocked_with and is_blocked_with_task_creator were callable by any signed-in
+-- user, so together with their own block list a user could find out who had
+-- blocked them. The policies still need the checks, so they move to a private
+-- schema that the API does not expose. Blocks are now only felt through policies
+-- and RPC errors, and clients can only ask about blocks they made themselves.
+CREATE SCHEMA IF NOT EXISTS private;
+
+-- Policies run with the caller's rights, so every API role needs to reach the
+-- schema; the API itself only serves public
+GRANT USAGE ON SCHEMA private TO anon, authenticated, service_role;
+
+-- Returns whether the caller and p_user_id have blocked each other either way.
+-- Every policy below checks the caller against the other user through it.
+CREATE OR REPLACE FUNCTION private.is_blocked_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_blocked_between(auth.uid(), p_user_id);
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+-- Same check against a task's creator. The task itself is hidden from a blocked
+-- caller, so the creator has to be looked up as definer.
+CREATE OR REPLACE FUNCTION private.is_blocked_with_task_creator(p_task_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_blocked_between(auth.uid(), (SELECT creator_id FROM public.tasks WHERE id = p_task_id));
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Tasks from blocked users are hidden" ON public.tasks;
+CREATE POLICY "Tasks from blocked users are hidden"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+USING (
+  auth.uid() IS NULL
+  OR creator_id = auth.uid()
+  OR doer_id = auth.uid()
+  OR NOT private.is_blocked_with(creator_id)
+);
+
+DROP POLICY IF EXISTS "Applications from blocked users are hidden" ON public.task_applications;
+CREATE POLICY "Applications from blocked users are hidden"
+ON public.task_applications AS RESTRICTIVE FOR SELECT
+USING (
+  applicant_id = auth.uid()
+  OR NOT private.is_blocked_with(applicant_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot apply" ON public.task_applications;
+CREATE POLICY "Blocked users cannot apply"
+ON public.task_applications AS RESTRICTIVE FOR INSERT
+WITH CHECK (
+  NOT private.is_blocked_with_task_creator(task_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot join joint tasks" ON public.joint_task_members;
+CREATE POLICY "Blocked users cannot join joint tasks"
+ON public.joint_task_members AS RESTRICTIVE FOR INSERT
+WITH CHECK (
+  NOT private.is_blocked_with_task_creator(task_id)
+);
+
+DROP POLICY IF EXISTS "Blocked users cannot start chats" ON public.chats;
+CREATE POLICY "Blocked users cannot start chats"
+ON public.chats AS RESTRICTIVE FOR INSERT
+WITH CHECK (NOT private.is_blocked_with(CASE WHEN user1_id = auth.uid() THEN user2_id ELSE user1_id END));
+
+DROP POLICY IF EXISTS "Blocked users cannot message each other" ON public.messages;
+CREATE POLICY "Blocked users cannot message each other"
+ON public.messages AS RESTRICTIVE FOR INSERT
+WITH CHECK (NOT private.is_blocked_with(receiver_id));
+
+DROP FUNCTION IF EXISTS public.is_blocked_with(UUID);
+DROP FUNCTION IF EXISTS public.is_blocked_with_task_creator(UUID);
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION private.is_blocked_with(UUID) TO anon;
+GRANT EXECUTE ON FUNCTION private.is_blocked_with(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.is_blocked_with(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION private.is_blocked_with_task_creator(UUID) TO anon;
+GRANT EXECUTE ON FUNCTION private.is_blocked_with_task_creator(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.is_blocked_with_task_creator(UUID) TO service_role;
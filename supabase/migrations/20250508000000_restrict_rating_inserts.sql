@@ -0,0 +1,50 @@
+-- Ratings only between the parties of a task
+--
+-- The insert policy only checked that the rater was the caller, so anyone could
+-- rate and review anyone against any task, and since reputation and the
+-- leaderboard are computed from ratings, that moved ranks too. A rating now has
+-- to come from one side of a finished task about the other side: the creator and
+-- the doer once the task is completed, or a joint member and the doer once both
+-- have verified that membership. is_for_creator must match the side being rated.
+
+-- Returns whether the caller may rate p_rated_id for p_task_id in the given role.
+-- Joint members are on the creator's side, so the doer rates them as creators.
+CREATE OR REPLACE FUNCTION private.can_rate(p_task_id UUID, p_rated_id UUID, p_is_for_creator BOOLEAN)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tasks t
+    WHERE t.id = p_task_id
+      AND t.state = 'completed'
+      AND (
+        (t.creator_id = auth.uid() AND t.doer_id = p_rated_id AND NOT p_is_for_creator)
+        OR (t.doer_id = auth.uid() AND t.creator_id = p_rated_id AND p_is_for_creator)
+      )
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.joint_task_members m
+    JOIN public.tasks t ON t.id = m.task_id
+    WHERE m.task_id = p_task_id
+      AND m.status = 'approved'
+      AND m.is_member_verified
+      AND m.is_doer_verified
+      AND (
+        (m.user_id = auth.uid() AND t.doer_id = p_rated_id AND NOT p_is_for_creator)
+        OR (t.doer_id = auth.uid() AND m.user_id = p_rated_id AND p_is_for_creator)
+      )
+  );
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Users can insert their own ratings" ON public.ratings;
+CREATE POLICY "Task parties can rate each other"
+ON public.ratings FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = rater_id
+  AND private.can_rate(task_id, rated_id, is_for_creator)
+);
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION private.can_rate(UUID, UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.can_rate(UUID, UUID, BOOLEAN) TO service_role;
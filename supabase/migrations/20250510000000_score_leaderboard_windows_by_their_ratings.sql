@@ -0,0 +1,280 @@
+-- Leaderboard windows scored by their own ratings
+--
+-- get_leaderboard ranked every window by the all-time user_reputation score, so
+-- the week and month boards only changed who was listed, not their order, and
+-- each call computed the reputation of every user on the site. Reputation is now
+-- computed by private.reputation_scores for a given set of users, optionally
+-- only from ratings received since a given time. The leaderboard asks it only
+-- for the users on the board, and the week and month boards score them on the
+-- ratings they received in that window. The completion rate still covers all of
+-- a user's tasks. user_reputation keeps its results and privacy rules.
+--
+-- get_points_leaderboard_totals was left behind when the leaderboard moved to
+-- get_leaderboard and nothing calls it any more.
+DROP FUNCTION IF EXISTS public.get_points_leaderboard_totals();
+
+-- Function returning the reputation breakdown of the given users, or of every
+-- user who has been rated or has finished an assigned task when p_user_ids is
+-- NULL. With p_since only ratings received since then are counted. There is one
+-- row per role the user has a record in. It does not check show_reputation, so
+-- callers must.
+CREATE OR REPLACE FUNCTION private.reputation_scores(p_user_ids UUID[], p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  score NUMERIC,
+  bayesian_rating NUMERIC,
+  average_rating NUMERIC,
+  rating_count INTEGER,
+  weighted_count NUMERIC,
+  prior_rating NUMERIC,
+  prior_weight NUMERIC,
+  half_life_days INTEGER,
+  completed_count INTEGER,
+  cancelled_count INTEGER,
+  completion_rate NUMERIC
+) AS $$
+  WITH settings AS (
+    SELECT 5.0::NUMERIC AS prior_weight, 180 AS half_life_days
+  ),
+  -- The prior is the site-wide average per role, or the middle of the scale
+  -- before anyone has been rated
+  priors AS (
+    SELECT roles.role, COALESCE(AVG(r.rating), 3.0)::NUMERIC AS prior_rating
+    FROM (VALUES ('doer'), ('creator')) AS roles(role)
+    LEFT JOIN public.ratings r
+      ON r.is_for_creator = (roles.role = 'creator')
+    GROUP BY roles.role
+  ),
+  rated AS (
+    SELECT
+      r.rated_id AS user_id,
+      CASE WHEN r.is_for_creator THEN 'creator' ELSE 'doer' END AS role,
+      AVG(r.rating)::NUMERIC AS average_rating,
+      COUNT(*)::INTEGER AS rating_count,
+      SUM(r.rating * POWER(0.5, EXTRACT(EPOCH FROM NOW() - r.created_at) / 86400 / s.half_life_days))::NUMERIC AS weighted_sum,
+      SUM(POWER(0.5, EXTRACT(EPOCH FROM NOW() - r.created_at) / 86400 / s.half_life_days))::NUMERIC AS weighted_count
+    FROM public.ratings r
+    CROSS JOIN settings s
+    WHERE (p_user_ids IS NULL OR r.rated_id = ANY(p_user_ids))
+      AND (p_since IS NULL OR r.created_at >= p_since)
+    GROUP BY 1, 2
+  ),
+  -- Only tasks that had a doer count; withdrawing an unassigned task is no failure
+  outcomes AS (
+    SELECT
+      t.doer_id AS user_id,
+      'doer' AS role,
+      COUNT(*) FILTER (WHERE t.state = 'completed')::INTEGER AS completed_count,
+      COUNT(*) FILTER (WHERE t.state IN ('cancelled', 'expired'))::INTEGER AS cancelled_count
+    FROM public.tasks t
+    WHERE t.doer_id IS NOT NULL
+      AND t.state IN ('completed', 'cancelled', 'expired')
+      AND (p_user_ids IS NULL OR t.doer_id = ANY(p_user_ids))
+    GROUP BY t.doer_id
+    UNION ALL
+    SELECT
+      t.creator_id,
+      'creator',
+      COUNT(*) FILTER (WHERE t.state = 'completed')::INTEGER,
+      COUNT(*) FILTER (WHERE t.state = 'cancelled')::INTEGER
+    FROM public.tasks t
+    WHERE t.doer_id IS NOT NULL
+      AND t.state IN ('completed', 'cancelled')
+      AND (p_user_ids IS NULL OR t.creator_id = ANY(p_user_ids))
+    GROUP BY t.creator_id
+  ),
+  combined AS (
+    SELECT
+      COALESCE(r.user_id, o.user_id) AS user_id,
+      COALESCE(r.role, o.role) AS role,
+      r.average_rating,
+      COALESCE(r.rating_count, 0) AS rating_count,
+      COALESCE(r.weighted_sum, 0) AS weighted_sum,
+      COALESCE(r.weighted_count, 0) AS weighted_count,
+      COALESCE(o.completed_count, 0) AS completed_count,
+      COALESCE(o.cancelled_count, 0) AS cancelled_count
+    FROM rated r
+    FULL OUTER JOIN outcomes o ON o.user_id = r.user_id AND o.role = r.role
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      p.prior_rating,
+      s.prior_weight,
+      s.half_life_days,
+      (s.prior_weight * p.prior_rating + c.weighted_sum) / (s.prior_weight + c.weighted_count) AS bayesian_rating,
+      -- One assumed completion keeps a single early cancellation from zeroing the score
+      (c.completed_count + 1.0) / (c.completed_count + c.cancelled_count + 1.0) AS completion_rate
+    FROM combined c
+    JOIN priors p ON p.role = c.role
+    CROSS JOIN settings s
+  )
+  SELECT
+    s.user_id,
+    s.role,
+    ROUND(s.bayesian_rating * s.completion_rate, 2),
+    ROUND(s.bayesian_rating, 2),
+    ROUND(s.average_rating, 2),
+    s.rating_count,
+    ROUND(s.weighted_count, 2),
+    ROUND(s.prior_rating, 2),
+    s.prior_weight,
+    s.half_life_days,
+    s.completed_count,
+    s.cancelled_count,
+    ROUND(s.completion_rate, 3)
+  FROM scored s
+  JOIN public.profiles pr ON pr.id = s.user_id
+  ORDER BY 3 DESC, s.rating_count DESC;
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION private.reputation_scores(UUID[], TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Users who hide their reputation are left out unless they ask for their own
+-- or the caller is an admin
+CREATE OR REPLACE FUNCTION public.user_reputation(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  score NUMERIC,
+  bayesian_rating NUMERIC,
+  average_rating NUMERIC,
+  rating_count INTEGER,
+  weighted_count NUMERIC,
+  prior_rating NUMERIC,
+  prior_weight NUMERIC,
+  half_life_days INTEGER,
+  completed_count INTEGER,
+  cancelled_count INTEGER,
+  completion_rate NUMERIC
+) AS $$
+  SELECT rep.*
+  FROM private.reputation_scores(CASE WHEN p_user_id IS NOT NULL THEN ARRAY[p_user_id] END) rep
+  JOIN public.profiles pr ON pr.id = rep.user_id
+  WHERE pr.show_reputation OR pr.id = auth.uid() OR public.is_admin()
+  ORDER BY rep.score DESC, rep.rating_count DESC;
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER;
+
+-- Function to rank creators or doers who completed at least one task in the
+-- window and filters. Users are ranked by their reputation in that role, then by
+-- the rewards and number of those tasks. On the week and month boards the
+-- reputation only counts ratings received in that window. Weeks and months are
+-- calendar ones, starting on Monday and the 1st. Pass p_user_id to get only that
+-- user's row, with the same rank they have on the full board. Suspended users
+-- and users who hide their reputation are left out, and users blocked either way
+-- are not shown.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  p_role TEXT,
+  p_window TEXT DEFAULT 'all',
+  p_category_id TEXT DEFAULT NULL,
+  p_near_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_near_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  tasks_count INTEGER,
+  reward BIGINT,
+  score NUMERIC,
+  average_rating NUMERIC,
+  rating_count INTEGER,
+  total_count INTEGER
+) AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE;
+  v_use_radius BOOLEAN := p_near_latitude IS NOT NULL AND p_near_longitude IS NOT NULL AND p_radius_km IS NOT NULL;
+BEGIN
+  IF p_role IS NULL OR p_role NOT IN ('creator', 'doer') THEN
+    RAISE EXCEPTION 'Unknown leaderboard role %', p_role
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_since := CASE COALESCE(p_window, 'all')
+    WHEN 'week' THEN DATE_TRUNC('week', NOW())
+    WHEN 'month' THEN DATE_TRUNC('month', NOW())
+    WHEN 'all' THEN NULL
+  END;
+
+  IF v_since IS NULL AND COALESCE(p_window, 'all') <> 'all' THEN
+    RAISE EXCEPTION 'Unknown leaderboard window %', p_window
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT
+      CASE WHEN p_role = 'doer' THEN t.doer_id ELSE t.creator_id END AS member_id,
+      COALESCE(t.reward, 0) AS task_reward
+    FROM public.tasks t
+    WHERE t.state = 'completed'
+      AND t.doer_id IS NOT NULL
+      AND t.removed_at IS NULL
+      AND (v_since IS NULL OR t.completed_at >= v_since)
+      AND (p_category_id IS NULL OR t.category_id = p_category_id)
+      AND (NOT v_use_radius OR (
+        t.latitude IS NOT NULL
+        AND public.distance_km(p_near_latitude, p_near_longitude, t.latitude, t.longitude) <= p_radius_km
+      ))
+  ),
+  totals AS (
+    SELECT
+      scoped.member_id,
+      COUNT(*)::INTEGER AS task_count,
+      SUM(scoped.task_reward)::BIGINT AS reward_total
+    FROM scoped
+    GROUP BY scoped.member_id
+  ),
+  members AS (
+    SELECT COALESCE(ARRAY_AGG(totals.member_id), '{}') AS ids
+    FROM totals
+  ),
+  ranked AS (
+    SELECT
+      (RANK() OVER (
+        ORDER BY COALESCE(rep.score, 0) DESC, totals.reward_total DESC, totals.task_count DESC
+      ))::INTEGER AS member_rank,
+      totals.member_id,
+      p.username AS member_username,
+      p.avatar_url AS member_avatar_url,
+      totals.task_count,
+      totals.reward_total,
+      COALESCE(rep.score, 0) AS member_score,
+      rep.average_rating AS member_average_rating,
+      COALESCE(rep.rating_count, 0) AS member_rating_count,
+      (COUNT(*) OVER ())::INTEGER AS member_total
+    FROM totals
+    JOIN public.profiles p ON p.id = totals.member_id
+    LEFT JOIN private.reputation_scores((SELECT members.ids FROM members), v_since) rep
+      ON rep.user_id = totals.member_id AND rep.role = p_role
+    WHERE p.suspended_at IS NULL
+      AND p.show_reputation
+  )
+  SELECT
+    ranked.member_rank,
+    ranked.member_id,
+    ranked.member_username,
+    ranked.member_avatar_url,
+    ranked.task_count,
+    ranked.reward_total,
+    ranked.member_score,
+    ranked.member_average_rating,
+    ranked.member_rating_count,
+    ranked.member_total
+  FROM ranked
+  WHERE (p_user_id IS NULL OR ranked.member_id = p_user_id)
+    AND NOT public.is_blocked_between(auth.uid(), ranked.member_id)
+  ORDER BY ranked.member_rank, ranked.member_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+  OFFSET CASE WHEN p_user_id IS NULL THEN GREATEST(COALESCE(p_offset, 0), 0) ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql STABLE
+SECURITY DEFINER;
@@ -0,0 +1,9 @@
+-- Expiring overdue tasks is a maintenance job
+--
+-- expire_overdue_tasks was granted to every signed-in user and the app called it
+-- before each task fetch, so any page load ran it. Like the other maintenance
+-- jobs it now only runs from cron (see 20250415000000) or admin_run_maintenance.
+REVOKE EXECUTE ON FUNCTION public.expire_overdue_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION public.expire_overdue_tasks() TO service_role;
@@ -0,0 +1,99 @@
+-- Leased and retried notification emails
+--
+-- Claiming a transactional email moved it to sending for good, so emails claimed
+-- by a run that died were never sent, and failed emails were never tried again.
+-- A claim is now a fifteen minute lease like a digest claim: emails whose lease
+-- ran out are claimed again, and a failed email goes back to pending until it has
+-- been tried five times.
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS email_claimed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS email_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS email_last_failed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_email_sending
+ON public.notifications(email_claimed_until) WHERE email_status = 'sending';
+
+-- Retry emails that failed or were left sending within the last day
+UPDATE public.notifications
+SET email_status = 'pending'
+WHERE email_status IN ('sending', 'failed')
+  AND created_at > NOW() - INTERVAL '1 day';
+
+-- Claims the oldest pending transactional emails, and emails whose claim expired,
+-- for fifteen minutes. Each claim counts as an attempt, so an email that keeps
+-- taking its run down is given up on like one that keeps failing. Notifications
+-- the recipient has opted out of (or that have waited over a day) are skipped.
+CREATE OR REPLACE FUNCTION public.claim_pending_notification_emails(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  notification_id UUID,
+  email TEXT,
+  username TEXT,
+  type TEXT,
+  title TEXT,
+  body TEXT,
+  link TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+BEGIN
+  UPDATE public.notifications n
+  SET email_status = 'skipped'
+  WHERE n.email_status = 'pending'
+    AND (n.created_at < NOW() - INTERVAL '1 day'
+      OR NOT public.notification_email_enabled(
+        (SELECT p FROM public.notification_preferences p WHERE p.user_id = n.user_id),
+        n.type
+      ));
+
+  UPDATE public.notifications n
+  SET email_status = 'failed',
+      email_claimed_until = NULL
+  WHERE n.email_status = 'sending'
+    AND COALESCE(n.email_claimed_until, '-infinity') < NOW()
+    AND (n.email_attempts >= max_attempts OR n.created_at < NOW() - INTERVAL '1 day');
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.notifications n
+    SET email_status = 'sending',
+        email_claimed_until = NOW() + INTERVAL '15 minutes',
+        email_attempts = n.email_attempts + 1
+    WHERE n.id IN (
+      SELECT due.id FROM public.notifications due
+      WHERE due.email_status = 'pending'
+        OR (due.email_status = 'sending' AND COALESCE(due.email_claimed_until, '-infinity') < NOW())
+      ORDER BY due.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*
+  )
+  SELECT c.id, u.email::TEXT, pr.username, c.type, c.title, c.body, c.link, c.created_at
+  FROM claimed c
+  JOIN auth.users u ON u.id = c.user_id
+  LEFT JOIN public.profiles pr ON pr.id = c.user_id
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Marks claimed emails as sent or failed. A failed email goes back to pending
+-- for the next run until it has used up its attempts.
+CREATE OR REPLACE FUNCTION public.mark_notification_emails(p_notification_ids UUID[], p_status TEXT)
+RETURNS void AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+BEGIN
+  UPDATE public.notifications
+  SET email_status = CASE
+        WHEN p_status = 'failed' AND email_attempts < max_attempts THEN 'pending'
+        ELSE p_status
+      END,
+      email_claimed_until = NULL,
+      emailed_at = CASE WHEN p_status = 'sent' THEN NOW() ELSE emailed_at END,
+      email_last_failed_at = CASE WHEN p_status = 'failed' THEN NOW() ELSE email_last_failed_at END
+  WHERE id = ANY(p_notification_ids);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
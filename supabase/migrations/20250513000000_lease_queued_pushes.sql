@@ -0,0 +1,99 @@
+-- Leased and retried pushes
+--
+-- Claiming a push moved it to sending for good, so pushes claimed by a call that
+-- died were never delivered, and failed pushes were never tried again. A claim is
+-- now a fifteen minute lease like an email claim: pushes whose lease ran out are
+-- claimed again, and a failed push goes back to pending until it has been tried
+-- five times. Pushes over a day old are no longer worth delivering.
+ALTER TABLE public.push_queue
+ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_failed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_push_queue_sending ON public.push_queue(claimed_until) WHERE status = 'sending';
+
+-- Retry pushes that failed or were left sending within the last day
+UPDATE public.push_queue
+SET status = 'pending'
+WHERE status IN ('sending', 'failed')
+  AND created_at > NOW() - INTERVAL '1 day';
+
+-- Claims pending pushes, and pushes whose claim expired, together with the
+-- recipient's devices. Each claim counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_pending_pushes(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  push_id UUID,
+  title TEXT,
+  body TEXT,
+  link TEXT,
+  tag TEXT,
+  subscriptions JSONB
+) AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+BEGIN
+  UPDATE public.push_queue q
+  SET status = 'failed',
+      claimed_until = NULL
+  WHERE q.status IN ('pending', 'sending')
+    AND COALESCE(q.claimed_until, '-infinity') < NOW()
+    AND (q.attempts >= max_attempts OR q.created_at < NOW() - INTERVAL '1 day');
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.push_queue q
+    SET status = 'sending',
+        claimed_until = NOW() + INTERVAL '15 minutes',
+        attempts = q.attempts + 1
+    WHERE q.id IN (
+      SELECT due.id FROM public.push_queue due
+      WHERE due.status = 'pending'
+        OR (due.status = 'sending' AND COALESCE(due.claimed_until, '-infinity') < NOW())
+      ORDER BY due.created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.*
+  )
+  SELECT c.id, c.title, c.body, c.link, c.tag,
+         COALESCE(JSONB_AGG(JSONB_BUILD_OBJECT(
+           'id', s.id,
+           'endpoint', s.endpoint,
+           'p256dh', s.p256dh,
+           'auth', s.auth
+         )) FILTER (WHERE s.id IS NOT NULL), '[]'::JSONB)
+  FROM claimed c
+  LEFT JOIN public.push_subscriptions s ON s.user_id = c.user_id
+  GROUP BY c.id, c.title, c.body, c.link, c.tag, c.created_at
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Records the outcome of a delivery run. Failed pushes go back to pending until
+-- they have used up their attempts. Subscriptions the push service reported as
+-- gone are deleted; delivered ones are marked as used.
+CREATE OR REPLACE FUNCTION public.complete_pushes(
+  p_sent_ids UUID[],
+  p_failed_ids UUID[],
+  p_used_subscription_ids UUID[],
+  p_expired_subscription_ids UUID[]
+)
+RETURNS void AS $$
+DECLARE
+  max_attempts CONSTANT INTEGER := 5;
+BEGIN
+  UPDATE public.push_queue SET status = 'sent', claimed_until = NULL WHERE id = ANY(p_sent_ids);
+  UPDATE public.push_queue
+  SET status = CASE WHEN attempts < max_attempts THEN 'pending' ELSE 'failed' END,
+      claimed_until = NULL,
+      last_failed_at = NOW()
+  WHERE id = ANY(p_failed_ids);
+  UPDATE public.push_subscriptions SET last_used_at = NOW() WHERE id = ANY(p_used_subscription_ids);
+  DELETE FROM public.push_subscriptions WHERE id = ANY(p_expired_subscription_ids);
+
+  -- Delivered pushes are only kept for a week
+  DELETE FROM public.push_queue WHERE status = 'sent' AND created_at < NOW() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
@@ -0,0 +1,54 @@
+-- Joint members can only be approved while their task is open
+--
+-- Approving a member holds their share in escrow, but approval did not check the
+-- task's state. Shares approved on a cancelled or expired task were never
+-- refunded, because the refund only runs when the task's state changes. The
+-- task row is now locked while approving, so it cannot be cancelled or expire
+-- half way, and members of tasks that are no longer open are not approved.
+CREATE OR REPLACE FUNCTION public.approve_joint_task_member(member_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_member public.joint_task_members%ROWTYPE;
+  v_task public.tasks%ROWTYPE;
+BEGIN
+  SELECT t.* INTO v_task
+  FROM public.tasks t
+  JOIN public.joint_task_members m ON m.task_id = t.id
+  WHERE m.id = approve_joint_task_member.member_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND OR v_task.creator_id IS DISTINCT FROM auth.uid() OR v_task.state <> 'open' THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.joint_task_members m
+  SET status = 'approved',
+      is_member_verified = FALSE,
+      is_doer_verified = FALSE,
+      is_member_rated = FALSE,
+      is_doer_rated = FALSE
+  WHERE m.id = approve_joint_task_member.member_id
+    AND m.status = 'pending'
+  RETURNING m.* INTO v_member;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM public.post_ledger_transaction(
+    'escrow_hold', v_member.task_id, 'Share held for ' || v_task.title,
+    public.ledger_user_account(v_member.user_id), public.ledger_member_escrow_account(v_member.id), v_member.reward
+  );
+
+  INSERT INTO public.joint_task_member_verification_secrets (member_id)
+  VALUES (v_member.id)
+  ON CONFLICT ON CONSTRAINT joint_task_member_verification_secrets_pkey
+  DO UPDATE SET secret = extensions.gen_random_bytes(32);
+
+  DELETE FROM public.joint_task_member_verification_attempts a
+  WHERE a.member_id = v_member.id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
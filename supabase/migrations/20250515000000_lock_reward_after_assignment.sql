@@ -0,0 +1,74 @@
+-- Rewards are fixed once a doer is assigned
+--
+-- A creator could still edit the reward of an assigned task, and the escrow gave
+-- the difference back, so the payout the doer accepted could be cut after the
+-- fact. Only draft and open tasks can change their reward now; that already held
+-- for disputed tasks.
+
+-- Same rules as before, with the disputed reward check widened to every state
+-- after open
+CREATE OR REPLACE FUNCTION public.enforce_task_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.state NOT IN ('draft', 'open') THEN
+      RAISE EXCEPTION 'New tasks must start as draft or open, not %', NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.state = OLD.state THEN
+    -- Assigning a doer moves an open task to assigned
+    IF OLD.doer_id IS NULL AND NEW.doer_id IS NOT NULL THEN
+      NEW.state := 'assigned';
+    END IF;
+
+    -- The first verification starts the verification phase, the second completes it
+    IF NEW.is_requestor_verified AND NEW.is_doer_verified AND OLD.state = 'awaiting_verification' THEN
+      NEW.state := 'completed';
+    ELSIF (NEW.is_requestor_verified OR NEW.is_doer_verified)
+      AND NOT (COALESCE(OLD.is_requestor_verified, FALSE) OR COALESCE(OLD.is_doer_verified, FALSE)) THEN
+      NEW.state := 'awaiting_verification';
+    END IF;
+  END IF;
+
+  -- The reward is agreed once a doer is assigned
+  IF TG_OP = 'UPDATE' AND OLD.state NOT IN ('draft', 'open')
+    AND COALESCE(NEW.reward, 0) <> COALESCE(OLD.reward, 0) THEN
+    RAISE EXCEPTION 'The reward cannot change once a doer is assigned'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.state = 'disputed' THEN
+    IF NEW.state <> OLD.state AND EXISTS (
+      SELECT 1 FROM public.task_disputes WHERE task_id = NEW.id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'This task is disputed and can only be settled by an admin'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.state <> OLD.state THEN
+    IF NOT public.task_state_transition_allowed(OLD.state, NEW.state) THEN
+      RAISE EXCEPTION 'Illegal task state transition from % to %', OLD.state, NEW.state
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'assigned' AND NEW.doer_id IS NULL THEN
+      RAISE EXCEPTION 'A task cannot be assigned without a doer'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.state = 'completed' AND NOT (NEW.is_requestor_verified AND NEW.is_doer_verified) THEN
+      RAISE EXCEPTION 'A task can only be completed once both parties have verified'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Keep the legacy status column in sync
+  NEW.status := CASE
+    WHEN NEW.state IN ('completed', 'cancelled', 'expired') THEN NEW.state
+    ELSE 'active'
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
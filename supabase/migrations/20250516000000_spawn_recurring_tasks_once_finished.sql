@@ -0,0 +1,116 @@
+-- Recurring tasks only repeat once the previous instance is finished
+--
+-- spawn_recurring_tasks posted the next instance as soon as the previous one was
+-- past its deadline, even while it was still assigned, being worked on, waiting
+-- for verification or disputed, so one series could have overlapping instances.
+-- The next instance is now only posted once the previous one is completed or has
+-- expired.
+
+-- Function to post the next instance of every recurring task that is completed or
+-- expired. The next deadline is one period after the previous one, moved forward
+-- until it is in the future, and the series ends once it would fall after
+-- recurrence_ends_at. Like handleCreateTask in the app, a creator with three active
+-- tasks is not given another; the instance is held and posted on a later run once a
+-- slot frees up. The same goes for a creator who cannot cover the reward.
+CREATE OR REPLACE FUNCTION public.spawn_recurring_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_task RECORD;
+  v_step INTERVAL;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_active_count INTEGER;
+  v_held_reason TEXT;
+  v_new_task_id UUID;
+  spawned_count INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT t.* FROM public.tasks t
+    JOIN public.profiles p ON p.id = t.creator_id
+    WHERE t.recurrence IS NOT NULL
+      AND t.removed_at IS NULL
+      AND p.suspended_at IS NULL
+      AND t.state IN ('completed', 'expired')
+      AND (t.recurrence_ends_at IS NULL OR t.recurrence_ends_at > NOW())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks n WHERE n.recurrence_parent_id = t.id
+      )
+    ORDER BY t.deadline
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    v_step := CASE v_task.recurrence
+      WHEN 'daily' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '7 days'
+      ELSE INTERVAL '1 month'
+    END;
+
+    v_deadline := v_task.deadline + v_step;
+    WHILE v_deadline <= NOW() LOOP
+      v_deadline := v_deadline + v_step;
+    END LOOP;
+
+    IF v_task.recurrence_ends_at IS NOT NULL AND v_deadline > v_task.recurrence_ends_at THEN
+      CONTINUE;
+    END IF;
+
+    v_held_reason := NULL;
+
+    SELECT COUNT(*) INTO v_active_count
+    FROM public.tasks
+    WHERE creator_id = v_task.creator_id
+      AND state IN ('draft', 'open', 'assigned', 'in_progress', 'awaiting_verification', 'disputed');
+
+    IF v_active_count >= 3 THEN
+      v_held_reason := 'You already have 3 active tasks. It will be posted once one of them is finished.';
+    ELSE
+      BEGIN
+        INSERT INTO public.tasks (
+          creator_id, title, description, location, latitude, longitude, reward, deadline,
+          task_type, category_id, tags, recurrence, recurrence_ends_at, recurrence_parent_id
+        )
+        VALUES (
+          v_task.creator_id, v_task.title, v_task.description, v_task.location,
+          v_task.latitude, v_task.longitude, v_task.reward, v_deadline,
+          v_task.task_type, v_task.category_id, v_task.tags,
+          v_task.recurrence, v_task.recurrence_ends_at, v_task.id
+        )
+        RETURNING id INTO v_new_task_id;
+      EXCEPTION
+        -- The escrow hold refuses a reward the creator cannot cover
+        WHEN check_violation THEN
+          v_held_reason := 'You don''t have enough points to fund its reward. It will be posted once you do.';
+      END;
+    END IF;
+
+    IF v_held_reason IS NOT NULL THEN
+      IF v_task.recurrence_held_at IS NULL THEN
+        UPDATE public.tasks SET recurrence_held_at = NOW() WHERE id = v_task.id;
+
+        PERFORM public.notify_user(
+          v_task.creator_id,
+          'task_recurrence_held',
+          'Next instance on hold: ' || v_task.title,
+          v_held_reason,
+          '/task',
+          v_task.id
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    PERFORM public.notify_user(
+      v_task.creator_id,
+      'task_recurred',
+      'Task posted again: ' || v_task.title,
+      'The next instance is due ' || TO_CHAR(v_deadline, 'FMDD Mon YYYY') || '.',
+      '/task',
+      v_new_task_id
+    );
+
+    spawned_count := spawned_count + 1;
+  END LOOP;
+
+  RETURN spawned_count;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
@@ -0,0 +1,176 @@
+-- Rating averages follow show_reputation
+--
+-- The privacy fix in 20250509000000 left user_ratings readable by everyone, and
+-- recompute_user_ratings still copied each user's averages onto their profile,
+-- so the reputation of users who hide it could be read from either place. Other
+-- users can now only read the user_ratings row of users who show their
+-- reputation, and the profile copies are zero for users who hide it. Admins read
+-- the real averages from user_ratings.
+
+-- Returns whether p_user_id shows their reputation. Profiles are looked up as
+-- definer so the user_ratings policy does not depend on who can read them.
+CREATE OR REPLACE FUNCTION private.shows_reputation(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((SELECT show_reputation FROM public.profiles WHERE id = p_user_id), false);
+$$ LANGUAGE sql
+STABLE
+SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Anyone can read user ratings" ON public.user_ratings;
+CREATE POLICY "User ratings are visible when their user shows their reputation"
+ON public.user_ratings FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR public.is_admin()
+  OR private.shows_reputation(user_id)
+);
+
+-- Same as before, except that the averages are only copied onto the profile of
+-- a user who shows their reputation
+CREATE OR REPLACE FUNCTION public.recompute_user_ratings(p_user_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_totals RECORD;
+BEGIN
+  SELECT
+    COALESCE(AVG(rating) FILTER (WHERE NOT is_for_creator), 0) AS doer_rating,
+    COUNT(*) FILTER (WHERE NOT is_for_creator) AS doer_count,
+    COALESCE(AVG(rating) FILTER (WHERE is_for_creator), 0) AS creator_rating,
+    COUNT(*) FILTER (WHERE is_for_creator) AS creator_count,
+    ROUND(AVG(punctuality), 2) AS punctuality,
+    ROUND(AVG(communication), 2) AS communication,
+    ROUND(AVG(quality), 2) AS quality,
+    ROUND(AVG(clarity), 2) AS clarity,
+    ROUND(AVG(fairness), 2) AS fairness,
+    COUNT(review) AS review_count
+  INTO v_totals
+  FROM public.ratings
+  WHERE rated_id = p_user_id;
+
+  INSERT INTO public.user_ratings (
+    user_id, doer_rating, creator_rating, rating_count_doer, rating_count_creator,
+    punctuality_rating, communication_rating, quality_rating, clarity_rating, fairness_rating,
+    review_count, updated_at
+  )
+  VALUES (
+    p_user_id, v_totals.doer_rating, v_totals.creator_rating, v_totals.doer_count, v_totals.creator_count,
+    v_totals.punctuality, v_totals.communication, v_totals.quality, v_totals.clarity, v_totals.fairness,
+    v_totals.review_count, NOW()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET doer_rating = EXCLUDED.doer_rating,
+      creator_rating = EXCLUDED.creator_rating,
+      rating_count_doer = EXCLUDED.rating_count_doer,
+      rating_count_creator = EXCLUDED.rating_count_creator,
+      punctuality_rating = EXCLUDED.punctuality_rating,
+      communication_rating = EXCLUDED.communication_rating,
+      quality_rating = EXCLUDED.quality_rating,
+      clarity_rating = EXCLUDED.clarity_rating,
+      fairness_rating = EXCLUDED.fairness_rating,
+      review_count = EXCLUDED.review_count,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.profiles
+  SET doer_rating = CASE WHEN show_reputation THEN v_totals.doer_rating ELSE 0 END,
+      requestor_rating = CASE WHEN show_reputation THEN v_totals.creator_rating ELSE 0 END
+  WHERE id = p_user_id
+    AND (doer_rating IS DISTINCT FROM CASE WHEN show_reputation THEN v_totals.doer_rating ELSE 0 END
+      OR requestor_rating IS DISTINCT FROM CASE WHEN show_reputation THEN v_totals.creator_rating ELSE 0 END);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+-- Trigger function to copy the averages onto the profile, or clear them, when a
+-- user changes whether they show their reputation
+CREATE OR REPLACE FUNCTION public.sync_profile_rating_visibility()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.show_reputation IS NOT DISTINCT FROM OLD.show_reputation THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.show_reputation THEN
+    SELECT ur.doer_rating, ur.creator_rating
+    INTO NEW.doer_rating, NEW.requestor_rating
+    FROM public.user_ratings ur
+    WHERE ur.user_id = NEW.id;
+
+    NEW.doer_rating := COALESCE(NEW.doer_rating, 0);
+    NEW.requestor_rating := COALESCE(NEW.requestor_rating, 0);
+  ELSE
+    NEW.doer_rating := 0;
+    NEW.requestor_rating := 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_profile_rating_visibility ON public.profiles;
+CREATE TRIGGER sync_profile_rating_visibility
+BEFORE UPDATE OF show_reputation ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_rating_visibility();
+
+UPDATE public.profiles
+SET doer_rating = 0,
+    requestor_rating = 0
+WHERE NOT show_reputation
+  AND (doer_rating <> 0 OR requestor_rating <> 0);
+
+-- Admins see the averages of every user, hidden or not
+CREATE OR REPLACE FUNCTION public.admin_search_users(
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT,
+  doer_rating NUMERIC,
+  requestor_rating NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE,
+  tasks_created BIGINT,
+  tasks_done BIGINT,
+  open_reports BIGINT
+) AS $$
+BEGIN
+  PERFORM public.require_admin();
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.role,
+    p.suspended_at,
+    p.suspension_reason,
+    COALESCE(ur.doer_rating, 0)::NUMERIC,
+    COALESCE(ur.creator_rating, 0)::NUMERIC,
+    p.created_at,
+    (SELECT COUNT(*) FROM public.tasks t WHERE t.creator_id = p.id),
+    (SELECT COUNT(*) FROM public.tasks t WHERE t.doer_id = p.id AND t.state = 'completed'),
+    (SELECT COUNT(*) FROM public.reports r WHERE r.target_type = 'profile' AND r.target_id = p.id AND r.status = 'open')
+  FROM public.profiles p
+  LEFT JOIN public.user_ratings ur ON ur.user_id = p.id
+  WHERE NULLIF(TRIM(COALESCE(p_query, '')), '') IS NULL
+    OR p.username ILIKE '%' || TRIM(p_query) || '%'
+    OR p.full_name ILIKE '%' || TRIM(p_query) || '%'
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 100)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER;
+
+-- Grant execution privileges
+GRANT EXECUTE ON FUNCTION private.shows_reputation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.shows_reputation(UUID) TO service_role;